@@ -0,0 +1,53 @@
+/**
+ * 👷 ANALYZER WORKER - Entry Point
+ * ================================
+ * Polls the analyzer_runs queue and executes runs.
+ *
+ * Usage:
+ *   npm run worker            # poll forever
+ *   npm run worker -- --once  # drain the queue, then exit
+ *
+ * Locally, point it at the Supabase stack from `supabase start`
+ * (its Postgres has the migrations applied) via .env.local:
+ *   NEXT_PUBLIC_SUPABASE_URL=http://127.0.0.1:54321
+ *   SUPABASE_SERVICE_ROLE_KEY=<service_role key printed by supabase start>
+ *   OPENAI_API_KEY=sk-...
+ */
+
+import { createClient } from '@supabase/supabase-js'
+import { log } from '@/lib/utils/logger'
+import { runWorker } from '@/lib/analyzers/worker'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+if (!supabaseUrl || !serviceRoleKey) {
+  log.error('❌ NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set')
+  process.exit(1)
+}
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { autoRefreshToken: false, persistSession: false },
+})
+
+// Finish the current run, then stop
+const controller = new AbortController()
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    log.info(`👷 Received ${signal}, stopping after the current run...`)
+    controller.abort()
+  })
+}
+
+runWorker({
+  supabase,
+  workerId: process.env.ANALYZER_WORKER_ID || undefined,
+  pollIntervalMs: Number(process.env.ANALYZER_POLL_INTERVAL_MS) || undefined,
+  once: process.argv.includes('--once'),
+  signal: controller.signal,
+})
+  .then(() => process.exit(0))
+  .catch(error => {
+    log.error('👷 Worker crashed', error)
+    process.exit(1)
+  })
@@ -0,0 +1,196 @@
+/**
+ * 🕸️ CRAWLER FIXTURE RUN - Entry Point
+ * ====================================
+ * Crawls the fixture site in fixtures/site/ from a local HTTP server.
+ *
+ * No network: the server listens on a random 127.0.0.1 port, serves
+ * the pages, a sitemap and a robots.txt, and /gallery hangs for a few
+ * seconds to stand in for a slow page. Crawls run against it check the
+ * ranking and page budget, the time budget, robots.txt, the structured
+ * metadata, the brand colors and fonts from /styles.css, and that a
+ * loopback address is refused unless the crawl allows it. The script
+ * exits non-zero if any check fails.
+ *
+ * Usage:
+ *   npm run crawler:fixture
+ */
+
+import { createServer } from 'http'
+import { existsSync, readFileSync } from 'fs'
+import type { AddressInfo } from 'net'
+import path from 'path'
+import { log } from '@/lib/utils/logger'
+import { crawlWebsite } from '@/lib/analyzers/web-scraper/crawler'
+
+const SITE_DIR = path.join(process.cwd(), 'fixtures', 'site')
+
+/** How long /gallery takes to answer */
+const SLOW_PAGE_DELAY = 5000
+
+// ============================================
+// 🖥️ FIXTURE SERVER
+// ============================================
+
+/** Content-Type per fixture file extension */
+const CONTENT_TYPES: Record<string, string> = {
+  '.xml': 'application/xml',
+  '.txt': 'text/plain',
+  '.css': 'text/css; charset=utf-8',
+  '.html': 'text/html; charset=utf-8',
+}
+
+/**
+ * Serve fixtures/site: "/" is index.html, "/about" is about.html,
+ * and {{origin}} in the sitemap becomes the server's own origin
+ */
+function startServer(): Promise<{ origin: string; close: () => void }> {
+  const timers = new Set<NodeJS.Timeout>()
+
+  const server = createServer((req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost')
+
+    if (pathname === '/gallery') {
+      const timer = setTimeout(() => res.end('<html><body>Gallery</body></html>'), SLOW_PAGE_DELAY)
+      timers.add(timer)
+      return
+    }
+
+    const file = pathname === '/'
+      ? 'index.html'
+      : /\.(xml|txt|css)$/.test(pathname) ? pathname.slice(1) : `${pathname.slice(1)}.html`
+    const filePath = path.join(SITE_DIR, file)
+
+    if (!filePath.startsWith(SITE_DIR) || !existsSync(filePath)) {
+      res.writeHead(404).end('Not found')
+      return
+    }
+
+    const body = readFileSync(filePath, 'utf8').replaceAll('{{origin}}', origin)
+    res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file)] })
+    res.end(body)
+  })
+
+  let origin = ''
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+      resolve({
+        origin,
+        close: () => {
+          timers.forEach(clearTimeout)
+          server.closeAllConnections()
+          server.close()
+        },
+      })
+    })
+  })
+}
+
+// ============================================
+// ✅ CHECKS
+// ============================================
+
+let failures = 0
+
+function check(name: string, passed: boolean, detail?: unknown) {
+  if (passed) {
+    log.success(name)
+  } else {
+    failures++
+    log.error(`❌ ${name}`, undefined, { detail })
+  }
+}
+
+async function main(): Promise<number> {
+  const { origin, close } = await startServer()
+  log.info('🖥️ Fixture site running', { origin })
+
+  try {
+    // The fixture server is on loopback - refused unless allowed
+    const refused = await crawlWebsite(origin)
+    check(
+      'Loopback address refused',
+      !refused.success && refused.refused === true && /private address/.test(refused.error ?? ''),
+      refused.error
+    )
+
+    // Ranking + page budget
+    const result = await crawlWebsite(origin, { maxPages: 5, allowPrivateNetwork: true })
+    const paths = result.pages.map(page => new URL(page.url).pathname)
+    const labels = result.pages.map(page => page.label)
+
+    check('Crawl succeeded', result.success, result.error)
+    check('Home page comes first', labels[0] === 'home', labels)
+    check('Page budget respected', result.pages.length === 5, paths)
+    check(
+      'Relevant pages read in rank order',
+      paths.slice(1).join(' ') === '/about /boxes /pricing /contact',
+      paths
+    )
+    check('Sitemap-only page found', paths.includes('/pricing'), paths)
+    check(
+      'Blog, legal and file links skipped',
+      !paths.some(p => p.startsWith('/blog') || p === '/privacy' || p.endsWith('.pdf')),
+      paths
+    )
+    check('Social links merged across pages', !!result.socialUrls.instagram && !!result.socialUrls.tiktok, result.socialUrls)
+    check('Content is labeled per page', result.content.includes('### Pricing — /pricing'), result.content.slice(0, 200))
+
+    // Structured metadata - JSON-LD on the home page, contact links on /contact
+    const { metadata } = result
+    check(
+      'JSON-LD organization read',
+      metadata.name === 'Sprout Kitchen' && metadata.foundedYear === 2024 && metadata.location === 'Portland, OR',
+      metadata
+    )
+    check('Logo from JSON-LD', metadata.logoUrl === `${origin}/images/logo.png`, metadata.logoUrl)
+    check('Open Graph image and favicon read', metadata.ogImageUrl === `${origin}/images/share.jpg` && metadata.faviconUrl === `${origin}/favicon.ico`, metadata)
+    check(
+      'Contact details merged from /contact',
+      metadata.email === 'hello@sprout-kitchen.example' && metadata.phone === '+1-503-555-0142',
+      metadata
+    )
+    check('sameAs profiles added to social links', !!result.socialUrls.facebook, result.socialUrls)
+
+    // Visual identity - theme-color, /styles.css and the Google Fonts link
+    const { colors, fonts } = result.visualIdentity
+    const hexes = colors.map(color => color.hex)
+    check('Brand color leads the palette', hexes[0] === '#2f855a', colors)
+    check(
+      'Accent and background colors found, white left out',
+      hexes.includes('#f6ad55') && hexes.includes('#fdf6e3') && !hexes.includes('#ffffff'),
+      colors
+    )
+    check(
+      'Heading and body fonts from the stylesheet',
+      fonts.some(f => f.family === 'Fraunces' && f.role === 'heading' && f.source === 'google_fonts') &&
+        fonts.some(f => f.family === 'Nunito Sans' && f.role === 'body'),
+      fonts
+    )
+    check('Icon fonts left out', !fonts.some(f => /awesome/i.test(f.family)), fonts)
+
+    // Time budget - /gallery is the only page left and never answers in time
+    const started = Date.now()
+    const timed = await crawlWebsite(origin, { maxPages: 10, timeBudgetMs: 2000, allowPrivateNetwork: true })
+    const elapsed = Date.now() - started
+
+    check('Time budget respected', elapsed < 3000, { elapsed })
+    check(
+      'Slow page left out',
+      timed.success && !timed.pages.some(page => page.url.endsWith('/gallery')),
+      timed.pages.map(page => page.url)
+    )
+    check(
+      'Page disallowed by robots.txt left out',
+      timed.success && !timed.pages.some(page => page.url.endsWith('/about/team')),
+      timed.pages.map(page => page.url)
+    )
+  } finally {
+    close()
+  }
+
+  return failures > 0 ? 1 : 0
+}
+
+main().then(code => process.exit(code))
@@ -0,0 +1,157 @@
+/**
+ * 🖨️ FIXTURE EXPORT - Entry Point
+ * ===============================
+ * Exports the sample project in every format, so the layouts can be
+ * checked without a database or the app running, and checks that the
+ * JSON file reads back into the same project.
+ *
+ * The sample project from fixtures/ gets every analyzer's output first
+ * (replayed from fixtures/llm/ through the mock provider, as in
+ * analyzers:offline), so every section is filled in. Also checks that
+ * share links' hidden parts are left out. Exits non-zero if any check
+ * fails.
+ *
+ * Usage:
+ *   npm run export:fixture              # writes to the OS temp dir
+ *   npm run export:fixture -- out/      # or wherever you like
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'fs'
+import os from 'os'
+import path from 'path'
+import { PDFDocument } from 'pdf-lib'
+import { log } from '@/lib/utils/logger'
+import { MockProvider } from '@/lib/llm'
+import type { BusinessProject } from '@/lib/types'
+import type { AnalyzerType, ScrapedData } from '@/lib/analyzers/types'
+import { ANALYZER_DEFINITIONS } from '@/lib/analyzers/definitions'
+import { runAnalyzer } from '@/lib/analyzers/runner'
+import { analyzerProvenance, applyWritePolicy, userProvenance } from '@/lib/analyzers/provenance'
+import { buildBrandDocument } from '@/lib/export/document'
+import { renderBrandPdf } from '@/lib/export/pdf'
+import { renderBrandDocx } from '@/lib/export/docx'
+import { renderBrandMarkdown } from '@/lib/export/markdown'
+import { NOT_EXPORTED, getFoundationFields, readBrandFoundation, toBrandFoundation } from '@/lib/export/json'
+
+const FIXTURES_DIR = path.join(process.cwd(), 'fixtures')
+
+function readJson<T>(file: string): T {
+  return JSON.parse(readFileSync(path.join(FIXTURES_DIR, file), 'utf8')) as T
+}
+
+// ============================================
+// ✅ CHECKS
+// ============================================
+
+let failures = 0
+
+function check(name: string, passed: boolean, detail?: unknown) {
+  if (passed) {
+    log.success(name)
+  } else {
+    failures++
+    log.error(`❌ ${name}`, undefined, { detail })
+  }
+}
+
+async function main(): Promise<number> {
+  let project = readJson<BusinessProject>('sample-project.json')
+  const scrapedData = readJson<ScrapedData>('sample-scrape.json')
+  const llm = { provider: new MockProvider(), model: 'mock' }
+
+  project = { ...project, field_provenance: userProvenance(Object.keys(project)) }
+
+  // Fill in the AI outputs, in the order the pipeline would
+  for (const type of Object.keys(ANALYZER_DEFINITIONS) as AnalyzerType[]) {
+    const definition = ANALYZER_DEFINITIONS[type]
+    const input = type === 'web_scraper'
+      ? { project, scrapedData }
+      : await definition.selectInput(project)
+
+    const result = await runAnalyzer(definition, input, llm)
+    const { allowed } = applyWritePolicy(project, result.fieldsToUpdate)
+    project = {
+      ...project,
+      ...allowed,
+      field_provenance: {
+        ...project.field_provenance,
+        ...analyzerProvenance(type, `fixture-${type}`, result.parsedFields.confidence ?? null, Object.keys(allowed)),
+      },
+    }
+  }
+
+  const outDir = process.argv[2] ?? path.join(os.tmpdir(), 'brand-foundation-export')
+  mkdirSync(outDir, { recursive: true })
+
+  // Documents
+  const doc = buildBrandDocument(project)
+  const pdf = await renderBrandPdf(doc)
+  const docx = await renderBrandDocx(doc)
+  const markdown = renderBrandMarkdown(doc)
+  const foundation = toBrandFoundation(project)
+
+  writeFileSync(path.join(outDir, 'sample.pdf'), pdf)
+  writeFileSync(path.join(outDir, 'sample.docx'), docx)
+  writeFileSync(path.join(outDir, 'sample.md'), markdown)
+  writeFileSync(path.join(outDir, 'sample.json'), JSON.stringify(foundation, null, 2))
+  log.info('🖨️ Exports written', { outDir, sections: doc.sections.map(section => section.title) })
+
+  const pages = (await PDFDocument.load(pdf)).getPageCount()
+  check('PDF renders', pages > 1, { pages })
+  check('DOCX is a zip package', Buffer.from(docx).subarray(0, 2).toString() === 'PK', docx.length)
+  check(
+    'Markdown has every section',
+    doc.sections.every(section => markdown.includes(`## ${section.title}`)),
+    doc.sections.map(section => section.title)
+  )
+
+  // Share links leave out the parts the owner hid
+  const shared = renderBrandMarkdown(buildBrandDocument(project, { hidden: ['risks', 'weaknesses'] }))
+  check(
+    'Hidden parts left out',
+    !shared.includes('## Risks') && !shared.includes('### Weaknesses') && shared.includes('### Strengths'),
+    doc.sections.map(section => section.id)
+  )
+
+  // JSON covers every column, and reads back the same
+  const exported = getFoundationFields()
+  const uncovered = Object.keys(project).filter(field => !(field in exported) && !NOT_EXPORTED.includes(field))
+  check('JSON covers every project column', uncovered.length === 0, uncovered)
+
+  const read = readBrandFoundation(JSON.parse(JSON.stringify(foundation)))
+  check('JSON reads back', read.ok, !read.ok && read.error)
+
+  if (read.ok) {
+    const values = project as unknown as Record<string, unknown>
+    const changed = Object.keys(exported).filter(field =>
+      JSON.stringify(read.fields[field] ?? null) !== JSON.stringify(values[field] ?? null)
+    )
+    check('Round trip keeps every value', changed.length === 0, changed)
+    check(
+      'Provenance kept without run ids',
+      read.provenance.ai_summary?.source === 'synthesis' && read.provenance.ai_summary.run_id === null,
+      read.provenance.ai_summary
+    )
+  }
+
+  const wrongKind = readBrandFoundation({
+    ...foundation,
+    buckets: { ...foundation.buckets, core_idea: { problem_urgency: 'very' } },
+  })
+  check(
+    'Wrongly typed value refused',
+    !wrongKind.ok && wrongKind.error.includes('buckets.core_idea.problem_urgency'),
+    wrongKind
+  )
+  check('Newer version refused', !readBrandFoundation({ ...foundation, version: 99 }).ok)
+  check('Other JSON refused', !readBrandFoundation({ hello: 'world' }).ok)
+
+  return failures > 0 ? 1 : 0
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    log.error('❌ Export failed', error)
+    process.exit(1)
+  })
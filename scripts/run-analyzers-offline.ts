@@ -0,0 +1,78 @@
+/**
+ * 🧪 OFFLINE ANALYZER RUN - Entry Point
+ * =====================================
+ * Runs every analyzer end to end against the mock LLM provider.
+ *
+ * No network, no database: each analyzer gets the sample project from
+ * fixtures/, its Phase 1 and Phase 2 responses are replayed from
+ * fixtures/llm/<analyzer>.json, and the columns it would write (after
+ * the write policy - see provenance.ts) are printed instead of saved.
+ *
+ * Usage:
+ *   npm run analyzers:offline              # every analyzer
+ *   npm run analyzers:offline -- clarity   # just one
+ *
+ * To refresh the fixtures from real responses, run the app or worker
+ * with LLM_RECORD_FIXTURES=true.
+ */
+
+import { readFileSync } from 'fs'
+import path from 'path'
+import { log } from '@/lib/utils/logger'
+import { MockProvider } from '@/lib/llm'
+import type { BusinessProject } from '@/lib/types'
+import type { AnalyzerType, ScrapedData } from '@/lib/analyzers/types'
+import { ANALYZER_DEFINITIONS } from '@/lib/analyzers/definitions'
+import { parseAnalyzerSlug, runAnalyzer } from '@/lib/analyzers/runner'
+import { applyWritePolicy } from '@/lib/analyzers/provenance'
+
+const FIXTURES_DIR = path.join(process.cwd(), 'fixtures')
+
+function readJson<T>(file: string): T {
+  return JSON.parse(readFileSync(path.join(FIXTURES_DIR, file), 'utf8')) as T
+}
+
+async function main(): Promise<number> {
+  const project = readJson<BusinessProject>('sample-project.json')
+  const scrapedData = readJson<ScrapedData>('sample-scrape.json')
+  const llm = { provider: new MockProvider(), model: 'mock' }
+
+  const requested = process.argv.slice(2)
+  const types = requested.length > 0
+    ? requested.map(slug => parseAnalyzerSlug(slug))
+    : (Object.keys(ANALYZER_DEFINITIONS) as AnalyzerType[])
+
+  if (types.some(type => !type)) {
+    log.error(`❌ Unknown analyzer in: ${requested.join(', ')}`)
+    return 1
+  }
+
+  let failures = 0
+
+  for (const type of types as AnalyzerType[]) {
+    const definition = ANALYZER_DEFINITIONS[type]
+
+    try {
+      // The web scraper's own selectInput would fetch the site
+      const input = type === 'web_scraper'
+        ? { project, scrapedData }
+        : await definition.selectInput(project)
+
+      const result = await runAnalyzer(definition, input, llm)
+      const { allowed, skipped } = applyWritePolicy(project, result.fieldsToUpdate)
+
+      log.success(`${type} wrote ${Object.keys(allowed).length} field(s)`, {
+        fields: allowed,
+        confidence: result.parsedFields.confidence,
+        ...(skipped.length > 0 && { keptUserValues: skipped }),
+      })
+    } catch (error) {
+      failures++
+      log.error(`${type} failed`, error)
+    }
+  }
+
+  return failures > 0 ? 1 : 0
+}
+
+main().then(code => process.exit(code))
@@ -0,0 +1,84 @@
+/**
+ * 🤖 ANALYZER RUN API
+ * ===================
+ * POST /api/analyzers/{web-scraper|clarity|narrative|voice|synthesis|market|model|risk}
+ *
+ * Runs a single analyzer for a project via the shared runner.
+ *
+ * Request body:
+ *   { projectId: string, runId?: string }
+ *
+ * Response:
+ *   { success: boolean, runId: string, analyzerType, status, ... }
+ *
+ * The runner:
+ * 1. Fetches the project and checks the analyzer's inputs
+ * 2. Marks the run as "running" (creating it if needed)
+ * 3. Runs AI analysis (Phase 1 + Phase 2)
+ * 4. Updates the project with results
+ * 5. Marks the run as "completed" (or schedules a retry)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { log } from '@/lib/utils/logger'
+import { executeAnalyzerRun, parseAnalyzerSlug } from '@/lib/analyzers/runner'
+import type { RunAnalyzerRequest } from '@/lib/analyzers/types'
+
+// ============================================
+// 🚀 POST HANDLER
+// ============================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { type: string } }
+) {
+  const type = parseAnalyzerSlug(params.type)
+
+  if (!type) {
+    log.warn('🤖 [API] Unknown analyzer', { slug: params.type })
+    return NextResponse.json(
+      { success: false, error: `Unknown analyzer: ${params.type}` },
+      { status: 404 }
+    )
+  }
+
+  log.info(`🤖 [API] ${type} request received`)
+
+  // Get Supabase client
+  const supabase = await createServerClient()
+
+  // Verify user is authenticated
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    log.warn('🤖 [API] Unauthorized - no session')
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  // Parse request body
+  let body: Partial<RunAnalyzerRequest>
+  try {
+    body = (await request.json()) as Partial<RunAnalyzerRequest>
+  } catch {
+    log.warn('🤖 [API] Malformed request body')
+    return NextResponse.json(
+      { success: false, error: 'Request body must be JSON' },
+      { status: 400 }
+    )
+  }
+  const { projectId, runId } = body
+
+  if (!projectId) {
+    log.warn('🤖 [API] Missing projectId')
+    return NextResponse.json(
+      { success: false, error: 'Missing projectId' },
+      { status: 400 }
+    )
+  }
+
+  const result = await executeAnalyzerRun({ supabase, type, projectId, runId })
+  return NextResponse.json(result.body, { status: result.status })
+}
@@ -0,0 +1,40 @@
+/**
+ * ⏪ RESTORE RUN API
+ * ==================
+ * POST /api/analyzers/runs/{runId}/restore
+ *
+ * Writes an earlier run's outputs back onto its project and records
+ * the restore as a new run (see lib/analyzers/restore.ts).
+ *
+ * Response:
+ *   { success: boolean, runId: string, restoredFromRunId: string, fields: string[] }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { log } from '@/lib/utils/logger'
+import { restoreAnalyzerRun } from '@/lib/analyzers/restore'
+
+// ============================================
+// 🚀 POST HANDLER
+// ============================================
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: { runId: string } }
+) {
+  log.info('⏪ [API] Restore request received', { runId: params.runId })
+
+  const supabase = await createServerClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json(
+      { success: false, runId: '', restoredFromRunId: params.runId, fields: [], error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  const result = await restoreAnalyzerRun({ supabase, runId: params.runId })
+  return NextResponse.json(result.body, { status: result.status })
+}
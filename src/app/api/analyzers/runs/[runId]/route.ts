@@ -0,0 +1,58 @@
+/**
+ * 🗂️ ANALYZER RUN API
+ * ===================
+ * GET /api/analyzers/runs/{runId}
+ *
+ * Fetches a single run with its full analysis (raw_analysis,
+ * parsed_fields, output_fields) - what the hub's history view diffs.
+ *
+ * Response:
+ *   { success: boolean, run: AnalyzerRun }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { log } from '@/lib/utils/logger'
+
+// ============================================
+// 📥 GET HANDLER
+// ============================================
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { runId: string } }
+) {
+  try {
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // RLS limits this to the user's own projects
+    const { data: run, error } = await supabase
+      .from('analyzer_runs')
+      .select('*')
+      .eq('id', params.runId)
+      .single()
+
+    if (error || !run) {
+      return NextResponse.json(
+        { success: false, error: 'Run not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, run })
+  } catch (error) {
+    log.error('🗂️ [API] Failed to fetch run', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch run' },
+      { status: 500 }
+    )
+  }
+}
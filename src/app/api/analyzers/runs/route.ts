@@ -0,0 +1,102 @@
+/**
+ * 🗂️ ANALYZER RUN HISTORY API
+ * ===========================
+ * GET /api/analyzers/runs?projectId=xxx&type=clarity
+ *
+ * Lists a project's analyzer runs, newest first. Every run is kept, so
+ * this is the full history - pass `type` to narrow it to one analyzer.
+ *
+ * Response:
+ *   { success: boolean, runs: AnalyzerRunSummary[] }
+ *
+ * Summaries leave out the analysis itself - fetch a run with
+ * GET /api/analyzers/runs/{runId} to compare or restore it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { log } from '@/lib/utils/logger'
+import { parseAnalyzerSlug } from '@/lib/analyzers/runner'
+import type { ListAnalyzerRunsResponse } from '@/lib/analyzers/types'
+
+/** Everything but the large output columns */
+const SUMMARY_COLUMNS = [
+  'id',
+  'project_id',
+  'analyzer_type',
+  'status',
+  'trigger_reason',
+  'confidence_score',
+  'restored_from_run_id',
+  'skipped_fields',
+  'error_message',
+  'retry_count',
+  'next_attempt_at',
+  'locked_by',
+  'lease_expires_at',
+  'stale_at',
+  'started_at',
+  'completed_at',
+  'created_at',
+].join(', ')
+
+// ============================================
+// 📥 GET HANDLER
+// ============================================
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const projectId = searchParams.get('projectId')
+  const typeParam = searchParams.get('type')
+
+  if (!projectId) {
+    return NextResponse.json(
+      { success: false, runs: [], error: 'Missing projectId' },
+      { status: 400 }
+    )
+  }
+
+  const type = typeParam ? parseAnalyzerSlug(typeParam) : null
+  if (typeParam && !type) {
+    return NextResponse.json(
+      { success: false, runs: [], error: `Unknown analyzer: ${typeParam}` },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, runs: [], error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // RLS limits this to the user's own projects
+    let query = supabase
+      .from('analyzer_runs')
+      .select(SUMMARY_COLUMNS)
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false })
+
+    if (type) query = query.eq('analyzer_type', type)
+
+    const { data: runs, error } = await query
+    if (error) throw error
+
+    const response: ListAnalyzerRunsResponse = {
+      success: true,
+      runs: (runs || []) as unknown as ListAnalyzerRunsResponse['runs'],
+    }
+    return NextResponse.json(response)
+  } catch (error) {
+    log.error('🗂️ [API] Failed to list runs', error)
+    return NextResponse.json(
+      { success: false, runs: [], error: 'Failed to list runs' },
+      { status: 500 }
+    )
+  }
+}
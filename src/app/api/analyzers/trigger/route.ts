@@ -4,19 +4,21 @@
  * POST /api/analyzers/trigger
  *
  * Evaluates which analyzers should run for a project
- * and triggers them asynchronously.
+ * and queues them for the analyzer worker.
  *
  * Request body:
- *   { projectId: string, analyzerType?: string, force?: boolean }
+ *   { projectId: string, analyzerType?: string, force?: boolean, changedFields?: string[] }
  *
  * Response:
- *   { success: boolean, triggered: string[], message: string }
+ *   { success: boolean, triggered: string[], stale?: string[], message: string }
  *
  * This endpoint:
- * 1. Fetches the project and existing analyzer runs
- * 2. Evaluates trigger conditions
- * 3. Creates pending run records
- * 4. Kicks off analyzers asynchronously
+ * 1. Fetches the project and marks runs whose inputs changed as stale
+ *    (with changedFields it stops there, after re-queueing them)
+ * 2. Fetches existing analyzer runs and evaluates trigger conditions
+ * 3. Enqueues pending runs in analyzer_runs
+ *
+ * The worker (npm run worker) claims and executes queued runs.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
@@ -24,22 +26,15 @@ import { createServerClient } from '@/lib/supabase/server'
 import { log } from '@/lib/utils/logger'
 import { evaluateTriggers } from '@/lib/analyzers/triggers'
 import { ANALYZER_REGISTRY } from '@/lib/analyzers/registry'
+import { getLatestRun } from '@/lib/analyzers/graph'
+import { loadProject } from '@/lib/analyzers/runner'
+import { enqueueRun } from '@/lib/analyzers/queue'
+import { refreshStaleAnalyzers } from '@/lib/analyzers/scheduler'
 import type {
   AnalyzerType,
   TriggerAnalyzersRequest,
   TriggerAnalyzersResponse,
 } from '@/lib/analyzers/types'
-import type { BusinessProject } from '@/lib/types'
-
-// ============================================
-// 📋 CONFIG
-// ============================================
-
-/** Base URL for analyzer API calls - use request URL for self-reference */
-function getBaseUrl(request: NextRequest): string {
-  const url = new URL(request.url)
-  return `${url.protocol}//${url.host}`
-}
 
 // ============================================
 // 🚀 POST HANDLER
@@ -51,7 +46,7 @@ export async function POST(request: NextRequest) {
   try {
     // Parse request body
     const body = (await request.json()) as TriggerAnalyzersRequest
-    const { projectId, analyzerType, force = false } = body
+    const { projectId, analyzerType, force = false, changedFields } = body
 
     if (!projectId) {
       log.warn('🎯 [API] Missing projectId')
@@ -61,7 +56,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    log.debug('🎯 [API] Request params', { projectId, analyzerType, force })
+    log.debug('🎯 [API] Request params', { projectId, analyzerType, force, changedFields })
 
     // Get Supabase client
     const supabase = await createServerClient()
@@ -77,13 +72,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Fetch the project
-    const { data: project, error: projectError } = await supabase
-      .from('business_projects')
-      .select('*')
-      .eq('id', projectId)
-      .single()
+    const project = await loadProject(supabase, projectId)
 
-    if (projectError || !project) {
+    if (!project) {
       log.warn('🎯 [API] Project not found', { projectId })
       return NextResponse.json(
         { success: false, triggered: [], message: 'Project not found', error: 'Project not found' },
@@ -91,6 +82,21 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Mark runs whose inputs changed as stale (and re-queue auto-trigger ones)
+    const { stale, queued } = await refreshStaleAnalyzers(supabase, project, changedFields)
+
+    if (changedFields) {
+      // A save, not a request to run anything new
+      const names = queued.map(t => ANALYZER_REGISTRY[t].name).join(', ')
+      const response: TriggerAnalyzersResponse = {
+        success: true,
+        triggered: queued,
+        stale,
+        message: queued.length > 0 ? `🔄 Re-queued: ${names}` : 'No analyzers need to re-run',
+      }
+      return NextResponse.json(response)
+    }
+
     // Fetch existing analyzer runs
     const { data: existingRuns, error: runsError } = await supabase
       .from('analyzer_runs')
@@ -107,16 +113,17 @@ export async function POST(request: NextRequest) {
 
     if (analyzerType) {
       // Specific analyzer requested
-      const config = ANALYZER_REGISTRY[analyzerType as AnalyzerType]
-      if (!config) {
+      // Own keys only - 'constructor' or 'toString' aren't analyzers
+      if (!Object.hasOwn(ANALYZER_REGISTRY, analyzerType)) {
         return NextResponse.json(
           { success: false, triggered: [], message: `Unknown analyzer: ${analyzerType}`, error: 'Unknown analyzer' },
           { status: 400 }
         )
       }
+      const config = ANALYZER_REGISTRY[analyzerType as AnalyzerType]
 
       // Check if already running (unless force)
-      const existingRun = existingRuns?.find(r => r.analyzer_type === analyzerType)
+      const existingRun = getLatestRun(existingRuns || [], analyzerType as AnalyzerType)
       if (!force && (existingRun?.status === 'pending' || existingRun?.status === 'running')) {
         return NextResponse.json({
           success: true,
@@ -126,7 +133,7 @@ export async function POST(request: NextRequest) {
       }
 
       // Check trigger condition
-      const shouldRun = force || config.shouldTrigger(project as BusinessProject, existingRuns || [])
+      const shouldRun = force || config.shouldTrigger(project, existingRuns || [])
       if (shouldRun) {
         toTrigger.push(analyzerType as AnalyzerType)
       } else {
@@ -138,7 +145,7 @@ export async function POST(request: NextRequest) {
       }
     } else {
       // Auto-detect which analyzers to trigger
-      const triggerResult = evaluateTriggers(project as BusinessProject, existingRuns || [])
+      const triggerResult = evaluateTriggers(project, existingRuns || [])
       toTrigger = triggerResult.toTrigger
     }
 
@@ -151,57 +158,37 @@ export async function POST(request: NextRequest) {
       })
     }
 
-    // Create pending run records and trigger analyzers
+    // Enqueue pending runs
     const triggered: AnalyzerType[] = []
 
     for (const type of toTrigger) {
       const config = ANALYZER_REGISTRY[type]
 
       try {
-        // Check if there's an existing run to clean up first
-        const existingRun = existingRuns?.find(r => r.analyzer_type === type)
-        if (existingRun && force) {
-          // Delete the old run if forcing
+        // Runs are history - a forced re-run adds a new one. Only a run
+        // still waiting in the queue is retired, so it doesn't run twice.
+        const existingRun = getLatestRun(existingRuns || [], type)
+        if (existingRun?.status === 'pending' && force) {
           await supabase
             .from('analyzer_runs')
-            .delete()
+            .update({
+              status: 'failed',
+              error_message: 'Superseded by a newer run',
+              next_attempt_at: null,
+              completed_at: new Date().toISOString(),
+            })
             .eq('id', existingRun.id)
         }
 
-        // Create new pending run
-        const { data: run, error: createError } = await supabase
-          .from('analyzer_runs')
-          .insert({
-            project_id: projectId,
-            analyzer_type: type,
-            status: 'pending',
-            trigger_reason: analyzerType ? 'manual' : 'auto',
-            created_at: new Date().toISOString(),
-          })
-          .select('id')
-          .single()
-
-        if (createError) {
-          log.error(`🎯 [API] Failed to create run for ${type}`, createError)
-          continue
-        }
-
-        log.info(`🎯 [API] Created pending run: ${config.icon} ${config.name}`, { runId: run.id })
-
-        // Trigger the analyzer asynchronously (fire and forget)
-        const baseUrl = getBaseUrl(request)
-        fetch(`${baseUrl}/api/analyzers/${type.replace('_', '-')}`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            // Forward auth headers
-            'Cookie': request.headers.get('cookie') || '',
-          },
-          body: JSON.stringify({ projectId, runId: run.id }),
-        }).catch(err => {
-          log.error(`🎯 [API] Failed to trigger ${type}`, err)
+        // Queue a pending run for the worker
+        const runId = await enqueueRun(supabase, {
+          projectId,
+          type,
+          triggerReason: analyzerType ? 'manual' : 'auto',
         })
 
+        log.info(`🎯 [API] Queued run: ${config.icon} ${config.name}`, { runId })
+
         triggered.push(type)
       } catch (err) {
         log.error(`🎯 [API] Error triggering ${type}`, err)
@@ -211,7 +198,7 @@ export async function POST(request: NextRequest) {
     // Build response message
     const names = triggered.map(t => ANALYZER_REGISTRY[t].name).join(', ')
     const message = triggered.length > 0
-      ? `🚀 Started: ${names}`
+      ? `🚀 Queued: ${names}`
       : 'No analyzers were triggered'
 
     log.success('🎯 [API] Trigger complete', { triggered })
@@ -219,6 +206,7 @@ export async function POST(request: NextRequest) {
     const response: TriggerAnalyzersResponse = {
       success: true,
       triggered,
+      stale,
       message,
     }
 
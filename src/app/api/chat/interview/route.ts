@@ -0,0 +1,45 @@
+/**
+ * 🎤 INTERVIEW API
+ * ================
+ * POST /api/chat/interview
+ *
+ * Asks the next interview question for a chat session, optionally
+ * skipping a field first (see lib/chat/interviewer.ts). Answers go to
+ * POST /api/chat as *_response messages.
+ *
+ * Body:
+ *   { sessionId: string, skip?: string }
+ *
+ * Response (ChatResponse):
+ *   { message, nextInteraction? }  - no nextInteraction once the interview is done
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { log } from '@/lib/utils/logger'
+import { askNextQuestion } from '@/lib/chat/interviewer'
+
+// ============================================
+// 🚀 POST HANDLER
+// ============================================
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}))
+  const { sessionId, skip } = body as { sessionId?: string; skip?: string }
+
+  log.info('🎤 [API] Interview request received', { sessionId, skip })
+
+  if (!sessionId) {
+    return NextResponse.json({ error: 'Missing sessionId' }, { status: 400 })
+  }
+
+  const supabase = await createServerClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const result = await askNextQuestion({ supabase, sessionId, skip })
+  return NextResponse.json(result.body, { status: result.status })
+}
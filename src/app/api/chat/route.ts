@@ -4,27 +4,52 @@
  * Handles chat messages and AI responses.
  *
  * POST /api/chat
- * Body: { sessionId, message, messageType?, metadata? }
+ * Body: { sessionId, message, projectId?, messageType?, metadata? }
+ *
+ * The user's message must already be saved to the session (chatStore's
+ * sendMessage does that) - the reply reads it from the history.
+ *
+ * The reply streams back as server-sent events (see ChatStreamEvent):
+ *   data: {"type":"delta","content":"Hey"}     - repeated, in order
+ *   data: {"type":"done","message":{...}}      - the saved message
+ *   data: {"type":"error","error":"..."}       - instead of done
+ *
+ * The finished reply is saved to conversation_messages. If the client
+ * disconnects mid-reply, what was generated so far is saved with
+ * metadata.cancelled = true so the history matches what the user saw.
+ *
+ * While the reply streams, the turn is also run through field extraction
+ * (lib/chat/extraction.ts). Bucket fields the user stated come back as
+ * an inference_reveal message after the reply:
+ *   data: {"type":"inference","message":{...}}
+ *
+ * Answering that reveal is a messageType 'inference_confirm' request with
+ * InferenceConfirmMetadata. It isn't streamed: the accepted fields are
+ * written to the project and the route returns a ChatResponse.
+ *
+ * Answers to interview questions (slider_response, binary_response,
+ * word_bank_response, mad_lib_response with { field, value } metadata)
+ * work the same way: the value is saved to its field and the response
+ * carries the next question as nextInteraction. See lib/chat/interviewer.ts.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@/lib/supabase/server'
-import OpenAI from 'openai'
-
-// Lazy initialization to avoid build-time errors
-let openaiClient: OpenAI | null = null
-
-function getOpenAI(): OpenAI {
-  if (!openaiClient) {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('❌ OPENAI_API_KEY environment variable is not set')
-    }
-    openaiClient = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    })
-  }
-  return openaiClient
-}
+import { getLLM } from '@/lib/llm'
+import type { LLMMessage } from '@/lib/llm'
+import { encodeSSE } from '@/lib/utils/sse'
+import { describeProposals, extractFieldProposals } from '@/lib/chat/extraction'
+import { applyInferenceConfirm } from '@/lib/chat/confirm'
+import { recordInterviewResponse } from '@/lib/chat/interviewer'
+import { isInterviewResponse } from '@/lib/chat/interview'
+import type { InterviewResponseMetadata } from '@/lib/chat/interview'
+import type {
+  BusinessProject,
+  ChatStreamEvent,
+  ConversationMessage,
+  FieldProposal,
+  InferenceConfirmMetadata,
+} from '@/lib/types'
 
 // System prompt for the onboarding assistant
 const SYSTEM_PROMPT = `You are a friendly, insightful business advisor helping someone define their business idea. Your goal is to:
@@ -51,9 +76,11 @@ export async function POST(request: NextRequest) {
   try {
     // Parse request body
     const body = await request.json()
-    const { sessionId, message, projectId } = body
+    const { sessionId, message, projectId, messageType, metadata } = body
 
-    if (!sessionId || !message) {
+    const isTypedAnswer = messageType === 'inference_confirm' || isInterviewResponse(messageType)
+
+    if (!sessionId || (!message && !isTypedAnswer)) {
       return NextResponse.json(
         { error: 'Missing sessionId or message' },
         { status: 400 }
@@ -71,12 +98,34 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Fetch conversation history
-    const { data: messages, error: messagesError } = await supabase
+    // Answer to an inference_reveal - apply it, no reply needed
+    if (messageType === 'inference_confirm') {
+      const { status, body: result } = await applyInferenceConfirm({
+        supabase,
+        sessionId,
+        metadata: metadata as InferenceConfirmMetadata,
+      })
+      return NextResponse.json(result, { status })
+    }
+
+    // Answer to an interview question - save it, return the next one
+    if (isInterviewResponse(messageType)) {
+      const { status, body: result } = await recordInterviewResponse({
+        supabase,
+        sessionId,
+        messageType,
+        metadata: metadata as InterviewResponseMetadata,
+      })
+      return NextResponse.json(result, { status })
+    }
+
+    // Fetch conversation history - the user's message is already in it
+    // (the client saves it before asking for a reply)
+    const { data: history, error: messagesError } = await supabase
       .from('conversation_messages')
-      .select('role, content')
+      .select('*')
       .eq('session_id', sessionId)
-      .order('created_at', { ascending: true })
+      .order('created_at', { ascending: false })
       .limit(20) // Last 20 messages for context
 
     if (messagesError) {
@@ -84,14 +133,18 @@ export async function POST(request: NextRequest) {
       throw messagesError
     }
 
+    const messages = ((history ?? []) as ConversationMessage[]).reverse()
+
     // Fetch project data for context
     let projectContext = ''
+    let project: BusinessProject | null = null
     if (projectId) {
-      const { data: project } = await supabase
+      const { data } = await supabase
         .from('business_projects')
         .select('*')
         .eq('id', projectId)
         .single()
+      project = data
 
       if (project) {
         const fields = []
@@ -119,8 +172,8 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Build messages array for OpenAI
-    const openaiMessages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+    // Build messages array for the model
+    const llmMessages: LLMMessage[] = [
       {
         role: 'system',
         content: SYSTEM_PROMPT + projectContext,
@@ -129,56 +182,158 @@ export async function POST(request: NextRequest) {
         role: m.role as 'user' | 'assistant',
         content: m.content,
       })),
-      {
-        role: 'user',
-        content: message,
-      },
     ]
 
-    console.log('💬 [API] Calling OpenAI...', { messageCount: openaiMessages.length })
-
-    // Call OpenAI
-    const completion = await getOpenAI().chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: openaiMessages,
-      temperature: 0.7,
-      max_tokens: 500,
+    const llm = getLLM('chat')
+    console.log('💬 [API] Streaming from model...', {
+      provider: llm.provider.name,
+      model: llm.model,
+      messageCount: llmMessages.length,
     })
 
-    const assistantMessage = completion.choices[0]?.message?.content
+    // Aborts the model call when the client goes away
+    const abort = new AbortController()
+    request.signal.addEventListener('abort', () => abort.abort())
 
-    if (!assistantMessage) {
-      throw new Error('No response from OpenAI')
-    }
+    // Runs alongside the reply
+    const extraction: Promise<FieldProposal[]> = project
+      ? extractFieldProposals({ llm, project, messages: llmMessages, signal: abort.signal })
+      : Promise.resolve([])
 
-    console.log('💬 [API] Got response:', assistantMessage.slice(0, 100) + '...')
+    const encoder = new TextEncoder()
 
-    // Save assistant message to database
-    const { data: savedMessage, error: saveError } = await supabase
-      .from('conversation_messages')
-      .insert({
-        session_id: sessionId,
-        role: 'assistant',
-        content: assistantMessage,
-        message_type: 'text',
-        metadata: {},
-      })
-      .select()
-      .single()
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: ChatStreamEvent) => {
+          if (abort.signal.aborted) return
+          try {
+            controller.enqueue(encoder.encode(encodeSSE(event)))
+          } catch {
+            // Client is gone - nothing to send to
+          }
+        }
 
-    if (saveError) {
-      console.error('💬 [API] Failed to save message:', saveError)
-      // Continue anyway - message was generated
-    }
+        let assistantMessage = ''
+
+        try {
+          for await (const delta of llm.provider.stream({
+            model: llm.model,
+            messages: llmMessages,
+            temperature: 0.7,
+            maxTokens: 500,
+            label: 'chat',
+            signal: abort.signal,
+          })) {
+            assistantMessage += delta
+            send({ type: 'delta', content: delta })
+          }
+        } catch (error) {
+          if (!abort.signal.aborted) {
+            console.error('💬 [API] Stream failed:', error)
+            send({ type: 'error', error: 'Failed to generate a reply' })
+            controller.close()
+            return
+          }
+        }
+
+        const cancelled = abort.signal.aborted
+
+        if (!assistantMessage) {
+          if (!cancelled) send({ type: 'error', error: 'No response from the model' })
+        } else {
+          console.log('💬 [API] Got response:', assistantMessage.slice(0, 100) + '...', { cancelled })
+
+          const proposals = cancelled ? [] : await extraction
+          const relatedFields = proposals.length > 0 ? proposals.map(p => p.field) : null
+
+          // Save assistant message to database
+          const { data: savedMessage, error: saveError } = await supabase
+            .from('conversation_messages')
+            .insert({
+              session_id: sessionId,
+              role: 'assistant',
+              content: assistantMessage,
+              message_type: 'text',
+              metadata: cancelled ? { cancelled: true } : {},
+              related_fields: relatedFields,
+            })
+            .select()
+            .single()
+
+          if (saveError) {
+            console.error('💬 [API] Failed to save message:', saveError)
+            // Continue anyway - message was generated
+          }
+
+          const reply: ConversationMessage = savedMessage || {
+            id: 'temp',
+            session_id: sessionId,
+            role: 'assistant',
+            content: assistantMessage,
+            message_type: 'text',
+            metadata: {},
+            related_fields: relatedFields,
+            created_at: new Date().toISOString(),
+          }
+
+          send({ type: 'done', message: reply })
+
+          if (proposals.length > 0) {
+            // Tag the user's message (their latest) with what it told us
+            const { data: userMessage } = await supabase
+              .from('conversation_messages')
+              .select('id')
+              .eq('session_id', sessionId)
+              .eq('role', 'user')
+              .order('created_at', { ascending: false })
+              .limit(1)
+              .maybeSingle()
+
+            if (userMessage) {
+              await supabase
+                .from('conversation_messages')
+                .update({ related_fields: relatedFields })
+                .eq('id', userMessage.id)
+            }
+
+            // Propose the fields - nothing is saved until the user confirms
+            const { data: reveal, error: revealError } = await supabase
+              .from('conversation_messages')
+              .insert({
+                session_id: sessionId,
+                role: 'assistant',
+                content: describeProposals(proposals),
+                message_type: 'inference_reveal',
+                metadata: { proposals },
+                related_fields: relatedFields,
+              })
+              .select()
+              .single()
+
+            if (revealError) {
+              console.error('💬 [API] Failed to save inference:', revealError)
+            } else {
+              send({ type: 'inference', message: reveal })
+            }
+          }
+        }
+
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the client
+        }
+      },
+      cancel() {
+        abort.abort()
+      },
+    })
 
-    return NextResponse.json({
-      success: true,
-      message: {
-        id: savedMessage?.id || 'temp',
-        role: 'assistant',
-        content: assistantMessage,
-        message_type: 'text',
-        created_at: new Date().toISOString(),
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
       },
     })
   } catch (error) {
@@ -0,0 +1,79 @@
+/**
+ * 📨 GUEST ONBOARDING API ROUTE
+ * =============================
+ * What a client's guest onboarding pages load and save through
+ * (/guest/<token> - see lib/guest/invites.ts). No account: the invite
+ * token is the only check, and only the client's answers are writable.
+ *
+ * GET   /api/guest/{token} - the client's view of the project
+ * PATCH /api/guest/{token} - save answers { fields }
+ *
+ * fields are business_projects columns; anything outside GUEST_FIELDS is
+ * dropped, and current_step moves the invite along instead of the
+ * project.
+ *
+ * Response:
+ *   { project, step } - step is where the client is in the invite
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { findClientInvite, openClientInvite, readGuestAnswers, saveGuestAnswers } from '@/lib/guest/server'
+
+interface GuestRouteContext {
+  params: { token: string }
+}
+
+/**
+ * GET - Open the invite and load the project
+ */
+export async function GET(_request: NextRequest, { params }: GuestRouteContext) {
+  console.log('📨 [API] GET guest project request')
+
+  const opened = await openClientInvite(params.token)
+
+  if (!opened) {
+    return NextResponse.json(
+      { error: 'This invite isn\'t available' },
+      { status: 404 }
+    )
+  }
+
+  return NextResponse.json({ project: opened.project, step: opened.invite.current_step })
+}
+
+/**
+ * PATCH - Save the client's answers
+ */
+export async function PATCH(request: NextRequest, { params }: GuestRouteContext) {
+  console.log('📨 [API] PATCH guest answers request')
+
+  try {
+    const body = await request.json()
+
+    const answers = readGuestAnswers(body.fields)
+    if ('error' in answers) {
+      return NextResponse.json(
+        { error: answers.error },
+        { status: 400 }
+      )
+    }
+
+    const invite = await findClientInvite(params.token)
+    if (!invite) {
+      return NextResponse.json(
+        { error: 'This invite isn\'t available' },
+        { status: 404 }
+      )
+    }
+
+    const saved = await saveGuestAnswers(invite, answers.fields, answers.step)
+
+    return NextResponse.json({ project: saved.project, step: saved.invite.current_step })
+  } catch (error) {
+    console.error('📨 [API] PATCH error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save your answers' },
+      { status: 500 }
+    )
+  }
+}
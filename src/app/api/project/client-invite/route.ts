@@ -0,0 +1,256 @@
+/**
+ * 📨 CLIENT INVITES API ROUTE
+ * ===========================
+ * Manages the links that let a portfolio project's client answer the
+ * onboarding questions themselves (/guest/<token> - see
+ * lib/guest/invites.ts).
+ *
+ * GET   /api/project/client-invite?projectId=xxx - the project's invites, newest first
+ * POST  /api/project/client-invite - send a new invite (revokes the open one)
+ *       { projectId, clientName?, clientEmail? }
+ * PATCH /api/project/client-invite - record a reminder, or revoke
+ *       { id, remind?, revoke? }
+ *
+ * Nothing is emailed from here - the consultant sends the link and
+ * reminders from their own mail app; a reminder is only counted.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { createShareToken } from '@/lib/share/server'
+import { getExpiryDate } from '@/lib/share/links'
+import { INVITE_EXPIRY_DAYS } from '@/lib/guest/invites'
+
+interface ClientInviteBody {
+  id?: string
+  projectId?: string
+  clientName?: string | null
+  clientEmail?: string | null
+  remind?: boolean
+  revoke?: boolean
+}
+
+/** Trimmed text, or null when empty */
+function readText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+/**
+ * GET - List a project's client invites
+ */
+export async function GET(request: NextRequest) {
+  console.log('📨 [API] GET client invites request')
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const projectId = searchParams.get('projectId')
+
+    if (!projectId) {
+      return NextResponse.json(
+        { error: 'Missing project ID' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // RLS only returns invites on projects in the user's workspaces
+    const { data: invites, error } = await supabase
+      .from('client_invites')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+
+    return NextResponse.json({ invites })
+  } catch (error) {
+    console.error('📨 [API] GET error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load client invites' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST - Send a new invite
+ */
+export async function POST(request: NextRequest) {
+  console.log('📨 [API] POST client invite request')
+
+  try {
+    const body: ClientInviteBody = await request.json()
+
+    if (!body.projectId) {
+      return NextResponse.json(
+        { error: 'Missing project ID' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { data: member } = await supabase
+      .from('members')
+      .select('id')
+      .eq('auth_id', user.id)
+      .single()
+
+    // RLS hides projects outside the user's workspaces
+    const { data: project } = await supabase
+      .from('business_projects')
+      .select('id, project_type, client_name')
+      .eq('id', body.projectId)
+      .single()
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    if (project.project_type !== 'portfolio') {
+      return NextResponse.json(
+        { error: 'Client invites are for client projects' },
+        { status: 400 }
+      )
+    }
+
+    // One open invite per project - the old link stops working
+    const { error: revokeError } = await supabase
+      .from('client_invites')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('project_id', project.id)
+      .is('revoked_at', null)
+
+    if (revokeError) throw revokeError
+
+    const { data: invite, error } = await supabase
+      .from('client_invites')
+      .insert({
+        project_id: project.id,
+        created_by: member?.id ?? null,
+        token: createShareToken(),
+        client_name: readText(body.clientName) ?? project.client_name,
+        client_email: readText(body.clientEmail),
+        expires_at: getExpiryDate(INVITE_EXPIRY_DAYS),
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    console.log('📨 [API] Client invite created:', invite.id)
+
+    return NextResponse.json({ success: true, invite })
+  } catch (error) {
+    console.error('📨 [API] POST error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create the invite' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH - Record a reminder, or revoke an invite
+ */
+export async function PATCH(request: NextRequest) {
+  console.log('📨 [API] PATCH client invite request')
+
+  try {
+    const body: ClientInviteBody = await request.json()
+
+    if (!body.id) {
+      return NextResponse.json(
+        { error: 'Missing invite ID' },
+        { status: 400 }
+      )
+    }
+
+    if (!body.remind && !body.revoke) {
+      return NextResponse.json(
+        { error: 'Nothing to change' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { data: current } = await supabase
+      .from('client_invites')
+      .select('id, reminder_count')
+      .eq('id', body.id)
+      .single()
+
+    if (!current) {
+      return NextResponse.json(
+        { error: 'Invite not found' },
+        { status: 404 }
+      )
+    }
+
+    const now = new Date().toISOString()
+    const updates: Record<string, unknown> = {}
+
+    if (body.remind) {
+      updates.reminder_count = current.reminder_count + 1
+      updates.last_reminded_at = now
+    }
+    if (body.revoke) updates.revoked_at = now
+
+    const { data: invite, error } = await supabase
+      .from('client_invites')
+      .update(updates)
+      .eq('id', current.id)
+      .select()
+      .single()
+
+    if (error || !invite) {
+      return NextResponse.json(
+        { error: 'Invite not found' },
+        { status: 404 }
+      )
+    }
+
+    console.log('📨 [API] Client invite updated:', {
+      id: invite.id,
+      reminded: Boolean(body.remind),
+      revoked: Boolean(body.revoke),
+    })
+
+    return NextResponse.json({ success: true, invite })
+  } catch (error) {
+    console.error('📨 [API] PATCH error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update the invite' },
+      { status: 500 }
+    )
+  }
+}
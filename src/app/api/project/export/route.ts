@@ -0,0 +1,128 @@
+/**
+ * 🖨️ PROJECT EXPORT API ROUTE
+ * ===========================
+ * Downloads a project's brand foundation as a document.
+ *
+ * GET /api/project/export?id=xxx&format=pdf - one of:
+ *   pdf  - laid-out brand foundation (the default)
+ *   docx - the same, editable in Word / Google Docs
+ *   md   - the same as Markdown (Notion, wikis)
+ *   json - the versioned brand foundation file (see lib/export/json.ts),
+ *          which POST /api/project/import reads back
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { buildBrandDocument } from '@/lib/export/document'
+import { renderBrandPdf } from '@/lib/export/pdf'
+import { renderBrandDocx } from '@/lib/export/docx'
+import { renderBrandMarkdown } from '@/lib/export/markdown'
+import { toBrandFoundation } from '@/lib/export/json'
+import type { BusinessProject } from '@/lib/types'
+
+const FORMATS = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  md: 'text/markdown; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+}
+
+type ExportFormat = keyof typeof FORMATS
+
+function isExportFormat(value: string): value is ExportFormat {
+  return Object.hasOwn(FORMATS, value)
+}
+
+/**
+ * "Sprout Kitchen!" -> "sprout-kitchen"
+ */
+function toFileSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'project'
+}
+
+/**
+ * The file contents for a format
+ */
+async function render(project: BusinessProject, format: ExportFormat): Promise<Uint8Array | string> {
+  if (format === 'json') return JSON.stringify(toBrandFoundation(project), null, 2)
+
+  const doc = buildBrandDocument(project)
+  switch (format) {
+    case 'pdf':
+      return renderBrandPdf(doc)
+    case 'docx':
+      return renderBrandDocx(doc)
+    case 'md':
+      return renderBrandMarkdown(doc)
+  }
+}
+
+/**
+ * GET - Render the brand foundation in the requested format
+ */
+export async function GET(request: NextRequest) {
+  console.log('🖨️ [API] GET project export request')
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const projectId = searchParams.get('id')
+    const format = searchParams.get('format') ?? 'pdf'
+
+    if (!projectId) {
+      return NextResponse.json(
+        { error: 'Missing project ID' },
+        { status: 400 }
+      )
+    }
+
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: `Unknown format - use one of: ${Object.keys(FORMATS).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // RLS only returns the user's own projects
+    const { data: project, error } = await supabase
+      .from('business_projects')
+      .select('*')
+      .eq('id', projectId)
+      .single()
+
+    if (error || !project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    const file = await render(project as BusinessProject, format)
+    const name = toFileSlug(project.idea_name || project.project_name)
+
+    console.log('🖨️ [API] Export rendered:', { projectId, format, bytes: file.length })
+
+    return new NextResponse(typeof file === 'string' ? file : Buffer.from(file), {
+      headers: {
+        'Content-Type': FORMATS[format],
+        'Content-Disposition': `attachment; filename="${name}-brand-foundation.${format}"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    console.error('🖨️ [API] Export error:', error)
+    return NextResponse.json(
+      { error: 'Failed to export project' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * 📜 PROJECT HISTORY API ROUTE
+ * ============================
+ * The change log of a project's fields (see lib/history/changes.ts),
+ * and putting an earlier value back.
+ *
+ * GET  /api/project/history?projectId=xxx&field=yyy&before=zzz
+ *      - changes newest first, HISTORY_PAGE_SIZE at a time; field
+ *        narrows to one field, before (a changed_at) loads the next page
+ * POST /api/project/history - restore a value from the log
+ *      { changeId, side? }
+ *
+ * side is 'new' (the value the change wrote - the default) or 'old'
+ * (the value it replaced). A restore is saved like the user typed it:
+ * stamped as theirs, logged as a new change, analyzers refreshed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { applyFieldUpdates } from '@/lib/chat/apply'
+import { HISTORY_PAGE_SIZE, isRestoreSide } from '@/lib/history/changes'
+import type { FieldChange } from '@/lib/types'
+
+interface RestoreBody {
+  changeId?: string
+  side?: unknown
+}
+
+/**
+ * GET - A page of a project's field changes
+ */
+export async function GET(request: NextRequest) {
+  console.log('📜 [API] GET project history request')
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const projectId = searchParams.get('projectId')
+    const field = searchParams.get('field')
+    const before = searchParams.get('before')
+
+    if (!projectId) {
+      return NextResponse.json(
+        { error: 'Missing project ID' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // RLS only returns changes on projects in the user's workspaces
+    let query = supabase
+      .from('field_changes')
+      .select('*, member:members(id, email, name)')
+      .eq('project_id', projectId)
+      .order('changed_at', { ascending: false })
+      .limit(HISTORY_PAGE_SIZE)
+
+    if (field) query = query.eq('field', field)
+    if (before) query = query.lt('changed_at', before)
+
+    const { data: changes, error } = await query
+
+    if (error) throw error
+
+    return NextResponse.json({
+      changes,
+      hasMore: (changes?.length ?? 0) === HISTORY_PAGE_SIZE,
+    })
+  } catch (error) {
+    console.error('📜 [API] GET error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load the history' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST - Restore a field to a value from its history
+ */
+export async function POST(request: NextRequest) {
+  console.log('📜 [API] POST restore field request')
+
+  try {
+    const body: RestoreBody = await request.json()
+    const side = body.side ?? 'new'
+
+    if (!body.changeId) {
+      return NextResponse.json(
+        { error: 'Missing change ID' },
+        { status: 400 }
+      )
+    }
+
+    if (!isRestoreSide(side)) {
+      return NextResponse.json(
+        { error: 'side must be old or new' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { data: change } = await supabase
+      .from('field_changes')
+      .select('*')
+      .eq('id', body.changeId)
+      .single()
+
+    if (!change) {
+      return NextResponse.json(
+        { error: 'Change not found' },
+        { status: 404 }
+      )
+    }
+
+    const { project_id: projectId, field, old_value: oldValue, new_value: newValue } = change as FieldChange
+    const value = side === 'old' ? oldValue : newValue
+
+    // RLS lets only owners and editors save
+    const project = await applyFieldUpdates(supabase, projectId, { [field]: value ?? null })
+
+    console.log('📜 [API] Field restored:', { projectId, field, changeId: body.changeId, side })
+
+    return NextResponse.json({ success: true, project })
+  } catch (error) {
+    console.error('📜 [API] POST error:', error)
+    return NextResponse.json(
+      { error: 'Failed to restore the value' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * 📥 PROJECT IMPORT API ROUTE
+ * ===========================
+ * Creates a project from a brand foundation JSON file (GET
+ * /api/project/export?format=json) - for cloning a project, or moving
+ * one to another account.
+ *
+ * POST /api/project/import?workspaceId=xxx - body is the file's JSON
+ *
+ * The new project goes in the given workspace (or the member's personal
+ * one), created by the signed-in member. Its analyzer runs
+ * aren't copied; the AI outputs come across as values, with their
+ * provenance (minus run ids), so the write policy still knows which
+ * fields the user typed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { readBrandFoundation } from '@/lib/export/json'
+import { getWritableWorkspaceId } from '@/lib/workspaces/server'
+
+/**
+ * POST - Create a project from a brand foundation file
+ */
+export async function POST(request: NextRequest) {
+  console.log('📥 [API] POST project import request')
+
+  try {
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { error: 'The file is not valid JSON' },
+        { status: 400 }
+      )
+    }
+
+    const result = readBrandFoundation(body)
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Get member ID
+    const { data: member, error: memberError } = await supabase
+      .from('members')
+      .select('id')
+      .eq('auth_id', user.id)
+      .single()
+
+    if (memberError || !member) {
+      return NextResponse.json(
+        { error: 'Member not found' },
+        { status: 404 }
+      )
+    }
+
+    const workspaceId = new URL(request.url).searchParams.get('workspaceId')
+    const workspace = await getWritableWorkspaceId(supabase, member.id, workspaceId)
+
+    if (!workspace) {
+      return NextResponse.json(
+        { error: 'No workspace you can add projects to' },
+        { status: 403 }
+      )
+    }
+
+    const { data: project, error } = await supabase
+      .from('business_projects')
+      .insert({
+        ...result.fields,
+        workspace_id: workspace,
+        member_id: member.id,
+        field_provenance: result.provenance,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      // 22xxx / 23xxx: a value the columns won't take (bad option, out of range)
+      if (/^2[23]/.test(error.code ?? '')) {
+        return NextResponse.json(
+          { error: `The file has a value we can't store: ${error.message}` },
+          { status: 400 }
+        )
+      }
+      throw error
+    }
+
+    console.log('📥 [API] Project imported:', project.id)
+
+    return NextResponse.json({ success: true, project })
+  } catch (error) {
+    console.error('📥 [API] POST error:', error)
+    return NextResponse.json(
+      { error: 'Failed to import project' },
+      { status: 500 }
+    )
+  }
+}
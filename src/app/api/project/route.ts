@@ -4,13 +4,18 @@
  * CRUD operations for business projects.
  *
  * GET /api/project?id=xxx - Get a project
- * POST /api/project - Create a project
- * PATCH /api/project - Update a project
+ * POST /api/project - Create a project ({ name?, workspaceId? } - without a
+ *   workspace, it goes in the member's personal one)
+ * PATCH /api/project - Update a project (stamps the fields as user-entered,
+ *   re-queues analyzers whose inputs changed)
  * DELETE /api/project?id=xxx - Delete a project
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@/lib/supabase/server'
+import { refreshStaleAnalyzers } from '@/lib/analyzers/scheduler'
+import { userProvenance } from '@/lib/analyzers/provenance'
+import { getWritableWorkspaceId } from '@/lib/workspaces/server'
 
 /**
  * GET - Fetch a project by ID
@@ -65,7 +70,7 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json()
-    const { name } = body
+    const { name, workspaceId } = body
 
     const supabase = await createServerClient()
     const { data: { user } } = await supabase.auth.getUser()
@@ -91,10 +96,20 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const workspace = await getWritableWorkspaceId(supabase, member.id, workspaceId)
+
+    if (!workspace) {
+      return NextResponse.json(
+        { error: 'No workspace you can add projects to' },
+        { status: 403 }
+      )
+    }
+
     // Create project
     const { data: project, error } = await supabase
       .from('business_projects')
       .insert({
+        workspace_id: workspace,
         member_id: member.id,
         project_name: name || 'Untitled Project',
         status: 'draft',
@@ -143,10 +158,14 @@ export async function PATCH(request: NextRequest) {
       )
     }
 
-    // Update project (RLS will ensure user owns it)
+    // Update project (RLS will ensure user can edit it) - provenance is
+    // ours to set, and moving workspaces isn't done here
+    delete updates.workspace_id
+    delete updates.member_id
+
     const { data: project, error } = await supabase
       .from('business_projects')
-      .update(updates)
+      .update({ ...updates, field_provenance: userProvenance(Object.keys(updates)) })
       .eq('id', id)
       .select()
       .single()
@@ -155,7 +174,10 @@ export async function PATCH(request: NextRequest) {
 
     console.log('💼 [API] Project updated:', id)
 
-    return NextResponse.json({ success: true, project })
+    // Analyzers that read the changed fields are now out of date
+    const analyzers = await refreshStaleAnalyzers(supabase, project, Object.keys(updates))
+
+    return NextResponse.json({ success: true, project, analyzers })
   } catch (error) {
     console.error('💼 [API] PATCH error:', error)
     return NextResponse.json(
@@ -0,0 +1,246 @@
+/**
+ * 🔗 PROJECT SHARE LINKS API ROUTE
+ * ================================
+ * Manages public read-only links to a project's brand foundation
+ * (the /share/<token> page - see lib/share/links.ts).
+ *
+ * GET   /api/project/share?projectId=xxx - the project's links, newest first
+ * POST  /api/project/share - create a link
+ *       { projectId, label?, hiddenSections?, expiresInDays? }
+ * PATCH /api/project/share - change or revoke a link
+ *       { id, label?, hiddenSections?, expiresInDays?, revoke? }
+ *
+ * hiddenSections are DOCUMENT_PARTS ids; expiresInDays is a whole number
+ * of days from now, or null for a link that never expires.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { createShareToken } from '@/lib/share/server'
+import { MAX_SHARE_DAYS, cleanHiddenParts, getExpiryDate } from '@/lib/share/links'
+
+interface ShareLinkBody {
+  id?: string
+  projectId?: string
+  label?: string | null
+  hiddenSections?: unknown
+  expiresInDays?: unknown
+  revoke?: boolean
+}
+
+/**
+ * Read the optional link settings from a request body
+ *
+ * @returns the columns to write, or an error message
+ */
+function readSettings(body: ShareLinkBody): { updates: Record<string, unknown> } | { error: string } {
+  const updates: Record<string, unknown> = {}
+
+  if (body.label !== undefined) {
+    updates.label = typeof body.label === 'string' && body.label.trim() ? body.label.trim() : null
+  }
+
+  if (body.hiddenSections !== undefined) {
+    const hidden = cleanHiddenParts(body.hiddenSections)
+    if (!hidden) return { error: 'hiddenSections must be a list of section ids' }
+    updates.hidden_sections = hidden
+  }
+
+  if (body.expiresInDays !== undefined) {
+    const days = body.expiresInDays
+    if (days !== null && (!Number.isInteger(days) || (days as number) < 1 || (days as number) > MAX_SHARE_DAYS)) {
+      return { error: `expiresInDays must be between 1 and ${MAX_SHARE_DAYS}, or null` }
+    }
+    updates.expires_at = getExpiryDate(days as number | null)
+  }
+
+  return { updates }
+}
+
+/**
+ * GET - List a project's share links
+ */
+export async function GET(request: NextRequest) {
+  console.log('🔗 [API] GET share links request')
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const projectId = searchParams.get('projectId')
+
+    if (!projectId) {
+      return NextResponse.json(
+        { error: 'Missing project ID' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // RLS only returns links on the user's own projects
+    const { data: links, error } = await supabase
+      .from('share_links')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+
+    return NextResponse.json({ links })
+  } catch (error) {
+    console.error('🔗 [API] GET error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load share links' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST - Create a share link
+ */
+export async function POST(request: NextRequest) {
+  console.log('🔗 [API] POST share link request')
+
+  try {
+    const body: ShareLinkBody = await request.json()
+
+    if (!body.projectId) {
+      return NextResponse.json(
+        { error: 'Missing project ID' },
+        { status: 400 }
+      )
+    }
+
+    const settings = readSettings(body)
+    if ('error' in settings) {
+      return NextResponse.json(
+        { error: settings.error },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check the project is the user's (RLS hides anyone else's)
+    const { data: project } = await supabase
+      .from('business_projects')
+      .select('id')
+      .eq('id', body.projectId)
+      .single()
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: link, error } = await supabase
+      .from('share_links')
+      .insert({
+        ...settings.updates,
+        project_id: project.id,
+        token: createShareToken(),
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    console.log('🔗 [API] Share link created:', link.id)
+
+    return NextResponse.json({ success: true, link })
+  } catch (error) {
+    console.error('🔗 [API] POST error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create share link' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH - Change or revoke a share link
+ */
+export async function PATCH(request: NextRequest) {
+  console.log('🔗 [API] PATCH share link request')
+
+  try {
+    const body: ShareLinkBody = await request.json()
+
+    if (!body.id) {
+      return NextResponse.json(
+        { error: 'Missing share link ID' },
+        { status: 400 }
+      )
+    }
+
+    const settings = readSettings(body)
+    if ('error' in settings) {
+      return NextResponse.json(
+        { error: settings.error },
+        { status: 400 }
+      )
+    }
+
+    const updates = settings.updates
+    if (body.revoke) updates.revoked_at = new Date().toISOString()
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json(
+        { error: 'Nothing to change' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { data: link, error } = await supabase
+      .from('share_links')
+      .update(updates)
+      .eq('id', body.id)
+      .select()
+      .single()
+
+    if (error || !link) {
+      return NextResponse.json(
+        { error: 'Share link not found' },
+        { status: 404 }
+      )
+    }
+
+    console.log('🔗 [API] Share link updated:', { id: link.id, revoked: Boolean(body.revoke) })
+
+    return NextResponse.json({ success: true, link })
+  } catch (error) {
+    console.error('🔗 [API] PATCH error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update share link' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,12 +1,20 @@
 /**
  * 📊 DASHBOARD PAGE
  * =================
- * Main dashboard showing user's projects.
+ * Main dashboard showing the current workspace's projects, grouped by
+ * type (own brands, then client brands).
+ *
+ * The header switches between workspaces; the Team button shows who's
+ * in this one (owners invite people and set roles), and invites sent to
+ * you show up above the projects. Viewers get read-only cards.
+ *
+ * Projects can be exported as brand foundation JSON from the card menu,
+ * and imported from that file (a copy, or one from another account).
  */
 
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { Button } from '@/components/ui/Button'
@@ -14,7 +22,15 @@ import { Card, CardTitle, CardDescription } from '@/components/ui/Card'
 import { ProgressBar } from '@/components/ui/ProgressBar'
 import { useAuthStore } from '@/lib/stores/authStore'
 import { useProjectStore } from '@/lib/stores/projectStore'
+import { useWorkspaceStore } from '@/lib/stores/workspaceStore'
+import { canEdit, canManage } from '@/lib/workspaces/roles'
+import { WorkspaceSwitcher } from '@/components/workspaces/WorkspaceSwitcher'
+import { TeamPanel } from '@/components/workspaces/TeamPanel'
+import { PendingInvitations } from '@/components/workspaces/PendingInvitations'
 import { formatRelativeTime } from '@/lib/utils/helpers'
+import { log } from '@/lib/utils/logger'
+import { PROJECT_TYPE_OPTIONS } from '@/lib/config/onboarding'
+import type { BusinessProject } from '@/lib/types'
 import {
   Rocket,
   Plus,
@@ -23,24 +39,43 @@ import {
   Trash2,
   ExternalLink,
   Loader2,
+  Upload,
+  Download,
+  Users,
 } from 'lucide-react'
 
 export default function DashboardPage() {
   const router = useRouter()
   const { member, isInitialized, initialize, signOut } = useAuthStore()
   const { projects, isLoading, loadProjects, deleteProject } = useProjectStore()
+  const { currentWorkspace, loadWorkspaces, loadMyInvitations } = useWorkspaceStore()
+  const [showTeam, setShowTeam] = useState(false)
+  const importInput = useRef<HTMLInputElement>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const [importError, setImportError] = useState<string | null>(null)
 
   // Initialize auth
   useEffect(() => {
     initialize()
   }, [initialize])
 
-  // Load projects when member is available
+  // Load workspaces (and invites to others) when member is available
   useEffect(() => {
     if (member) {
-      loadProjects(member.id)
+      loadWorkspaces(member)
+      loadMyInvitations(member)
     }
-  }, [member, loadProjects])
+  }, [member, loadWorkspaces, loadMyInvitations])
+
+  // Load projects for the current workspace
+  const workspaceId = currentWorkspace?.id
+  useEffect(() => {
+    if (workspaceId) {
+      loadProjects(workspaceId)
+    }
+  }, [workspaceId, loadProjects])
+
+  const canEditProjects = canEdit(currentWorkspace?.role)
 
   // Redirect if not logged in
   useEffect(() => {
@@ -63,6 +98,41 @@ export default function DashboardPage() {
     }
   }
 
+  /**
+   * 📥 Create a project from a brand foundation JSON file
+   */
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file || !member || !currentWorkspace) return
+
+    setIsImporting(true)
+    setImportError(null)
+
+    try {
+      const response = await fetch(`/api/project/import?workspaceId=${currentWorkspace.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: await file.text(),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setImportError(data.error || 'Import failed')
+        return
+      }
+
+      log.success('📥 Project imported', { projectId: data.project.id })
+      await loadProjects(currentWorkspace.id)
+      router.push(getProjectUrl(data.project))
+    } catch (error) {
+      log.error('📥 Import failed', error)
+      setImportError('Import failed - please try again')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
   const handleSignOut = async () => {
     await signOut()
     router.push('/')
@@ -83,11 +153,14 @@ export default function DashboardPage() {
       <header className="bg-white border-b border-gray-200">
         <div className="container mx-auto px-4 py-4">
           <div className="flex items-center justify-between">
-            <div className="flex items-center gap-2">
-              <Rocket className="w-7 h-7 text-primary-500" />
-              <span className="text-lg font-bold text-gray-900">
-                Foundation Studio
-              </span>
+            <div className="flex items-center gap-4">
+              <div className="flex items-center gap-2">
+                <Rocket className="w-7 h-7 text-primary-500" />
+                <span className="text-lg font-bold text-gray-900">
+                  Foundation Studio
+                </span>
+              </div>
+              <WorkspaceSwitcher member={member} />
             </div>
             <div className="flex items-center gap-4">
               <span className="text-sm text-gray-600">
@@ -104,38 +177,102 @@ export default function DashboardPage() {
 
       {/* Main Content */}
       <main className="container mx-auto px-4 py-8">
+        <PendingInvitations member={member} />
+
         {/* Page Header */}
         <div className="flex items-center justify-between mb-8">
           <div>
-            <h1 className="text-2xl font-bold text-gray-900">Your Projects</h1>
+            <h1 className="text-2xl font-bold text-gray-900">
+              {currentWorkspace?.name ?? 'Your Projects'}
+            </h1>
             <p className="text-gray-500">
-              {projects.length === 0
+              {currentWorkspace && !canEditProjects
+                ? 'View only'
+                : projects.length === 0
                 ? 'Start by creating your first business idea'
                 : `${projects.length} project${projects.length === 1 ? '' : 's'}`}
             </p>
           </div>
-          <Button onClick={handleCreateProject}>
-            <Plus className="w-4 h-4" />
-            New Project
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" onClick={() => setShowTeam(!showTeam)}>
+              <Users className="w-4 h-4" />
+              Team
+            </Button>
+            {canEditProjects && (
+              <>
+                <input
+                  ref={importInput}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={handleImport}
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => importInput.current?.click()}
+                  disabled={isImporting}
+                >
+                  {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                  Import
+                </Button>
+                <Button onClick={handleCreateProject}>
+                  <Plus className="w-4 h-4" />
+                  New Project
+                </Button>
+              </>
+            )}
+          </div>
         </div>
 
+        {showTeam && (
+          <TeamPanel
+            member={member}
+            onLeft={() => {
+              setShowTeam(false)
+              loadWorkspaces(member)
+            }}
+          />
+        )}
+
+        {importError && (
+          <p className="-mt-4 mb-6 text-sm text-error">Couldn&apos;t import that file: {importError}</p>
+        )}
+
         {/* Projects Grid */}
         {isLoading ? (
           <div className="flex items-center justify-center py-20">
             <Loader2 className="w-8 h-8 text-primary-500 animate-spin" />
           </div>
         ) : projects.length === 0 ? (
-          <EmptyState onCreateProject={handleCreateProject} />
+          <EmptyState onCreateProject={canEditProjects ? handleCreateProject : undefined} />
         ) : (
-          <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {projects.map((project) => (
-              <ProjectCard
-                key={project.id}
-                project={project}
-                onDelete={() => handleDeleteProject(project.id)}
-              />
-            ))}
+          <div className="space-y-10">
+            {PROJECT_TYPE_OPTIONS.map((option) => {
+              const group = projects.filter(
+                (project) => (project.project_type || 'primary') === option.value
+              )
+              if (group.length === 0) return null
+
+              return (
+                <section key={option.value}>
+                  <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 mb-4">
+                    <span>{option.emoji}</span>
+                    {option.groupLabel}
+                    <span className="text-sm font-normal text-gray-400">{group.length}</span>
+                  </h2>
+                  <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {group.map((project) => (
+                      <ProjectCard
+                        key={project.id}
+                        project={project}
+                        readOnly={!canEditProjects}
+                        onDelete={canManage(currentWorkspace?.role) ? () => handleDeleteProject(project.id) : undefined}
+                      />
+                    ))}
+                  </div>
+                </section>
+              )
+            })}
           </div>
         )}
       </main>
@@ -167,21 +304,20 @@ function getProjectUrl(project: {
  */
 function ProjectCard({
   project,
+  readOnly = false,
   onDelete,
 }: {
-  project: {
-    id: string
-    project_name: string
-    idea_name: string | null
-    overall_completion: number
-    updated_at: string
-    status: string
-    current_step?: string
-  }
-  onDelete: () => void
+  project: Pick<
+    BusinessProject,
+    'id' | 'project_name' | 'idea_name' | 'overall_completion' | 'updated_at' | 'status' | 'current_step' | 'client_name'
+  >
+  /** Viewers go straight to the summary */
+  readOnly?: boolean
+  /** Left out when the member can't delete (not an owner) */
+  onDelete?: () => void
 }) {
   const [showMenu, setShowMenu] = useState(false)
-  const projectUrl = getProjectUrl(project)
+  const projectUrl = readOnly ? `/onboard/${project.id}/done` : getProjectUrl(project)
   const isComplete = project.status === 'completed'
 
   return (
@@ -201,17 +337,27 @@ function ProjectCard({
         {/* Dropdown Menu */}
         {showMenu && (
           <div className="absolute right-0 mt-1 w-40 py-1 bg-white rounded-lg shadow-lg border border-gray-200 z-10">
-            <button
-              onClick={(e) => {
-                e.preventDefault()
-                onDelete()
-                setShowMenu(false)
-              }}
-              className="w-full px-4 py-2 text-left text-sm text-error hover:bg-error/5 flex items-center gap-2"
+            <a
+              href={`/api/project/export?id=${project.id}&format=json`}
+              onClick={() => setShowMenu(false)}
+              className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2"
             >
-              <Trash2 className="w-4 h-4" />
-              Delete
-            </button>
+              <Download className="w-4 h-4" />
+              Export JSON
+            </a>
+            {onDelete && (
+              <button
+                onClick={(e) => {
+                  e.preventDefault()
+                  onDelete()
+                  setShowMenu(false)
+                }}
+                className="w-full px-4 py-2 text-left text-sm text-error hover:bg-error/5 flex items-center gap-2"
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete
+              </button>
+            )}
           </div>
         )}
       </div>
@@ -224,6 +370,11 @@ function ProjectCard({
             {project.idea_name || project.project_name}
           </CardTitle>
 
+          {/* Client (client brands) */}
+          {project.client_name && (
+            <p className="text-sm text-gray-500 mb-2">for {project.client_name}</p>
+          )}
+
           {/* Status Badge */}
           <div className="flex items-center gap-2 mb-4">
             <span
@@ -252,7 +403,7 @@ function ProjectCard({
 
           {/* Open Link */}
           <div className="mt-4 flex items-center gap-1 text-sm text-primary-600 font-medium">
-            {isComplete ? 'View' : 'Continue'}
+            {isComplete || readOnly ? 'View' : 'Continue'}
             <ExternalLink className="w-3.5 h-3.5" />
           </div>
         </div>
@@ -264,7 +415,19 @@ function ProjectCard({
 /**
  * Empty State Component
  */
-function EmptyState({ onCreateProject }: { onCreateProject: () => void }) {
+function EmptyState({ onCreateProject }: { onCreateProject?: () => void }) {
+  // Viewers can't add projects - nothing to offer
+  if (!onCreateProject) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20">
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">No projects yet</h2>
+        <p className="text-gray-500 text-center max-w-md">
+          Projects your team adds to this workspace will show up here.
+        </p>
+      </div>
+    )
+  }
+
   return (
     <div className="flex flex-col items-center justify-center py-20">
       <div className="w-20 h-20 rounded-full bg-primary-50 flex items-center justify-center mb-6">
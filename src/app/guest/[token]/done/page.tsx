@@ -0,0 +1,48 @@
+/**
+ * ✨ GUEST DONE PAGE
+ * ==================
+ * Where a client lands after the last step of their invite: a thank-you,
+ * and a way back in to change an answer while the link is open.
+ */
+
+import Link from 'next/link'
+import { CheckCircle, Rocket } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { findClientInvite } from '@/lib/guest/server'
+import { getInvitePath } from '@/lib/guest/invites'
+
+interface GuestDonePageProps {
+  params: { token: string }
+}
+
+export default async function GuestDonePage({ params }: GuestDonePageProps) {
+  const invite = await findClientInvite(params.token).catch(() => null)
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-2">
+            <Rocket className="w-6 h-6 text-primary-500" />
+            <span className="font-bold text-gray-900">Foundation Studio</span>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-16">
+        <div className="max-w-md mx-auto text-center">
+          <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            Thanks{invite?.client_name ? `, ${invite.client_name}` : ''}!
+          </h1>
+          <p className="text-gray-500 mb-8">
+            Your answers are saved. We&apos;ll take it from here and turn them into your brand foundation.
+          </p>
+          <Link href={getInvitePath(params.token, 'setup')}>
+            <Button variant="outline">Change an answer</Button>
+          </Link>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+/**
+ * 📨 GUEST ONBOARDING LAYOUT
+ * ==========================
+ * Wraps a client's invite (/guest/<token>/...). No account needed - the
+ * middleware leaves /guest alone, and the token is checked here on the
+ * server with the service role.
+ *
+ * Open invites put their pages in the guest flow (GuestFlowProvider):
+ * the usual setup, story, words and style pages, saving through the
+ * invite. Revoked, expired and unknown invites all get the same "not
+ * available" message.
+ */
+
+import type { Metadata } from 'next'
+import { Link2Off } from 'lucide-react'
+import { GuestFlowProvider } from '@/components/onboard/OnboardFlow'
+import { findClientInvite } from '@/lib/guest/server'
+import { log } from '@/lib/utils/logger'
+
+// Every visit checks the invite
+export const dynamic = 'force-dynamic'
+
+export const metadata: Metadata = {
+  title: 'Tell us about your brand',
+  robots: { index: false, follow: false },
+}
+
+interface GuestLayoutProps {
+  params: { token: string }
+  children: React.ReactNode
+}
+
+export default async function GuestLayout({ params, children }: GuestLayoutProps) {
+  const invite = await findClientInvite(params.token).catch((error) => {
+    log.error('📨 Failed to check client invite', error)
+    return null
+  })
+
+  // Unknown, revoked or expired
+  if (!invite) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="text-center max-w-sm">
+          <Link2Off className="w-10 h-10 text-gray-400 mx-auto mb-4" />
+          <h1 className="text-xl font-semibold text-gray-900 mb-2">This invite isn&apos;t available</h1>
+          <p className="text-gray-500">
+            It may have expired or been turned off. Ask whoever sent it for a new link.
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <GuestFlowProvider projectId={invite.project_id} token={params.token}>
+      {children}
+    </GuestFlowProvider>
+  )
+}
@@ -0,0 +1,20 @@
+/**
+ * 🔀 GUEST REDIRECT PAGE
+ * ======================
+ * The invite link itself - sends the client on to the step they're on.
+ */
+
+import { redirect } from 'next/navigation'
+import { findClientInvite } from '@/lib/guest/server'
+import { getInvitePath } from '@/lib/guest/invites'
+
+interface GuestPageProps {
+  params: { token: string }
+}
+
+export default async function GuestPage({ params }: GuestPageProps) {
+  // The layout has already turned away invites that aren't open
+  const invite = await findClientInvite(params.token).catch(() => null)
+
+  redirect(getInvitePath(params.token, invite?.current_step ?? 'setup'))
+}
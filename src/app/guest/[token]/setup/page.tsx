@@ -0,0 +1,8 @@
+/**
+ * 📝 GUEST SETUP PAGE
+ * ===================
+ * The setup step for a client on an invite link - the same page as
+ * /onboard/<projectId>/setup, in the guest flow (see the guest layout).
+ */
+
+export { default } from '@/app/onboard/[projectId]/setup/page'
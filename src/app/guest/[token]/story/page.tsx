@@ -0,0 +1,8 @@
+/**
+ * 📖 GUEST STORY PAGE
+ * ===================
+ * The story step for a client on an invite link - the same page as
+ * /onboard/<projectId>/story, in the guest flow (see the guest layout).
+ */
+
+export { default } from '@/app/onboard/[projectId]/story/page'
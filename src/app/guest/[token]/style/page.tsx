@@ -0,0 +1,8 @@
+/**
+ * 🎨 GUEST STYLE PAGE
+ * ===================
+ * The style step for a client on an invite link - the same page as
+ * /onboard/<projectId>/style, in the guest flow (see the guest layout).
+ */
+
+export { default } from '@/app/onboard/[projectId]/style/page'
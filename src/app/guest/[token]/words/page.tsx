@@ -0,0 +1,8 @@
+/**
+ * 💬 GUEST WORDS PAGE
+ * ===================
+ * The words step for a client on an invite link - the same page as
+ * /onboard/<projectId>/words, in the guest flow (see the guest layout).
+ */
+
+export { default } from '@/app/onboard/[projectId]/words/page'
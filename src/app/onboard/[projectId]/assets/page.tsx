@@ -31,6 +31,7 @@ import { Input } from '@/components/ui/Input'
 import { Button } from '@/components/ui/Button'
 import { useProjectStore } from '@/lib/stores/projectStore'
 import { useAnalyzerStore } from '@/lib/analyzers'
+import { getOnboardCopy } from '@/lib/config/onboarding'
 import { log } from '@/lib/utils/logger'
 import {
   Globe,
@@ -349,12 +350,14 @@ export default function AssetsPage() {
   // Check if user has entered anything
   const hasContent = formData.websiteUrl.trim() || formData.linkedinUrl.trim()
 
+  const copy = getOnboardCopy(project.project_type)
+
   return (
     <OnboardLayout
       projectId={projectId}
       currentStep="assets"
-      title="Help us learn about you"
-      subtitle="Share your website or LinkedIn so we can learn more (optional)"
+      title={copy.assetsTitle}
+      subtitle={copy.assetsSubtitle}
       onContinue={handleContinue}
       isContinueLoading={isSaving}
       isContinueDisabled={hasError}
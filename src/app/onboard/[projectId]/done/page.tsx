@@ -6,7 +6,11 @@
  * This page displays:
  * - Celebration moment
  * - Complete brand foundation summary
- * - Export options (copy, future: PDF)
+ * - Visual identity (colors + fonts) found on their website
+ * - A source badge on each value (you, or the analyzer that wrote it)
+ * - Export options (copy as Markdown; download PDF, Word, Markdown or JSON)
+ * - Share links (read-only public copies, for clients without an account)
+ * - For client projects, the client invite and how far the client got
  * - Next steps
  */
 
@@ -17,7 +21,14 @@ import { useParams, useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { Card, CardTitle } from '@/components/ui/Card'
 import { Button } from '@/components/ui/Button'
+import { VisualIdentityPreview } from '@/components/onboard/VisualIdentityPreview'
+import { SourceBadge } from '@/components/analyzers/SourceBadge'
+import { ShareLinksPanel } from '@/components/share/ShareLinksPanel'
+import { ClientInvitePanel } from '@/components/guest/ClientInvitePanel'
 import { useProjectStore } from '@/lib/stores/projectStore'
+import { getOnboardCopy } from '@/lib/config/onboarding'
+import { buildBrandDocument } from '@/lib/export/document'
+import { renderBrandMarkdown } from '@/lib/export/markdown'
 import { log } from '@/lib/utils/logger'
 import {
   Loader2,
@@ -30,6 +41,9 @@ import {
   Palette,
   Target,
   Eye,
+  Brush,
+  Download,
+  ChevronDown,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 
@@ -40,15 +54,18 @@ import { cn } from '@/lib/utils'
 interface SectionProps {
   icon: React.ReactNode
   title: string
+  /** Shown after the title (e.g. a SourceBadge) */
+  badge?: React.ReactNode
   children: React.ReactNode
 }
 
-function Section({ icon, title, children }: SectionProps) {
+function Section({ icon, title, badge, children }: SectionProps) {
   return (
     <div className="py-6 border-b border-gray-100 last:border-0">
       <div className="flex items-center gap-2 mb-3">
         <span className="text-primary-600">{icon}</span>
         <h3 className="font-semibold text-gray-900">{title}</h3>
+        {badge}
       </div>
       <div className="text-gray-700">{children}</div>
     </div>
@@ -59,9 +76,9 @@ function Section({ icon, title, children }: SectionProps) {
 // 🏷️ WORD TAGS
 // ============================================
 
-function WordTags({ words }: { words: string[] }) {
+function WordTags({ words, badge }: { words: string[]; badge?: React.ReactNode }) {
   return (
-    <div className="flex flex-wrap gap-2">
+    <div className="flex flex-wrap items-center gap-2">
       {words.map((word) => (
         <span
           key={word}
@@ -70,6 +87,47 @@ function WordTags({ words }: { words: string[] }) {
           {word}
         </span>
       ))}
+      {badge}
+    </div>
+  )
+}
+
+// ============================================
+// 📥 DOWNLOAD MENU
+// ============================================
+
+const DOWNLOAD_FORMATS = [
+  { format: 'pdf', label: 'PDF' },
+  { format: 'docx', label: 'Word (.docx)' },
+  { format: 'md', label: 'Markdown' },
+  { format: 'json', label: 'JSON (re-importable)' },
+]
+
+function DownloadMenu({ projectId }: { projectId: string }) {
+  const [open, setOpen] = useState(false)
+
+  return (
+    <div className="relative">
+      <Button variant="outline" size="sm" onClick={() => setOpen(!open)}>
+        <Download className="w-4 h-4" />
+        Download
+        <ChevronDown className="w-3.5 h-3.5" />
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 mt-1 w-48 py-1 bg-white rounded-lg shadow-lg border border-gray-200 z-10">
+          {DOWNLOAD_FORMATS.map(({ format, label }) => (
+            <a
+              key={format}
+              href={`/api/project/export?id=${projectId}&format=${format}`}
+              onClick={() => setOpen(false)}
+              className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              {label}
+            </a>
+          ))}
+        </div>
+      )}
     </div>
   )
 }
@@ -95,26 +153,12 @@ export default function DonePage() {
   }, [projectId, loadProject])
 
   /**
-   * 📋 Copy summary to clipboard
+   * 📋 Copy the foundation to the clipboard (as Markdown)
    */
   const handleCopy = () => {
     if (!project) return
 
-    const summary = `
-# ${project.idea_name || project.project_name}
-
-## Brand Story
-${project.problem_statement || 'Not provided'}
-
-## What We Do
-${project.secret_sauce || 'Not provided'}
-
-## Brand Personality
-${project.company_values?.join(', ') || 'Not selected'}
-
-## Target Customer
-${project.target_audience?.join(', ') || 'Not selected'}
-    `.trim()
+    const summary = renderBrandMarkdown(buildBrandDocument(project))
 
     navigator.clipboard.writeText(summary)
     setCopied(true)
@@ -169,13 +213,16 @@ ${project.target_audience?.join(', ') || 'Not selected'}
             <Sparkles className="w-8 h-8" />
           </div>
           <h1 className="text-3xl font-bold mb-2">
-            Your brand foundation is ready! 🎉
+            {getOnboardCopy(project.project_type).doneTitle}
           </h1>
           <p className="text-primary-100 text-lg max-w-lg mx-auto">
             Great work! Here&apos;s everything we gathered about{' '}
             <span className="font-semibold text-white">
               {project.idea_name || project.project_name}
             </span>
+            {project.project_type === 'portfolio' && project.client_name && (
+              <> for {project.client_name}</>
+            )}
           </p>
         </div>
       </div>
@@ -192,27 +239,30 @@ ${project.target_audience?.join(', ') || 'Not selected'}
               <CardTitle className="text-xl">
                 {project.idea_name || project.project_name}
               </CardTitle>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={handleCopy}
-                className={cn(
-                  'transition-all',
-                  copied && 'bg-green-50 border-green-300 text-green-700'
-                )}
-              >
-                {copied ? (
-                  <>
-                    <CheckCircle className="w-4 h-4" />
-                    Copied!
-                  </>
-                ) : (
-                  <>
-                    <Copy className="w-4 h-4" />
-                    Copy
-                  </>
-                )}
-              </Button>
+              <div className="flex items-center gap-2">
+                <DownloadMenu projectId={projectId} />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleCopy}
+                  className={cn(
+                    'transition-all',
+                    copied && 'bg-green-50 border-green-300 text-green-700'
+                  )}
+                >
+                  {copied ? (
+                    <>
+                      <CheckCircle className="w-4 h-4" />
+                      Copied!
+                    </>
+                  ) : (
+                    <>
+                      <Copy className="w-4 h-4" />
+                      Copy
+                    </>
+                  )}
+                </Button>
+              </div>
             </div>
 
             {/* Sections */}
@@ -223,19 +273,24 @@ ${project.target_audience?.join(', ') || 'Not selected'}
                   {project.problem_statement || (
                     <span className="text-gray-400 italic">No story provided</span>
                   )}
+                  <SourceBadge project={project} field="problem_statement" className="ml-2 align-middle" />
                 </p>
                 {project.secret_sauce && (
                   <p className="mt-3 leading-relaxed">
                     <span className="font-medium">What we do: </span>
                     {project.secret_sauce}
+                    <SourceBadge project={project} field="secret_sauce" className="ml-2 align-middle" />
                   </p>
                 )}
               </Section>
 
               {/* Brand Personality */}
               <Section icon={<Palette className="w-5 h-5" />} title="Brand Personality">
-                {project.company_values && project.company_values.length > 0 ? (
-                  <WordTags words={project.company_values} />
+                {project.brand_personality && project.brand_personality.length > 0 ? (
+                  <WordTags
+                    words={project.brand_personality}
+                    badge={<SourceBadge project={project} field="brand_personality" />}
+                  />
                 ) : (
                   <span className="text-gray-400 italic">No words selected</span>
                 )}
@@ -243,36 +298,63 @@ ${project.target_audience?.join(', ') || 'Not selected'}
 
               {/* Target Customer */}
               <Section icon={<Target className="w-5 h-5" />} title="Target Customer">
+                {project.customer_description && (
+                  <p className="mb-3 leading-relaxed">
+                    <span className="font-medium">We help: </span>
+                    {project.customer_description}
+                    <SourceBadge project={project} field="customer_description" className="ml-2 align-middle" />
+                  </p>
+                )}
                 {project.target_audience && project.target_audience.length > 0 ? (
-                  <WordTags words={project.target_audience} />
+                  <WordTags
+                    words={project.target_audience}
+                    badge={<SourceBadge project={project} field="target_audience" />}
+                  />
                 ) : (
                   <span className="text-gray-400 italic">No words selected</span>
                 )}
               </Section>
 
+              {/* Visual Identity - from the website's CSS */}
+              {project.visual_identity && (
+                <Section
+                  icon={<Brush className="w-5 h-5" />}
+                  title="Visual Identity"
+                  badge={<SourceBadge project={project} field="visual_identity" />}
+                >
+                  <VisualIdentityPreview visualIdentity={project.visual_identity} />
+                </Section>
+              )}
+
               {/* Style Preferences */}
-              {(project.pricing_tier || project.differentiation_score) && (
+              {(project.communication_style || project.price_position) && (
                 <Section icon={<Eye className="w-5 h-5" />} title="Style & Positioning">
                   <div className="grid grid-cols-2 gap-4">
-                    {project.pricing_tier && (
+                    {project.communication_style && (
                       <div className="p-3 bg-gray-50 rounded-lg">
-                        <p className="text-sm text-gray-500 mb-1">Communication</p>
+                        <p className="text-sm text-gray-500 mb-1 flex items-center justify-between gap-2">
+                          Communication
+                          <SourceBadge project={project} field="communication_style" />
+                        </p>
                         <p className="font-medium">
-                          {project.pricing_tier <= 2
+                          {project.communication_style <= 2
                             ? 'Formal'
-                            : project.pricing_tier === 3
+                            : project.communication_style === 3
                             ? 'Balanced'
                             : 'Casual'}
                         </p>
                       </div>
                     )}
-                    {project.differentiation_score && (
+                    {project.price_position && (
                       <div className="p-3 bg-gray-50 rounded-lg">
-                        <p className="text-sm text-gray-500 mb-1">Positioning</p>
+                        <p className="text-sm text-gray-500 mb-1 flex items-center justify-between gap-2">
+                          Positioning
+                          <SourceBadge project={project} field="price_position" />
+                        </p>
                         <p className="font-medium">
-                          {project.differentiation_score <= 2
+                          {project.price_position <= 2
                             ? 'Budget'
-                            : project.differentiation_score === 3
+                            : project.price_position === 3
                             ? 'Mid-market'
                             : 'Premium'}
                         </p>
@@ -284,6 +366,18 @@ ${project.target_audience?.join(', ') || 'Not selected'}
             </div>
           </Card>
 
+          {/* Share Links */}
+          <Card className="mb-8">
+            <ShareLinksPanel projectId={projectId} />
+          </Card>
+
+          {/* Client Invite (client projects) */}
+          {project.project_type === 'portfolio' && (
+            <Card className="mb-8">
+              <ClientInvitePanel project={project} />
+            </Card>
+          )}
+
           {/* Next Steps */}
           <div className="text-center">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">
@@ -5,8 +5,12 @@
  *
  * This is where users see:
  * - Real-time progress of AI analyzers
+ * - The analyzer pipeline (what's blocked, ready, running, done)
+ * - Run history, with diffs between runs and restore
+ * - The change history of every field: who changed what, and restore
  * - Previews of scraped/generated content
  * - Social links discovered from their website
+ * - For client projects, the client invite and how far the client got
  * - Option to continue or add more detail
  *
  * The hub subscribes to realtime updates so users see
@@ -15,14 +19,19 @@
 
 'use client'
 
-import { useEffect, useCallback } from 'react'
+import { useEffect, useCallback, useMemo } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import { OnboardLayout } from '@/components/onboard/OnboardLayout'
+import { VisualIdentityPreview } from '@/components/onboard/VisualIdentityPreview'
 import { Card, CardTitle, CardDescription } from '@/components/ui/Card'
 import { ProgressBar } from '@/components/ui/ProgressBar'
 import { useProjectStore } from '@/lib/stores/projectStore'
-import { useAnalyzerStore, ANALYZER_REGISTRY } from '@/lib/analyzers'
+import { useAnalyzerStore, ANALYZER_REGISTRY, getLatestRun, getProjectPipeline } from '@/lib/analyzers'
+import { PipelineGraph, RunHistory, StaleBadge } from '@/components/analyzers'
+import { ClientInvitePanel } from '@/components/guest/ClientInvitePanel'
+import { FieldHistory } from '@/components/history'
 import type { AnalyzerRun, AnalyzerType } from '@/lib/analyzers'
+import { getOnboardCopy } from '@/lib/config/onboarding'
 import { log } from '@/lib/utils/logger'
 import { cn } from '@/lib/utils'
 import {
@@ -38,6 +47,9 @@ import {
   ExternalLink,
   AlertCircle,
   RefreshCw,
+  GitBranch,
+  History,
+  ScrollText,
 } from 'lucide-react'
 
 // ============================================
@@ -90,12 +102,14 @@ interface AnalyzerCardProps {
   run?: AnalyzerRun
   preview?: React.ReactNode
   onRetry?: () => void
+  /** Result was based on older answers */
+  isStale?: boolean
 }
 
 /**
  * Displays the status and results of an AI analyzer
  */
-function AIAnalyzerCard({ analyzerType, run, preview, onRetry }: AnalyzerCardProps) {
+function AIAnalyzerCard({ analyzerType, run, preview, onRetry, isStale }: AnalyzerCardProps) {
   const config = ANALYZER_REGISTRY[analyzerType]
   const status = run?.status || 'not_started'
 
@@ -140,6 +154,7 @@ function AIAnalyzerCard({ analyzerType, run, preview, onRetry }: AnalyzerCardPro
                 Done
               </span>
             )}
+            {isComplete && isStale && <StaleBadge />}
             {isRunning && (
               <span className="flex items-center gap-1 text-xs font-medium text-primary-600">
                 <Loader2 className="w-3.5 h-3.5 animate-spin" />
@@ -169,6 +184,17 @@ function AIAnalyzerCard({ analyzerType, run, preview, onRetry }: AnalyzerCardPro
             </div>
           )}
 
+          {/* Re-run with the latest answers */}
+          {isComplete && isStale && onRetry && (
+            <button
+              onClick={onRetry}
+              className="mt-2 flex items-center gap-1 text-xs font-medium text-primary-600 hover:text-primary-700"
+            >
+              <RefreshCw className="w-3 h-3" />
+              Update with latest answers
+            </button>
+          )}
+
           {/* Error Message */}
           {isFailed && run?.error_message && (
             <div className="mt-3 p-3 bg-red-50 rounded-lg border border-red-100">
@@ -254,11 +280,18 @@ export default function HubPage() {
   // Analyzer store
   const {
     runs,
+    isTriggering,
     loadRuns,
     triggerAnalyzers,
     subscribeToUpdates,
   } = useAnalyzerStore()
 
+  // Pipeline state for the dependency graph
+  const pipeline = useMemo(
+    () => (project ? getProjectPipeline(project, runs) : []),
+    [project, runs]
+  )
+
   // Load project and analyzer runs on mount
   useEffect(() => {
     if (projectId) {
@@ -315,13 +348,15 @@ export default function HubPage() {
   }
 
   // Get analyzer runs by type
-  const webScraperRun = runs.find(r => r.analyzer_type === 'web_scraper')
+  const webScraperRun = getLatestRun(runs, 'web_scraper')
+
+  const copy = getOnboardCopy(project.project_type)
 
   // Calculate what data we have
   const hasStory = !!(project.problem_statement && project.secret_sauce)
-  const hasBrandWords = !!(project.company_values && project.company_values.length > 0)
+  const hasBrandWords = !!(project.brand_personality && project.brand_personality.length > 0)
   const hasCustomerWords = !!(project.target_audience && project.target_audience.length > 0)
-  const hasStyle = !!(project.pricing_tier && project.differentiation_score)
+  const hasStyle = !!(project.communication_style && project.price_position)
   const hasWebsiteData = !!(project.scraped_tagline || project.scraped_industry)
 
   // Check if any analyzers are running
@@ -339,7 +374,7 @@ export default function HubPage() {
     <OnboardLayout
       projectId={projectId}
       currentStep="hub"
-      title="Building your brand foundation"
+      title={copy.hubTitle}
       subtitle={isAnalyzing ? '🤖 AI is analyzing your data...' : "Here's what we've gathered"}
       onContinue={handleContinue}
       continueText="View Your Foundation"
@@ -368,6 +403,7 @@ export default function HubPage() {
           <AIAnalyzerCard
             analyzerType="web_scraper"
             run={webScraperRun}
+            isStale={pipeline.find(node => node.type === 'web_scraper')?.stale}
             onRetry={() => handleRetry('web_scraper')}
             preview={
               webScraperRun?.status === 'completed' && (
@@ -411,6 +447,37 @@ export default function HubPage() {
                     </div>
                   )}
 
+                  {/* Logo + contact details from the site's markup */}
+                  {(project.logo_url || project.contact_email || project.contact_phone || project.business_address) && (
+                    <div>
+                      <p className="text-xs text-gray-500 mb-1">Details on your site:</p>
+                      <div className="flex items-start gap-3">
+                        {project.logo_url && (
+                          // Remote logos can live on any host, so no next/image
+                          // eslint-disable-next-line @next/next/no-img-element
+                          <img
+                            src={project.logo_url}
+                            alt="Logo found on your website"
+                            className="w-10 h-10 object-contain rounded border border-gray-100 bg-white"
+                          />
+                        )}
+                        <div className="space-y-0.5 text-gray-600">
+                          {project.contact_email && <p>{project.contact_email}</p>}
+                          {project.contact_phone && <p>{project.contact_phone}</p>}
+                          {project.business_address && <p>{project.business_address}</p>}
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Colors + fonts from the site's CSS */}
+                  {project.visual_identity && (
+                    <div>
+                      <p className="text-xs text-gray-500 mb-1">Colors & fonts on your site:</p>
+                      <VisualIdentityPreview visualIdentity={project.visual_identity} compact />
+                    </div>
+                  )}
+
                   {/* Social links */}
                   {(socialUrls && Object.values(socialUrls).some(v => v)) && (
                     <div>
@@ -438,13 +505,62 @@ export default function HubPage() {
           />
         )}
 
+        {/* Client Invite (client projects) */}
+        {project.project_type === 'portfolio' && (
+          <Card id="client-invite">
+            <ClientInvitePanel project={project} />
+          </Card>
+        )}
+
+        {/* Analyzer Pipeline */}
+        <Card>
+          <div className="flex items-center gap-2 mb-1">
+            <GitBranch className="w-4 h-4 text-gray-500" />
+            <CardTitle className="text-base">Analysis pipeline</CardTitle>
+          </div>
+          <CardDescription className="text-sm mb-4">
+            Some analyses build on others - they start automatically once what they need is ready.
+          </CardDescription>
+          <PipelineGraph
+            nodes={pipeline}
+            onRun={handleRetry}
+            disabled={isTriggering}
+          />
+        </Card>
+
+        {/* Run History */}
+        {runs.length > 0 && (
+          <Card>
+            <div className="flex items-center gap-2 mb-1">
+              <History className="w-4 h-4 text-gray-500" />
+              <CardTitle className="text-base">Run history</CardTitle>
+            </div>
+            <CardDescription className="text-sm mb-4">
+              Every analysis is kept. Compare two runs or bring back an earlier one.
+            </CardDescription>
+            <RunHistory projectId={projectId} onRestored={() => loadProject(projectId)} />
+          </Card>
+        )}
+
+        {/* Field History */}
+        <Card>
+          <div className="flex items-center gap-2 mb-1">
+            <ScrollText className="w-4 h-4 text-gray-500" />
+            <CardTitle className="text-base">Change history</CardTitle>
+          </div>
+          <CardDescription className="text-sm mb-4">
+            Every answer and analysis result that changed, who changed it and what it said before.
+          </CardDescription>
+          <FieldHistory project={project} onRestored={() => loadProject(projectId)} />
+        </Card>
+
         {/* User Data Cards */}
         <div className="space-y-4">
           {/* Story */}
           <DataCard
             icon={<MessageSquare className="w-5 h-5" />}
             title="Brand Story"
-            description="Your founding reason and core offering"
+            description={copy.storyCardDescription}
             isComplete={hasStory}
             preview={hasStory && project.problem_statement && (
               <p className="text-sm text-gray-600 p-3 bg-white rounded-lg border border-gray-100 line-clamp-2">
@@ -457,18 +573,18 @@ export default function HubPage() {
           <DataCard
             icon={<Palette className="w-5 h-5" />}
             title="Brand Personality"
-            description="Words that describe your brand"
+            description={copy.brandWordsCardDescription}
             isComplete={hasBrandWords}
-            preview={hasBrandWords && project.company_values && (
+            preview={hasBrandWords && project.brand_personality && (
               <div className="flex flex-wrap gap-1">
-                {project.company_values.slice(0, 5).map((word, i) => (
+                {project.brand_personality.slice(0, 5).map((word, i) => (
                   <span key={i} className="px-2 py-0.5 text-xs bg-primary-100 text-primary-700 rounded-full">
                     {word}
                   </span>
                 ))}
-                {project.company_values.length > 5 && (
+                {project.brand_personality.length > 5 && (
                   <span className="px-2 py-0.5 text-xs text-gray-400">
-                    +{project.company_values.length - 5} more
+                    +{project.brand_personality.length - 5} more
                   </span>
                 )}
               </div>
@@ -479,7 +595,7 @@ export default function HubPage() {
           <DataCard
             icon={<Target className="w-5 h-5" />}
             title="Target Customer"
-            description="Words that describe your ideal customer"
+            description={copy.customerCardDescription}
             isComplete={hasCustomerWords}
             preview={hasCustomerWords && project.target_audience && (
               <div className="flex flex-wrap gap-1">
@@ -501,11 +617,11 @@ export default function HubPage() {
           <DataCard
             icon={<Eye className="w-5 h-5" />}
             title="Style & Positioning"
-            description="Your communication style and market position"
+            description={copy.styleCardDescription}
             isComplete={hasStyle}
             preview={hasStyle && (
               <p className="text-sm text-gray-600 p-3 bg-white rounded-lg border border-gray-100">
-                Communication: {project.pricing_tier}/5 | Positioning: {project.differentiation_score}/5
+                Communication: {project.communication_style}/5 | Positioning: {project.price_position}/5
               </p>
             )}
           />
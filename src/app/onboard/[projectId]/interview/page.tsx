@@ -0,0 +1,145 @@
+/**
+ * 🎤 INTERVIEW PAGE
+ * =================
+ * The conversational way through the buckets.
+ *
+ * The assistant asks one typed question at a time (slider, choice,
+ * word bank or fill-in-the-blank), bucket by bucket, and every answer
+ * is saved straight to the project. Users can skip a question, or type
+ * freely - free text gets a streamed reply and any fields it mentions
+ * come back as inferences to confirm.
+ */
+
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { ChatContainer } from '@/components/chat/ChatContainer'
+import { ProgressBar } from '@/components/ui/ProgressBar'
+import { useProjectStore } from '@/lib/stores/projectStore'
+import { useChatStore } from '@/lib/stores/chatStore'
+import { getInterviewProgress, getPendingQuestion } from '@/lib/chat/interview'
+import { log } from '@/lib/utils/logger'
+import { ArrowLeft, CheckCircle, Loader2 } from 'lucide-react'
+
+export default function InterviewPage() {
+  const params = useParams()
+  const projectId = params.projectId as string
+
+  const { project, loadProject } = useProjectStore()
+  const {
+    session,
+    messages,
+    isLoading,
+    isTyping,
+    streamingMessageId,
+    error,
+    loadSession,
+    sendMessage,
+    streamReply,
+    cancelStream,
+    confirmInference,
+    askNextQuestion,
+    sendInteractionResponse,
+  } = useChatStore()
+
+  // Only ask to start once per session
+  const askedForSession = useRef<string | null>(null)
+
+  // Load project and chat session on mount
+  useEffect(() => {
+    if (projectId) {
+      log.info('🎤 Loading interview...', { projectId })
+      loadProject(projectId)
+      loadSession(projectId)
+    }
+  }, [projectId, loadProject, loadSession])
+
+  // Ask the first question unless one is already waiting
+  useEffect(() => {
+    if (!session || isLoading || session.status === 'completed') return
+    if (askedForSession.current === session.id) return
+    askedForSession.current = session.id
+
+    if (!getPendingQuestion(messages)) {
+      askNextQuestion()
+    }
+  }, [session, isLoading, messages, askNextQuestion])
+
+  /**
+   * 💬 Free-text message: save it, then stream the reply
+   */
+  const handleSend = async (content: string) => {
+    const saved = await sendMessage(content)
+    if (saved) await streamReply(content, projectId)
+  }
+
+  // Loading state
+  if (!project || !session) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="w-8 h-8 text-primary-500 animate-spin mx-auto mb-4" />
+          <p className="text-gray-500">Loading your interview...</p>
+        </div>
+      </div>
+    )
+  }
+
+  const progress = getInterviewProgress(project, session.skipped_fields)
+  const isDone = session.status === 'completed'
+
+  return (
+    <div className="h-screen bg-gray-50 flex flex-col">
+      <div className="max-w-3xl w-full mx-auto flex-1 min-h-0 bg-white border-x border-gray-200">
+        <ChatContainer
+          messages={messages}
+          onSend={handleSend}
+          isTyping={isTyping}
+          streamingMessageId={streamingMessageId}
+          onCancel={cancelStream}
+          onConfirmInference={confirmInference}
+          onInteractionResponse={sendInteractionResponse}
+          onSkipInteraction={askNextQuestion}
+          placeholder="Answer above, or just tell me in your own words..."
+          header={
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Link
+                  href={`/onboard/${projectId}/setup`}
+                  className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700"
+                >
+                  <ArrowLeft className="w-4 h-4" />
+                  Back to the forms
+                </Link>
+                <span className="text-sm text-gray-500">
+                  {progress.done} of {progress.total} answered
+                </span>
+              </div>
+              <ProgressBar value={progress.done} max={progress.total} size="sm" />
+            </div>
+          }
+          footer={
+            isDone ? (
+              <div className="flex items-center justify-between gap-4">
+                <span className="flex items-center gap-2 text-sm text-gray-700">
+                  <CheckCircle className="w-4 h-4 text-success" />
+                  Interview complete
+                </span>
+                <Link
+                  href={`/onboard/${projectId}/hub`}
+                  className="text-sm font-medium text-primary-600 hover:text-primary-700"
+                >
+                  See your analysis →
+                </Link>
+              </div>
+            ) : error ? (
+              <p className="text-sm text-error">{error}</p>
+            ) : undefined
+          }
+        />
+      </div>
+    </div>
+  )
+}
@@ -6,25 +6,38 @@
  * - Company size
  * - Your name
  * - Your role
+ * - Client name and contact (client brands only)
  *
  * Simple, focused, no overwhelm.
  * Gets just enough info to personalize the rest of the flow.
+ *
+ * A client on an invite link (guest flow) answers about their own
+ * brand - no project type, client details or chat alternative.
+ *
+ * The form is a step draft (see StepDraft): kept through a refresh,
+ * undoable, and autosaved as it's filled in.
  */
 
 'use client'
 
 import { useState, useEffect } from 'react'
-import { useParams, useRouter } from 'next/navigation'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
 import { OnboardLayout } from '@/components/onboard/OnboardLayout'
+import { useOnboardFlow } from '@/components/onboard/OnboardFlow'
+import { DraftToolbar, useStepDraft } from '@/components/onboard/StepDraft'
 import { Input } from '@/components/ui/Input'
 import { Button } from '@/components/ui/Button'
 import { useProjectStore } from '@/lib/stores/projectStore'
 import { useAuthStore } from '@/lib/stores/authStore'
 import {
   COMPANY_SIZE_OPTIONS,
+  PROJECT_TYPE_OPTIONS,
   ROLE_SUGGESTIONS,
+  getOnboardCopy,
 } from '@/lib/config/onboarding'
 import { log } from '@/lib/utils/logger'
+import type { BusinessProject, CompanySize, ProjectType } from '@/lib/types'
 import { cn } from '@/lib/utils'
 import { ChevronDown, Loader2 } from 'lucide-react'
 
@@ -33,10 +46,78 @@ import { ChevronDown, Loader2 } from 'lucide-react'
 // ============================================
 
 interface SetupFormData {
+  projectType: ProjectType
   brandName: string
   companySize: string
   repName: string
   repRole: string
+  clientName: string
+  clientContact: string
+}
+
+/**
+ * The form as the project has it
+ */
+function toSetupForm(project: BusinessProject, memberName?: string | null): SetupFormData {
+  return {
+    projectType: project.project_type || 'primary',
+    brandName: project.idea_name || project.project_name || '',
+    companySize: project.company_size || '',
+    repName: project.rep_name || memberName || '',
+    repRole: project.rep_role || '',
+    clientName: project.client_name || '',
+    clientContact: project.client_contact || '',
+  }
+}
+
+/**
+ * The form as project columns (see FIELD_MAPPINGS)
+ */
+function toSetupFields(formData: SetupFormData): Partial<BusinessProject> {
+  const isPortfolio = formData.projectType === 'portfolio'
+
+  return {
+    idea_name: formData.brandName,
+    // The project keeps its last name while the brand name is blank
+    ...(formData.brandName.trim() && { project_name: formData.brandName }),
+    company_size: (formData.companySize || null) as CompanySize | null,
+    rep_name: formData.repName.trim(),
+    rep_role: formData.repRole.trim(),
+    project_type: formData.projectType,
+    client_name: isPortfolio ? formData.clientName.trim() : null,
+    client_contact: isPortfolio ? formData.clientContact.trim() || null : null,
+  }
+}
+
+// ============================================
+// 📁 PROJECT TYPE TOGGLE
+// ============================================
+
+interface ProjectTypeToggleProps {
+  value: ProjectType
+  onChange: (value: ProjectType) => void
+}
+
+function ProjectTypeToggle({ value, onChange }: ProjectTypeToggleProps) {
+  return (
+    <div className="inline-flex p-1 rounded-lg bg-gray-100">
+      {PROJECT_TYPE_OPTIONS.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => onChange(option.value)}
+          className={cn(
+            'px-3 py-1.5 rounded-md text-sm font-medium transition-all',
+            value === option.value
+              ? 'bg-white text-gray-900 shadow-sm'
+              : 'text-gray-500 hover:text-gray-700'
+          )}
+        >
+          {option.emoji} {option.label}
+        </button>
+      ))}
+    </div>
+  )
 }
 
 // ============================================
@@ -44,15 +125,16 @@ interface SetupFormData {
 // ============================================
 
 interface CompanySizeSelectorProps {
+  label: string
   value: string
   onChange: (value: string) => void
 }
 
-function CompanySizeSelector({ value, onChange }: CompanySizeSelectorProps) {
+function CompanySizeSelector({ label, value, onChange }: CompanySizeSelectorProps) {
   return (
     <div className="space-y-3">
       <label className="block text-sm font-medium text-gray-700">
-        How big is the team?
+        {label}
       </label>
       <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
         {COMPANY_SIZE_OPTIONS.map((option) => (
@@ -146,21 +228,17 @@ function RoleInput({ value, onChange }: RoleInputProps) {
 // ============================================
 
 export default function SetupPage() {
-  const params = useParams()
   const router = useRouter()
-  const projectId = params.projectId as string
+  const { projectId, guestToken, stepHref, nextStep } = useOnboardFlow()
 
-  const { project, loadProject, updateFields, isLoading, isSaving } = useProjectStore()
+  const { project, loadProject, isLoading } = useProjectStore()
   const { member } = useAuthStore()
 
-  // Form state
-  const [formData, setFormData] = useState<SetupFormData>({
-    brandName: '',
-    companySize: '',
-    repName: '',
-    repRole: '',
-  })
-  const [errors, setErrors] = useState<Partial<SetupFormData>>({})
+  // Form state, pre-filled once per project
+  const draft = useStepDraft('setup', (loaded) => toSetupForm(loaded, member?.name))
+  const { setValue } = draft
+  const formData = draft.values
+  const [errors, setErrors] = useState<Partial<Record<keyof SetupFormData, string>>>({})
 
   // Load project on mount
   useEffect(() => {
@@ -170,23 +248,14 @@ export default function SetupPage() {
     }
   }, [projectId, loadProject])
 
-  // Pre-fill form when project loads
-  useEffect(() => {
-    if (project) {
-      setFormData({
-        brandName: project.idea_name || project.project_name || '',
-        companySize: project.team_size || '',
-        repName: member?.name || '',
-        repRole: '', // No good existing field for this
-      })
-    }
-  }, [project, member])
+  const isPortfolio = formData?.projectType === 'portfolio'
+  const copy = getOnboardCopy(formData?.projectType ?? 'primary')
 
   /**
    * 📝 Handle field change
    */
-  const handleChange = (field: keyof SetupFormData, value: string) => {
-    setFormData((prev) => ({ ...prev, [field]: value }))
+  const handleChange = (field: Exclude<keyof SetupFormData, 'projectType'>, value: string) => {
+    setValue(field, value)
 
     // Clear error when user types
     if (errors[field]) {
@@ -198,7 +267,8 @@ export default function SetupPage() {
    * ✅ Validate form
    */
   const validateForm = (): boolean => {
-    const newErrors: Partial<SetupFormData> = {}
+    if (!formData) return false
+    const newErrors: Partial<Record<keyof SetupFormData, string>> = {}
 
     if (!formData.brandName.trim()) {
       newErrors.brandName = 'Brand name is required'
@@ -212,6 +282,9 @@ export default function SetupPage() {
     if (!formData.repRole.trim()) {
       newErrors.repRole = 'Your role is required'
     }
+    if (isPortfolio && !formData.clientName.trim()) {
+      newErrors.clientName = 'Client name is required'
+    }
 
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
@@ -221,35 +294,34 @@ export default function SetupPage() {
    * 💾 Handle continue (save and navigate)
    */
   const handleContinue = async () => {
+    if (!formData) return
     if (!validateForm()) {
       log.warn('📝 Form validation failed', { errors })
       return
     }
 
     log.info('💾 Saving setup data...', formData)
+    const next = nextStep('setup') ?? 'assets'
 
     try {
-      // Save to project
-      // Map our form fields to the existing database schema
-      await updateFields({
-        idea_name: formData.brandName,
-        project_name: formData.brandName,
-        team_size: formData.companySize as 'solo' | 'cofounders' | 'small_team' | 'growing' | 'established',
+      // Save to project (see FIELD_MAPPINGS)
+      await draft.commit({
+        ...toSetupFields(formData),
         status: 'in_progress',
-        current_step: 'assets',
+        current_step: next,
       })
 
       log.success('✅ Setup saved!')
 
       // Navigate to next step
-      router.push(`/onboard/${projectId}/assets`)
+      router.push(stepHref(next))
     } catch (err) {
       log.error('❌ Failed to save setup', err)
     }
   }
 
   // Loading state
-  if (isLoading || !project) {
+  if (isLoading || !project || !formData) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
@@ -265,16 +337,26 @@ export default function SetupPage() {
       projectId={projectId}
       currentStep="setup"
       title="First, the basics"
-      subtitle="Let's get to know your brand"
+      subtitle={copy.setupSubtitle}
       onContinue={handleContinue}
-      isContinueLoading={isSaving}
-      isContinueDisabled={isSaving}
+      isContinueLoading={draft.isSaving}
+      isContinueDisabled={draft.isSaving}
     >
       <div className="space-y-6">
+        <DraftToolbar draft={draft} />
+
+        {/* Whose brand (the consultant's call, not the client's) */}
+        {!guestToken && (
+          <ProjectTypeToggle
+            value={formData.projectType}
+            onChange={(projectType) => setValue('projectType', projectType)}
+          />
+        )}
+
         {/* Brand Name */}
         <Input
-          label="What's the brand called?"
-          placeholder="Enter your brand or business name"
+          label={copy.brandNameLabel}
+          placeholder={copy.brandNamePlaceholder}
           value={formData.brandName}
           onChange={(e) => handleChange('brandName', e.target.value)}
           error={errors.brandName}
@@ -284,6 +366,7 @@ export default function SetupPage() {
         {/* Company Size */}
         <div>
           <CompanySizeSelector
+            label={copy.companySizeLabel}
             value={formData.companySize}
             onChange={(value) => handleChange('companySize', value)}
           />
@@ -292,6 +375,34 @@ export default function SetupPage() {
           )}
         </div>
 
+        {/* About the Client (client brands only) */}
+        {isPortfolio && (
+          <>
+            <div className="border-t border-gray-100 my-2" />
+
+            <div className="space-y-4">
+              <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide">
+                About the client
+              </h3>
+
+              <Input
+                label="Client name"
+                placeholder="Who you're doing this for"
+                value={formData.clientName}
+                onChange={(e) => handleChange('clientName', e.target.value)}
+                error={errors.clientName}
+              />
+
+              <Input
+                label="Client contact"
+                placeholder="Email or phone (optional)"
+                value={formData.clientContact}
+                onChange={(e) => handleChange('clientContact', e.target.value)}
+              />
+            </div>
+          </>
+        )}
+
         {/* Divider */}
         <div className="border-t border-gray-100 my-2" />
 
@@ -319,6 +430,32 @@ export default function SetupPage() {
             <p className="mt-1.5 text-sm text-error">{errors.repRole}</p>
           )}
         </div>
+
+        {/* Interview alternative */}
+        {!guestToken && (
+          <p className="text-sm text-gray-500 text-center pt-2">
+            Prefer to talk it through?{' '}
+            <Link
+              href={`/onboard/${projectId}/interview`}
+              className="font-medium text-primary-600 hover:text-primary-700"
+            >
+              Answer in a chat instead
+            </Link>
+          </p>
+        )}
+
+        {/* Client invite alternative (client projects) */}
+        {!guestToken && project.project_type === 'portfolio' && (
+          <p className="text-sm text-gray-500 text-center">
+            Rather the client answered?{' '}
+            <Link
+              href={`/onboard/${projectId}/hub#client-invite`}
+              className="font-medium text-primary-600 hover:text-primary-700"
+            >
+              Send them an invite link
+            </Link>
+          </p>
+        )}
       </div>
     </OnboardLayout>
   )
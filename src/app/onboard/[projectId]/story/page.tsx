@@ -12,19 +12,38 @@
  * - brandName (should be pre-filled from setup)
  * - brandLocation, yearFounded
  * - foundingReason, customerDescription, coreOffering
+ *
+ * Every blank is saved (see FIELD_MAPPINGS).
+ *
+ * If the web scraper read their website, coreOffering and
+ * customerDescription come with suggestions to accept, edit or reject.
+ * The answers are saved with the story (suggestion_decisions).
+ *
+ * The blanks are a step draft (see StepDraft): kept through a refresh,
+ * undoable, and autosaved as they're typed.
  */
 
 'use client'
 
-import { useState, useEffect } from 'react'
-import { useParams, useRouter } from 'next/navigation'
+import { useState, useEffect, useRef } from 'react'
+import { useRouter } from 'next/navigation'
 import { OnboardLayout } from '@/components/onboard/OnboardLayout'
+import { useOnboardFlow } from '@/components/onboard/OnboardFlow'
+import { DraftToolbar, useStepDraft } from '@/components/onboard/StepDraft'
 import { MadLibsParagraph, MadLibsCompletionIndicator } from '@/components/onboard/MadLibsInput'
+import { ScrapeSuggestion, useLiveScrapeSuggestions } from '@/components/onboard/ScrapeSuggestion'
 import { useProjectStore } from '@/lib/stores/projectStore'
 import { useAuthStore } from '@/lib/stores/authStore'
-import { MAD_LIBS_FIELDS } from '@/lib/config/onboarding'
+import {
+  MAD_LIBS_FIELDS,
+  MAD_LIBS_TEMPLATE,
+  MAD_LIBS_TEMPLATE_PORTFOLIO,
+  getOnboardCopy,
+  getPendingSuggestion,
+} from '@/lib/config/onboarding'
 import { log } from '@/lib/utils/logger'
 import { Loader2, Sparkles } from 'lucide-react'
+import type { BusinessProject, SuggestionDecision, SuggestionField } from '@/lib/types'
 
 // ============================================
 // 📋 TYPES
@@ -54,31 +73,68 @@ const REQUIRED_FIELDS = [
   'coreOffering',
 ]
 
+// Blanks the web scraper can suggest
+const SUGGESTED_FIELDS = ['coreOffering', 'customerDescription'] as const
+
+/**
+ * The blanks as the project has them
+ */
+function toMadLibs(project: BusinessProject, memberName?: string | null): MadLibsData {
+  return {
+    // From setup page
+    repName: project.rep_name || memberName || '',
+    repRole: project.rep_role || '',
+    brandName: project.idea_name || project.project_name || '',
+    // About the brand
+    brandLocation: project.brand_location || '',
+    yearFounded: project.year_founded ? String(project.year_founded) : '',
+    // The story itself
+    foundingReason: project.problem_statement || '',
+    customerDescription: project.customer_description || '',
+    coreOffering: project.secret_sauce || '',
+  }
+}
+
+/**
+ * The blanks as project columns (see FIELD_MAPPINGS)
+ */
+function toStoryFields(values: MadLibsData): Partial<BusinessProject> {
+  const year = Number(values.yearFounded)
+
+  return {
+    // Who and where
+    rep_name: values.repName.trim(),
+    rep_role: values.repRole.trim(),
+    idea_name: values.brandName.trim(),
+    brand_location: values.brandLocation.trim(),
+    year_founded: values.yearFounded && Number.isInteger(year) ? year : null,
+    // Store the narrative data
+    problem_statement: values.foundingReason,
+    customer_description: values.customerDescription,
+    secret_sauce: values.coreOffering,
+  }
+}
+
 // ============================================
 // 📄 MAIN PAGE
 // ============================================
 
 export default function StoryPage() {
-  const params = useParams()
   const router = useRouter()
-  const projectId = params.projectId as string
+  const { projectId, stepHref, nextStep } = useOnboardFlow()
 
-  const { project, loadProject, updateFields, isLoading, isSaving } = useProjectStore()
+  const { project, loadProject, isLoading } = useProjectStore()
   const { member } = useAuthStore()
 
-  // Form state
-  const [values, setValues] = useState<MadLibsData>({
-    repName: '',
-    repRole: '',
-    brandName: '',
-    brandLocation: '',
-    yearFounded: '',
-    foundingReason: '',
-    customerDescription: '',
-    coreOffering: '',
-  })
+  // Form state - pre-filled once per project, so later refreshes
+  // (suggestions arriving, autosaves) don't wipe what's been typed
+  const draft = useStepDraft('story', (loaded) => toMadLibs(loaded, member?.name))
+  const { values, setValue } = draft
   const [errors, setErrors] = useState<Record<string, boolean>>({})
   const [focusedField, setFocusedField] = useState<string | undefined>()
+  const [decisions, setDecisions] = useState<Partial<Record<SuggestionField, SuggestionDecision>>>({})
+
+  useLiveScrapeSuggestions(projectId)
 
   // Load project on mount
   useEffect(() => {
@@ -88,30 +144,23 @@ export default function StoryPage() {
     }
   }, [projectId, loadProject])
 
-  // Pre-fill form when project loads
+  // The member can load after the project - offer their name once
+  const offeredName = useRef<string | null>(null)
+  const isOpen = values !== null
+  const hasRepName = !!values?.repName
   useEffect(() => {
-    if (project) {
-      setValues({
-        // From setup page
-        repName: member?.name || '',
-        repRole: '', // Stored elsewhere
-        brandName: project.idea_name || project.project_name || '',
-        // Need to fill these in
-        brandLocation: '',
-        yearFounded: '',
-        // Map from existing fields
-        foundingReason: project.problem_statement || '',
-        customerDescription: project.one_liner || '',
-        coreOffering: project.secret_sauce || '',
-      })
+    const name = member?.name
+    if (name && isOpen && offeredName.current !== name) {
+      offeredName.current = name
+      if (!hasRepName) setValue('repName', name)
     }
-  }, [project, member])
+  }, [member, isOpen, hasRepName, setValue])
 
   /**
    * 📝 Handle field change
    */
   const handleChange = (fieldId: string, value: string) => {
-    setValues((prev) => ({ ...prev, [fieldId]: value }))
+    setValue(fieldId, value)
 
     // Clear error when user types
     if (errors[fieldId]) {
@@ -119,17 +168,29 @@ export default function StoryPage() {
     }
   }
 
+  /**
+   * 💡 Handle the answer to a suggestion
+   */
+  const handleDecision = (fieldId: SuggestionField, decision: SuggestionDecision) => {
+    setDecisions((prev) => ({ ...prev, [fieldId]: decision }))
+    if (typeof decision.value === 'string') {
+      handleChange(fieldId, decision.value)
+    }
+    log.info('💡 Suggestion answered', { fieldId, status: decision.status })
+  }
+
   /**
    * ✅ Check if form is complete
    */
   const isComplete = () => {
-    return REQUIRED_FIELDS.every((field) => values[field as keyof MadLibsData]?.trim())
+    return REQUIRED_FIELDS.every((field) => values?.[field as keyof MadLibsData]?.trim())
   }
 
   /**
    * ✅ Validate form
    */
   const validateForm = (): boolean => {
+    if (!values) return false
     const newErrors: Record<string, boolean> = {}
 
     REQUIRED_FIELDS.forEach((field) => {
@@ -138,6 +199,12 @@ export default function StoryPage() {
       }
     })
 
+    // The year has to be a real one
+    const year = Number(values.yearFounded)
+    if (values.yearFounded && (year < 1800 || year > new Date().getFullYear() + 1)) {
+      newErrors.yearFounded = true
+    }
+
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
   }
@@ -146,6 +213,7 @@ export default function StoryPage() {
    * 💾 Handle continue (save and navigate)
    */
   const handleContinue = async () => {
+    if (!values) return
     if (!validateForm()) {
       log.warn('📖 Form validation failed - not all blanks filled')
 
@@ -160,30 +228,32 @@ export default function StoryPage() {
     }
 
     log.info('💾 Saving story data...', values)
+    const next = nextStep('story') ?? 'words'
 
     try {
       // Map Mad Libs fields to database schema
-      await updateFields({
-        // Store the narrative data
-        problem_statement: values.foundingReason,
-        one_liner: values.customerDescription,
-        secret_sauce: values.coreOffering,
+      await draft.commit({
+        ...toStoryFields(values),
+        // What they did with the website's suggestions
+        ...(Object.keys(decisions).length > 0 && {
+          suggestion_decisions: { ...project?.suggestion_decisions, ...decisions },
+        }),
         // Update progress
-        current_step: 'words',
+        current_step: next,
         status: 'in_progress',
       })
 
       log.success('✅ Story saved!')
 
       // Navigate to next step
-      router.push(`/onboard/${projectId}/words`)
+      router.push(stepHref(next))
     } catch (err) {
       log.error('❌ Failed to save story', err)
     }
   }
 
   // Loading state
-  if (isLoading || !project) {
+  if (isLoading || !project || !values) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
@@ -198,13 +268,15 @@ export default function StoryPage() {
     <OnboardLayout
       projectId={projectId}
       currentStep="story"
-      title="Tell us your story"
+      title={getOnboardCopy(project.project_type).storyTitle}
       subtitle="Fill in the blanks — it's easier than starting from scratch!"
       onContinue={handleContinue}
-      isContinueLoading={isSaving}
+      isContinueLoading={draft.isSaving}
       isContinueDisabled={!isComplete()}
     >
       <div className="space-y-8">
+        <DraftToolbar draft={draft} />
+
         {/* Tip */}
         <div className="flex items-start gap-3 p-4 bg-amber-50 rounded-lg border border-amber-100">
           <Sparkles className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
@@ -217,6 +289,22 @@ export default function StoryPage() {
           </div>
         </div>
 
+        {/* Suggestions from their website - only for blanks still empty */}
+        {SUGGESTED_FIELDS.map((fieldId) => {
+          const suggestion = getPendingSuggestion(project, fieldId, decisions)
+          if (!suggestion || values[fieldId].trim()) return null
+
+          return (
+            <ScrapeSuggestion
+              key={fieldId}
+              field={fieldId}
+              suggestion={suggestion}
+              confidence={project.scrape_confidence}
+              onDecide={(decision) => handleDecision(fieldId, decision)}
+            />
+          )
+        })}
+
         {/* Mad Libs Paragraph */}
         <div className="p-6 bg-gray-50 rounded-xl border border-gray-100">
           <MadLibsParagraph
@@ -225,6 +313,7 @@ export default function StoryPage() {
             errors={errors}
             focusedField={focusedField}
             onFieldFocus={setFocusedField}
+            template={project.project_type === 'portfolio' ? MAD_LIBS_TEMPLATE_PORTFOLIO : MAD_LIBS_TEMPLATE}
           />
         </div>
 
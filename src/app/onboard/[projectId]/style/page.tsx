@@ -7,33 +7,71 @@
  * Two simple sliders for communication style and price positioning.
  *
  * These are intentionally fast to fill in.
+ * It's the last step of a client's invite - finishing or skipping it
+ * completes the invite.
+ *
+ * The sliders are a step draft (see StepDraft): kept through a
+ * refresh, undoable, and autosaved as they move.
  */
 
 'use client'
 
-import { useState, useEffect } from 'react'
-import { useParams, useRouter } from 'next/navigation'
+import { useEffect } from 'react'
+import { useRouter } from 'next/navigation'
 import { OnboardLayout } from '@/components/onboard/OnboardLayout'
+import { useOnboardFlow } from '@/components/onboard/OnboardFlow'
+import { DraftToolbar, useStepDraft } from '@/components/onboard/StepDraft'
 import { StyleSlider } from '@/components/onboard/StyleSlider'
 import { useProjectStore } from '@/lib/stores/projectStore'
-import { SLIDER_CONFIGS } from '@/lib/config/onboarding'
+import { SLIDER_CONFIGS, getOnboardCopy } from '@/lib/config/onboarding'
 import { log } from '@/lib/utils/logger'
 import { Loader2, Zap } from 'lucide-react'
+import type { BusinessProject } from '@/lib/types'
+
+// ============================================
+// 📋 TYPES
+// ============================================
+
+interface StyleData {
+  commStyle: number
+  pricePosition: number
+}
+
+/**
+ * The sliders as the project has them (the middle if never set)
+ */
+function toStyle(project: BusinessProject): StyleData {
+  return {
+    commStyle: project.communication_style || 3,
+    pricePosition: project.price_position || 3,
+  }
+}
+
+/**
+ * The sliders as project columns
+ */
+function toStyleFields(values: StyleData): Partial<BusinessProject> {
+  return {
+    communication_style: values.commStyle,
+    price_position: values.pricePosition,
+  }
+}
 
 // ============================================
 // 📄 MAIN PAGE
 // ============================================
 
 export default function StylePage() {
-  const params = useParams()
   const router = useRouter()
-  const projectId = params.projectId as string
+  const { projectId, guestToken, stepHref, nextStep } = useOnboardFlow()
 
-  const { project, loadProject, updateFields, isLoading, isSaving } = useProjectStore()
+  const { project, loadProject, isLoading } = useProjectStore()
 
-  // Slider values
-  const [commStyle, setCommStyle] = useState(3)
-  const [pricePosition, setPricePosition] = useState(3)
+  const next = nextStep('style') ?? 'hub'
+
+  // Slider values, pre-filled from existing data
+  const draft = useStepDraft('style', toStyle)
+  const { values, setValue } = draft
 
   // Load project on mount
   useEffect(() => {
@@ -43,41 +81,25 @@ export default function StylePage() {
     }
   }, [projectId, loadProject])
 
-  // Pre-fill from existing data
-  useEffect(() => {
-    if (project) {
-      // We're reusing some numeric fields to store these
-      if (project.pricing_tier) {
-        setCommStyle(project.pricing_tier)
-      }
-      if (project.differentiation_score) {
-        setPricePosition(project.differentiation_score)
-      }
-    }
-  }, [project])
-
   /**
    * 💾 Handle continue (save and navigate)
    */
   const handleContinue = async () => {
-    log.info('💾 Saving style preferences...', {
-      commStyle,
-      pricePosition,
-    })
+    if (!values) return
+    log.info('💾 Saving style preferences...', values)
 
     try {
-      await updateFields({
+      await draft.commit({
         // Store slider values
-        pricing_tier: commStyle,
-        differentiation_score: pricePosition,
+        ...toStyleFields(values),
         // Update progress
-        current_step: 'hub',
+        current_step: next,
       })
 
       log.success('✅ Style saved!')
 
-      // Navigate to hub (analysis dashboard)
-      router.push(`/onboard/${projectId}/hub`)
+      // Navigate to hub (analysis dashboard), or a client's thank-you page
+      router.push(stepHref(next))
     } catch (err) {
       log.error('❌ Failed to save style', err)
     }
@@ -86,13 +108,24 @@ export default function StylePage() {
   /**
    * ⏭️ Handle skip
    */
-  const handleSkip = () => {
+  const handleSkip = async () => {
     log.info('⏭️ Skipping style step')
-    router.push(`/onboard/${projectId}/hub`)
+
+    // A client skipping still finishes their invite
+    if (guestToken) {
+      try {
+        await draft.commit({ current_step: next })
+      } catch (err) {
+        log.error('❌ Failed to finish invite', err)
+        return
+      }
+    }
+
+    router.push(stepHref(next))
   }
 
   // Loading state
-  if (isLoading || !project) {
+  if (isLoading || !project || !values) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
@@ -112,13 +145,15 @@ export default function StylePage() {
       projectId={projectId}
       currentStep="style"
       title="A few quick preferences"
-      subtitle="These help us understand your positioning"
+      subtitle={getOnboardCopy(project.project_type).styleSubtitle}
       onContinue={handleContinue}
-      isContinueLoading={isSaving}
+      isContinueLoading={draft.isSaving}
       showSkip={true}
       onSkip={handleSkip}
     >
       <div className="space-y-6">
+        <DraftToolbar draft={draft} />
+
         {/* Quick note */}
         <div className="flex items-start gap-3 p-4 bg-gray-50 rounded-lg border border-gray-100">
           <Zap className="w-5 h-5 text-primary-600 flex-shrink-0 mt-0.5" />
@@ -137,8 +172,8 @@ export default function StylePage() {
           description={commStyleConfig.description}
           leftLabel={commStyleConfig.leftLabel}
           rightLabel={commStyleConfig.rightLabel}
-          value={commStyle}
-          onChange={setCommStyle}
+          value={values.commStyle}
+          onChange={(value) => setValue('commStyle', value)}
           descriptions={commStyleConfig.descriptions}
         />
 
@@ -149,8 +184,8 @@ export default function StylePage() {
           description={pricePositionConfig.description}
           leftLabel={pricePositionConfig.leftLabel}
           rightLabel={pricePositionConfig.rightLabel}
-          value={pricePosition}
-          onChange={setPricePosition}
+          value={values.pricePosition}
+          onChange={(value) => setValue('pricePosition', value)}
           descriptions={pricePositionConfig.descriptions}
         />
       </div>
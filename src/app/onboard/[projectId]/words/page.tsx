@@ -9,150 +9,97 @@
  *
  * This structured approach is much easier than asking
  * "describe your brand voice" from scratch.
+ *
+ * If the web scraper read their website, each bank comes with
+ * suggested words to accept, edit or reject. The answers are saved
+ * with the words (suggestion_decisions).
+ *
+ * The picks are a step draft (see StepDraft): kept through a refresh,
+ * undoable, and autosaved as they change.
  */
 
 'use client'
 
 import { useState, useEffect } from 'react'
-import { useParams, useRouter } from 'next/navigation'
+import { useRouter } from 'next/navigation'
 import { OnboardLayout } from '@/components/onboard/OnboardLayout'
+import { useOnboardFlow } from '@/components/onboard/OnboardFlow'
+import { DraftToolbar, useStepDraft } from '@/components/onboard/StepDraft'
 import { WordBankSelector } from '@/components/onboard/WordBankSelector'
+import { ScrapeSuggestion, useLiveScrapeSuggestions } from '@/components/onboard/ScrapeSuggestion'
 import { useProjectStore } from '@/lib/stores/projectStore'
+import {
+  BRAND_WORD_CATEGORIES,
+  BRAND_WORDS,
+  CUSTOMER_WORD_CATEGORIES,
+  CUSTOMER_WORDS,
+  MAX_WORD_SELECTIONS,
+  MIN_WORD_SELECTIONS,
+  getOnboardCopy,
+  getPendingSuggestion,
+  matchBankWords,
+} from '@/lib/config/onboarding'
 import { log } from '@/lib/utils/logger'
 import { Loader2 } from 'lucide-react'
+import type { BusinessProject, SuggestionDecision, SuggestionField } from '@/lib/types'
 
 // ============================================
-// 📚 WORD BANK DEFINITIONS
+// 📋 TYPES
 // ============================================
 
+interface WordsData {
+  brandWords: string[]
+  customerWords: string[]
+}
+
+/**
+ * The picks as the project has them
+ */
+function toWords(project: BusinessProject): WordsData {
+  return {
+    // Brand words stored in brand_personality
+    brandWords: Array.isArray(project.brand_personality) ? project.brand_personality : [],
+    // Customer words stored in target_audience
+    customerWords: Array.isArray(project.target_audience) ? project.target_audience : [],
+  }
+}
+
 /**
- * Brand Personality Words
- * Users pick 5-7 words that feel like their brand
+ * The picks as project columns
  */
-const BRAND_WORD_CATEGORIES = [
-  {
-    id: 'warmth',
-    label: 'Warmth & Care',
-    emoji: '💛',
-    words: [
-      'Compassionate', 'Nurturing', 'Supportive', 'Welcoming',
-      'Friendly', 'Approachable', 'Caring', 'Gentle',
-      'Kind', 'Warm', 'Empathetic', 'Thoughtful',
-    ],
-  },
-  {
-    id: 'energy',
-    label: 'Energy & Drive',
-    emoji: '⚡',
-    words: [
-      'Bold', 'Dynamic', 'Energetic', 'Driven',
-      'Ambitious', 'Fearless', 'Adventurous', 'Spirited',
-      'Vibrant', 'Passionate', 'Determined', 'Motivated',
-    ],
-  },
-  {
-    id: 'trust',
-    label: 'Trust & Reliability',
-    emoji: '🤝',
-    words: [
-      'Trustworthy', 'Reliable', 'Dependable', 'Consistent',
-      'Stable', 'Honest', 'Authentic', 'Transparent',
-      'Credible', 'Solid', 'Genuine', 'Loyal',
-    ],
-  },
-  {
-    id: 'expertise',
-    label: 'Expertise & Quality',
-    emoji: '✨',
-    words: [
-      'Expert', 'Professional', 'Sophisticated', 'Refined',
-      'Premium', 'Meticulous', 'Precise', 'Excellent',
-      'Elite', 'Masterful', 'Polished', 'Distinguished',
-    ],
-  },
-  {
-    id: 'innovation',
-    label: 'Innovation & Creativity',
-    emoji: '💡',
-    words: [
-      'Innovative', 'Creative', 'Original', 'Inventive',
-      'Visionary', 'Forward-thinking', 'Fresh', 'Modern',
-      'Imaginative', 'Pioneering', 'Cutting-edge', 'Unconventional',
-    ],
-  },
-  {
-    id: 'fun',
-    label: 'Fun & Playful',
-    emoji: '🎈',
-    words: [
-      'Playful', 'Fun', 'Quirky', 'Witty',
-      'Cheerful', 'Light-hearted', 'Joyful', 'Entertaining',
-      'Delightful', 'Whimsical', 'Humorous', 'Lively',
-    ],
-  },
-]
+function toWordsFields(values: WordsData): Partial<BusinessProject> {
+  return {
+    brand_personality: values.brandWords,
+    target_audience: values.customerWords,
+  }
+}
 
 /**
- * Customer Descriptor Words
- * Users pick 5-7 words that describe their ideal customer
+ * Add suggested words to a selection, up to the maximum
  */
-const CUSTOMER_WORD_CATEGORIES = [
-  {
-    id: 'life_stage',
-    label: 'Life Stage',
-    emoji: '🌱',
-    words: [
-      'New parent', 'Career changer', 'Recent graduate', 'Retiree',
-      'Mid-career professional', 'Startup founder', 'Empty nester',
-      'Young professional', 'Established business owner', 'First-time buyer',
-    ],
-  },
-  {
-    id: 'mindset',
-    label: 'Mindset',
-    emoji: '🧠',
-    words: [
-      'Ambitious', 'Curious', 'Overwhelmed', 'Stuck',
-      'Ready for change', 'Growth-oriented', 'Skeptical', 'Eager',
-      'Cautious', 'Open-minded', 'Motivated', 'Stressed',
-    ],
-  },
-  {
-    id: 'needs',
-    label: 'Needs & Priorities',
-    emoji: '🎯',
-    words: [
-      'Time-strapped', 'Budget-conscious', 'Quality-focused', 'Results-driven',
-      'Relationship-oriented', 'Balance-seeking', 'Security-seeking', 'Status-conscious',
-      'Value-driven', 'Convenience-focused', 'Health-conscious', 'Career-focused',
-    ],
-  },
-  {
-    id: 'industry',
-    label: 'Industry',
-    emoji: '💼',
-    words: [
-      'Creative professional', 'Healthcare worker', 'Educator', 'Tech worker',
-      'Service provider', 'Consultant', 'Retail owner', 'Freelancer',
-      'Finance professional', 'Nonprofit worker', 'Agency owner', 'Small business owner',
-    ],
-  },
-]
+function addWords(selected: string[], words: string[]): string[] {
+  return Array.from(new Set([...selected, ...words])).slice(0, MAX_WORD_SELECTIONS)
+}
 
 // ============================================
 // 📄 MAIN PAGE
 // ============================================
 
 export default function WordsPage() {
-  const params = useParams()
   const router = useRouter()
-  const projectId = params.projectId as string
+  const { projectId, stepHref, nextStep } = useOnboardFlow()
+
+  const { project, loadProject, isLoading } = useProjectStore()
 
-  const { project, loadProject, updateFields, isLoading, isSaving } = useProjectStore()
+  // Selection state - pre-filled once per project, so later refreshes
+  // (suggestions arriving, autosaves) don't wipe the current picks
+  const draft = useStepDraft('words', toWords)
+  const { values, setValue } = draft
+  const brandWords = values?.brandWords ?? []
+  const customerWords = values?.customerWords ?? []
+  const [decisions, setDecisions] = useState<Partial<Record<SuggestionField, SuggestionDecision>>>({})
 
-  // Selection state
-  const [brandWords, setBrandWords] = useState<string[]>([])
-  const [customerWords, setCustomerWords] = useState<string[]>([])
+  useLiveScrapeSuggestions(projectId)
 
   // Load project on mount
   useEffect(() => {
@@ -162,25 +109,23 @@ export default function WordsPage() {
     }
   }, [projectId, loadProject])
 
-  // Pre-fill from existing data
-  useEffect(() => {
-    if (project) {
-      // Brand words stored in company_values
-      if (project.company_values && Array.isArray(project.company_values)) {
-        setBrandWords(project.company_values)
-      }
-      // Customer words stored in target_audience
-      if (project.target_audience && Array.isArray(project.target_audience)) {
-        setCustomerWords(project.target_audience)
-      }
+  /**
+   * 💡 Handle the answer to a suggestion - kept words join the selection
+   */
+  const handleDecision = (field: 'brandWords' | 'customerWords', decision: SuggestionDecision) => {
+    setDecisions((prev) => ({ ...prev, [field]: decision }))
+
+    if (Array.isArray(decision.value)) {
+      setValue(field, addWords(field === 'brandWords' ? brandWords : customerWords, decision.value))
     }
-  }, [project])
+    log.info('💡 Suggestion answered', { field, status: decision.status })
+  }
 
   /**
    * ✅ Check if both selections are complete
    */
   const isComplete = () => {
-    return brandWords.length >= 5 && customerWords.length >= 5
+    return brandWords.length >= MIN_WORD_SELECTIONS && customerWords.length >= MIN_WORD_SELECTIONS
   }
 
   /**
@@ -196,28 +141,31 @@ export default function WordsPage() {
       brandWords,
       customerWords,
     })
+    const next = nextStep('words') ?? 'style'
 
     try {
-      await updateFields({
-        // Store brand words in company_values
-        company_values: brandWords,
-        // Store customer words in target_audience
-        target_audience: customerWords,
+      await draft.commit({
+        // Brand words in brand_personality, customer words in target_audience
+        ...toWordsFields({ brandWords, customerWords }),
+        // What they did with the website's suggestions
+        ...(Object.keys(decisions).length > 0 && {
+          suggestion_decisions: { ...project?.suggestion_decisions, ...decisions },
+        }),
         // Update progress
-        current_step: 'style',
+        current_step: next,
       })
 
       log.success('✅ Words saved!')
 
       // Navigate to next step
-      router.push(`/onboard/${projectId}/style`)
+      router.push(stepHref(next))
     } catch (err) {
       log.error('❌ Failed to save words', err)
     }
   }
 
   // Loading state
-  if (isLoading || !project) {
+  if (isLoading || !project || !values) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
@@ -228,26 +176,41 @@ export default function WordsPage() {
     )
   }
 
+  const copy = getOnboardCopy(project.project_type)
+  const brandSuggestion = getPendingSuggestion(project, 'brandWords', decisions)
+  const customerSuggestion = getPendingSuggestion(project, 'customerWords', decisions)
+
   return (
     <OnboardLayout
       projectId={projectId}
       currentStep="words"
-      title="Words that feel like your brand"
-      subtitle="Pick words from each section — this helps us understand your voice"
+      title={copy.wordsTitle}
+      subtitle={copy.wordsSubtitle}
       onContinue={handleContinue}
-      isContinueLoading={isSaving}
+      isContinueLoading={draft.isSaving}
       isContinueDisabled={!isComplete()}
     >
       <div className="space-y-10">
+        <DraftToolbar draft={draft} />
+
         {/* Brand Personality Words */}
+        {brandSuggestion && (
+          <ScrapeSuggestion
+            field="brandWords"
+            suggestion={brandSuggestion}
+            confidence={project.scrape_confidence}
+            onDecide={(decision) => handleDecision('brandWords', decision)}
+            parseEdit={(text) => matchBankWords(text, BRAND_WORDS)}
+          />
+        )}
         <WordBankSelector
           title="Brand Personality"
-          description="Pick 5-7 words that describe how you want your brand to feel"
+          description={copy.brandWordsDescription}
           categories={BRAND_WORD_CATEGORIES}
           selectedWords={brandWords}
-          onSelectionChange={setBrandWords}
-          minSelections={5}
-          maxSelections={7}
+          onSelectionChange={(words) => setValue('brandWords', words)}
+          minSelections={MIN_WORD_SELECTIONS}
+          maxSelections={MAX_WORD_SELECTIONS}
           wordsPerCategory={6}
         />
 
@@ -255,14 +218,23 @@ export default function WordsPage() {
         <div className="border-t border-gray-200" />
 
         {/* Customer Descriptor Words */}
+        {customerSuggestion && (
+          <ScrapeSuggestion
+            field="customerWords"
+            suggestion={customerSuggestion}
+            confidence={project.scrape_confidence}
+            onDecide={(decision) => handleDecision('customerWords', decision)}
+            parseEdit={(text) => matchBankWords(text, CUSTOMER_WORDS)}
+          />
+        )}
         <WordBankSelector
-          title="Your Ideal Customer"
-          description="Pick 5-7 words that describe who you serve"
+          title={copy.customerWordsTitle}
+          description={copy.customerWordsDescription}
           categories={CUSTOMER_WORD_CATEGORIES}
           selectedWords={customerWords}
-          onSelectionChange={setCustomerWords}
-          minSelections={5}
-          maxSelections={7}
+          onSelectionChange={(words) => setValue('customerWords', words)}
+          minSelections={MIN_WORD_SELECTIONS}
+          maxSelections={MAX_WORD_SELECTIONS}
           wordsPerCategory={6}
         />
       </div>
@@ -3,8 +3,8 @@
  * ===================
  * First step: Choose project type (My Brand vs Client Brand)
  *
- * This page creates a new project and routes to setup.
- * Simple, focused, no overwhelm.
+ * This page creates a new project in the current workspace and routes to
+ * setup. Simple, focused, no overwhelm.
  */
 
 'use client'
@@ -17,8 +17,11 @@ import { Button } from '@/components/ui/Button'
 import { Card } from '@/components/ui/Card'
 import { useAuthStore } from '@/lib/stores/authStore'
 import { useProjectStore } from '@/lib/stores/projectStore'
+import { useWorkspaceStore } from '@/lib/stores/workspaceStore'
+import { canEdit } from '@/lib/workspaces/roles'
 import { PROJECT_TYPE_OPTIONS, type ProjectTypeOption } from '@/lib/config/onboarding'
 import { log } from '@/lib/utils/logger'
+import type { ProjectType } from '@/lib/types'
 import { cn } from '@/lib/utils'
 
 // ============================================
@@ -96,8 +99,9 @@ export default function NewProjectPage() {
   const router = useRouter()
   const { member } = useAuthStore()
   const { createProject } = useProjectStore()
+  const { loadWorkspaces } = useWorkspaceStore()
 
-  const [selectedType, setSelectedType] = useState<'primary' | 'portfolio'>('primary')
+  const [selectedType, setSelectedType] = useState<ProjectType>('primary')
   const [isCreating, setIsCreating] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -115,14 +119,24 @@ export default function NewProjectPage() {
     setError(null)
 
     try {
-      log.info('🆕 Creating new project...', { type: selectedType })
+      // Opened directly (not from the dashboard) - find the workspace first
+      if (!useWorkspaceStore.getState().currentWorkspace) {
+        await loadWorkspaces(member)
+      }
+
+      const workspace = useWorkspaceStore.getState().currentWorkspace
+      if (!workspace || !canEdit(workspace.role)) {
+        throw new Error('You can only view projects in this workspace')
+      }
+
+      log.info('🆕 Creating new project...', { type: selectedType, workspaceId: workspace.id })
 
       // Create the project with a default name
       const projectName = selectedType === 'primary'
         ? 'My Brand'
         : 'New Client Brand'
 
-      const project = await createProject(member.id, projectName)
+      const project = await createProject(member.id, workspace.id, projectName, selectedType)
 
       if (!project) {
         throw new Error('Failed to create project')
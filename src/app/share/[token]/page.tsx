@@ -0,0 +1,102 @@
+/**
+ * 🔗 SHARED BRAND FOUNDATION PAGE
+ * ===============================
+ * Public read-only view of a brand foundation, opened from a share link
+ * (/share/<token>). No account needed - the middleware leaves /share
+ * alone, and the link is checked on the server with the service role.
+ *
+ * Shows the sections the owner chose for this link; revoked, expired
+ * and unknown links all get the same "not available" message.
+ */
+
+import { cache } from 'react'
+import type { Metadata } from 'next'
+import { Link2Off, Rocket } from 'lucide-react'
+import { Card, CardTitle } from '@/components/ui/Card'
+import { BrandDocumentView } from '@/components/share/BrandDocumentView'
+import { buildBrandDocument } from '@/lib/export/document'
+import { openShareLink } from '@/lib/share/server'
+
+// Every visit checks the link and counts a view
+export const dynamic = 'force-dynamic'
+
+// Metadata and the page share one lookup per request (one view counted)
+const getSharedProject = cache(openShareLink)
+
+interface SharePageProps {
+  params: { token: string }
+}
+
+export async function generateMetadata({ params }: SharePageProps): Promise<Metadata> {
+  const shared = await getSharedProject(params.token)
+
+  // Titled from the shared document, like the page - built with the link's hidden sections
+  const doc = shared && buildBrandDocument(shared.project, { hidden: shared.link.hidden_sections })
+
+  return {
+    title: doc ? `${doc.title} - Brand Foundation` : 'Link not available',
+    robots: { index: false, follow: false },
+  }
+}
+
+export default async function SharePage({ params }: SharePageProps) {
+  const shared = await getSharedProject(params.token)
+
+  // Unknown, revoked or expired
+  if (!shared) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="text-center max-w-sm">
+          <Link2Off className="w-10 h-10 text-gray-400 mx-auto mb-4" />
+          <h1 className="text-xl font-semibold text-gray-900 mb-2">This link isn&apos;t available</h1>
+          <p className="text-gray-500">
+            It may have expired or been turned off. Ask whoever shared it for a new one.
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  const { link, project } = shared
+  const doc = buildBrandDocument(project, { hidden: link.hidden_sections })
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* ============================================ */}
+      {/* HEADER */}
+      {/* ============================================ */}
+      <header className="bg-white border-b border-gray-200">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-2">
+            <Rocket className="w-6 h-6 text-primary-500" />
+            <span className="font-bold text-gray-900">Foundation Studio</span>
+          </div>
+        </div>
+      </header>
+
+      {/* ============================================ */}
+      {/* MAIN CONTENT */}
+      {/* ============================================ */}
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto">
+          <Card>
+            <div className="pb-4 mb-6 border-b border-gray-100">
+              <CardTitle className="text-xl">{doc.title}</CardTitle>
+              <p className="text-sm text-gray-500 mt-1">{doc.subtitle}</p>
+            </div>
+
+            {doc.sections.length > 0 ? (
+              <BrandDocumentView doc={doc} />
+            ) : (
+              <p className="text-gray-400 italic">Nothing has been shared here yet.</p>
+            )}
+          </Card>
+
+          <p className="mt-6 text-center text-sm text-gray-400">
+            Read-only copy shared from Foundation Studio
+          </p>
+        </div>
+      </main>
+    </div>
+  )
+}
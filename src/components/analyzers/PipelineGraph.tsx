@@ -0,0 +1,149 @@
+/**
+ * 🚦 PIPELINE GRAPH
+ * =================
+ * Shows a project's analyzers as a dependency graph.
+ *
+ * Analyzers are laid out in columns by depth (analyzers with no
+ * dependencies first), each tagged blocked / ready / running / done.
+ * Blocked analyzers say what they're waiting for; ready ones can be
+ * started with a click, and stale ones re-run.
+ *
+ * Usage:
+ *   <PipelineGraph nodes={getProjectPipeline(project, runs)} onRun={type => trigger(type)} />
+ */
+
+'use client'
+
+import { ArrowRight, CheckCircle, Clock, Loader2, AlertCircle, Lock, Play } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { ANALYZER_REGISTRY } from '@/lib/analyzers/registry'
+import type { AnalyzerType } from '@/lib/analyzers/types'
+import type { PipelineNode, PipelineNodeState } from '@/lib/analyzers/pipeline'
+import { StaleBadge } from './StaleBadge'
+
+// ============================================
+// 📋 TYPES
+// ============================================
+
+export interface PipelineGraphProps {
+  /** Pipeline nodes from getProjectPipeline() */
+  nodes: PipelineNode[]
+  /** Start a ready analyzer */
+  onRun?: (type: AnalyzerType) => void
+  /** Disable run buttons (e.g. while triggering) */
+  disabled?: boolean
+}
+
+// ============================================
+// 🎨 STATE STYLES
+// ============================================
+
+const STATE_STYLES: Record<PipelineNodeState, { label: string; className: string; icon: React.ReactNode }> = {
+  blocked: {
+    label: 'Blocked',
+    className: 'border-gray-200 bg-gray-50 text-gray-500',
+    icon: <Lock className="w-3.5 h-3.5" />,
+  },
+  ready: {
+    label: 'Ready',
+    className: 'border-primary-200 bg-white text-primary-700',
+    icon: <Clock className="w-3.5 h-3.5" />,
+  },
+  running: {
+    label: 'Running',
+    className: 'border-primary-300 bg-primary-50 text-primary-700',
+    icon: <Loader2 className="w-3.5 h-3.5 animate-spin" />,
+  },
+  done: {
+    label: 'Done',
+    className: 'border-green-200 bg-green-50 text-green-700',
+    icon: <CheckCircle className="w-3.5 h-3.5" />,
+  },
+  failed: {
+    label: 'Failed',
+    className: 'border-red-200 bg-red-50 text-red-700',
+    icon: <AlertCircle className="w-3.5 h-3.5" />,
+  },
+}
+
+// ============================================
+// 🧩 NODE
+// ============================================
+
+function PipelineNodeCard({ node, onRun, disabled }: {
+  node: PipelineNode
+  onRun?: (type: AnalyzerType) => void
+  disabled?: boolean
+}) {
+  const config = ANALYZER_REGISTRY[node.type]
+  const style = STATE_STYLES[node.state]
+
+  // Explain why a node is blocked
+  const reason = node.blockedBy.length
+    ? `Waiting for ${node.blockedBy.map(dep => ANALYZER_REGISTRY[dep].name).join(', ')}`
+    : node.missing.length
+    ? `Needs: ${node.missing.join(', ')}`
+    : null
+
+  return (
+    <div className={cn('rounded-lg border px-3 py-2 text-sm transition-colors', style.className)}>
+      <div className="flex items-center gap-2">
+        <span className="text-base">{config.icon}</span>
+        <span className="font-medium text-gray-800 flex-1 truncate">{config.name}</span>
+        <span className="flex items-center gap-1 text-xs font-medium">
+          {style.icon}
+          {style.label}
+        </span>
+      </div>
+
+      {node.state === 'blocked' && reason && (
+        <p className="mt-1 text-xs text-gray-400">{reason}</p>
+      )}
+
+      {node.stale && <StaleBadge className="mt-1.5" />}
+
+      {(node.state === 'ready' || node.state === 'failed' || node.stale) && onRun && (
+        <button
+          onClick={() => onRun(node.type)}
+          disabled={disabled}
+          className="mt-1.5 flex items-center gap-1 text-xs font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50"
+        >
+          <Play className="w-3 h-3" />
+          {node.state === 'failed' ? 'Try again' : node.stale ? 'Re-run' : 'Run now'}
+        </button>
+      )}
+    </div>
+  )
+}
+
+// ============================================
+// 🎨 COMPONENT
+// ============================================
+
+export function PipelineGraph({ nodes, onRun, disabled }: PipelineGraphProps) {
+  // Group nodes into columns by depth
+  const columns: PipelineNode[][] = []
+  for (const node of nodes) {
+    if (!columns[node.depth]) columns[node.depth] = []
+    columns[node.depth].push(node)
+  }
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-start gap-3">
+      {columns.map((column, depth) => (
+        <div key={depth} className="contents">
+          {depth > 0 && (
+            <div className="flex justify-center sm:self-center text-gray-300">
+              <ArrowRight className="w-5 h-5 rotate-90 sm:rotate-0" />
+            </div>
+          )}
+          <div className="flex-1 space-y-2">
+            {column.map(node => (
+              <PipelineNodeCard key={node.type} node={node} onRun={onRun} disabled={disabled} />
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
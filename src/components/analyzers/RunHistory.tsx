@@ -0,0 +1,341 @@
+/**
+ * 🗂️ RUN HISTORY
+ * ==============
+ * Every run of an analyzer, with a field-by-field diff between any two
+ * and a way to restore an earlier one.
+ *
+ * Pick an analyzer, mark two runs as A (older) and B (newer), and the
+ * diff of their parsed_fields shows underneath. Restoring writes the
+ * run's outputs back onto the project as a new run.
+ *
+ * Usage:
+ *   <RunHistory projectId={projectId} onRestored={() => loadProject(projectId)} />
+ */
+
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { History, Loader2, RotateCcw } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { cn, formatRelativeTime } from '@/lib/utils'
+import { useAnalyzerStore } from '@/lib/analyzers/store'
+import { ANALYZER_REGISTRY } from '@/lib/analyzers/registry'
+import { diffParsedFields } from '@/lib/analyzers/history'
+import type { FieldDiff } from '@/lib/analyzers/history'
+import type { AnalyzerRun, AnalyzerType } from '@/lib/analyzers/types'
+
+// ============================================
+// 📋 TYPES
+// ============================================
+
+export interface RunHistoryProps {
+  projectId: string
+  /** Called after a run was restored (e.g. to reload the project) */
+  onRestored?: () => void
+}
+
+// ============================================
+// 🎨 FORMATTING
+// ============================================
+
+const CHANGE_STYLES: Record<FieldDiff['change'], string> = {
+  added: 'bg-green-50',
+  removed: 'bg-red-50',
+  changed: 'bg-amber-50',
+  unchanged: '',
+}
+
+/**
+ * "impliedAssumptions" → "Implied assumptions"
+ */
+function humanizeField(field: string): string {
+  const words = field.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/_/g, ' ').toLowerCase()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+/**
+ * Short display form of a parsed field value
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—'
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '—'
+    return value.map(item => (typeof item === 'object' ? JSON.stringify(item) : String(item))).join(', ')
+  }
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(2)
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+// ============================================
+// 🔍 DIFF TABLE
+// ============================================
+
+function DiffTable({ diffs }: { diffs: FieldDiff[] }) {
+  const [showUnchanged, setShowUnchanged] = useState(false)
+  const changed = diffs.filter(d => d.change !== 'unchanged')
+  const unchanged = diffs.length - changed.length
+  const visible = showUnchanged ? diffs : changed
+
+  return (
+    <div className="space-y-2">
+      {changed.length === 0 && (
+        <p className="text-sm text-gray-500">These runs produced the same results.</p>
+      )}
+
+      {visible.length > 0 && (
+        <div className="overflow-x-auto rounded-lg border border-gray-100">
+          <table className="w-full text-xs">
+            <thead className="bg-gray-50 text-gray-500">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium">Field</th>
+                <th className="px-3 py-2 text-left font-medium">A (older)</th>
+                <th className="px-3 py-2 text-left font-medium">B (newer)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(diff => (
+                <tr key={diff.field} className={cn('border-t border-gray-100 align-top', CHANGE_STYLES[diff.change])}>
+                  <td className="px-3 py-2 font-medium text-gray-700 whitespace-nowrap">
+                    {humanizeField(diff.field)}
+                  </td>
+                  <td className="px-3 py-2 text-gray-600">
+                    {diff.removedItems ? (
+                      <>
+                        {diff.removedItems.length > 0 && (
+                          <span className="text-red-700">− {formatValue(diff.removedItems)}</span>
+                        )}
+                        {diff.removedItems.length === 0 && <span className="text-gray-400">(nothing removed)</span>}
+                      </>
+                    ) : (
+                      formatValue(diff.before)
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-gray-600">
+                    {diff.addedItems ? (
+                      <>
+                        {diff.addedItems.length > 0 && (
+                          <span className="text-green-700">+ {formatValue(diff.addedItems)}</span>
+                        )}
+                        {diff.addedItems.length === 0 && <span className="text-gray-400">(nothing added)</span>}
+                      </>
+                    ) : (
+                      formatValue(diff.after)
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {unchanged > 0 && (
+        <button
+          onClick={() => setShowUnchanged(!showUnchanged)}
+          className="text-xs font-medium text-gray-500 hover:text-gray-700"
+        >
+          {showUnchanged ? 'Hide' : 'Show'} {unchanged} unchanged field{unchanged === 1 ? '' : 's'}
+        </button>
+      )}
+    </div>
+  )
+}
+
+// ============================================
+// 🎨 COMPONENT
+// ============================================
+
+export function RunHistory({ projectId, onRestored }: RunHistoryProps) {
+  const {
+    runs,
+    history,
+    isLoadingHistory,
+    loadHistory,
+    fetchRun,
+    restoreRun,
+  } = useAnalyzerStore()
+
+  // Analyzers that have been run at least once
+  const types = useMemo(
+    () => (Object.keys(ANALYZER_REGISTRY) as AnalyzerType[]).filter(type =>
+      runs.some(run => run.analyzer_type === type)
+    ),
+    [runs]
+  )
+
+  const [type, setType] = useState<AnalyzerType | null>(null)
+  const [selectedA, setSelectedA] = useState<string | null>(null)
+  const [selectedB, setSelectedB] = useState<string | null>(null)
+  const [details, setDetails] = useState<Record<string, AnalyzerRun>>({})
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+  const [restoreError, setRestoreError] = useState<string | null>(null)
+
+  const activeType = type ?? types[0] ?? null
+  const runCount = runs.filter(run => run.analyzer_type === activeType).length
+
+  // Load history when the analyzer changes (or gets a new run)
+  useEffect(() => {
+    if (activeType) loadHistory(projectId, activeType)
+  }, [projectId, activeType, runCount, loadHistory])
+
+  // Default comparison: the two newest completed runs
+  useEffect(() => {
+    const completed = history.filter(run => run.status === 'completed')
+    setSelectedB(completed[0]?.id ?? null)
+    setSelectedA(completed[1]?.id ?? null)
+  }, [history])
+
+  // Fetch full runs for the comparison
+  useEffect(() => {
+    for (const id of [selectedA, selectedB]) {
+      if (!id || details[id]) continue
+      fetchRun(id).then(run => {
+        if (run) setDetails(prev => ({ ...prev, [id]: run }))
+      })
+    }
+  }, [selectedA, selectedB, details, fetchRun])
+
+  const diffs = useMemo(() => {
+    const a = selectedA ? details[selectedA] : undefined
+    const b = selectedB ? details[selectedB] : undefined
+    if (!a || !b) return null
+
+    // Always diff older → newer
+    const [older, newer] = a.created_at <= b.created_at ? [a, b] : [b, a]
+    return diffParsedFields(older.parsed_fields, newer.parsed_fields)
+  }, [selectedA, selectedB, details])
+
+  const handleRestore = async (runId: string) => {
+    setRestoringId(runId)
+    setRestoreError(null)
+    const result = await restoreRun(projectId, runId)
+    setRestoringId(null)
+
+    if (result.success) {
+      onRestored?.()
+    } else {
+      setRestoreError(result.error || 'Failed to restore')
+    }
+  }
+
+  if (types.length === 0 || !activeType) {
+    return <p className="text-sm text-gray-500">No analyzer runs yet.</p>
+  }
+
+  const latestId = history[0]?.id
+
+  return (
+    <div className="space-y-4">
+      {/* Analyzer picker */}
+      <div className="flex flex-wrap gap-2">
+        {types.map(t => (
+          <button
+            key={t}
+            onClick={() => setType(t)}
+            className={cn(
+              'px-3 py-1 text-xs font-medium rounded-full border transition-colors',
+              t === activeType
+                ? 'border-primary-300 bg-primary-50 text-primary-700'
+                : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+            )}
+          >
+            {ANALYZER_REGISTRY[t].icon} {ANALYZER_REGISTRY[t].name}
+          </button>
+        ))}
+      </div>
+
+      {/* Runs */}
+      {isLoadingHistory && history.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading history...
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-100 rounded-lg border border-gray-100">
+          {history.map(run => {
+            const isCompleted = run.status === 'completed'
+            return (
+              <li key={run.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                <div className="flex gap-1">
+                  {(['A', 'B'] as const).map(slot => {
+                    const selected = slot === 'A' ? selectedA : selectedB
+                    const select = slot === 'A' ? setSelectedA : setSelectedB
+                    return (
+                      <button
+                        key={slot}
+                        onClick={() => select(run.id)}
+                        disabled={!isCompleted}
+                        className={cn(
+                          'w-6 h-6 rounded text-xs font-semibold border transition-colors disabled:opacity-30',
+                          selected === run.id
+                            ? 'border-primary-400 bg-primary-500 text-white'
+                            : 'border-gray-200 text-gray-500 hover:bg-gray-50'
+                        )}
+                        title={`Compare as ${slot}`}
+                      >
+                        {slot}
+                      </button>
+                    )
+                  })}
+                </div>
+
+                <div className="flex-1 min-w-0">
+                  <p className="text-gray-700">
+                    {formatRelativeTime(run.created_at)}
+                    <span className="text-gray-400"> · {run.trigger_reason || 'manual'}</span>
+                    {run.id === latestId && (
+                      <span className="ml-2 text-xs font-medium text-green-600">Current</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    {run.status}
+                    {run.confidence_score !== null && ` · ${Math.round(run.confidence_score * 100)}% confidence`}
+                    {run.restored_from_run_id && ' · restored'}
+                    {!!run.skipped_fields?.length && ` · kept your answer for ${run.skipped_fields.length} field${run.skipped_fields.length === 1 ? '' : 's'}`}
+                    {run.stale_at && ' · based on older answers'}
+                  </p>
+                </div>
+
+                {isCompleted && run.id !== latestId && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRestore(run.id)}
+                    loading={restoringId === run.id}
+                    disabled={!!restoringId}
+                  >
+                    <RotateCcw className="w-3.5 h-3.5 mr-1" />
+                    Restore
+                  </Button>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      {restoreError && <p className="text-sm text-red-600">{restoreError}</p>}
+
+      {/* Diff */}
+      <div>
+        <div className="flex items-center gap-2 mb-2 text-sm font-medium text-gray-700">
+          <History className="w-4 h-4 text-gray-400" />
+          Compare runs
+        </div>
+        {!selectedA || !selectedB ? (
+          <p className="text-sm text-gray-500">Pick two completed runs as A and B to compare them.</p>
+        ) : selectedA === selectedB ? (
+          <p className="text-sm text-gray-500">A and B are the same run.</p>
+        ) : diffs ? (
+          <DiffTable diffs={diffs} />
+        ) : (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading runs...
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+/**
+ * 🏷️ SOURCE BADGE
+ * ===============
+ * Says who set a project field: the user, the client (through a client
+ * invite), or the analyzer that wrote it.
+ * Hover for when, and the analyzer's confidence.
+ *
+ * Usage:
+ *   <SourceBadge project={project} field="secret_sauce" />
+ */
+
+'use client'
+
+import { PenLine, UserRound } from 'lucide-react'
+import { cn, formatRelativeTime } from '@/lib/utils'
+import { ANALYZER_REGISTRY } from '@/lib/analyzers/registry'
+import { getFieldSource } from '@/lib/analyzers/provenance'
+import type { BusinessProject } from '@/lib/types'
+
+interface SourceBadgeProps {
+  project: BusinessProject
+  /** business_projects column */
+  field: string
+  className?: string
+}
+
+export function SourceBadge({ project, field, className }: SourceBadgeProps) {
+  const source = getFieldSource(project, field)
+  if (!source) return null
+
+  const entry = project.field_provenance?.[field]
+  const isUser = source === 'user'
+  const isClient = source === 'client'
+  const config = isUser || isClient ? null : ANALYZER_REGISTRY[source]
+
+  const details = [
+    isUser ? 'Entered by you' : isClient ? 'Entered by the client' : `Written by ${config?.name ?? source}`,
+    entry && formatRelativeTime(entry.set_at),
+    entry?.confidence != null && `${Math.round(entry.confidence * 100)}% confidence`,
+  ].filter(Boolean)
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 px-1.5 py-0.5 text-xs font-medium rounded-full border',
+        isUser || isClient
+          ? 'bg-gray-50 text-gray-600 border-gray-200'
+          : 'bg-accent-50 text-accent-700 border-accent-200',
+        className
+      )}
+      title={details.join(' · ')}
+    >
+      {isUser ? (
+        <PenLine className="w-3 h-3" />
+      ) : isClient ? (
+        <UserRound className="w-3 h-3" />
+      ) : (
+        <span aria-hidden>{config?.icon}</span>
+      )}
+      {isUser ? 'You' : isClient ? 'Client' : config?.name ?? source}
+    </span>
+  )
+}
@@ -0,0 +1,32 @@
+/**
+ * 🕰️ STALE BADGE
+ * ==============
+ * Marks an analyzer result that was based on older answers.
+ *
+ * Usage:
+ *   {isRunStale(run, project) && <StaleBadge />}
+ */
+
+'use client'
+
+import { History } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+interface StaleBadgeProps {
+  className?: string
+}
+
+export function StaleBadge({ className }: StaleBadgeProps) {
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 px-1.5 py-0.5 text-xs font-medium rounded-full bg-amber-50 text-amber-700 border border-amber-200',
+        className
+      )}
+      title="Some of the answers this was based on have changed since it ran"
+    >
+      <History className="w-3 h-3" />
+      Based on older answers
+    </span>
+  )
+}
@@ -0,0 +1,12 @@
+/**
+ * 🤖 ANALYZER COMPONENTS INDEX
+ * ============================
+ * Central export point for analyzer UI components.
+ */
+
+export { PipelineGraph } from './PipelineGraph'
+export type { PipelineGraphProps } from './PipelineGraph'
+export { StaleBadge } from './StaleBadge'
+export { SourceBadge } from './SourceBadge'
+export { RunHistory } from './RunHistory'
+export type { RunHistoryProps } from './RunHistory'
@@ -9,6 +9,11 @@
  *     messages={messages}
  *     onSend={handleSend}
  *     loading={isLoading}
+ *     streamingMessageId={streamingMessageId}
+ *     onCancel={cancelStream}
+ *     onConfirmInference={confirmInference}
+ *     onInteractionResponse={sendInteractionResponse}
+ *     onSkipInteraction={askNextQuestion}
  *   />
  */
 
@@ -17,8 +22,11 @@
 import { useEffect, useRef } from 'react'
 import { cn } from '@/lib/utils'
 import { MessageBubble, TypingIndicator } from './MessageBubble'
+import { InferenceMessage } from './InferenceMessage'
+import { InteractionMessage } from './InteractionMessage'
 import { ChatInput } from './ChatInput'
-import type { ConversationMessage } from '@/lib/types'
+import { getPendingQuestion, isInterviewQuestion } from '@/lib/chat/interview'
+import type { ConversationMessage, MessageType } from '@/lib/types'
 
 export interface ChatContainerProps {
   /** Array of messages to display */
@@ -27,6 +35,20 @@ export interface ChatContainerProps {
   onSend: (message: string) => void
   /** Show typing indicator */
   isTyping?: boolean
+  /** Message currently streaming in (rendered as partial content) */
+  streamingMessageId?: string | null
+  /** Stop the streaming message */
+  onCancel?: () => void
+  /** Answer an inference_reveal message (without it, reveals show as text) */
+  onConfirmInference?: (
+    revealMessageId: string,
+    accepted: Record<string, unknown>,
+    rejected: string[]
+  ) => Promise<unknown> | void
+  /** Answer an interview question (without it, questions show as text) */
+  onInteractionResponse?: (messageType: MessageType, field: string, value: unknown) => Promise<unknown> | void
+  /** Skip an interview question */
+  onSkipInteraction?: (field: string) => Promise<unknown> | void
   /** Disable input */
   disabled?: boolean
   /** Show loading state on input */
@@ -47,6 +69,11 @@ export function ChatContainer({
   messages,
   onSend,
   isTyping = false,
+  streamingMessageId = null,
+  onCancel,
+  onConfirmInference,
+  onInteractionResponse,
+  onSkipInteraction,
   disabled = false,
   loading = false,
   placeholder = 'Type your message...',
@@ -67,6 +94,9 @@ export function ChatContainer({
     scrollToBottom()
   }, [messages, isTyping])
 
+  // Only the open interview question shows its interaction
+  const pendingQuestionId = getPendingQuestion(messages)?.id
+
   // Check if user has scrolled up (to prevent auto-scroll interruption)
   const isNearBottom = () => {
     if (!containerRef.current) return true
@@ -92,12 +122,29 @@ export function ChatContainer({
           emptyState
         ) : (
           <>
-            {messages.map((message) => (
+            {messages.map((message) => message.message_type === 'inference_reveal' && onConfirmInference ? (
+              <InferenceMessage
+                key={message.id}
+                message={message}
+                onConfirm={(accepted, rejected) => onConfirmInference(message.id, accepted, rejected)}
+              />
+            ) : isInterviewQuestion(message.message_type) && onInteractionResponse ? (
+              <InteractionMessage
+                key={message.id}
+                message={message}
+                active={message.id === pendingQuestionId}
+                onRespond={onInteractionResponse}
+                onSkip={onSkipInteraction}
+              />
+            ) : (
               <MessageBubble
                 key={message.id}
                 role={message.role}
                 content={message.content}
                 timestamp={message.created_at}
+                isStreaming={message.id === streamingMessageId}
+                onCancel={onCancel}
+                cancelled={message.metadata?.cancelled === true}
               />
             ))}
             {isTyping && <TypingIndicator />}
@@ -119,7 +166,7 @@ export function ChatContainer({
       <div className="flex-shrink-0 border-t border-gray-200 p-4 bg-gray-50">
         <ChatInput
           onSend={onSend}
-          disabled={disabled}
+          disabled={disabled || !!streamingMessageId}
           loading={loading}
           placeholder={placeholder}
         />
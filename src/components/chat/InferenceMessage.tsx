@@ -0,0 +1,165 @@
+/**
+ * 💡 INFERENCE MESSAGE COMPONENT
+ * ==============================
+ * Renders an inference_reveal chat message: field values the assistant
+ * picked up, for the user to save or turn down.
+ *
+ * One proposal uses InferenceReveal (with editing for text fields);
+ * several show as a checklist so the user can keep some of them.
+ * Once answered, it collapses to a one-line summary.
+ *
+ * Usage:
+ *   <InferenceMessage
+ *     message={message}
+ *     onConfirm={(accepted, rejected) => confirmInference(message.id, accepted, rejected)}
+ *   />
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { Check, Lightbulb, Sparkles, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/Button'
+import { InferenceReveal } from '@/components/interactions/InferenceReveal'
+import { formatFieldValue, getFieldSpec } from '@/lib/config/fields'
+import type { ConversationMessage, FieldProposal, InferenceRevealMetadata } from '@/lib/types'
+
+export interface InferenceMessageProps {
+  /** The inference_reveal message */
+  message: ConversationMessage
+  /** Save the accepted fields (values may be edited) and drop the rejected ones */
+  onConfirm: (accepted: Record<string, unknown>, rejected: string[]) => Promise<unknown> | void
+  /** Additional class names */
+  className?: string
+}
+
+export function InferenceMessage({ message, onConfirm, className }: InferenceMessageProps) {
+  const metadata = message.metadata as unknown as InferenceRevealMetadata
+  const proposals: FieldProposal[] = metadata.proposals || []
+
+  const [selected, setSelected] = useState<string[]>(proposals.map(p => p.field))
+  const [saving, setSaving] = useState(false)
+
+  const confirm = async (accepted: Record<string, unknown>) => {
+    setSaving(true)
+    const rejected = proposals.map(p => p.field).filter(field => !(field in accepted))
+    await onConfirm(accepted, rejected)
+    setSaving(false)
+  }
+
+  const acceptFields = (fields: string[]) =>
+    confirm(Object.fromEntries(proposals.filter(p => fields.includes(p.field)).map(p => [p.field, p.value])))
+
+  // Answered - just say what happened
+  if (metadata.resolved) {
+    const applied = metadata.appliedFields || []
+    return (
+      <div className={cn('flex justify-center', className)}>
+        <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-gray-100 text-sm text-gray-600">
+          {applied.length > 0 ? (
+            <>
+              <Check className="w-4 h-4 text-success" />
+              Saved {applied.map(field => getFieldSpec(field).label).join(', ')}
+            </>
+          ) : (
+            <>
+              <X className="w-4 h-4 text-gray-400" />
+              Nothing saved
+            </>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  if (proposals.length === 1) {
+    const [proposal] = proposals
+    const spec = getFieldSpec(proposal.field)
+    const editable = spec.kind === 'text' || spec.kind === 'list'
+
+    return (
+      <InferenceReveal
+        inference={formatFieldValue(proposal.field, proposal.value)}
+        field={spec.label}
+        confidence={proposal.confidence}
+        onAccept={() => acceptFields([proposal.field])}
+        onReject={() => confirm({})}
+        onEdit={editable ? edited => confirm({ [proposal.field]: edited }) : undefined}
+        disabled={saving}
+        className={className}
+      />
+    )
+  }
+
+  const toggle = (field: string) =>
+    setSelected(prev => (prev.includes(field) ? prev.filter(f => f !== field) : [...prev, field]))
+
+  return (
+    <div
+      className={cn(
+        'rounded-2xl border-2 border-accent-200 bg-accent-50/50 p-5',
+        'animate-fade-in',
+        className
+      )}
+    >
+      {/* Header */}
+      <div className="flex items-start gap-3 mb-4">
+        <div className="w-10 h-10 rounded-full bg-accent-100 flex items-center justify-center flex-shrink-0">
+          <Lightbulb className="w-5 h-5 text-accent-600" />
+        </div>
+        <div className="flex-1">
+          <h4 className="font-semibold text-gray-900 flex items-center gap-2">
+            Here&apos;s what I&apos;m picking up...
+            <Sparkles className="w-4 h-4 text-accent-500" />
+          </h4>
+          <p className="text-sm text-gray-500">Untick anything that isn&apos;t right</p>
+        </div>
+      </div>
+
+      {/* Proposals */}
+      <ul className="mb-4 space-y-2">
+        {proposals.map(proposal => (
+          <li key={proposal.field}>
+            <label className="flex items-start gap-3 p-3 rounded-xl bg-white border border-accent-200 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selected.includes(proposal.field)}
+                onChange={() => toggle(proposal.field)}
+                disabled={saving}
+                className="mt-1 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              <span className="flex-1">
+                <span className="block text-sm text-gray-500">{getFieldSpec(proposal.field).label}</span>
+                <span className="block text-gray-800">{formatFieldValue(proposal.field, proposal.value)}</span>
+              </span>
+            </label>
+          </li>
+        ))}
+      </ul>
+
+      {/* Actions */}
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant="primary"
+          size="sm"
+          onClick={() => acceptFields(selected)}
+          disabled={selected.length === 0}
+          loading={saving}
+        >
+          <Check className="w-4 h-4" />
+          Save {selected.length === proposals.length ? 'all' : 'selected'}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => confirm({})}
+          disabled={saving}
+        >
+          <X className="w-4 h-4" />
+          Not quite
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,145 @@
+/**
+ * 🎛️ INTERACTION MESSAGE COMPONENT
+ * ================================
+ * Renders an interview question: the assistant's bubble, plus the
+ * typed interaction (slider, binary choice, word bank or mad lib) while
+ * the question is still open.
+ *
+ * Answered questions only show the bubble - the answer follows as the
+ * user's own message.
+ *
+ * Usage:
+ *   <InteractionMessage
+ *     message={message}
+ *     active={message.id === pendingQuestionId}
+ *     onRespond={sendInteractionResponse}
+ *     onSkip={field => askNextQuestion(field)}
+ *   />
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { cn } from '@/lib/utils'
+import { MessageBubble } from './MessageBubble'
+import { WordBank } from '@/components/interactions/WordBank'
+import { SliderInput } from '@/components/interactions/SliderInput'
+import { BinaryChoice } from '@/components/interactions/BinaryChoice'
+import { MadLibPrompt } from '@/components/interactions/MadLibPrompt'
+import { RESPONSE_TYPES, isInterviewQuestion } from '@/lib/chat/interview'
+import type { InterviewQuestionMetadata } from '@/lib/chat/interview'
+import type {
+  BinaryChoiceConfig,
+  ConversationMessage,
+  MadLibConfig,
+  MessageType,
+  SliderConfig,
+  WordBankConfig,
+} from '@/lib/types'
+
+export interface InteractionMessageProps {
+  /** The question message (slider, binary_choice, word_bank or mad_lib) */
+  message: ConversationMessage
+  /** Whether the question is still waiting for an answer */
+  active?: boolean
+  /** Send the answer as its *_response message */
+  onRespond: (messageType: MessageType, field: string, value: unknown) => Promise<unknown> | void
+  /** Skip the question */
+  onSkip?: (field: string) => Promise<unknown> | void
+  /** Additional class names */
+  className?: string
+}
+
+export function InteractionMessage({
+  message,
+  active = false,
+  onRespond,
+  onSkip,
+  className,
+}: InteractionMessageProps) {
+  const metadata = message.metadata as unknown as InterviewQuestionMetadata
+  const type = message.message_type
+
+  const [value, setValue] = useState<unknown>(null)
+  const [saving, setSaving] = useState(false)
+
+  const run = async (action: () => Promise<unknown> | void) => {
+    setSaving(true)
+    await action()
+    setSaving(false)
+  }
+
+  const submit = (answer: unknown) =>
+    isInterviewQuestion(type) && run(() => onRespond(RESPONSE_TYPES[type], metadata.field, answer))
+
+  const renderInteraction = () => {
+    switch (type) {
+      case 'slider':
+        return (
+          <SliderInput
+            config={metadata.config as SliderConfig}
+            value={(value as number | null) ?? null}
+            onChange={setValue}
+            onSubmit={submit}
+            disabled={saving}
+          />
+        )
+      case 'binary_choice':
+        return (
+          <BinaryChoice
+            config={metadata.config as BinaryChoiceConfig}
+            value={(value as string | null) ?? null}
+            onChange={setValue}
+            onSubmit={submit}
+            disabled={saving}
+          />
+        )
+      case 'word_bank':
+        return (
+          <WordBank
+            config={metadata.config as WordBankConfig}
+            selected={(value as string[] | null) ?? []}
+            onChange={setValue}
+            onSubmit={submit}
+            disabled={saving}
+          />
+        )
+      case 'mad_lib':
+        return (
+          <MadLibPrompt
+            config={metadata.config as MadLibConfig}
+            value={(value as string | null) ?? ''}
+            onChange={setValue}
+            onSubmit={submit}
+            disabled={saving}
+          />
+        )
+      default:
+        return null
+    }
+  }
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <MessageBubble role={message.role} content={message.content} timestamp={message.created_at} />
+
+      {active && metadata?.config && (
+        <div className="ml-11 rounded-2xl border border-gray-200 bg-white p-5 animate-fade-in">
+          {renderInteraction()}
+
+          {onSkip && (
+            <div className="mt-4 text-right">
+              <button
+                onClick={() => run(() => onSkip(metadata.field))}
+                disabled={saving}
+                className="text-sm text-gray-500 hover:text-gray-700 underline disabled:opacity-50"
+              >
+                Skip this one
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -6,13 +6,14 @@
  * Usage:
  *   <MessageBubble role="user" content="Hello!" />
  *   <MessageBubble role="assistant" content="Hi there!" timestamp={new Date()} />
+ *   <MessageBubble role="assistant" content={partial} isStreaming onCancel={cancelStream} />
  */
 
 'use client'
 
 import { cn } from '@/lib/utils'
 import { formatRelativeTime } from '@/lib/utils/helpers'
-import { Bot, User } from 'lucide-react'
+import { Bot, Square, User } from 'lucide-react'
 import type { MessageRole } from '@/lib/types'
 
 export interface MessageBubbleProps {
@@ -24,6 +25,12 @@ export interface MessageBubbleProps {
   timestamp?: Date | string
   /** Is this message still being typed? */
   isTyping?: boolean
+  /** Is content still streaming in? (shows partial content + a caret) */
+  isStreaming?: boolean
+  /** Stop a streaming message (shows a Stop button while streaming) */
+  onCancel?: () => void
+  /** Was the message stopped before it finished? */
+  cancelled?: boolean
   /** Additional class names */
   className?: string
   /** Custom avatar */
@@ -35,11 +42,16 @@ export function MessageBubble({
   content,
   timestamp,
   isTyping = false,
+  isStreaming = false,
+  onCancel,
+  cancelled = false,
   className,
   avatar,
 }: MessageBubbleProps) {
   const isUser = role === 'user'
   const isSystem = role === 'system'
+  // Nothing streamed in yet - show dots until the first token
+  const showDots = isTyping || (isStreaming && !content)
 
   // System messages are centered and styled differently
   if (isSystem) {
@@ -90,17 +102,31 @@ export function MessageBubble({
               : 'bg-gray-100 text-gray-900 rounded-bl-md'
           )}
         >
-          {isTyping ? (
+          {showDots ? (
             <TypingDots />
           ) : (
             <p className="whitespace-pre-wrap text-[15px] leading-relaxed">
               {content}
+              {isStreaming && (
+                <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse" />
+              )}
             </p>
           )}
         </div>
 
+        {/* Stop button while streaming */}
+        {isStreaming && onCancel && (
+          <button
+            onClick={onCancel}
+            className="inline-flex items-center gap-1 mt-1 text-xs font-medium text-gray-500 hover:text-gray-700"
+          >
+            <Square className="w-3 h-3" />
+            Stop
+          </button>
+        )}
+
         {/* Timestamp */}
-        {timestamp && !isTyping && (
+        {timestamp && !isTyping && !isStreaming && (
           <p
             className={cn(
               'text-xs text-gray-400 mt-1',
@@ -108,6 +134,7 @@ export function MessageBubble({
             )}
           >
             {formatRelativeTime(timestamp)}
+            {cancelled && ' · stopped'}
           </p>
         )}
       </div>
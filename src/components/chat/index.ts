@@ -12,3 +12,9 @@ export type { ChatInputProps } from './ChatInput'
 
 export { MessageBubble, TypingIndicator } from './MessageBubble'
 export type { MessageBubbleProps } from './MessageBubble'
+
+export { InferenceMessage } from './InferenceMessage'
+export type { InferenceMessageProps } from './InferenceMessage'
+
+export { InteractionMessage } from './InteractionMessage'
+export type { InteractionMessageProps } from './InteractionMessage'
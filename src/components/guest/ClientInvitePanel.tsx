@@ -0,0 +1,302 @@
+/**
+ * 📨 CLIENT INVITE PANEL
+ * ======================
+ * Lets the consultant on a portfolio project hand the onboarding
+ * questions to the client, and follow how far they've got.
+ *
+ * Features:
+ * - Send an invite: a link to the guest setup → story → words → style
+ *   steps, no account needed (copy it, or open it in your mail app)
+ * - The client's progress: step by step, when they opened the link and
+ *   when they were last active
+ * - Remind: opens a reminder in your mail app and counts it
+ * - Revoke, or send a fresh link (the old one stops working)
+ *
+ * Usage:
+ *   <ClientInvitePanel project={project} />
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Bell, Check, Copy, Loader2, Mail, Send } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { cn, formatRelativeTime } from '@/lib/utils'
+import { useAuthStore } from '@/lib/stores/authStore'
+import { getStepConfig } from '@/lib/config/onboarding'
+import {
+  GUEST_STEPS,
+  getClientInviteStatus,
+  getInviteMailto,
+  getInvitePath,
+  getInviteProgress,
+} from '@/lib/guest/invites'
+import type { ClientInviteStatus } from '@/lib/guest/invites'
+import { log } from '@/lib/utils/logger'
+import type { BusinessProject, ClientInvite } from '@/lib/types'
+
+// ============================================
+// 📋 TYPES
+// ============================================
+
+export interface ClientInvitePanelProps {
+  project: BusinessProject
+}
+
+const STATUS_LABELS: Record<ClientInviteStatus, string> = {
+  not_started: 'Not opened yet',
+  in_progress: 'In progress',
+  completed: 'Completed',
+  expired: 'Expired',
+  revoked: 'Revoked',
+}
+
+const STATUS_STYLES: Record<ClientInviteStatus, string> = {
+  not_started: 'bg-gray-100 text-gray-600',
+  in_progress: 'bg-amber-50 text-amber-700',
+  completed: 'bg-green-50 text-green-700',
+  expired: 'bg-gray-100 text-gray-500',
+  revoked: 'bg-red-50 text-red-600',
+}
+
+/** The contact field often holds an email - use it if so */
+function contactEmail(contact: string | null): string {
+  return contact && contact.includes('@') ? contact.trim() : ''
+}
+
+// ============================================
+// 📨 MAIN COMPONENT
+// ============================================
+
+export function ClientInvitePanel({ project }: ClientInvitePanelProps) {
+  const { member } = useAuthStore()
+
+  const [invite, setInvite] = useState<ClientInvite | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSending, setIsSending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  // New invite form
+  const [clientName, setClientName] = useState(project.client_name ?? '')
+  const [clientEmail, setClientEmail] = useState(contactEmail(project.client_contact))
+
+  // Load the latest invite on mount
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/project/client-invite?projectId=${project.id}`)
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error)
+        setInvite(data.invites[0] ?? null)
+      } catch (err) {
+        log.error('📨 Failed to load client invites', err)
+        setError('Could not load the client invite')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    load()
+  }, [project.id])
+
+  const status = invite ? getClientInviteStatus(invite) : null
+  const isOpen = status !== null && status !== 'expired' && status !== 'revoked'
+  const url = invite ? `${typeof window === 'undefined' ? '' : window.location.origin}${getInvitePath(invite.token)}` : ''
+  const brandName = project.idea_name || project.client_name || project.project_name
+
+  /**
+   * ➕ Send a new invite (any open one stops working)
+   */
+  const handleSend = async () => {
+    setIsSending(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/project/client-invite', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ projectId: project.id, clientName, clientEmail }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+
+      setInvite(data.invite)
+      log.success('📨 Client invite created')
+    } catch (err) {
+      log.error('📨 Failed to create client invite', err)
+      setError(err instanceof Error && err.message ? err.message : 'Could not create the invite')
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  /**
+   * 🔔 Record a reminder, or 🚫 revoke
+   */
+  const handleUpdate = async (change: { remind?: boolean; revoke?: boolean }) => {
+    if (!invite) return
+    setError(null)
+
+    try {
+      const response = await fetch('/api/project/client-invite', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: invite.id, ...change }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+
+      setInvite(data.invite)
+      log.info('📨 Client invite updated', { id: invite.id, ...change })
+    } catch (err) {
+      log.error('📨 Failed to update client invite', err)
+      setError('Could not update the invite')
+    }
+  }
+
+  /**
+   * 🔔 Open a reminder in the mail app, and count it
+   */
+  const handleRemind = () => {
+    if (!invite) return
+    window.location.href = getInviteMailto(invite, url, {
+      brandName,
+      senderName: member?.name,
+      reminder: true,
+    })
+    handleUpdate({ remind: true })
+  }
+
+  /**
+   * 📋 Copy the invite link
+   */
+  const handleCopy = () => {
+    navigator.clipboard.writeText(url)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Send className="w-5 h-5 text-primary-600" />
+          <h3 className="font-semibold text-gray-900">Client invite</h3>
+        </div>
+        {invite && status && (
+          <span className={cn('px-2 py-0.5 rounded-full text-xs font-medium', STATUS_STYLES[status])}>
+            {STATUS_LABELS[status]}
+          </span>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        Let the client answer the setup, story, words and style questions themselves - no account needed.
+        Their answers are saved here, marked as theirs.
+      </p>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 text-gray-400 animate-spin" />
+        </div>
+      ) : invite && isOpen ? (
+        <div className="space-y-4">
+          {/* Progress */}
+          <div>
+            <div className="flex items-center gap-1">
+              {GUEST_STEPS.map((step, index) => {
+                const isDone = index < getInviteProgress(invite)
+                const isCurrent = step === invite.current_step
+
+                return (
+                  <div key={step} className="flex-1">
+                    <div
+                      className={cn(
+                        'h-1.5 rounded-full',
+                        isDone ? 'bg-green-500' : isCurrent && invite.opened_at ? 'bg-amber-300' : 'bg-gray-200'
+                      )}
+                    />
+                    <p className={cn('mt-1 text-xs', isDone ? 'text-gray-700' : 'text-gray-400')}>
+                      {getStepConfig(step)?.shortLabel}
+                    </p>
+                  </div>
+                )
+              })}
+            </div>
+            <p className="mt-2 text-xs text-gray-500">
+              {invite.client_name || 'Client'}
+              {invite.client_email && <> · {invite.client_email}</>}
+              {invite.opened_at
+                ? <> · opened {formatRelativeTime(invite.opened_at)}</>
+                : <> · sent {formatRelativeTime(invite.created_at)}</>}
+              {invite.last_activity_at && invite.last_activity_at !== invite.opened_at && (
+                <> · last active {formatRelativeTime(invite.last_activity_at)}</>
+              )}
+              {invite.reminder_count > 0 && invite.last_reminded_at && (
+                <> · reminded {invite.reminder_count}× (last {formatRelativeTime(invite.last_reminded_at)})</>
+              )}
+            </p>
+          </div>
+
+          {/* Actions */}
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" size="sm" onClick={handleCopy}>
+              {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              {copied ? 'Copied!' : 'Copy link'}
+            </Button>
+            {status !== 'completed' && (
+              invite.opened_at || invite.reminder_count > 0 ? (
+                <Button variant="outline" size="sm" onClick={handleRemind}>
+                  <Bell className="w-4 h-4" />
+                  Send reminder
+                </Button>
+              ) : (
+                <a href={getInviteMailto(invite, url, { brandName, senderName: member?.name })}>
+                  <Button variant="outline" size="sm">
+                    <Mail className="w-4 h-4" />
+                    Email it
+                  </Button>
+                </a>
+              )
+            )}
+            <Button variant="ghost" size="sm" onClick={() => handleUpdate({ revoke: true })}>
+              Revoke
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {invite && status && (
+            <p className="text-sm text-gray-400">
+              The last invite {status === 'revoked' ? 'was revoked' : 'expired'} - send a new one below.
+            </p>
+          )}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <Input
+              label="Client's name"
+              placeholder="Who's answering"
+              value={clientName}
+              onChange={(e) => setClientName(e.target.value)}
+            />
+            <Input
+              type="email"
+              label="Client's email (optional)"
+              placeholder="client@brand.com"
+              value={clientEmail}
+              onChange={(e) => setClientEmail(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handleSend} loading={isSending}>
+              <Send className="w-4 h-4" />
+              Create invite link
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,8 @@
+/**
+ * 📨 GUEST COMPONENTS INDEX
+ * =========================
+ * Central export point for client invite UI components.
+ */
+
+export { ClientInvitePanel } from './ClientInvitePanel'
+export type { ClientInvitePanelProps } from './ClientInvitePanel'
@@ -0,0 +1,221 @@
+/**
+ * 📜 FIELD HISTORY
+ * ================
+ * A timeline of every value written to the project's fields - who
+ * wrote it (you, a teammate, the client or an analyzer), when, and what
+ * it replaced - with a way to put any earlier value back.
+ *
+ * Features:
+ * - Newest first, a page at a time, narrowed to one field if you like
+ * - Before → after for each change
+ * - Restore either side of a change (saved as your answer, and logged)
+ *
+ * Usage:
+ *   <FieldHistory project={project} onRestored={() => loadProject(project.id)} />
+ */
+
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { ArrowRight, Loader2, RotateCcw } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { cn, formatRelativeTime } from '@/lib/utils'
+import { useAuthStore } from '@/lib/stores/authStore'
+import {
+  describeChangeSource,
+  formatChangeValue,
+  humanizeField,
+  isCurrentValue,
+} from '@/lib/history/changes'
+import type { RestoreSide } from '@/lib/history/changes'
+import { log } from '@/lib/utils/logger'
+import type { BusinessProject, FieldChange } from '@/lib/types'
+
+// ============================================
+// 📋 TYPES
+// ============================================
+
+export interface FieldHistoryProps {
+  project: BusinessProject
+  /** Called after a value was restored (e.g. to reload the project) */
+  onRestored?: () => void
+}
+
+const selectStyles = 'rounded-lg border border-gray-300 bg-white px-2 py-1.5 text-sm focus:outline-none focus:border-primary-500'
+
+// ============================================
+// 🔘 RESTORE BUTTON
+// ============================================
+
+function RestoreButton({
+  onClick,
+  loading,
+  disabled,
+}: {
+  onClick: () => void
+  loading: boolean
+  disabled: boolean
+}) {
+  return (
+    <Button variant="ghost" size="sm" onClick={onClick} loading={loading} disabled={disabled}>
+      <RotateCcw className="w-3.5 h-3.5 mr-1" />
+      Restore
+    </Button>
+  )
+}
+
+// ============================================
+// 📜 MAIN COMPONENT
+// ============================================
+
+export function FieldHistory({ project, onRestored }: FieldHistoryProps) {
+  const { member } = useAuthStore()
+
+  const [changes, setChanges] = useState<FieldChange[]>([])
+  const [fields, setFields] = useState<string[]>([])
+  const [field, setField] = useState('')
+  const [hasMore, setHasMore] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [restoring, setRestoring] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * 📥 Load a page of changes (the first, or the one before `before`)
+   */
+  const load = useCallback(async (before?: string) => {
+    setIsLoading(true)
+
+    try {
+      const params = new URLSearchParams({ projectId: project.id })
+      if (field) params.set('field', field)
+      if (before) params.set('before', before)
+
+      const response = await fetch(`/api/project/history?${params}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+
+      const page: FieldChange[] = data.changes
+      setChanges(prev => (before ? [...prev, ...page] : page))
+      setHasMore(data.hasMore)
+      setFields(prev => Array.from(new Set([...prev, ...page.map(change => change.field)])).sort())
+    } catch (err) {
+      log.error('📜 Failed to load field history', err)
+      setError('Could not load the history')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [project.id, field])
+
+  // Reload from the top when the filter changes or the project is saved
+  useEffect(() => {
+    load()
+  }, [load, project.updated_at])
+
+  /**
+   * ↩️ Put one side of a change back
+   */
+  const handleRestore = async (change: FieldChange, side: RestoreSide) => {
+    setRestoring(`${change.id}:${side}`)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/project/history', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ changeId: change.id, side }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+
+      log.success('📜 Field restored', { field: change.field, side })
+      onRestored?.()
+    } catch (err) {
+      log.error('📜 Failed to restore field', err)
+      setError('Could not restore that value')
+    } finally {
+      setRestoring(null)
+    }
+  }
+
+  if (!isLoading && changes.length === 0 && !field) {
+    return <p className="text-sm text-gray-500">No changes yet.</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* Field filter */}
+      <select value={field} onChange={(e) => setField(e.target.value)} className={selectStyles}>
+        <option value="">All fields</option>
+        {fields.map(name => (
+          <option key={name} value={name}>{humanizeField(name)}</option>
+        ))}
+      </select>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {/* Timeline */}
+      {changes.length > 0 && (
+        <ul className="divide-y divide-gray-100 rounded-lg border border-gray-100">
+          {changes.map(change => {
+            const sides: { side: RestoreSide; value: unknown }[] = [
+              { side: 'old', value: change.old_value },
+              { side: 'new', value: change.new_value },
+            ]
+
+            return (
+              <li key={change.id} className="px-3 py-2 text-sm">
+                <p className="text-gray-700">
+                  <span className="font-medium">{humanizeField(change.field)}</span>
+                  <span className="text-gray-400">
+                    {' '}· {describeChangeSource(change, member?.id)} · {formatRelativeTime(change.changed_at)}
+                  </span>
+                </p>
+
+                <div className="mt-1 flex flex-col sm:flex-row sm:items-start gap-1 sm:gap-2 text-xs">
+                  {sides.map(({ side, value }, index) => (
+                    <div key={side} className="flex items-start gap-1 sm:flex-1 min-w-0">
+                      {index > 0 && <ArrowRight className="hidden sm:block w-3.5 h-3.5 mt-0.5 text-gray-300 shrink-0" />}
+                      <p
+                        className={cn(
+                          'flex-1 min-w-0 line-clamp-3 rounded px-2 py-1',
+                          side === 'old' ? 'bg-red-50 text-gray-500' : 'bg-green-50 text-gray-700'
+                        )}
+                      >
+                        {formatChangeValue(value)}
+                      </p>
+                      {!isCurrentValue(project, change.field, value) && (
+                        <RestoreButton
+                          onClick={() => handleRestore(change, side)}
+                          loading={restoring === `${change.id}:${side}`}
+                          disabled={!!restoring}
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      {!isLoading && changes.length === 0 && (
+        <p className="text-sm text-gray-500">No changes to this field yet.</p>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading history...
+        </div>
+      ) : hasMore && (
+        <button
+          onClick={() => load(changes[changes.length - 1]?.changed_at)}
+          className="text-xs font-medium text-gray-500 hover:text-gray-700"
+        >
+          Show older changes
+        </button>
+      )}
+    </div>
+  )
+}
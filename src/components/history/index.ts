@@ -0,0 +1,8 @@
+/**
+ * 📜 HISTORY COMPONENTS INDEX
+ * ===========================
+ * Central export point for project history UI components.
+ */
+
+export { FieldHistory } from './FieldHistory'
+export type { FieldHistoryProps } from './FieldHistory'
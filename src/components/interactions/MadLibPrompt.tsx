@@ -0,0 +1,85 @@
+/**
+ * 📝 MAD LIB PROMPT COMPONENT
+ * ===========================
+ * One fill-in-the-blank sentence with a submit button.
+ * Keeps free-text answers short and on topic.
+ *
+ * Usage:
+ *   <MadLibPrompt
+ *     config={ONE_LINER_MAD_LIB}
+ *     value={value}
+ *     onChange={setValue}
+ *     onSubmit={handleSubmit}
+ *   />
+ */
+
+'use client'
+
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/Button'
+import { MadLibsInput } from '@/components/onboard/MadLibsInput'
+import { Check } from 'lucide-react'
+import type { MadLibConfig } from '@/lib/types'
+
+export interface MadLibPromptProps {
+  /** Mad lib configuration */
+  config: MadLibConfig
+  /** Current value */
+  value: string
+  /** Callback when value changes */
+  onChange: (value: string) => void
+  /** Callback when user confirms */
+  onSubmit?: (value: string) => void
+  /** Disabled state */
+  disabled?: boolean
+  /** Additional class names */
+  className?: string
+}
+
+export function MadLibPrompt({
+  config,
+  value,
+  onChange,
+  onSubmit,
+  disabled = false,
+  className,
+}: MadLibPromptProps) {
+  const [before, after = ''] = config.template.split('{{blank}}')
+  const canSubmit = value.trim().length > 0 && !disabled
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (canSubmit) onSubmit?.(value.trim())
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className={cn('space-y-4', className)}>
+      {/* Sentence */}
+      <p className="text-lg text-gray-800 leading-loose">
+        {before}
+        <MadLibsInput
+          field={{
+            id: config.id,
+            placeholder: config.placeholder,
+            hint: config.hint,
+            width: config.width,
+            type: 'text',
+          }}
+          value={value}
+          onChange={onChange}
+        />
+        {after}
+      </p>
+
+      {/* Submit */}
+      {onSubmit && (
+        <div className="flex justify-end pt-2">
+          <Button type="submit" variant="primary" disabled={!canSubmit}>
+            <Check className="w-4 h-4" />
+            That&apos;s it
+          </Button>
+        </div>
+      )}
+    </form>
+  )
+}
@@ -15,3 +15,6 @@ export type { BinaryChoiceProps } from './BinaryChoice'
 
 export { InferenceReveal, QuickConfirm } from './InferenceReveal'
 export type { InferenceRevealProps } from './InferenceReveal'
+
+export { MadLibPrompt } from './MadLibPrompt'
+export type { MadLibPromptProps } from './MadLibPrompt'
@@ -11,7 +11,7 @@
 
 import { useState, useRef, useEffect } from 'react'
 import { cn } from '@/lib/utils'
-import { MAD_LIBS_FIELDS, type MadLibField } from '@/lib/config/onboarding'
+import { MAD_LIBS_FIELDS, MAD_LIBS_TEMPLATE, type MadLibField } from '@/lib/config/onboarding'
 
 // ============================================
 // 📋 TYPES
@@ -43,6 +43,8 @@ export interface MadLibsParagraphProps {
   focusedField?: string
   /** Handler when a field is focused */
   onFieldFocus?: (fieldId: string) => void
+  /** Paragraph with {{fieldId}} markers (defaults to MAD_LIBS_TEMPLATE) */
+  template?: string
 }
 
 // ============================================
@@ -162,6 +164,7 @@ export function MadLibsParagraph({
   errors = {},
   focusedField,
   onFieldFocus,
+  template = MAD_LIBS_TEMPLATE,
 }: MadLibsParagraphProps) {
   // Get field config by ID
   const getField = (fieldId: string): MadLibField | undefined => {
@@ -170,14 +173,6 @@ export function MadLibsParagraph({
 
   // Build the paragraph with inputs
   // Split by {{fieldId}} patterns
-  const template = `My name is {{repName}} and I'm the {{repRole}} at {{brandName}}.
-
-We're based in {{brandLocation}} and started in {{yearFounded}}.
-
-We exist because {{foundingReason}}.
-
-In simple terms, we help {{customerDescription}} by {{coreOffering}}.`
-
   // Parse template into parts
   const parts: Array<{ type: 'text' | 'input'; content: string }> = []
   let remaining = template
@@ -0,0 +1,128 @@
+/**
+ * 🧭 ONBOARD FLOW
+ * ===============
+ * Which onboarding the step pages are part of, and where their links go.
+ *
+ * Members go through every step at /onboard/<projectId>/<step>. A client
+ * on an invite link gets the guest flow at /guest/<token>/<step>: just
+ * setup → story → words → style, then a thank-you page. The step pages
+ * and OnboardLayout ask useOnboardFlow() instead of building URLs, so
+ * the same pages serve both.
+ *
+ * Usage:
+ *   <GuestFlowProvider projectId={id} token={token}>{children}</GuestFlowProvider>
+ *   const { projectId, stepHref, nextStep } = useOnboardFlow()
+ */
+
+'use client'
+
+import { createContext, useContext, useEffect, useMemo, useState } from 'react'
+import { useParams } from 'next/navigation'
+import { useProjectStore } from '@/lib/stores/projectStore'
+import { ONBOARD_STEPS, getNextStep, getPreviousStep } from '@/lib/config/onboarding'
+import type { OnboardStep, StepConfig } from '@/lib/config/onboarding'
+import { GUEST_STEPS, getInvitePath, getNextGuestStep } from '@/lib/guest/invites'
+import type { ClientInviteStep } from '@/lib/types'
+
+// ============================================
+// 📋 TYPES
+// ============================================
+
+export interface OnboardFlow {
+  /** The project being onboarded */
+  projectId: string
+  /** Steps shown in the step indicator */
+  steps: StepConfig[]
+  /** Set when a client is answering through an invite link */
+  guestToken: string | null
+  /** URL of a step in this flow */
+  stepHref: (step: OnboardStep) => string
+  /** The step after this one (undefined at the end) */
+  nextStep: (step: OnboardStep) => OnboardStep | undefined
+  /** The step before this one (undefined at the start) */
+  previousStep: (step: OnboardStep) => OnboardStep | undefined
+  /** Where the logo and exit button go (null = nowhere to exit to) */
+  exitHref: string | null
+}
+
+const GUEST_STEP_CONFIGS = ONBOARD_STEPS.filter(step =>
+  GUEST_STEPS.includes(step.id as (typeof GUEST_STEPS)[number])
+)
+
+// ============================================
+// 🧭 FLOWS
+// ============================================
+
+function memberFlow(projectId: string): OnboardFlow {
+  return {
+    projectId,
+    steps: ONBOARD_STEPS,
+    guestToken: null,
+    stepHref: (step) => `/onboard/${projectId}/${step}`,
+    nextStep: (step) => getNextStep(step)?.id,
+    previousStep: (step) => getPreviousStep(step)?.id,
+    exitHref: '/dashboard',
+  }
+}
+
+function guestFlow(projectId: string, token: string): OnboardFlow {
+  return {
+    projectId,
+    steps: GUEST_STEP_CONFIGS,
+    guestToken: token,
+    stepHref: (step) => getInvitePath(token, step as ClientInviteStep),
+    nextStep: (step) => (step === 'done' ? undefined : getNextGuestStep(step as ClientInviteStep)),
+    previousStep: (step) => {
+      const index = GUEST_STEP_CONFIGS.findIndex(config => config.id === step)
+      return index > 0 ? GUEST_STEP_CONFIGS[index - 1].id : undefined
+    },
+    exitHref: null,
+  }
+}
+
+const OnboardFlowContext = createContext<OnboardFlow | null>(null)
+
+// ============================================
+// 🎨 PROVIDER + HOOK
+// ============================================
+
+export interface GuestFlowProviderProps {
+  /** The invited project */
+  projectId: string
+  /** The invite token */
+  token: string
+  children: React.ReactNode
+}
+
+/**
+ * Puts the pages inside it in the guest flow, and the project store in
+ * guest mode (loads and saves go through the invite)
+ */
+export function GuestFlowProvider({ projectId, token, children }: GuestFlowProviderProps) {
+  const flow = useMemo(() => guestFlow(projectId, token), [projectId, token])
+  const [ready, setReady] = useState(false)
+
+  // The pages load the project as they mount, so guest mode has to be
+  // on before they render
+  useEffect(() => {
+    useProjectStore.getState().setGuestToken(token)
+    setReady(true)
+    return () => useProjectStore.getState().setGuestToken(null)
+  }, [token])
+
+  if (!ready) return null
+
+  return <OnboardFlowContext.Provider value={flow}>{children}</OnboardFlowContext.Provider>
+}
+
+/**
+ * The flow the current page is in - the member flow for the route's
+ * projectId unless a GuestFlowProvider says otherwise
+ */
+export function useOnboardFlow(): OnboardFlow {
+  const flow = useContext(OnboardFlowContext)
+  const params = useParams()
+  const projectId = params.projectId as string
+
+  return useMemo(() => flow ?? memberFlow(projectId), [flow, projectId])
+}
@@ -3,6 +3,8 @@
  * =================
  * Wrapper component for all onboarding pages.
  * Provides consistent header, step indicator, and navigation.
+ * Links follow the page's flow (members, or a client's guest flow -
+ * see OnboardFlow).
  *
  * Usage:
  *   <OnboardLayout projectId={id} currentStep="setup" title="The Basics">
@@ -17,12 +19,8 @@ import Link from 'next/link'
 import { Rocket, X, ArrowLeft, ArrowRight, Loader2 } from 'lucide-react'
 import { Button } from '@/components/ui/Button'
 import { StepIndicator } from './StepIndicator'
-import {
-  type OnboardStep,
-  getNextStep,
-  getPreviousStep,
-  ONBOARD_STEPS,
-} from '@/lib/config/onboarding'
+import { useOnboardFlow } from './OnboardFlow'
+import type { OnboardStep } from '@/lib/config/onboarding'
 import { log } from '@/lib/utils/logger'
 
 // ============================================
@@ -84,10 +82,11 @@ export function OnboardLayout({
   sidebar,
 }: OnboardLayoutProps) {
   const router = useRouter()
+  const flow = useOnboardFlow()
 
   // Get adjacent steps for navigation
-  const prevStep = getPreviousStep(currentStep)
-  const nextStep = getNextStep(currentStep)
+  const prevStep = flow.previousStep(currentStep)
+  const nextStep = flow.nextStep(currentStep)
 
   /**
    * 🔙 Handle back navigation
@@ -99,12 +98,12 @@ export function OnboardLayout({
     }
 
     if (prevStep) {
-      log.info('⬅️ Navigating back', { from: currentStep, to: prevStep.id })
-      router.push(`/onboard/${projectId}/${prevStep.path}`)
-    } else {
+      log.info('⬅️ Navigating back', { from: currentStep, to: prevStep })
+      router.push(flow.stepHref(prevStep))
+    } else if (flow.exitHref) {
       // If no previous step, go to dashboard
       log.info('⬅️ Navigating to dashboard')
-      router.push('/dashboard')
+      router.push(flow.exitHref)
     }
   }
 
@@ -118,8 +117,8 @@ export function OnboardLayout({
     }
 
     if (nextStep) {
-      log.info('➡️ Navigating forward', { from: currentStep, to: nextStep.id })
-      router.push(`/onboard/${projectId}/${nextStep.path}`)
+      log.info('➡️ Navigating forward', { from: currentStep, to: nextStep })
+      router.push(flow.stepHref(nextStep))
     }
   }
 
@@ -134,7 +133,7 @@ export function OnboardLayout({
 
     if (nextStep) {
       log.info('⏭️ Skipping step', { step: currentStep })
-      router.push(`/onboard/${projectId}/${nextStep.path}`)
+      router.push(flow.stepHref(nextStep))
     }
   }
 
@@ -148,7 +147,7 @@ export function OnboardLayout({
           <div className="flex items-center justify-between">
             {/* Logo */}
             <Link
-              href="/dashboard"
+              href={flow.exitHref ?? flow.stepHref(flow.steps[0].id)}
               className="flex items-center gap-2 hover:opacity-80 transition-opacity"
             >
               <Rocket className="w-6 h-6 text-primary-500" />
@@ -160,20 +159,25 @@ export function OnboardLayout({
             {/* Step Indicator (centered) */}
             <div className="flex-1 flex justify-center px-4">
               <StepIndicator
-                steps={ONBOARD_STEPS}
+                steps={flow.steps}
                 currentStep={currentStep}
                 projectId={projectId}
+                getStepHref={flow.stepHref}
               />
             </div>
 
-            {/* Exit Button */}
-            <Link
-              href="/dashboard"
-              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-all"
-              title="Exit to dashboard"
-            >
-              <X className="w-5 h-5" />
-            </Link>
+            {/* Exit Button (guests have nowhere to exit to) */}
+            {flow.exitHref ? (
+              <Link
+                href={flow.exitHref}
+                className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-all"
+                title="Exit to dashboard"
+              >
+                <X className="w-5 h-5" />
+              </Link>
+            ) : (
+              <div className="w-9" />
+            )}
           </div>
         </div>
       </header>
@@ -218,7 +222,7 @@ export function OnboardLayout({
           <div className="flex items-center justify-between max-w-2xl mx-auto">
             {/* Back Button */}
             <div>
-              {!hideBack && (
+              {!hideBack && (prevStep || flow.exitHref || onBack) && (
                 <Button variant="ghost" onClick={handleBack}>
                   <ArrowLeft className="w-4 h-4" />
                   Back
@@ -0,0 +1,107 @@
+/**
+ * 💡 SCRAPE SUGGESTION
+ * ====================
+ * Offers an answer the web scraper found on the user's website, through
+ * InferenceReveal: accept it, edit it, or turn it down.
+ *
+ * Features:
+ * - Text and word-list suggestions (lists are edited as comma-separated text)
+ * - Reports the answer as a SuggestionDecision for suggestion_decisions
+ * - useLiveScrapeSuggestions() picks up suggestions from a scrape that
+ *   finishes while the page is open
+ */
+
+'use client'
+
+import { useEffect } from 'react'
+import { InferenceReveal } from '@/components/interactions/InferenceReveal'
+import { useProjectStore } from '@/lib/stores/projectStore'
+import { useAnalyzerStore, useAnalyzerRun } from '@/lib/analyzers'
+import { SUGGESTION_LABELS, buildSuggestionDecision } from '@/lib/config/onboarding'
+import type { SuggestionDecision, SuggestionField } from '@/lib/types'
+
+// ============================================
+// 📋 TYPES
+// ============================================
+
+export interface ScrapeSuggestionProps {
+  /** The input being suggested for */
+  field: SuggestionField
+  /** The suggested value */
+  suggestion: string | string[]
+  /** The scrape's confidence (0-1) */
+  confidence?: number | null
+  /** Called with the user's answer */
+  onDecide: (decision: SuggestionDecision) => void
+  /** Turns edited text back into a value - required for word lists */
+  parseEdit?: (text: string) => string[]
+}
+
+// ============================================
+// 🎨 COMPONENT
+// ============================================
+
+export function ScrapeSuggestion({
+  field,
+  suggestion,
+  confidence,
+  onDecide,
+  parseEdit,
+}: ScrapeSuggestionProps) {
+  const isList = Array.isArray(suggestion)
+  const inference = isList ? suggestion.join(', ') : suggestion
+
+  const handleEdit = (text: string) => {
+    const value = isList && parseEdit ? parseEdit(text) : text
+
+    // An edit that leaves nothing usable is a "no"
+    if (Array.isArray(value) && value.length === 0) {
+      onDecide(buildSuggestionDecision(suggestion, 'rejected', null))
+      return
+    }
+
+    onDecide(buildSuggestionDecision(suggestion, 'edited', value))
+  }
+
+  return (
+    <InferenceReveal
+      title="Here's what your website says..."
+      field={SUGGESTION_LABELS[field]}
+      inference={inference}
+      confidence={confidence ?? undefined}
+      onAccept={() => onDecide(buildSuggestionDecision(suggestion, 'accepted', suggestion))}
+      onReject={() => onDecide(buildSuggestionDecision(suggestion, 'rejected', null))}
+      onEdit={!isList || parseEdit ? handleEdit : undefined}
+    />
+  )
+}
+
+// ============================================
+// 🎣 HOOKS
+// ============================================
+
+/**
+ * Reload scrape_suggestions when a web scraper run finishes
+ * Only listens while the project has a website and no suggestions yet.
+ */
+export function useLiveScrapeSuggestions(projectId: string) {
+  const { project, refreshFields } = useProjectStore()
+  const { loadRuns, subscribeToUpdates } = useAnalyzerStore()
+  const webScraperRun = useAnalyzerRun('web_scraper')
+
+  const waiting = !!project?.website_url && !project.scrape_suggestions
+
+  useEffect(() => {
+    if (!waiting) return
+
+    loadRuns(projectId)
+    const unsubscribe = subscribeToUpdates(projectId)
+    return () => unsubscribe()
+  }, [waiting, projectId, loadRuns, subscribeToUpdates])
+
+  useEffect(() => {
+    if (waiting && webScraperRun?.status === 'completed') {
+      refreshFields(['scrape_suggestions', 'scrape_confidence'])
+    }
+  }, [waiting, webScraperRun?.status, refreshFields])
+}
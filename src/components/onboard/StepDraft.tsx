@@ -0,0 +1,210 @@
+/**
+ * 📝 STEP DRAFT
+ * =============
+ * Form state for an onboarding step that survives a refresh.
+ *
+ * useStepDraft keeps the step's values in the project store's draft:
+ * every edit is kept in localStorage and can be undone and redone, and
+ * the draft is autosaved to the project's step_drafts once typing
+ * pauses. The step's fields are only written by commit() (Continue),
+ * which stamps them, logs them and refreshes analyzers like any save,
+ * then forgets the draft.
+ *
+ * Undo / redo: the toolbar buttons, or Ctrl/⌘+Z and Ctrl/⌘+Shift+Z
+ * (Ctrl+Y) anywhere on the page.
+ *
+ * Usage:
+ *   const draft = useStepDraft('story', (project) => ({ ... }))
+ *   draft.setValue('brandName', 'Sprout')
+ *   await draft.commit({ ...fields, current_step: next })
+ *   <DraftToolbar draft={draft} />
+ */
+
+'use client'
+
+import { useCallback, useEffect, useRef } from 'react'
+import { AlertCircle, Check, Loader2, Redo2, Undo2 } from 'lucide-react'
+import { useProjectStore } from '@/lib/stores/projectStore'
+import type { OnboardStep } from '@/lib/config/onboarding'
+import { cn } from '@/lib/utils'
+import type { BusinessProject } from '@/lib/types'
+
+// ============================================
+// 📋 TYPES
+// ============================================
+
+export interface StepDraftState<T extends object> {
+  /** The form values (null until the project has loaded) */
+  values: T | null
+  /** Change one field */
+  setValue: <K extends keyof T & string>(field: K, value: T[K]) => void
+  undo: () => void
+  redo: () => void
+  canUndo: boolean
+  canRedo: boolean
+  /** The values came from an earlier, unsaved visit */
+  restored: boolean
+  /** Throw the unsaved values away and start again from the project */
+  discard: () => void
+  /** Save the step for real - THROWS on error, like updateFields */
+  commit: (fields: Partial<BusinessProject>) => Promise<void>
+  /** A commit is saving */
+  isSaving: boolean
+}
+
+// ============================================
+// 🪝 HOOK
+// ============================================
+
+/**
+ * A step's form values, as a draft on the loaded project
+ *
+ * @param initial - the form's values from the project
+ */
+export function useStepDraft<T extends object>(
+  step: OnboardStep,
+  initial: (project: BusinessProject) => T
+): StepDraftState<T> {
+  const {
+    project,
+    isLoading,
+    isSaving,
+    draft,
+    startDraft,
+    editDraft,
+    undoDraft,
+    redoDraft,
+    autosave,
+    commitDraft,
+    clearDraft,
+  } = useProjectStore()
+
+  // Pages pass this inline - only the latest matters
+  const initialRef = useRef(initial)
+  initialRef.current = initial
+
+  const isOpen = !!project && draft?.projectId === project.id && draft.step === step
+  const values = isOpen ? (draft.values as unknown as T) : null
+
+  // Open the draft once the project is here (again if it's a different one)
+  useEffect(() => {
+    if (project && !isLoading && !isOpen) {
+      startDraft(step, initialRef.current(project) as Record<string, unknown>)
+    }
+  }, [project, isLoading, isOpen, step, startDraft])
+
+  const setValue = useCallback(<K extends keyof T & string>(field: K, value: T[K]) => {
+    const current = useProjectStore.getState().draft?.values as unknown as T | undefined
+    if (!current) return
+
+    editDraft({ ...current, [field]: value } as Record<string, unknown>, field)
+    autosave()
+  }, [editDraft, autosave])
+
+  const undo = useCallback(() => {
+    if (undoDraft()) autosave()
+  }, [undoDraft, autosave])
+
+  const redo = useCallback(() => {
+    if (redoDraft()) autosave()
+  }, [redoDraft, autosave])
+
+  const discard = useCallback(() => {
+    clearDraft()
+    const current = useProjectStore.getState().project
+    if (current) startDraft(step, initialRef.current(current) as Record<string, unknown>)
+  }, [clearDraft, startDraft, step])
+
+
+  // Keyboard undo / redo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey)) return
+      const key = event.key.toLowerCase()
+
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault()
+        undo()
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault()
+        redo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+
+  return {
+    values,
+    setValue,
+    undo,
+    redo,
+    canUndo: isOpen && draft.past.length > 0,
+    canRedo: isOpen && draft.future.length > 0,
+    restored: isOpen && draft.restored,
+    discard,
+    commit: commitDraft,
+    isSaving,
+  }
+}
+
+// ============================================
+// 🎨 TOOLBAR
+// ============================================
+
+export interface DraftToolbarProps {
+  draft: Pick<StepDraftState<object>, 'undo' | 'redo' | 'canUndo' | 'canRedo' | 'restored' | 'discard'>
+  className?: string
+}
+
+/**
+ * Undo / redo, whether the draft is saved, and the restored notice
+ */
+export function DraftToolbar({ draft, className }: DraftToolbarProps) {
+  const { autosaveStatus } = useProjectStore()
+
+  const buttonStyles = 'p-1.5 rounded-md text-gray-500 hover:bg-gray-100 hover:text-gray-700 disabled:opacity-30 disabled:hover:bg-transparent'
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      {draft.restored && (
+        <div className="flex items-center justify-between gap-3 px-3 py-2 text-sm bg-primary-50 text-primary-700 rounded-lg">
+          <span>We kept the answers you hadn&apos;t saved yet.</span>
+          <button onClick={draft.discard} className="text-xs font-medium hover:underline">
+            Start over
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-1 text-xs text-gray-400">
+        <span className="mr-2 flex items-center gap-1">
+          {autosaveStatus === 'saving' && (
+            <>
+              <Loader2 className="w-3 h-3 animate-spin" />
+              Saving...
+            </>
+          )}
+          {autosaveStatus === 'saved' && (
+            <>
+              <Check className="w-3 h-3" />
+              Saved
+            </>
+          )}
+          {autosaveStatus === 'error' && (
+            <span className="flex items-center gap-1 text-amber-600">
+              <AlertCircle className="w-3 h-3" />
+              Not saved yet - your answers are kept on this device
+            </span>
+          )}
+        </span>
+        <button onClick={draft.undo} disabled={!draft.canUndo} className={buttonStyles} title="Undo" aria-label="Undo">
+          <Undo2 className="w-4 h-4" />
+        </button>
+        <button onClick={draft.redo} disabled={!draft.canRedo} className={buttonStyles} title="Redo" aria-label="Redo">
+          <Redo2 className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -26,6 +26,8 @@ export interface StepIndicatorProps {
   currentStep: OnboardStep
   /** Project ID for navigation links */
   projectId: string
+  /** Link for a step (defaults to the member onboarding URL) */
+  getStepHref?: (step: OnboardStep) => string
   /** Whether steps are clickable */
   interactive?: boolean
 }
@@ -38,6 +40,7 @@ export function StepIndicator({
   steps,
   currentStep,
   projectId,
+  getStepHref = (step) => `/onboard/${projectId}/${step}`,
   interactive = true,
 }: StepIndicatorProps) {
   // Find current step index
@@ -93,7 +96,7 @@ export function StepIndicator({
             return (
               <Link
                 key={step.id}
-                href={`/onboard/${projectId}/${step.path}`}
+                href={getStepHref(step.id)}
                 className="flex items-center hover:opacity-80 transition-opacity"
                 title={step.label}
               >
@@ -0,0 +1,124 @@
+/**
+ * 🎨 VISUAL IDENTITY PREVIEW
+ * ==========================
+ * Shows the brand colors and fonts the web scraper found on the site.
+ *
+ * Features:
+ * - Color swatches with hex codes, widest first
+ * - Type specimens set in the brand's own fonts (Google Fonts
+ *   families are loaded on the fly; site-hosted ones fall back)
+ * - Compact mode for the hub's analyzer preview
+ */
+
+'use client'
+
+import { useEffect } from 'react'
+import { cn } from '@/lib/utils'
+import type { BrandFontRole, VisualIdentity } from '@/lib/types'
+
+// ============================================
+// 📋 TYPES
+// ============================================
+
+export interface VisualIdentityPreviewProps {
+  /** The project's visual identity */
+  visualIdentity: VisualIdentity
+  /** Smaller swatches, no specimen text (hub preview) */
+  compact?: boolean
+}
+
+const ROLE_LABELS: Record<BrandFontRole, string> = {
+  heading: 'Headings',
+  body: 'Body text',
+  accent: 'Accent',
+}
+
+// ============================================
+// 🔤 FONT LOADING
+// ============================================
+
+/**
+ * Add a Google Fonts stylesheet for the families (once per set)
+ */
+function useGoogleFonts(families: string[]) {
+  const key = families.join('|')
+
+  useEffect(() => {
+    if (!key) return
+
+    const query = key
+      .split('|')
+      .map(family => `family=${encodeURIComponent(family).replace(/%20/g, '+')}`)
+      .join('&')
+    const href = `https://fonts.googleapis.com/css2?${query}&display=swap`
+
+    if (document.querySelector(`link[href="${href}"]`)) return
+
+    const link = document.createElement('link')
+    link.rel = 'stylesheet'
+    link.href = href
+    document.head.appendChild(link)
+  }, [key])
+}
+
+// ============================================
+// 🎨 COMPONENT
+// ============================================
+
+export function VisualIdentityPreview({ visualIdentity, compact = false }: VisualIdentityPreviewProps) {
+  const { colors, fonts } = visualIdentity
+
+  useGoogleFonts(fonts.filter(font => font.source === 'google_fonts').map(font => font.family))
+
+  return (
+    <div className={cn(compact ? 'space-y-3' : 'space-y-6')}>
+      {/* Swatches */}
+      {colors.length > 0 && (
+        <div className="flex flex-wrap gap-3">
+          {colors.map(color => (
+            <div key={color.hex} className="text-center">
+              <div
+                className={cn(
+                  'rounded-lg border border-gray-200 shadow-sm',
+                  compact ? 'w-8 h-8' : 'w-16 h-16'
+                )}
+                style={{ backgroundColor: color.hex }}
+                title={`${color.hex} (${Math.round(color.weight * 100)}%)`}
+              />
+              {!compact && (
+                <>
+                  <p className="mt-1 text-xs font-mono text-gray-700">{color.hex}</p>
+                  <p className="text-xs text-gray-400">{Math.round(color.weight * 100)}%</p>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Type specimens */}
+      {fonts.length > 0 && (
+        <div className={cn(compact ? 'space-y-1' : 'grid sm:grid-cols-2 gap-3')}>
+          {fonts.map(font => (
+            <div
+              key={font.family}
+              className={cn(!compact && 'p-4 bg-gray-50 rounded-lg')}
+            >
+              <p
+                className={cn('text-gray-900', compact ? 'text-base' : 'text-2xl mb-1')}
+                style={{ fontFamily: `"${font.family}", ${font.role === 'heading' ? 'serif' : 'sans-serif'}` }}
+              >
+                {compact ? font.family : 'Aa Bb Cc 123'}
+              </p>
+              <p className="text-xs text-gray-500">
+                {!compact && <span className="font-medium text-gray-700">{font.family} · </span>}
+                {ROLE_LABELS[font.role]}
+                {font.source === 'site' && ' · hosted on your site'}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -15,3 +15,15 @@ export { MadLibsInput, MadLibsParagraph } from './MadLibsInput'
 export { WordBankSelector } from './WordBankSelector'
 
 export { StyleSlider } from './StyleSlider'
+
+export { VisualIdentityPreview } from './VisualIdentityPreview'
+export type { VisualIdentityPreviewProps } from './VisualIdentityPreview'
+
+export { ScrapeSuggestion, useLiveScrapeSuggestions } from './ScrapeSuggestion'
+export type { ScrapeSuggestionProps } from './ScrapeSuggestion'
+
+export { GuestFlowProvider, useOnboardFlow } from './OnboardFlow'
+export type { GuestFlowProviderProps, OnboardFlow } from './OnboardFlow'
+
+export { DraftToolbar, useStepDraft } from './StepDraft'
+export type { DraftToolbarProps, StepDraftState } from './StepDraft'
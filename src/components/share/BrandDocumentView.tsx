@@ -0,0 +1,150 @@
+/**
+ * 📄 BRAND DOCUMENT VIEW
+ * ======================
+ * A BrandDocument (lib/export/document.ts) as a read-only web page - the
+ * same sections and blocks the PDF and Word exports lay out.
+ *
+ * Usage:
+ *   <BrandDocumentView doc={buildBrandDocument(project, { hidden })} />
+ */
+
+'use client'
+
+import { cn } from '@/lib/utils'
+import { VisualIdentityPreview } from '@/components/onboard/VisualIdentityPreview'
+import type { BrandDocument, DocumentBlock } from '@/lib/export/document'
+
+// ============================================
+// 📋 TYPES
+// ============================================
+
+export interface BrandDocumentViewProps {
+  doc: BrandDocument
+}
+
+const SEVERITY_STYLES = {
+  low: 'bg-gray-100 text-gray-600',
+  medium: 'bg-amber-50 text-amber-700',
+  high: 'bg-red-50 text-red-700',
+}
+
+// ============================================
+// 🧱 BLOCKS
+// ============================================
+
+function BlockLabel({ label }: { label?: string }) {
+  return label ? <h4 className="text-sm font-medium text-gray-500 mb-1">{label}</h4> : null
+}
+
+function Block({ block }: { block: DocumentBlock }) {
+  switch (block.type) {
+    case 'paragraph':
+      return (
+        <div>
+          <BlockLabel label={block.label} />
+          <p className="leading-relaxed whitespace-pre-line">{block.text}</p>
+        </div>
+      )
+
+    case 'facts':
+      return (
+        <dl className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {block.facts.map(fact => (
+            <div key={fact.label} className="p-3 bg-gray-50 rounded-lg">
+              <dt className="text-sm text-gray-500 mb-1">{fact.label}</dt>
+              <dd className="font-medium break-words">{fact.value}</dd>
+            </div>
+          ))}
+        </dl>
+      )
+
+    case 'tags':
+      return (
+        <div>
+          <BlockLabel label={block.label} />
+          <div className="flex flex-wrap gap-2">
+            {block.items.map(item => (
+              <span
+                key={item}
+                className="px-3 py-1 bg-primary-50 text-primary-700 rounded-full text-sm font-medium"
+              >
+                {item}
+              </span>
+            ))}
+          </div>
+        </div>
+      )
+
+    case 'list':
+      return (
+        <div>
+          <BlockLabel label={block.label} />
+          <ul className="list-disc pl-5 space-y-1">
+            {block.items.map(item => (
+              <li key={item}>{item}</li>
+            ))}
+          </ul>
+        </div>
+      )
+
+    case 'score':
+      return (
+        <div>
+          <div className="flex items-baseline justify-between mb-1">
+            <span className="text-sm font-medium text-gray-500">{block.label}</span>
+            <span className="font-semibold text-gray-900">
+              {block.value} / {block.max}
+            </span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-primary-500 rounded-full"
+              style={{ width: `${Math.min(100, (block.value / block.max) * 100)}%` }}
+            />
+          </div>
+        </div>
+      )
+
+    case 'risks':
+      return (
+        <ul className="space-y-3">
+          {block.risks.map(risk => (
+            <li key={risk.title} className="p-3 bg-gray-50 rounded-lg">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{risk.title}</span>
+                <span className={cn('px-2 py-0.5 rounded-full text-xs font-medium', SEVERITY_STYLES[risk.severity])}>
+                  {risk.severity}
+                </span>
+              </div>
+              {risk.mitigation && <p className="mt-1 text-sm text-gray-600">{risk.mitigation}</p>}
+            </li>
+          ))}
+        </ul>
+      )
+
+    case 'visual':
+      return <VisualIdentityPreview visualIdentity={block.visualIdentity} />
+  }
+}
+
+// ============================================
+// 📄 MAIN COMPONENT
+// ============================================
+
+export function BrandDocumentView({ doc }: BrandDocumentViewProps) {
+  return (
+    <div className="divide-y divide-gray-100">
+      {doc.sections.map(section => (
+        <section key={section.id} className="py-6 first:pt-0 last:pb-0">
+          <h3 className="font-semibold text-gray-900">{section.title}</h3>
+          {section.subtitle && <p className="text-sm text-gray-400">{section.subtitle}</p>}
+          <div className="mt-3 space-y-4 text-gray-700">
+            {section.blocks.map((block, index) => (
+              <Block key={index} block={block} />
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,285 @@
+/**
+ * 🔗 SHARE LINKS PANEL
+ * ====================
+ * Lets the owner share a read-only copy of the brand foundation with
+ * people who don't have an account (clients, stakeholders).
+ *
+ * Features:
+ * - New links: optional label, expiry, and which sections to leave out
+ *   (the AI's weaknesses are left out unless ticked)
+ * - Every link with its status, view count and a copy button
+ * - Revoke a link - it stops working straight away
+ *
+ * Usage:
+ *   <ShareLinksPanel projectId={projectId} />
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Check, Copy, Eye, Link2, Loader2, Plus } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { cn, formatRelativeTime } from '@/lib/utils'
+import { DOCUMENT_PARTS } from '@/lib/export/document'
+import {
+  DEFAULT_HIDDEN_PARTS,
+  SHARE_EXPIRY_OPTIONS,
+  getSharePath,
+  getShareLinkStatus,
+} from '@/lib/share/links'
+import type { ShareLinkStatus } from '@/lib/share/links'
+import { log } from '@/lib/utils/logger'
+import type { ShareLink } from '@/lib/types'
+
+// ============================================
+// 📋 TYPES
+// ============================================
+
+export interface ShareLinksPanelProps {
+  projectId: string
+}
+
+const STATUS_STYLES: Record<ShareLinkStatus, string> = {
+  live: 'bg-green-50 text-green-700',
+  expired: 'bg-gray-100 text-gray-500',
+  revoked: 'bg-red-50 text-red-600',
+}
+
+// ============================================
+// 🔗 MAIN COMPONENT
+// ============================================
+
+export function ShareLinksPanel({ projectId }: ShareLinksPanelProps) {
+  const [links, setLinks] = useState<ShareLink[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // New link form
+  const [isCreating, setIsCreating] = useState(false)
+  const [showForm, setShowForm] = useState(false)
+  const [label, setLabel] = useState('')
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(null)
+  const [hidden, setHidden] = useState<string[]>(DEFAULT_HIDDEN_PARTS)
+
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+
+  // Load links on mount
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/project/share?projectId=${projectId}`)
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error)
+        setLinks(data.links)
+      } catch (err) {
+        log.error('🔗 Failed to load share links', err)
+        setError('Could not load your share links')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    load()
+  }, [projectId])
+
+  const toggleHidden = (part: string) => {
+    setHidden(current =>
+      current.includes(part) ? current.filter(id => id !== part) : [...current, part]
+    )
+  }
+
+  /**
+   * ➕ Create a link with the form's settings
+   */
+  const handleCreate = async () => {
+    setIsCreating(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/project/share', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ projectId, label, hiddenSections: hidden, expiresInDays }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+
+      setLinks(current => [data.link, ...current])
+      setShowForm(false)
+      setLabel('')
+      setExpiresInDays(null)
+      setHidden(DEFAULT_HIDDEN_PARTS)
+      log.success('🔗 Share link created')
+    } catch (err) {
+      log.error('🔗 Failed to create share link', err)
+      setError('Could not create the link')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  /**
+   * 🚫 Revoke a link
+   */
+  const handleRevoke = async (link: ShareLink) => {
+    setError(null)
+
+    try {
+      const response = await fetch('/api/project/share', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: link.id, revoke: true }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+
+      setLinks(current => current.map(item => (item.id === link.id ? data.link : item)))
+      log.info('🔗 Share link revoked', { id: link.id })
+    } catch (err) {
+      log.error('🔗 Failed to revoke share link', err)
+      setError('Could not revoke the link')
+    }
+  }
+
+  /**
+   * 📋 Copy a link's full URL
+   */
+  const handleCopy = (link: ShareLink) => {
+    navigator.clipboard.writeText(`${window.location.origin}${getSharePath(link.token)}`)
+    setCopiedId(link.id)
+    setTimeout(() => setCopiedId(null), 2000)
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Link2 className="w-5 h-5 text-primary-600" />
+          <h3 className="font-semibold text-gray-900">Share links</h3>
+        </div>
+        {!showForm && (
+          <Button variant="outline" size="sm" onClick={() => setShowForm(true)}>
+            <Plus className="w-4 h-4" />
+            New link
+          </Button>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        Anyone with a link can view a read-only copy of this foundation - no account needed.
+      </p>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      {/* New link form */}
+      {showForm && (
+        <div className="p-4 mb-4 bg-gray-50 rounded-lg space-y-4">
+          <Input
+            label="Label (only you see this)"
+            placeholder="e.g. For the Acme team"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+          />
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-1.5">Expires</p>
+            <div className="flex flex-wrap gap-2">
+              {SHARE_EXPIRY_OPTIONS.map(option => (
+                <button
+                  key={option.label}
+                  type="button"
+                  onClick={() => setExpiresInDays(option.days)}
+                  className={cn(
+                    'px-3 py-1 rounded-full text-sm border transition-colors',
+                    expiresInDays === option.days
+                      ? 'bg-primary-50 border-primary-300 text-primary-700'
+                      : 'bg-white border-gray-200 text-gray-600 hover:border-gray-300'
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-1.5">Sections to show</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+              {DOCUMENT_PARTS.map(part => (
+                <label key={part.id} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={!hidden.includes(part.id)}
+                    onChange={() => toggleHidden(part.id)}
+                    className="rounded border-gray-300 text-primary-600"
+                  />
+                  {part.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleCreate} loading={isCreating}>
+              Create link
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Existing links */}
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 text-gray-400 animate-spin" />
+        </div>
+      ) : links.length === 0 ? (
+        !showForm && <p className="text-sm text-gray-400 italic">No links yet</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {links.map(link => {
+            const status = getShareLinkStatus(link)
+
+            return (
+              <li key={link.id} className="py-3 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900 truncate">
+                      {link.label || 'Untitled link'}
+                    </span>
+                    <span className={cn('px-2 py-0.5 rounded-full text-xs font-medium', STATUS_STYLES[status])}>
+                      {status}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500 flex items-center gap-1 mt-0.5">
+                    <Eye className="w-3.5 h-3.5" />
+                    {link.view_count} {link.view_count === 1 ? 'view' : 'views'}
+                    {link.last_viewed_at && <> · last {formatRelativeTime(link.last_viewed_at)}</>}
+                    {status === 'live' && link.expires_at && (
+                      <> · expires {new Date(link.expires_at).toLocaleDateString()}</>
+                    )}
+                    {link.hidden_sections.length > 0 && <> · {link.hidden_sections.length} hidden</>}
+                  </p>
+                </div>
+
+                {status === 'live' && (
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button variant="outline" size="sm" onClick={() => handleCopy(link)}>
+                      {copiedId === link.id ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                      {copiedId === link.id ? 'Copied!' : 'Copy'}
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleRevoke(link)}>
+                      Revoke
+                    </Button>
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
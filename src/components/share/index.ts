@@ -0,0 +1,10 @@
+/**
+ * 🔗 SHARE COMPONENTS INDEX
+ * =========================
+ * Central export point for share link UI components.
+ */
+
+export { ShareLinksPanel } from './ShareLinksPanel'
+export type { ShareLinksPanelProps } from './ShareLinksPanel'
+export { BrandDocumentView } from './BrandDocumentView'
+export type { BrandDocumentViewProps } from './BrandDocumentView'
@@ -0,0 +1,72 @@
+/**
+ * 📬 PENDING INVITATIONS
+ * ======================
+ * Workspace invites sent to the signed-in member's email, to accept
+ * (joins and switches to the workspace) or decline.
+ *
+ * Usage:
+ *   <PendingInvitations member={member} />
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { Mail } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { useWorkspaceStore } from '@/lib/stores/workspaceStore'
+import { WORKSPACE_ROLES } from '@/lib/workspaces/roles'
+import type { Member } from '@/lib/types'
+
+export interface PendingInvitationsProps {
+  member: Member
+}
+
+export function PendingInvitations({ member }: PendingInvitationsProps) {
+  const { myInvitations, acceptInvitation, declineInvitation } = useWorkspaceStore()
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  if (myInvitations.length === 0) return null
+
+  const handle = async (invitationId: string, action: () => Promise<void>) => {
+    setBusyId(invitationId)
+    await action()
+    setBusyId(null)
+  }
+
+  return (
+    <div className="mb-8 space-y-2">
+      {myInvitations.map((invitation) => (
+        <div
+          key={invitation.id}
+          className="p-4 bg-primary-50 border border-primary-100 rounded-xl flex items-center justify-between gap-4"
+        >
+          <div className="flex items-center gap-3 min-w-0">
+            <Mail className="w-5 h-5 text-primary-600 shrink-0" />
+            <p className="text-sm text-gray-700">
+              You&apos;re invited to join{' '}
+              <span className="font-semibold">{invitation.workspace?.name ?? 'a workspace'}</span> as{' '}
+              {WORKSPACE_ROLES.find((role) => role.value === invitation.role)?.label.toLowerCase()}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={busyId === invitation.id}
+              onClick={() => handle(invitation.id, () => declineInvitation(invitation.id))}
+            >
+              Decline
+            </Button>
+            <Button
+              size="sm"
+              loading={busyId === invitation.id}
+              onClick={() => handle(invitation.id, () => acceptInvitation(member, invitation.id))}
+            >
+              Join
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,227 @@
+/**
+ * 👥 TEAM PANEL
+ * =============
+ * Who's in the current workspace, and (for owners) inviting people,
+ * changing roles and removing them. Anyone can leave.
+ *
+ * Invites are by email: the person sees the invite on their dashboard
+ * once they sign in with that address.
+ *
+ * Usage:
+ *   <TeamPanel member={member} onLeft={() => loadWorkspaces(member)} />
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2, Mail, X } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Card, CardTitle } from '@/components/ui/Card'
+import { formatRelativeTime } from '@/lib/utils'
+import { useWorkspaceStore } from '@/lib/stores/workspaceStore'
+import { WORKSPACE_ROLES, canManage } from '@/lib/workspaces/roles'
+import type { Member, WorkspaceRole } from '@/lib/types'
+
+export interface TeamPanelProps {
+  member: Member
+  /** Called after the member left the workspace */
+  onLeft?: () => void
+}
+
+const selectStyles = 'rounded-lg border border-gray-300 bg-white px-2 py-1.5 text-sm focus:outline-none focus:border-primary-500'
+
+export function TeamPanel({ member, onLeft }: TeamPanelProps) {
+  const {
+    currentWorkspace,
+    members,
+    invitations,
+    loadTeam,
+    inviteMember,
+    cancelInvitation,
+    updateMemberRole,
+    removeMember,
+  } = useWorkspaceStore()
+
+  const [isLoading, setIsLoading] = useState(true)
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<WorkspaceRole>('editor')
+  const [isInviting, setIsInviting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const workspaceId = currentWorkspace?.id
+  const isOwner = canManage(currentWorkspace?.role)
+
+  // Load the team whenever the workspace changes
+  useEffect(() => {
+    if (!workspaceId) return
+    setIsLoading(true)
+    loadTeam().finally(() => setIsLoading(false))
+  }, [workspaceId, loadTeam])
+
+  /**
+   * Run a team action, showing its error if it fails
+   */
+  const attempt = async (action: () => Promise<void>) => {
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    }
+  }
+
+  /**
+   * ✉️ Invite the address in the form
+   */
+  const handleInvite = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!email.trim()) return
+
+    setIsInviting(true)
+    await attempt(async () => {
+      await inviteMember(member, email, role)
+      setEmail('')
+    })
+    setIsInviting(false)
+  }
+
+  /**
+   * 🚪 Leave the workspace (yourself)
+   */
+  const handleLeave = async () => {
+    if (!confirm(`Leave ${currentWorkspace?.name}? You'll lose access to its projects.`)) return
+    await attempt(async () => {
+      await removeMember(member.id)
+      onLeft?.()
+    })
+  }
+
+  if (!currentWorkspace) return null
+
+  return (
+    <Card className="mb-8">
+      <CardTitle className="mb-1">Team</CardTitle>
+      <p className="text-sm text-gray-500 mb-4">
+        Everyone here sees {currentWorkspace.name}&apos;s projects. Editors can change them; viewers can only look.
+      </p>
+
+      {error && <p className="text-sm text-error mb-3">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 text-gray-400 animate-spin" />
+        </div>
+      ) : (
+        <>
+          {/* Members */}
+          <ul className="divide-y divide-gray-100">
+            {members.map((item) => {
+              const isSelf = item.member_id === member.id
+
+              return (
+                <li key={item.member_id} className="py-3 flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">
+                      {item.member?.name || item.member?.email || 'Former member'}
+                      {isSelf && <span className="text-gray-400 font-normal"> (you)</span>}
+                    </p>
+                    {item.member?.name && <p className="text-xs text-gray-500 truncate">{item.member.email}</p>}
+                  </div>
+
+                  <div className="flex items-center gap-2 shrink-0">
+                    {isOwner ? (
+                      <select
+                        value={item.role}
+                        onChange={(e) => attempt(() => updateMemberRole(item.member_id, e.target.value as WorkspaceRole))}
+                        className={selectStyles}
+                      >
+                        {WORKSPACE_ROLES.map((option) => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className="text-sm text-gray-500">
+                        {WORKSPACE_ROLES.find((option) => option.value === item.role)?.label}
+                      </span>
+                    )}
+
+                    {isSelf ? (
+                      <Button variant="ghost" size="sm" onClick={handleLeave}>
+                        Leave
+                      </Button>
+                    ) : (
+                      isOwner && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => attempt(() => removeMember(item.member_id))}
+                          aria-label="Remove from workspace"
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      )
+                    )}
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+
+          {/* Open invites */}
+          {invitations.length > 0 && (
+            <div className="mt-4">
+              <p className="text-sm font-medium text-gray-700 mb-2">Invited</p>
+              <ul className="space-y-2">
+                {invitations.map((invitation) => (
+                  <li key={invitation.id} className="flex items-center justify-between gap-3 text-sm">
+                    <span className="flex items-center gap-2 min-w-0 text-gray-700">
+                      <Mail className="w-4 h-4 text-gray-400 shrink-0" />
+                      <span className="truncate">{invitation.email}</span>
+                      <span className="text-gray-400 shrink-0">
+                        {WORKSPACE_ROLES.find((option) => option.value === invitation.role)?.label} ·{' '}
+                        {formatRelativeTime(invitation.created_at)}
+                      </span>
+                    </span>
+                    {isOwner && (
+                      <Button variant="ghost" size="sm" onClick={() => attempt(() => cancelInvitation(invitation.id))}>
+                        Cancel
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Invite form */}
+          {isOwner && (
+            <form onSubmit={handleInvite} className="mt-4 pt-4 border-t border-gray-100 flex items-end gap-2">
+              <div className="flex-1">
+                <Input
+                  type="email"
+                  label="Invite by email"
+                  placeholder="teammate@agency.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+              </div>
+              <select
+                value={role}
+                onChange={(e) => setRole(e.target.value as WorkspaceRole)}
+                className={`${selectStyles} py-2.5`}
+              >
+                {WORKSPACE_ROLES.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <Button type="submit" loading={isInviting} disabled={!email.trim()}>
+                Invite
+              </Button>
+            </form>
+          )}
+        </>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,119 @@
+/**
+ * 🔀 WORKSPACE SWITCHER
+ * =====================
+ * Dropdown in the dashboard header: which workspace you're looking at,
+ * the others you belong to, and a way to start a new one.
+ *
+ * Usage:
+ *   <WorkspaceSwitcher member={member} />
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { Check, ChevronDown, Plus, Users } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { cn } from '@/lib/utils'
+import { useWorkspaceStore } from '@/lib/stores/workspaceStore'
+import { WORKSPACE_ROLES } from '@/lib/workspaces/roles'
+import type { Member, WorkspaceRole } from '@/lib/types'
+
+export interface WorkspaceSwitcherProps {
+  member: Member
+}
+
+function roleLabel(role: WorkspaceRole): string {
+  return WORKSPACE_ROLES.find(item => item.value === role)?.label ?? role
+}
+
+export function WorkspaceSwitcher({ member }: WorkspaceSwitcherProps) {
+  const { workspaces, currentWorkspace, switchWorkspace, createWorkspace } = useWorkspaceStore()
+  const [open, setOpen] = useState(false)
+  const [isNaming, setIsNaming] = useState(false)
+  const [name, setName] = useState('')
+  const [isCreating, setIsCreating] = useState(false)
+
+  if (!currentWorkspace) return null
+
+  /**
+   * ➕ Create a workspace from the name field
+   */
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!name.trim()) return
+
+    setIsCreating(true)
+    const workspace = await createWorkspace(member, name)
+    setIsCreating(false)
+
+    if (workspace) {
+      setName('')
+      setIsNaming(false)
+      setOpen(false)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-gray-200 hover:bg-gray-50 text-sm"
+      >
+        <Users className="w-4 h-4 text-gray-400" />
+        <span className="font-medium text-gray-900 max-w-[12rem] truncate">{currentWorkspace.name}</span>
+        <ChevronDown className="w-3.5 h-3.5 text-gray-400" />
+      </button>
+
+      {open && (
+        <div className="absolute left-0 mt-1 w-64 py-1 bg-white rounded-lg shadow-lg border border-gray-200 z-20">
+          {workspaces.map((workspace) => (
+            <button
+              key={workspace.id}
+              onClick={() => {
+                switchWorkspace(workspace.id)
+                setOpen(false)
+              }}
+              className="w-full px-4 py-2 text-left text-sm hover:bg-gray-50 flex items-center justify-between gap-2"
+            >
+              <span className="min-w-0">
+                <span className="block truncate text-gray-900">{workspace.name}</span>
+                <span className="block text-xs text-gray-400">{roleLabel(workspace.role)}</span>
+              </span>
+              <Check
+                className={cn(
+                  'w-4 h-4 text-primary-600 shrink-0',
+                  workspace.id !== currentWorkspace.id && 'invisible'
+                )}
+              />
+            </button>
+          ))}
+
+          <div className="border-t border-gray-100 mt-1 pt-1">
+            {isNaming ? (
+              <form onSubmit={handleCreate} className="px-3 py-2 space-y-2">
+                <input
+                  autoFocus
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Acme Agency"
+                  className="w-full rounded-lg border border-gray-300 px-3 py-1.5 text-sm focus:outline-none focus:border-primary-500"
+                />
+                <Button type="submit" size="sm" className="w-full" loading={isCreating} disabled={!name.trim()}>
+                  Create workspace
+                </Button>
+              </form>
+            ) : (
+              <button
+                onClick={() => setIsNaming(true)}
+                className="w-full px-4 py-2 text-left text-sm text-primary-600 hover:bg-gray-50 flex items-center gap-2"
+              >
+                <Plus className="w-4 h-4" />
+                New workspace
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
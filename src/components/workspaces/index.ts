@@ -0,0 +1,12 @@
+/**
+ * 👥 WORKSPACE COMPONENTS INDEX
+ * =============================
+ * Central export point for workspace (team) UI components.
+ */
+
+export { WorkspaceSwitcher } from './WorkspaceSwitcher'
+export type { WorkspaceSwitcherProps } from './WorkspaceSwitcher'
+export { TeamPanel } from './TeamPanel'
+export type { TeamPanelProps } from './TeamPanel'
+export { PendingInvitations } from './PendingInvitations'
+export type { PendingInvitationsProps } from './PendingInvitations'
@@ -0,0 +1,30 @@
+/**
+ * 💡 CLARITY ANALYZER
+ * ===================
+ * Definition for the clarity analyzer.
+ *
+ * The shared runner (../runner.ts) executes this definition:
+ * validate → Phase 1 prompt → Phase 2 parsing → transform → map fields.
+ *
+ * Flow:
+ *   idea + problem + audience saved → trigger → runner → update project
+ */
+
+import type { BusinessProject } from '@/lib/types'
+import type { AnalyzerDefinition, ClarityParsedOutput } from '../types'
+import { SYSTEM_PROMPT, buildPhase1Prompt } from './prompt'
+import { PHASE2_SCHEMA, RawParsedOutput, transformParsedOutput, getFieldsToUpdate } from './schema'
+
+export const clarityAnalyzer: AnalyzerDefinition<BusinessProject, RawParsedOutput, ClarityParsedOutput> = {
+  type: 'clarity',
+  validate: project =>
+    project.idea_name && project.problem_statement
+      ? null
+      : 'Idea name and problem statement are required',
+  selectInput: project => project,
+  systemPrompt: SYSTEM_PROMPT,
+  buildPrompt: buildPhase1Prompt,
+  schema: PHASE2_SCHEMA,
+  transform: transformParsedOutput,
+  mapFields: getFieldsToUpdate,
+}
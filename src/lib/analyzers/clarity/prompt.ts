@@ -0,0 +1,54 @@
+/**
+ * 📝 CLARITY PROMPT BUILDER
+ * =========================
+ * Phase 1 prompt for the clarity analyzer.
+ *
+ * The AI should:
+ * - Judge how clearly the core idea is articulated
+ * - Check the audience and problem are well-defined
+ * - Surface implied assumptions
+ * - Suggest a sharper one-liner
+ */
+
+import type { BusinessProject } from '@/lib/types'
+import { buildProjectContext } from '../context'
+
+/** System prompt for the clarity analyst */
+export const SYSTEM_PROMPT = `You are an expert business analyst. Analyze this business idea for clarity and coherence.
+
+Be constructive and specific. Use evidence from what the founder wrote.`
+
+/**
+ * Build the Phase 1 analysis prompt
+ *
+ * @param project - The business project
+ * @returns The formatted prompt string
+ */
+export function buildPhase1Prompt(project: BusinessProject): string {
+  return `Here is everything we know about this business so far:
+
+${buildProjectContext(project)}
+
+---
+
+Please evaluate:
+
+1. **Core Idea**
+   Is the core idea clearly articulated? Could a stranger repeat it back?
+
+2. **Target Audience**
+   Is the target audience well-defined, or too broad to act on?
+
+3. **Problem Statement**
+   Is the problem compelling? Is it clear who feels it and how badly?
+
+4. **Implied Assumptions**
+   What assumptions does this idea rely on without saying so?
+   List each one as a short statement.
+
+5. **Refined One-Liner**
+   Write a single sentence that explains the business more clearly than they did.
+
+6. **Clarity Score**
+   Give a clarity score from 1-100, and explain the biggest thing holding it back.`
+}
@@ -0,0 +1,75 @@
+/**
+ * 📊 CLARITY SCHEMA
+ * =================
+ * Phase 2 parsing schema for the clarity analyzer.
+ */
+
+import type { ClarityParsedOutput } from '../types'
+import { clampScore, cleanList, normalizeConfidence } from '../phases'
+
+/**
+ * OpenAI function calling schema for Phase 2 parsing
+ */
+export const PHASE2_SCHEMA = {
+  type: 'function' as const,
+  function: {
+    name: 'save_clarity_analysis',
+    description: 'Save the clarity analysis results',
+    parameters: {
+      type: 'object',
+      properties: {
+        clarityScore: {
+          type: 'number',
+          description: 'Clarity score from 1-100',
+        },
+        oneLiner: {
+          type: 'string',
+          description: 'A refined one-liner for the business',
+        },
+        impliedAssumptions: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'List of implied assumptions',
+        },
+        confidence: {
+          type: 'number',
+          description: 'Confidence level in the analysis from 0 to 1 (1 = very confident)',
+        },
+      },
+      required: ['clarityScore', 'oneLiner', 'confidence'],
+    },
+  },
+}
+
+/**
+ * Type for the raw parsed output from GPT
+ */
+export interface RawParsedOutput {
+  clarityScore?: number
+  oneLiner?: string
+  impliedAssumptions?: string[]
+  confidence?: number
+}
+
+/**
+ * Transform the raw GPT output into our final ClarityParsedOutput format
+ */
+export function transformParsedOutput(rawOutput: RawParsedOutput): ClarityParsedOutput {
+  return {
+    clarityScore: clampScore(rawOutput.clarityScore, 1, 100),
+    oneLiner: rawOutput.oneLiner?.trim() || null,
+    impliedAssumptions: cleanList(rawOutput.impliedAssumptions),
+    confidence: normalizeConfidence(rawOutput.confidence),
+  }
+}
+
+/**
+ * Fields to update in the business_projects table
+ */
+export function getFieldsToUpdate(parsed: ClarityParsedOutput): Record<string, unknown> {
+  return {
+    ai_clarity_score: parsed.clarityScore,
+    ai_one_liner: parsed.oneLiner,
+    ai_implied_assumptions: parsed.impliedAssumptions,
+  }
+}
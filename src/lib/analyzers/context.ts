@@ -0,0 +1,162 @@
+/**
+ * 🧾 PROJECT CONTEXT BUILDER
+ * ==========================
+ * Turns a business project into a Markdown brief for analyzer prompts.
+ *
+ * Shared by every project analyzer so they all describe the business
+ * the same way. Sections are only included when the user has filled
+ * in at least one of their fields.
+ */
+
+import type { BusinessProject } from '@/lib/types'
+import { COMPANY_SIZE_OPTIONS, SLIDER_CONFIGS } from '@/lib/config/onboarding'
+
+/**
+ * Every project field buildProjectContext() reads
+ * Analyzers that use the context list these as their inputFields
+ */
+export const PROJECT_CONTEXT_FIELDS: (keyof BusinessProject)[] = [
+  // Core Idea
+  'idea_name',
+  'one_liner',
+  'problem_statement',
+  'target_audience',
+  'why_now',
+  'why_now_driver',
+  // Value Prop
+  'secret_sauce',
+  'existing_solutions',
+  'differentiation_axis',
+  'validation_status',
+  // Market
+  'market_size_estimate',
+  'competitors',
+  'positioning',
+  // Business Model
+  'revenue_model',
+  'customer_type',
+  'pricing_tier',
+  'sales_motion',
+  // Execution
+  'team_size',
+  'funding_status',
+  'timeline_months',
+  'biggest_risks',
+  // Vision
+  'north_star_metric',
+  'company_values',
+  'exit_vision',
+  // Brand Profile
+  'company_size',
+  'brand_location',
+  'year_founded',
+  'customer_description',
+  'brand_personality',
+  'communication_style',
+  'price_position',
+  // Website
+  'scraped_tagline',
+  'scraped_industry',
+  'scraped_services',
+]
+
+/**
+ * A 1-5 style slider value with what it means ("4/5 - Friendly and conversational")
+ */
+function describeStyle(sliderId: string, value: number | null): string {
+  if (!value) return 'Not specified'
+  const slider = SLIDER_CONFIGS.find(s => s.id === sliderId)
+  return slider ? `${value}/5 - ${slider.descriptions[value]}` : `${value}/5`
+}
+
+/**
+ * Build project context string for GPT
+ *
+ * @param project - The business project
+ * @returns Markdown sections describing the project
+ */
+export function buildProjectContext(project: BusinessProject): string {
+  const sections = []
+
+  // Core Idea
+  if (project.idea_name || project.one_liner || project.problem_statement) {
+    sections.push(`## Core Idea
+- Name: ${project.idea_name || 'Not specified'}
+- One-liner: ${project.one_liner || 'Not specified'}
+- Problem: ${project.problem_statement || 'Not specified'}
+- Target audience: ${project.target_audience?.join(', ') || 'Not specified'}
+- Why now: ${project.why_now || 'Not specified'} (${project.why_now_driver || ''})`)
+  }
+
+  // Value Prop
+  if (project.secret_sauce || project.validation_status) {
+    sections.push(`## Value Proposition
+- Secret sauce: ${project.secret_sauce || 'Not specified'}
+- Existing solutions: ${project.existing_solutions?.join(', ') || 'Not specified'}
+- Differentiation: ${project.differentiation_axis || 'Not specified'}
+- Validation status: ${project.validation_status || 'Not specified'}`)
+  }
+
+  // Market
+  if (project.market_size_estimate || project.competitors) {
+    sections.push(`## Market
+- Market size: ${project.market_size_estimate || 'Not specified'}
+- Known competitors: ${project.competitors?.join(', ') || 'Not specified'}
+- Positioning: ${project.positioning || 'Not specified'}`)
+  }
+
+  // Business Model
+  if (project.revenue_model || project.customer_type) {
+    sections.push(`## Business Model
+- Revenue model: ${project.revenue_model?.join(', ') || 'Not specified'}
+- Customer type: ${project.customer_type || 'Not specified'}
+- Pricing tier: ${project.pricing_tier ? `${project.pricing_tier}/5 (1 = free, 5 = enterprise)` : 'Not specified'}
+- Sales motion: ${project.sales_motion || 'Not specified'}`)
+  }
+
+  // Execution
+  if (project.team_size || project.funding_status) {
+    sections.push(`## Execution
+- Team: ${project.team_size || 'Not specified'}
+- Funding: ${project.funding_status || 'Not specified'}
+- Timeline: ${project.timeline_months || 'Not specified'} months
+- Biggest risks: ${project.biggest_risks?.join(', ') || 'Not specified'}`)
+  }
+
+  // Vision
+  if (project.north_star_metric || project.exit_vision) {
+    sections.push(`## Vision
+- North star metric: ${project.north_star_metric || 'Not specified'}
+- Values: ${project.company_values?.join(', ') || 'Not specified'}
+- Exit vision: ${project.exit_vision || 'Not specified'}`)
+  }
+
+  // Brand Profile (from the structured onboarding)
+  if (
+    project.customer_description ||
+    project.brand_personality?.length ||
+    project.communication_style ||
+    project.price_position ||
+    project.brand_location
+  ) {
+    const companySize = COMPANY_SIZE_OPTIONS.find(o => o.value === project.company_size)
+    sections.push(`## Brand Profile
+- Company size: ${companySize ? `${companySize.label} (${companySize.description})` : 'Not specified'}
+- Based in: ${project.brand_location || 'Not specified'}
+- Founded: ${project.year_founded || 'Not specified'}
+- Who they help: ${project.customer_description || 'Not specified'}
+- Brand personality: ${project.brand_personality?.join(', ') || 'Not specified'}
+- Communication style (1 = formal, 5 = casual): ${describeStyle('commStyle', project.communication_style)}
+- Price position (1 = budget, 5 = premium): ${describeStyle('pricePosition', project.price_position)}`)
+  }
+
+  // Website (from the web scraper)
+  if (project.scraped_tagline || project.scraped_industry) {
+    sections.push(`## Website
+- Tagline: ${project.scraped_tagline || 'Not found'}
+- Industry: ${project.scraped_industry || 'Not found'}
+- Services: ${project.scraped_services?.join(', ') || 'Not found'}`)
+  }
+
+  return sections.join('\n\n') || 'No information provided yet.'
+}
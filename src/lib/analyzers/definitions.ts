@@ -0,0 +1,47 @@
+/**
+ * 🧩 ANALYZER DEFINITIONS
+ * =======================
+ * Server-side lookup from analyzer type to its definition.
+ *
+ * Kept apart from registry.ts on purpose: the registry is imported by
+ * the browser (store, hub page) while definitions pull in prompts,
+ * schemas and the scraper, which only the runner needs.
+ *
+ * To add a new analyzer, write its module in analyzers/{name}/ and
+ * list its definition here - the runner and /api/analyzers/[type]
+ * pick it up automatically.
+ */
+
+import type { AnalyzerType, AnyAnalyzerDefinition } from './types'
+import { webScraperAnalyzer } from './web-scraper'
+import { clarityAnalyzer } from './clarity'
+import { narrativeAnalyzer } from './narrative'
+import { voiceAnalyzer } from './voice'
+import { synthesisAnalyzer } from './synthesis'
+import { marketAnalyzer } from './market'
+import { modelAnalyzer } from './model'
+import { riskAnalyzer } from './risk'
+
+/**
+ * All analyzer definitions, keyed by type
+ */
+export const ANALYZER_DEFINITIONS: Record<AnalyzerType, AnyAnalyzerDefinition> = {
+  web_scraper: webScraperAnalyzer,
+  clarity: clarityAnalyzer,
+  narrative: narrativeAnalyzer,
+  voice: voiceAnalyzer,
+  synthesis: synthesisAnalyzer,
+  market: marketAnalyzer,
+  model: modelAnalyzer,
+  risk: riskAnalyzer,
+}
+
+/**
+ * Get the definition for a specific analyzer
+ */
+export function getAnalyzerDefinition(type: AnalyzerType): AnyAnalyzerDefinition {
+  if (!Object.hasOwn(ANALYZER_DEFINITIONS, type)) {
+    throw new Error(`No definition for analyzer type: ${type}`)
+  }
+  return ANALYZER_DEFINITIONS[type]
+}
@@ -0,0 +1,148 @@
+/**
+ * 🕸️ ANALYZER DEPENDENCY GRAPH
+ * ============================
+ * Treats the analyzer registry as a DAG.
+ *
+ * Edges come from AnalyzerConfig.dependencies: `synthesis` depends on
+ * `clarity`, so clarity → synthesis. The registry validates itself with
+ * assertValidGraph() when it loads, so a cycle or a typo in a
+ * dependency fails fast instead of leaving runs blocked forever.
+ *
+ * Everything here is pure - the registry is passed in - so it can be
+ * used from registry.ts itself without a circular import.
+ */
+
+import type { AnalyzerConfig, AnalyzerRun, AnalyzerType } from './types'
+
+type Registry = Record<AnalyzerType, AnalyzerConfig>
+
+// ============================================
+// 🔍 RUN LOOKUP
+// ============================================
+
+/**
+ * Most recent run of an analyzer (by created_at), if any
+ */
+export function getLatestRun(
+  runs: AnalyzerRun[],
+  type: AnalyzerType
+): AnalyzerRun | undefined {
+  let latest: AnalyzerRun | undefined
+  for (const run of runs) {
+    if (run.analyzer_type !== type) continue
+    if (!latest || run.created_at > latest.created_at) latest = run
+  }
+  return latest
+}
+
+// ============================================
+// ✅ VALIDATION
+// ============================================
+
+/**
+ * Find a dependency cycle, if there is one
+ *
+ * @returns The cycle as a path (first node repeated at the end), or null
+ */
+export function findCycle(registry: Registry): AnalyzerType[] | null {
+  const VISITING = 1
+  const DONE = 2
+  const marks = new Map<AnalyzerType, number>()
+  const path: AnalyzerType[] = []
+
+  const visit = (type: AnalyzerType): AnalyzerType[] | null => {
+    const mark = marks.get(type)
+    if (mark === DONE) return null
+    if (mark === VISITING) {
+      return [...path.slice(path.indexOf(type)), type]
+    }
+
+    marks.set(type, VISITING)
+    path.push(type)
+
+    for (const dep of registry[type]?.dependencies || []) {
+      const cycle = visit(dep)
+      if (cycle) return cycle
+    }
+
+    path.pop()
+    marks.set(type, DONE)
+    return null
+  }
+
+  for (const type of Object.keys(registry) as AnalyzerType[]) {
+    const cycle = visit(type)
+    if (cycle) return cycle
+  }
+  return null
+}
+
+/**
+ * Throw if any dependency is unknown, the graph has a cycle, or an
+ * analyzer reads one of its own outputs (it would go stale and re-queue
+ * itself every time it finished)
+ */
+export function assertValidGraph(registry: Registry): void {
+  for (const config of Object.values(registry)) {
+    for (const dep of config.dependencies || []) {
+      if (!registry[dep]) {
+        throw new Error(`Analyzer "${config.type}" depends on unknown analyzer "${dep}"`)
+      }
+    }
+
+    for (const field of config.inputFields) {
+      if (config.outputFields.includes(field)) {
+        throw new Error(`Analyzer "${config.type}" reads its own output "${field}"`)
+      }
+    }
+  }
+
+  const cycle = findCycle(registry)
+  if (cycle) {
+    throw new Error(`Analyzer dependency cycle: ${cycle.join(' → ')}`)
+  }
+}
+
+// ============================================
+// 🧭 TRAVERSAL
+// ============================================
+
+/**
+ * Analyzers that list `type` as a direct dependency
+ */
+export function getDependents(registry: Registry, type: AnalyzerType): AnalyzerType[] {
+  return Object.values(registry)
+    .filter(config => config.dependencies?.includes(type))
+    .map(config => config.type)
+}
+
+/**
+ * Depth of each analyzer in the DAG (0 = no dependencies)
+ * Uses the longest path, so every analyzer sits after all its dependencies
+ */
+export function getDepths(registry: Registry): Record<AnalyzerType, number> {
+  const depths = {} as Record<AnalyzerType, number>
+
+  const depthOf = (type: AnalyzerType): number => {
+    if (depths[type] !== undefined) return depths[type]
+    const deps = registry[type]?.dependencies || []
+    depths[type] = deps.length ? 1 + Math.max(...deps.map(depthOf)) : 0
+    return depths[type]
+  }
+
+  for (const type of Object.keys(registry) as AnalyzerType[]) depthOf(type)
+  return depths
+}
+
+/**
+ * Whether every dependency of `type` has a completed latest run
+ */
+export function dependenciesMet(
+  registry: Registry,
+  type: AnalyzerType,
+  runs: AnalyzerRun[]
+): boolean {
+  return (registry[type]?.dependencies || []).every(
+    dep => getLatestRun(runs, dep)?.status === 'completed'
+  )
+}
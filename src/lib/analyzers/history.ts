@@ -0,0 +1,105 @@
+/**
+ * 🗂️ ANALYZER RUN HISTORY
+ * =======================
+ * Compares runs of the same analyzer.
+ *
+ * Every run is kept (re-runs and restores add rows, nothing deletes
+ * them), so consultants can see how an analysis changed as the answers
+ * did. diffParsedFields() lines two runs' parsed_fields up field by
+ * field for the hub's history view.
+ *
+ * Pure - safe to use in the browser.
+ *
+ * Usage:
+ *   const diffs = diffParsedFields(olderRun.parsed_fields, newerRun.parsed_fields)
+ */
+
+// ============================================
+// 📋 TYPES
+// ============================================
+
+export type FieldChange = 'added' | 'removed' | 'changed' | 'unchanged'
+
+export interface FieldDiff {
+  /** Key in parsed_fields */
+  field: string
+  change: FieldChange
+  before: unknown
+  after: unknown
+
+  /** For lists: items only in the newer run */
+  addedItems?: unknown[]
+
+  /** For lists: items only in the older run */
+  removedItems?: unknown[]
+}
+
+// ============================================
+// 🔍 DIFF
+// ============================================
+
+/**
+ * Whether a value counts as empty (missing, null, '' or [])
+ */
+function isEmpty(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return true
+  return Array.isArray(value) && value.length === 0
+}
+
+/**
+ * Deep equality for JSON values
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Items of `list` that aren't in `other` (compared as JSON)
+ */
+function missingFrom(list: unknown[], other: unknown[]): unknown[] {
+  const keys = new Set(other.map(item => JSON.stringify(item)))
+  return list.filter(item => !keys.has(JSON.stringify(item)))
+}
+
+/**
+ * Field-by-field diff of two runs' parsed_fields
+ *
+ * @param before - parsed_fields of the older run
+ * @param after - parsed_fields of the newer run
+ * @returns One entry per field in either run, changed fields first
+ */
+export function diffParsedFields(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): FieldDiff[] {
+  const older = before || {}
+  const newer = after || {}
+  const fields = Array.from(new Set([...Object.keys(older), ...Object.keys(newer)]))
+
+  const diffs = fields.map((field): FieldDiff => {
+    const a = older[field]
+    const b = newer[field]
+
+    let change: FieldChange
+    if (isEqual(a, b) || (isEmpty(a) && isEmpty(b))) change = 'unchanged'
+    else if (isEmpty(a)) change = 'added'
+    else if (isEmpty(b)) change = 'removed'
+    else change = 'changed'
+
+    const diff: FieldDiff = { field, change, before: a, after: b }
+
+    if (change === 'changed' && Array.isArray(a) && Array.isArray(b)) {
+      diff.addedItems = missingFrom(b, a)
+      diff.removedItems = missingFrom(a, b)
+    }
+
+    return diff
+  })
+
+  // Changes first, then alphabetical
+  return diffs.sort((x, y) => {
+    const xChanged = x.change === 'unchanged' ? 1 : 0
+    const yChanged = y.change === 'unchanged' ? 1 : 0
+    return xChanged - yChanged || x.field.localeCompare(y.field)
+  })
+}
@@ -12,15 +12,32 @@ export type {
   AnalyzerType,
   AnalyzerStatus,
   AnalyzerRun,
+  AnalyzerRunSummary,
   AnalyzerConfig,
+  AnalyzerDefinition,
+  AnyAnalyzerDefinition,
+  AnalyzerResult,
   TriggerResult,
   TriggerAnalyzersRequest,
   TriggerAnalyzersResponse,
   RunAnalyzerRequest,
   RunAnalyzerResponse,
+  ListAnalyzerRunsResponse,
+  RestoreRunResponse,
   SocialUrls,
+  SiteMetadata,
+  PageLabel,
+  ScrapedPage,
   ScrapedData,
   WebScraperParsedOutput,
+  ClarityParsedOutput,
+  NarrativeParsedOutput,
+  VoiceParsedOutput,
+  SynthesisParsedOutput,
+  MarketParsedOutput,
+  ModelParsedOutput,
+  IdentifiedRisk,
+  RiskParsedOutput,
 } from './types'
 
 // Registry
@@ -31,6 +48,27 @@ export {
   getAllAnalyzerTypes,
 } from './registry'
 
+// Dependency graph + pipeline state
+export {
+  getLatestRun,
+  findCycle,
+  getDependents,
+  dependenciesMet,
+} from './graph'
+export { getProjectPipeline } from './pipeline'
+export type { PipelineNode, PipelineNodeState } from './pipeline'
+
+// Staleness
+export {
+  getInputHash,
+  isRunStale,
+  getAnalyzersWatching,
+} from './staleness'
+
+// Run history
+export { diffParsedFields } from './history'
+export type { FieldDiff, FieldChange } from './history'
+
 // Triggers
 export {
   evaluateTriggers,
@@ -0,0 +1,30 @@
+/**
+ * 📊 MARKET ANALYZER
+ * ==================
+ * Definition for the market analyzer.
+ *
+ * The shared runner (../runner.ts) executes this definition:
+ * validate → Phase 1 prompt → Phase 2 parsing → transform → map fields.
+ *
+ * Flow:
+ *   "Run" on the hub → trigger → runner → update project
+ */
+
+import type { BusinessProject } from '@/lib/types'
+import type { AnalyzerDefinition, MarketParsedOutput } from '../types'
+import { SYSTEM_PROMPT, buildPhase1Prompt } from './prompt'
+import { PHASE2_SCHEMA, RawParsedOutput, transformParsedOutput, getFieldsToUpdate } from './schema'
+
+export const marketAnalyzer: AnalyzerDefinition<BusinessProject, RawParsedOutput, MarketParsedOutput> = {
+  type: 'market',
+  validate: project =>
+    project.market_size_estimate || project.competitors?.length
+      ? null
+      : 'Market size or competitors are required',
+  selectInput: project => project,
+  systemPrompt: SYSTEM_PROMPT,
+  buildPrompt: buildPhase1Prompt,
+  schema: PHASE2_SCHEMA,
+  transform: transformParsedOutput,
+  mapFields: getFieldsToUpdate,
+}
@@ -0,0 +1,42 @@
+/**
+ * 📝 MARKET PROMPT BUILDER
+ * ========================
+ * Phase 1 prompt for the market analyzer.
+ *
+ * The AI should:
+ * - Sanity-check the founder's market size estimate
+ * - Name the competitors worth knowing about
+ */
+
+import type { BusinessProject } from '@/lib/types'
+import { buildProjectContext } from '../context'
+
+/** System prompt for the market researcher */
+export const SYSTEM_PROMPT = `You are a market research analyst. Give grounded, realistic estimates and say when you are unsure.`
+
+/**
+ * Build the Phase 1 analysis prompt
+ *
+ * @param project - The business project
+ * @returns The formatted prompt string
+ */
+export function buildPhase1Prompt(project: BusinessProject): string {
+  return `Here is everything we know about this business:
+
+${buildProjectContext(project)}
+
+---
+
+Please analyze:
+
+1. **Market Size**
+   How big is the realistic market for this business? Compare with the founder's
+   estimate (${project.market_size_estimate || 'none given'}) and explain any gap.
+
+2. **Competitors**
+   Which companies or alternatives are customers using today?
+   Include the ones the founder named if they're relevant, and add any they missed.
+
+3. **Market Dynamics**
+   Is this market growing, shrinking or shifting? What does that mean for timing?`
+}
@@ -0,0 +1,68 @@
+/**
+ * 📊 MARKET SCHEMA
+ * ================
+ * Phase 2 parsing schema for the market analyzer.
+ */
+
+import type { MarketParsedOutput } from '../types'
+import { cleanList, normalizeConfidence } from '../phases'
+
+/**
+ * OpenAI function calling schema for Phase 2 parsing
+ */
+export const PHASE2_SCHEMA = {
+  type: 'function' as const,
+  function: {
+    name: 'save_market_analysis',
+    description: 'Save the market analysis results',
+    parameters: {
+      type: 'object',
+      properties: {
+        marketSize: {
+          type: 'string',
+          description: 'Realistic market size estimate in plain words',
+        },
+        competitors: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Competitors and alternatives worth knowing about',
+        },
+        confidence: {
+          type: 'number',
+          description: 'Confidence level in the analysis from 0 to 1 (1 = very confident)',
+        },
+      },
+      required: ['marketSize', 'confidence'],
+    },
+  },
+}
+
+/**
+ * Type for the raw parsed output from GPT
+ */
+export interface RawParsedOutput {
+  marketSize?: string
+  competitors?: string[]
+  confidence?: number
+}
+
+/**
+ * Transform the raw GPT output into our final MarketParsedOutput format
+ */
+export function transformParsedOutput(rawOutput: RawParsedOutput): MarketParsedOutput {
+  return {
+    marketSize: rawOutput.marketSize?.trim() || null,
+    competitors: cleanList(rawOutput.competitors),
+    confidence: normalizeConfidence(rawOutput.confidence),
+  }
+}
+
+/**
+ * Fields to update in the business_projects table
+ */
+export function getFieldsToUpdate(parsed: MarketParsedOutput): Record<string, unknown> {
+  return {
+    ai_market_size: parsed.marketSize,
+    ai_competitors: parsed.competitors,
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * 💼 MODEL ANALYZER
+ * =================
+ * Definition for the business model analyzer.
+ *
+ * The shared runner (../runner.ts) executes this definition:
+ * validate → Phase 1 prompt → Phase 2 parsing → transform → map fields.
+ *
+ * Flow:
+ *   "Run" on the hub → trigger → runner → update project
+ */
+
+import type { BusinessProject } from '@/lib/types'
+import type { AnalyzerDefinition, ModelParsedOutput } from '../types'
+import { SYSTEM_PROMPT, buildPhase1Prompt } from './prompt'
+import { PHASE2_SCHEMA, RawParsedOutput, transformParsedOutput, getFieldsToUpdate } from './schema'
+
+export const modelAnalyzer: AnalyzerDefinition<BusinessProject, RawParsedOutput, ModelParsedOutput> = {
+  type: 'model',
+  validate: project =>
+    project.revenue_model?.length || project.customer_type
+      ? null
+      : 'Revenue model or customer type is required',
+  selectInput: project => project,
+  systemPrompt: SYSTEM_PROMPT,
+  buildPrompt: buildPhase1Prompt,
+  schema: PHASE2_SCHEMA,
+  transform: transformParsedOutput,
+  mapFields: getFieldsToUpdate,
+}
@@ -0,0 +1,40 @@
+/**
+ * 📝 MODEL PROMPT BUILDER
+ * =======================
+ * Phase 1 prompt for the business model analyzer.
+ *
+ * The AI should:
+ * - Review the revenue model and pricing tier
+ * - Recommend the model that best fits the customer type
+ */
+
+import type { BusinessProject } from '@/lib/types'
+import { buildProjectContext } from '../context'
+
+/** System prompt for the business model strategist */
+export const SYSTEM_PROMPT = `You are a business model strategist who has helped hundreds of early-stage companies price and package their offering.`
+
+/**
+ * Build the Phase 1 analysis prompt
+ *
+ * @param project - The business project
+ * @returns The formatted prompt string
+ */
+export function buildPhase1Prompt(project: BusinessProject): string {
+  return `Here is everything we know about this business:
+
+${buildProjectContext(project)}
+
+---
+
+Please analyze:
+
+1. **Current Model**
+   Does the revenue model fit the customer type and sales motion? Where does it strain?
+
+2. **Pricing**
+   Is the pricing tier right for this audience? What would they expect to pay?
+
+3. **Recommendation**
+   Recommend ONE revenue model and pricing approach, and explain why in 2-3 sentences.`
+}
@@ -0,0 +1,60 @@
+/**
+ * 📊 MODEL SCHEMA
+ * ===============
+ * Phase 2 parsing schema for the business model analyzer.
+ */
+
+import type { ModelParsedOutput } from '../types'
+import { normalizeConfidence } from '../phases'
+
+/**
+ * OpenAI function calling schema for Phase 2 parsing
+ */
+export const PHASE2_SCHEMA = {
+  type: 'function' as const,
+  function: {
+    name: 'save_model_analysis',
+    description: 'Save the business model analysis results',
+    parameters: {
+      type: 'object',
+      properties: {
+        suggestedModel: {
+          type: 'string',
+          description: 'The recommended revenue model and pricing approach, with a short rationale',
+        },
+        confidence: {
+          type: 'number',
+          description: 'Confidence level in the analysis from 0 to 1 (1 = very confident)',
+        },
+      },
+      required: ['suggestedModel', 'confidence'],
+    },
+  },
+}
+
+/**
+ * Type for the raw parsed output from GPT
+ */
+export interface RawParsedOutput {
+  suggestedModel?: string
+  confidence?: number
+}
+
+/**
+ * Transform the raw GPT output into our final ModelParsedOutput format
+ */
+export function transformParsedOutput(rawOutput: RawParsedOutput): ModelParsedOutput {
+  return {
+    suggestedModel: rawOutput.suggestedModel?.trim() || null,
+    confidence: normalizeConfidence(rawOutput.confidence),
+  }
+}
+
+/**
+ * Fields to update in the business_projects table
+ */
+export function getFieldsToUpdate(parsed: ModelParsedOutput): Record<string, unknown> {
+  return {
+    ai_suggested_model: parsed.suggestedModel,
+  }
+}
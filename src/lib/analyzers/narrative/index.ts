@@ -0,0 +1,28 @@
+/**
+ * 📖 NARRATIVE ANALYZER
+ * =====================
+ * Definition for the brand narrative analyzer.
+ *
+ * The shared runner (../runner.ts) executes this definition:
+ * validate → Phase 1 prompt → Phase 2 parsing → transform → map fields.
+ *
+ * Flow:
+ *   story step saved → trigger → runner → update project
+ */
+
+import type { BusinessProject } from '@/lib/types'
+import type { AnalyzerDefinition, NarrativeParsedOutput } from '../types'
+import { SYSTEM_PROMPT, buildPhase1Prompt } from './prompt'
+import { PHASE2_SCHEMA, RawParsedOutput, transformParsedOutput, getFieldsToUpdate } from './schema'
+
+export const narrativeAnalyzer: AnalyzerDefinition<BusinessProject, RawParsedOutput, NarrativeParsedOutput> = {
+  type: 'narrative',
+  validate: project =>
+    project.problem_statement ? null : 'Problem statement is required',
+  selectInput: project => project,
+  systemPrompt: SYSTEM_PROMPT,
+  buildPrompt: buildPhase1Prompt,
+  schema: PHASE2_SCHEMA,
+  transform: transformParsedOutput,
+  mapFields: getFieldsToUpdate,
+}
@@ -0,0 +1,85 @@
+/**
+ * 📝 NARRATIVE PROMPT BUILDER
+ * ===========================
+ * Phase 1 prompt for the brand narrative analyzer.
+ *
+ * The AI should:
+ * - Find the positioning the brand is gravitating toward
+ * - Pick ONE primary brand archetype and explain why
+ * - Summarize the brand story
+ * - Ask questions that would strengthen the story
+ */
+
+import type { BusinessProject } from '@/lib/types'
+import { buildProjectContext } from '../context'
+
+// ============================================
+// 🎭 ARCHETYPES
+// ============================================
+
+/** The twelve brand archetypes the analyzer chooses from */
+export const BRAND_ARCHETYPES = [
+  'Hero',
+  'Outlaw',
+  'Magician',
+  'Everyman',
+  'Lover',
+  'Jester',
+  'Caregiver',
+  'Ruler',
+  'Creator',
+  'Innocent',
+  'Sage',
+  'Explorer',
+] as const
+
+/** System prompt for the brand strategist */
+export const SYSTEM_PROMPT = `You are a senior brand strategist analyzing a new client intake.
+Your job is to read between the lines, infer meaning, and provide insights that go beyond surface-level summarization.`
+
+/**
+ * Build the Phase 1 analysis prompt
+ *
+ * @param project - The business project
+ * @returns The formatted prompt string
+ */
+export function buildPhase1Prompt(project: BusinessProject): string {
+  return `BRAND: ${project.project_name || project.idea_name || 'Unnamed brand'}
+
+${buildProjectContext(project)}
+
+---
+
+ANALYSIS TASKS:
+
+1. POSITIONING INSIGHT
+   Based on these inputs, what positioning is this brand naturally gravitating toward?
+   Write one clear sentence that captures their position in the market.
+
+2. BRAND STORY
+   In 2-3 sentences, tell the story of this brand: why it exists, who it serves,
+   and what makes it different.
+
+3. BRAND ARCHETYPE
+   What brand archetype energy do you sense? Choose ONE primary archetype:
+   - Hero (empowerment, mastery, courage)
+   - Outlaw (disruption, liberation, revolution)
+   - Magician (transformation, vision, innovation)
+   - Everyman (belonging, authenticity, equality)
+   - Lover (intimacy, passion, appreciation)
+   - Jester (joy, playfulness, living in the moment)
+   - Caregiver (nurturing, service, compassion)
+   - Ruler (control, leadership, success)
+   - Creator (innovation, self-expression, vision)
+   - Innocent (optimism, simplicity, trust)
+   - Sage (wisdom, truth, understanding)
+   - Explorer (freedom, discovery, adventure)
+
+   Explain why this archetype fits.
+
+4. GAPS AND TENSIONS
+   What's missing or unclear? What questions would strengthen this foundation?
+   Note any tensions between what they say and what might actually be true.
+
+Be insightful and specific. This is qualitative analysis, not summarization.`
+}
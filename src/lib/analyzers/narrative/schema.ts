@@ -0,0 +1,98 @@
+/**
+ * 📊 NARRATIVE SCHEMA
+ * ===================
+ * Phase 2 parsing schema for the brand narrative analyzer.
+ */
+
+import type { NarrativeParsedOutput } from '../types'
+import { cleanList, normalizeConfidence } from '../phases'
+import { BRAND_ARCHETYPES } from './prompt'
+
+/**
+ * OpenAI function calling schema for Phase 2 parsing
+ */
+export const PHASE2_SCHEMA = {
+  type: 'function' as const,
+  function: {
+    name: 'save_narrative_analysis',
+    description: 'Save the brand narrative analysis results',
+    parameters: {
+      type: 'object',
+      properties: {
+        summary: {
+          type: 'string',
+          description: 'The 2-3 sentence brand story',
+        },
+        positioning: {
+          type: 'string',
+          description: 'One sentence describing the market position',
+        },
+        archetype: {
+          type: 'string',
+          enum: [...BRAND_ARCHETYPES],
+          description: 'The primary brand archetype',
+        },
+        archetypeRationale: {
+          type: 'string',
+          description: 'Why this archetype fits (2-3 sentences)',
+        },
+        clarifyingQuestions: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Questions that would strengthen the brand foundation',
+        },
+        confidence: {
+          type: 'number',
+          description: 'Confidence level in the analysis from 0 to 1 (1 = very confident)',
+        },
+      },
+      required: ['summary', 'positioning', 'archetype', 'confidence'],
+    },
+  },
+}
+
+/**
+ * Type for the raw parsed output from GPT
+ */
+export interface RawParsedOutput {
+  summary?: string
+  positioning?: string
+  archetype?: string
+  archetypeRationale?: string
+  clarifyingQuestions?: string[]
+  confidence?: number
+}
+
+/**
+ * Match the model's archetype against our list (case-insensitive)
+ */
+function normalizeArchetype(value: string | undefined): string | null {
+  if (!value) return null
+  const match = BRAND_ARCHETYPES.find(a => a.toLowerCase() === value.trim().toLowerCase())
+  return match || null
+}
+
+/**
+ * Transform the raw GPT output into our final NarrativeParsedOutput format
+ */
+export function transformParsedOutput(rawOutput: RawParsedOutput): NarrativeParsedOutput {
+  return {
+    summary: rawOutput.summary?.trim() || null,
+    positioning: rawOutput.positioning?.trim() || null,
+    archetype: normalizeArchetype(rawOutput.archetype),
+    archetypeRationale: rawOutput.archetypeRationale?.trim() || null,
+    clarifyingQuestions: cleanList(rawOutput.clarifyingQuestions),
+    confidence: normalizeConfidence(rawOutput.confidence),
+  }
+}
+
+/**
+ * Fields to update in the business_projects table
+ */
+export function getFieldsToUpdate(parsed: NarrativeParsedOutput): Record<string, unknown> {
+  return {
+    ai_summary: parsed.summary,
+    ai_positioning: parsed.positioning,
+    brand_archetype: parsed.archetype,
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * 🔁 ANALYZER PHASES
+ * ==================
+ * Shared Phase 1 / Phase 2 helpers for the project analyzers.
+ *
+ * Every analyzer makes the same two model calls - only the prompts and
+ * the tool schema differ. These helpers keep each analyzer's index.ts
+ * focused on its inputs and outputs. The provider and model come from
+ * the LLM layer (@/lib/llm), so the same phases run against OpenAI or
+ * the mock provider.
+ *
+ * Usage:
+ *   const llm = getLLM('clarity')
+ *   const rawAnalysis = await runAnalysisPhase(llm, { systemPrompt, prompt, label: 'clarity' })
+ *   const parsed = await runParsingPhase<RawParsedOutput>(llm, rawAnalysis, PHASE2_SCHEMA)
+ */
+
+import { log } from '@/lib/utils/logger'
+import type { LLMTool, ResolvedLLM } from '@/lib/llm'
+
+// ============================================
+// 📋 CONFIG
+// ============================================
+
+/** Default max tokens for Phase 1 analysis */
+const DEFAULT_MAX_TOKENS = 1500
+
+/** Default system prompt for Phase 2 parsing */
+const DEFAULT_PARSER_PROMPT = 'Extract structured data from this analysis. Use the function provided.'
+
+// ============================================
+// 🤖 PHASE 1: ANALYSIS
+// ============================================
+
+export interface AnalysisPhaseOptions {
+  /** System prompt describing the analyst persona */
+  systemPrompt: string
+  /** The Phase 1 prompt built from project data */
+  prompt: string
+  /** Max tokens for the response */
+  maxTokens?: number
+  /** Label used in logs */
+  label?: string
+}
+
+/**
+ * Run Phase 1: Natural language analysis
+ *
+ * @param llm - Provider + model
+ * @param options - Prompts and limits
+ * @returns Raw analysis text
+ */
+export async function runAnalysisPhase(
+  llm: ResolvedLLM,
+  options: AnalysisPhaseOptions
+): Promise<string> {
+  const { systemPrompt, prompt, maxTokens = DEFAULT_MAX_TOKENS, label = 'analyzer' } = options
+
+  log.info(`🤖 Phase 1: Running ${label} analysis...`, {
+    provider: llm.provider.name,
+    model: llm.model,
+  })
+
+  const analysis = await llm.provider.complete({
+    model: llm.model,
+    messages: [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: prompt },
+    ],
+    temperature: 0.7,
+    maxTokens,
+    label,
+  })
+
+  if (!analysis) {
+    throw new Error('No analysis returned from the model')
+  }
+
+  log.success(`🤖 Phase 1 complete (${label})`, { length: analysis.length })
+  return analysis
+}
+
+// ============================================
+// 🧩 PHASE 2: PARSING
+// ============================================
+
+/**
+ * Run Phase 2: Extract structured fields via function calling
+ *
+ * @param llm - Provider + model
+ * @param rawAnalysis - Phase 1 analysis text
+ * @param schema - Tool schema describing the fields to extract
+ * @param systemPrompt - Optional parser instructions
+ * @param label - Caller, for logs and mock fixtures
+ * @returns Parsed arguments of the tool call
+ */
+export async function runParsingPhase<T>(
+  llm: ResolvedLLM,
+  rawAnalysis: string,
+  schema: LLMTool,
+  systemPrompt = DEFAULT_PARSER_PROMPT,
+  label = 'analyzer'
+): Promise<T> {
+  log.info('🤖 Phase 2: Parsing into fields...')
+
+  const parsedFields = await llm.provider.extract<T>({
+    model: llm.model,
+    messages: [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: rawAnalysis },
+    ],
+    tool: schema,
+    label,
+  })
+
+  log.success('🤖 Phase 2 complete', { fields: Object.keys(parsedFields as object) })
+  return parsedFields
+}
+
+// ============================================
+// 🛠️ HELPERS
+// ============================================
+
+/**
+ * Clamp a model-provided score into a range, rounding to an integer
+ * Returns null when the model didn't give us a number
+ */
+export function clampScore(value: unknown, min: number, max: number): number | null {
+  if (typeof value !== 'number' || Number.isNaN(value)) return null
+  return Math.min(max, Math.max(min, Math.round(value)))
+}
+
+/**
+ * Normalize a confidence value into 0-1 (defaults to 0.5)
+ */
+export function normalizeConfidence(value: unknown): number {
+  if (typeof value !== 'number' || Number.isNaN(value)) return 0.5
+  // Some responses come back as a percentage
+  const normalized = value > 1 ? value / 100 : value
+  return Math.min(1, Math.max(0, normalized))
+}
+
+/**
+ * Keep only non-empty strings from a model-provided list
+ */
+export function cleanList(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => item.trim())
+    .filter(Boolean)
+}
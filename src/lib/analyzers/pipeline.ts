@@ -0,0 +1,100 @@
+/**
+ * 🚦 ANALYZER PIPELINE STATE
+ * ==========================
+ * Per-project view of the analyzer DAG for the hub page.
+ *
+ * Each analyzer is one of:
+ * - done:    latest run completed
+ * - running: latest run pending or running
+ * - failed:  latest run gave up after its retries
+ * - ready:   inputs and dependencies are in place, not run yet
+ * - blocked: waiting on a dependency or on missing answers
+ *
+ * Done nodes are also flagged `stale` when they're based on older answers.
+ *
+ * Usage:
+ *   const nodes = getProjectPipeline(project, runs)
+ */
+
+import type { BusinessProject } from '@/lib/types'
+import type { AnalyzerRun, AnalyzerType } from './types'
+import { ANALYZER_REGISTRY } from './registry'
+import { getDepths, getLatestRun } from './graph'
+import { getMissingRequirements } from './triggers'
+import { isRunStale } from './staleness'
+
+// ============================================
+// 📋 TYPES
+// ============================================
+
+export type PipelineNodeState = 'blocked' | 'ready' | 'running' | 'done' | 'failed'
+
+export interface PipelineNode {
+  type: AnalyzerType
+  state: PipelineNodeState
+
+  /** Column in the graph (0 = no dependencies) */
+  depth: number
+
+  /** Direct dependencies, for drawing edges */
+  dependencies: AnalyzerType[]
+
+  /** Dependencies that haven't completed yet */
+  blockedBy: AnalyzerType[]
+
+  /** Project answers the analyzer still needs */
+  missing: string[]
+
+  /** Latest result was based on older answers */
+  stale: boolean
+
+  /** Latest run, if any */
+  run?: AnalyzerRun
+}
+
+// ============================================
+// 🚦 PIPELINE
+// ============================================
+
+/**
+ * Work out the state of every analyzer for a project
+ *
+ * @param project - The business project
+ * @param runs - All analyzer runs for the project
+ * @returns One node per registered analyzer, ordered by depth
+ */
+export function getProjectPipeline(
+  project: BusinessProject,
+  runs: AnalyzerRun[]
+): PipelineNode[] {
+  const depths = getDepths(ANALYZER_REGISTRY)
+
+  const nodes = Object.values(ANALYZER_REGISTRY).map((config): PipelineNode => {
+    const run = getLatestRun(runs, config.type)
+    const dependencies = config.dependencies || []
+    const blockedBy = dependencies.filter(
+      dep => getLatestRun(runs, dep)?.status !== 'completed'
+    )
+    const missing = getMissingRequirements(config.type, project)
+
+    let state: PipelineNodeState
+    if (run?.status === 'completed') state = 'done'
+    else if (run?.status === 'pending' || run?.status === 'running') state = 'running'
+    else if (run?.status === 'failed') state = 'failed'
+    else if (blockedBy.length || missing.length) state = 'blocked'
+    else state = 'ready'
+
+    return {
+      type: config.type,
+      state,
+      depth: depths[config.type],
+      dependencies,
+      blockedBy,
+      missing,
+      stale: !!run && isRunStale(run, project),
+      run,
+    }
+  })
+
+  return nodes.sort((a, b) => a.depth - b.depth)
+}
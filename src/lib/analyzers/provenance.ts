@@ -0,0 +1,153 @@
+/**
+ * 🏷️ FIELD PROVENANCE
+ * ===================
+ * Records who last set each project field, and keeps analyzers from
+ * overwriting what the user typed.
+ *
+ * Every write stamps the fields it sets in business_projects.field_provenance
+ * (source 'client' for answers from a client invite):
+ *   { linkedin_url: { source: 'user', run_id: null, set_at, confidence: null },
+ *     ai_summary:   { source: 'synthesis', run_id, set_at, confidence: 0.8 } }
+ * Writers send only the entries they set - a database trigger merges
+ * them into the rest (migration 014), so concurrent writers don't lose
+ * each other's entries.
+ *
+ * Write policy: an analyzer output is dropped when the field holds a
+ * user- or client-entered value it would change. Before provenance was tracked,
+ * the onboarding inputs (FIELD_MAPPINGS) count as user-entered.
+ * Analyzers may replace each other's values; provenance says which
+ * one wrote last.
+ */
+
+import { FIELD_MAPPINGS } from '@/lib/config/onboarding'
+import { isFieldFilled } from '@/lib/config/buckets'
+import type { BusinessProject, FieldProvenance, FieldSource } from '@/lib/types'
+import type { AnalyzerType } from './types'
+
+// ============================================
+// 📋 CONSTANTS
+// ============================================
+
+/** Bookkeeping columns - not values anyone "enters" */
+const UNTRACKED_FIELDS = new Set([
+  'id',
+  'workspace_id',
+  'member_id',
+  'status',
+  'current_step',
+  'bucket_completion',
+  'overall_completion',
+  'suggestion_decisions',
+  'step_drafts',
+  'field_provenance',
+  'created_at',
+  'updated_at',
+])
+
+/** Columns the onboarding forms write - the user's, if never stamped */
+const ONBOARDING_FIELDS = new Set<string>(Object.values(FIELD_MAPPINGS))
+
+// ============================================
+// 🏷️ STAMPS
+// ============================================
+
+function stamp(
+  fields: string[],
+  source: FieldSource,
+  runId: string | null,
+  confidence: number | null
+): Record<string, FieldProvenance> {
+  const setAt = new Date().toISOString()
+  const entries: Record<string, FieldProvenance> = {}
+
+  for (const field of fields) {
+    if (UNTRACKED_FIELDS.has(field)) continue
+    entries[field] = { source, run_id: runId, set_at: setAt, confidence }
+  }
+
+  return entries
+}
+
+/**
+ * Provenance entries for fields the user just saved
+ */
+export function userProvenance(fields: string[]): Record<string, FieldProvenance> {
+  return stamp(fields, 'user', null, null)
+}
+
+/**
+ * Provenance entries for fields a client saved through their invite
+ */
+export function clientProvenance(fields: string[]): Record<string, FieldProvenance> {
+  return stamp(fields, 'client', null, null)
+}
+
+/**
+ * Provenance entries for fields an analyzer run just wrote
+ */
+export function analyzerProvenance(
+  type: AnalyzerType,
+  runId: string,
+  confidence: number | null,
+  fields: string[]
+): Record<string, FieldProvenance> {
+  return stamp(fields, type, runId, confidence)
+}
+
+// ============================================
+// 🔍 LOOKUPS
+// ============================================
+
+/**
+ * Who last set a field (null if nobody we know of)
+ */
+export function getFieldSource(project: BusinessProject, field: string): FieldSource | null {
+  const entry = project.field_provenance?.[field]
+  if (entry) return entry.source
+
+  const values = project as unknown as Record<string, unknown>
+  return ONBOARDING_FIELDS.has(field) && isFieldFilled(values, field) ? 'user' : null
+}
+
+/**
+ * Whether a field holds a value a person entered (the user or the client)
+ */
+export function isUserEntered(project: BusinessProject, field: string): boolean {
+  const values = project as unknown as Record<string, unknown>
+  const source = getFieldSource(project, field)
+  return isFieldFilled(values, field) && (source === 'user' || source === 'client')
+}
+
+// ============================================
+// 🛡️ WRITE POLICY
+// ============================================
+
+/**
+ * Split an analyzer's output into what it may write and what it may not
+ *
+ * @returns allowed - fields to write; skipped - fields left alone
+ *   because they hold a different, user-entered value (an output equal
+ *   to the user's value is in neither)
+ */
+export function applyWritePolicy(
+  project: BusinessProject,
+  fields: Record<string, unknown>
+): { allowed: Record<string, unknown>; skipped: string[] } {
+  const current = project as unknown as Record<string, unknown>
+  const allowed: Record<string, unknown> = {}
+  const skipped: string[] = []
+
+  for (const [field, value] of Object.entries(fields)) {
+    if (!isUserEntered(project, field)) {
+      allowed[field] = value
+      continue
+    }
+
+    // Same value - nothing to write, and it stays the user's
+    if (JSON.stringify(current[field]) !== JSON.stringify(value)) {
+      skipped.push(field)
+    }
+  }
+
+  return { allowed, skipped }
+}
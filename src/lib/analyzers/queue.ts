@@ -0,0 +1,262 @@
+/**
+ * 📬 ANALYZER JOB QUEUE
+ * =====================
+ * A durable queue backed by the analyzer_runs table.
+ *
+ * Routes enqueue pending runs; workers claim them with a lease, run
+ * them through the runner, and either complete them or put them back
+ * with exponential backoff. Runs whose lease lapses (the worker died or
+ * was frozen) are reclaimed and count as a failed attempt.
+ *
+ * The runner renews its lease between phases, and its final updates
+ * only apply while it still holds it (locked_by) - a run that lost its
+ * lease to a reclaim drops its result instead of racing the new attempt.
+ *
+ * Claiming and reclaiming are Postgres functions (see
+ * supabase/migrations/005_analyzer_job_queue.sql) so that several
+ * workers can poll at once without double-claiming.
+ *
+ * Usage:
+ *   await enqueueRun(supabase, { projectId, type: 'clarity', triggerReason: 'auto' })
+ *   const run = await claimNextRun(adminClient, 'worker-1')
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { log } from '@/lib/utils/logger'
+import type { AnalyzerRun, AnalyzerType } from './types'
+
+// ============================================
+// 📋 CONFIG
+// ============================================
+
+/** Max attempts before a run is marked failed */
+export const MAX_RETRIES = 3
+
+/** How long a worker holds a run before it can be reclaimed */
+export const LEASE_SECONDS = 300
+
+/** First retry delay - doubles on every attempt */
+export const BACKOFF_BASE_SECONDS = 30
+
+/** Cap on the retry delay */
+export const BACKOFF_MAX_SECONDS = 15 * 60
+
+// ============================================
+// 📋 TYPES
+// ============================================
+
+/**
+ * The run was reclaimed (its lease lapsed) while this attempt was
+ * still going - its result is stale
+ */
+export class LeaseLostError extends Error {
+  constructor(runId: string) {
+    super(`Lost the lease on run ${runId}`)
+    this.name = 'LeaseLostError'
+  }
+}
+
+// ============================================
+// ⏰ BACKOFF
+// ============================================
+
+/**
+ * Delay before the next attempt, given how many attempts have failed
+ *
+ * @param retryCount - Failed attempts so far (1 after the first failure)
+ * @returns Delay in seconds (30s, 60s, 120s, ... capped at 15 minutes)
+ */
+export function getBackoffSeconds(retryCount: number): number {
+  const exponent = Math.max(0, retryCount - 1)
+  return Math.min(BACKOFF_MAX_SECONDS, BACKOFF_BASE_SECONDS * 2 ** exponent)
+}
+
+/**
+ * ISO timestamp `seconds` from now
+ */
+function secondsFromNow(seconds: number): string {
+  return new Date(Date.now() + seconds * 1000).toISOString()
+}
+
+// ============================================
+// ➕ ENQUEUE
+// ============================================
+
+export interface EnqueueRunOptions {
+  projectId: string
+  type: AnalyzerType
+  /** Why the run was queued ('auto', 'manual', 'dependency', ...) */
+  triggerReason: string
+}
+
+/**
+ * Add a pending run to the queue
+ *
+ * @returns The new run id
+ */
+export async function enqueueRun(
+  supabase: SupabaseClient,
+  options: EnqueueRunOptions
+): Promise<string> {
+  const now = new Date().toISOString()
+
+  const { data: run, error } = await supabase
+    .from('analyzer_runs')
+    .insert({
+      project_id: options.projectId,
+      analyzer_type: options.type,
+      status: 'pending',
+      trigger_reason: options.triggerReason,
+      next_attempt_at: now,
+      created_at: now,
+    })
+    .select('id')
+    .single()
+
+  if (error) {
+    log.error(`📬 [Queue] Failed to enqueue ${options.type}`, error)
+    throw error
+  }
+
+  log.info(`📬 [Queue] Enqueued ${options.type}`, { runId: run.id })
+  return run.id as string
+}
+
+// ============================================
+// 👷 WORKER OPERATIONS
+// ============================================
+
+/**
+ * Lease the next due pending run (service role only)
+ *
+ * @returns The claimed run, or null if the queue is empty
+ */
+export async function claimNextRun(
+  supabase: SupabaseClient,
+  workerId: string,
+  leaseSeconds = LEASE_SECONDS
+): Promise<AnalyzerRun | null> {
+  const { data, error } = await supabase.rpc('claim_analyzer_run', {
+    p_worker_id: workerId,
+    p_lease_seconds: leaseSeconds,
+  })
+
+  if (error) {
+    log.error('📬 [Queue] Failed to claim run', error)
+    throw error
+  }
+
+  const runs = (data || []) as AnalyzerRun[]
+  return runs[0] || null
+}
+
+/**
+ * Put runs with lapsed leases back in the queue (service role only)
+ *
+ * @returns How many runs were reclaimed
+ */
+export async function reclaimExpiredRuns(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase.rpc('reclaim_expired_analyzer_runs', {
+    p_max_retries: MAX_RETRIES,
+    p_base_delay_seconds: BACKOFF_BASE_SECONDS,
+  })
+
+  if (error) {
+    log.error('📬 [Queue] Failed to reclaim expired runs', error)
+    throw error
+  }
+
+  const reclaimed = (data as number) || 0
+  if (reclaimed > 0) {
+    log.warn(`📬 [Queue] Reclaimed ${reclaimed} run(s) with expired leases`)
+  }
+  return reclaimed
+}
+
+/**
+ * Lease fields to set when a run starts executing
+ * (extends a worker's claim, or adds one for runs executed inline)
+ *
+ * @param lockId - Who holds the lease: the worker, or an inline run's own id
+ */
+export function leaseFields(lockId: string, leaseSeconds = LEASE_SECONDS): Record<string, string> {
+  return { locked_by: lockId, lease_expires_at: secondsFromNow(leaseSeconds) }
+}
+
+/**
+ * Extend a lease that's still ours
+ *
+ * @throws LeaseLostError if the run was reclaimed (or finished) meanwhile
+ */
+export async function renewLease(
+  supabase: SupabaseClient,
+  runId: string,
+  lockId: string,
+  leaseSeconds = LEASE_SECONDS
+): Promise<void> {
+  const { data, error } = await supabase
+    .from('analyzer_runs')
+    .update({ lease_expires_at: secondsFromNow(leaseSeconds) })
+    .eq('id', runId)
+    .eq('status', 'running')
+    .eq('locked_by', lockId)
+    .select('id')
+
+  if (error) throw error
+  if (!data || data.length === 0) throw new LeaseLostError(runId)
+}
+
+/**
+ * Record a failed attempt - back to pending with backoff until
+ * MAX_RETRIES is reached, then failed for good
+ *
+ * @param lockId - Only record it while this lease holds the run (a
+ *   reclaimed run already counted the attempt)
+ */
+export async function recordRunFailure(
+  supabase: SupabaseClient,
+  runId: string,
+  message: string,
+  lockId?: string
+): Promise<void> {
+  try {
+    // Get current retry count
+    const { data: run } = await supabase
+      .from('analyzer_runs')
+      .select('retry_count')
+      .eq('id', runId)
+      .single()
+
+    const retryCount = (run?.retry_count || 0) + 1
+    const exhausted = retryCount >= MAX_RETRIES
+
+    let update = supabase
+      .from('analyzer_runs')
+      .update({
+        status: exhausted ? 'failed' : 'pending',
+        error_message: message,
+        retry_count: retryCount,
+        next_attempt_at: exhausted ? null : secondsFromNow(getBackoffSeconds(retryCount)),
+        locked_by: null,
+        lease_expires_at: null,
+        completed_at: exhausted ? new Date().toISOString() : null,
+      })
+      .eq('id', runId)
+
+    if (lockId) update = update.eq('locked_by', lockId)
+
+    const { data: updated } = await update.select('id')
+    if (lockId && (!updated || updated.length === 0)) {
+      log.warn(`📬 [Queue] Run ${runId} was reclaimed - not recording this attempt`)
+      return
+    }
+
+    log.warn(
+      exhausted
+        ? `📬 [Queue] Run ${runId} failed after ${retryCount} attempts`
+        : `📬 [Queue] Run ${runId} will retry in ${getBackoffSeconds(retryCount)}s`
+    )
+  } catch (updateErr) {
+    log.error('📬 [Queue] Failed to update run status', updateErr)
+  }
+}
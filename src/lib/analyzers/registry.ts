@@ -5,18 +5,38 @@
  *
  * Each analyzer is defined with:
  * - Trigger conditions (when it should auto-run)
+ * - Input fields (what it reads - changes make its result stale)
  * - Output fields (what it updates)
  * - Dependencies (other analyzers that must complete first)
  *
+ * The dependencies form a DAG (see graph.ts). It's validated when this
+ * module loads, so a cycle or unknown dependency throws immediately.
+ *
  * To add a new analyzer:
  * 1. Add the type to AnalyzerType in types.ts
  * 2. Add the config here
- * 3. Create the analyzer implementation in analyzers/{name}/
- * 4. Add the API route
+ * 3. Create the analyzer definition in analyzers/{name}/
+ * 4. List it in definitions.ts
  */
 
 import type { BusinessProject } from '@/lib/types'
 import type { AnalyzerConfig, AnalyzerRun, AnalyzerType } from './types'
+import { assertValidGraph, getLatestRun } from './graph'
+import { PROJECT_CONTEXT_FIELDS } from './context'
+
+// ============================================
+// 🔧 HELPERS
+// ============================================
+
+/**
+ * Whether the analyzer already has a run that's queued, in progress,
+ * or completed and still current (not marked stale)
+ */
+function hasCurrentRun(type: AnalyzerType, existingRuns: AnalyzerRun[]): boolean {
+  const run = getLatestRun(existingRuns, type)
+  if (run?.status === 'pending' || run?.status === 'running') return true
+  return run?.status === 'completed' && !run.stale_at
+}
 
 // ============================================
 // 🌐 WEB SCRAPER ANALYZER
@@ -35,21 +55,12 @@ const webScraperConfig: AnalyzerConfig = {
       return false
     }
 
-    // Check if already running or completed
-    const existingRun = existingRuns.find(
-      r => r.analyzer_type === 'web_scraper'
-    )
-
-    // Don't trigger if pending, running, or completed
-    if (existingRun?.status === 'pending' ||
-        existingRun?.status === 'running' ||
-        existingRun?.status === 'completed') {
-      return false
-    }
-
-    return true
+    // Don't trigger if pending, running, or completed (and not stale)
+    return !hasCurrentRun('web_scraper', existingRuns)
   },
 
+  inputFields: ['website_url'],
+
   outputFields: [
     'social_urls',
     'scraped_tagline',
@@ -57,12 +68,20 @@ const webScraperConfig: AnalyzerConfig = {
     'scraped_industry',
     'scraped_content',
     'scrape_confidence',
+    'scrape_suggestions',
     'scraped_at',
     'instagram_handle',
     'twitter_handle',
     'facebook_url',
     'tiktok_handle',
     'youtube_url',
+    'logo_url',
+    'contact_email',
+    'contact_phone',
+    'business_address',
+    'visual_identity',
+    'brand_location',
+    'year_founded',
   ],
 }
 
@@ -87,17 +106,12 @@ const clarityConfig: AnalyzerConfig = {
 
     if (!hasCoreIdea) return false
 
-    // Check if already running or completed
-    const existingRun = existingRuns.find(r => r.analyzer_type === 'clarity')
-    if (existingRun?.status === 'pending' ||
-        existingRun?.status === 'running' ||
-        existingRun?.status === 'completed') {
-      return false
-    }
-
-    return true
+    // Don't trigger if pending, running, or completed (and not stale)
+    return !hasCurrentRun('clarity', existingRuns)
   },
 
+  inputFields: PROJECT_CONTEXT_FIELDS,
+
   outputFields: [
     'ai_clarity_score',
     'ai_one_liner',
@@ -126,18 +140,15 @@ const narrativeConfig: AnalyzerConfig = {
 
     if (!hasStory) return false
 
-    const existingRun = existingRuns.find(r => r.analyzer_type === 'narrative')
-    if (existingRun?.status === 'pending' ||
-        existingRun?.status === 'running' ||
-        existingRun?.status === 'completed') {
-      return false
-    }
-
-    return true
+    return !hasCurrentRun('narrative', existingRuns)
   },
 
+  inputFields: ['project_name', ...PROJECT_CONTEXT_FIELDS],
+
   outputFields: [
     'ai_summary',
+    'ai_positioning',
+    'brand_archetype',
   ],
 }
 
@@ -153,25 +164,35 @@ const voiceConfig: AnalyzerConfig = {
   autoTrigger: true,
 
   shouldTrigger: (project: BusinessProject, existingRuns: AnalyzerRun[]): boolean => {
-    // Needs company values (brand words)
+    // Needs brand words
     const hasVoice = !!(
-      project.company_values?.length &&
+      project.brand_personality?.length &&
       project.target_audience?.length
     )
 
     if (!hasVoice) return false
 
-    const existingRun = existingRuns.find(r => r.analyzer_type === 'voice')
-    if (existingRun?.status === 'pending' ||
-        existingRun?.status === 'running' ||
-        existingRun?.status === 'completed') {
-      return false
-    }
-
-    return true
+    return !hasCurrentRun('voice', existingRuns)
   },
 
-  outputFields: [],  // TBD
+  inputFields: [
+    'project_name',
+    'idea_name',
+    'one_liner',
+    'secret_sauce',
+    'customer_description',
+    'brand_archetype',
+    'brand_personality',
+    'communication_style',
+    'target_audience',
+  ],
+
+  outputFields: [
+    'brand_tone',
+    'ai_voice_guidelines',
+    'ai_words_to_use',
+    'ai_words_to_avoid',
+  ],
 }
 
 // ============================================
@@ -183,10 +204,10 @@ const synthesisConfig: AnalyzerConfig = {
   name: 'Full Synthesis',
   description: 'Creates a comprehensive analysis of your business',
   icon: '🔮',
-  autoTrigger: false,  // Manual trigger only
+  autoTrigger: false,  // Not on field changes - the scheduler queues it once clarity completes
 
   shouldTrigger: (project: BusinessProject, existingRuns: AnalyzerRun[]): boolean => {
-    // Needs minimum buckets complete
+    // Needs minimum buckets complete (clarity is checked as a dependency)
     const hasMinimum = !!(
       project.idea_name &&
       project.problem_statement &&
@@ -195,20 +216,16 @@ const synthesisConfig: AnalyzerConfig = {
 
     if (!hasMinimum) return false
 
-    // Also needs clarity analyzer to have completed
-    const clarityRun = existingRuns.find(r => r.analyzer_type === 'clarity')
-    if (clarityRun?.status !== 'completed') return false
-
-    const existingRun = existingRuns.find(r => r.analyzer_type === 'synthesis')
-    if (existingRun?.status === 'pending' ||
-        existingRun?.status === 'running' ||
-        existingRun?.status === 'completed') {
-      return false
-    }
-
-    return true
+    return !hasCurrentRun('synthesis', existingRuns)
   },
 
+  inputFields: [
+    ...PROJECT_CONTEXT_FIELDS,
+    'ai_clarity_score',
+    'ai_one_liner',
+    'ai_implied_assumptions',
+  ],
+
   outputFields: [
     'ai_viability_score',
     'ai_summary',
@@ -239,16 +256,11 @@ const marketConfig: AnalyzerConfig = {
 
     if (!hasMarketData) return false
 
-    const existingRun = existingRuns.find(r => r.analyzer_type === 'market')
-    if (existingRun?.status === 'pending' ||
-        existingRun?.status === 'running' ||
-        existingRun?.status === 'completed') {
-      return false
-    }
-
-    return true
+    return !hasCurrentRun('market', existingRuns)
   },
 
+  inputFields: PROJECT_CONTEXT_FIELDS,
+
   outputFields: [
     'ai_market_size',
     'ai_competitors',
@@ -274,16 +286,11 @@ const modelConfig: AnalyzerConfig = {
 
     if (!hasModelData) return false
 
-    const existingRun = existingRuns.find(r => r.analyzer_type === 'model')
-    if (existingRun?.status === 'pending' ||
-        existingRun?.status === 'running' ||
-        existingRun?.status === 'completed') {
-      return false
-    }
-
-    return true
+    return !hasCurrentRun('model', existingRuns)
   },
 
+  inputFields: PROJECT_CONTEXT_FIELDS,
+
   outputFields: [
     'ai_suggested_model',
   ],
@@ -308,16 +315,11 @@ const riskConfig: AnalyzerConfig = {
 
     if (!hasRiskData) return false
 
-    const existingRun = existingRuns.find(r => r.analyzer_type === 'risk')
-    if (existingRun?.status === 'pending' ||
-        existingRun?.status === 'running' ||
-        existingRun?.status === 'completed') {
-      return false
-    }
-
-    return true
+    return !hasCurrentRun('risk', existingRuns)
   },
 
+  inputFields: PROJECT_CONTEXT_FIELDS,
+
   outputFields: [
     'ai_risks',
   ],
@@ -341,6 +343,9 @@ export const ANALYZER_REGISTRY: Record<AnalyzerType, AnalyzerConfig> = {
   risk: riskConfig,
 }
 
+// Fail fast on cycles or unknown dependencies
+assertValidGraph(ANALYZER_REGISTRY)
+
 /**
  * Get config for a specific analyzer
  */
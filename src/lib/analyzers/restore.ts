@@ -0,0 +1,169 @@
+/**
+ * ⏪ RESTORE AN ANALYZER RUN
+ * ==========================
+ * Puts an earlier run's outputs back on the project.
+ *
+ * A restore never edits history: it writes the old run's output_fields
+ * to business_projects and records a new completed run (trigger_reason
+ * 'restore') that copies the old analysis and points back at it with
+ * restored_from_run_id. That new run becomes the latest one, so the
+ * hub shows the restored analysis.
+ *
+ * The write policy still applies: a restored output doesn't replace a
+ * value the user has typed since (see provenance.ts).
+ *
+ * Choosing to restore means accepting the old analysis for the current
+ * answers, so the new run is hashed against the current inputs rather
+ * than marked stale straight away. Analyzers that read the restored
+ * columns are refreshed like after any other run.
+ *
+ * Usage:
+ *   const { status, body } = await restoreAnalyzerRun({ supabase, runId })
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { log } from '@/lib/utils/logger'
+import type { BusinessProject } from '@/lib/types'
+import type { AnalyzerRun, RestoreRunResponse } from './types'
+import { ANALYZER_REGISTRY } from './registry'
+import { getLatestRun } from './graph'
+import { loadProject } from './runner'
+import { refreshStaleAnalyzers } from './scheduler'
+import { getInputHash } from './staleness'
+import { analyzerProvenance, applyWritePolicy } from './provenance'
+
+export interface RestoreRunOptions {
+  /** Supabase client (user-scoped in routes) */
+  supabase: SupabaseClient
+  /** The earlier run to restore */
+  runId: string
+}
+
+export interface RestoreRunResult {
+  /** HTTP status for the route to return */
+  status: number
+  body: RestoreRunResponse
+}
+
+/**
+ * Restore an earlier run's outputs onto its project
+ *
+ * Never throws - failures come back as an error response.
+ */
+export async function restoreAnalyzerRun(options: RestoreRunOptions): Promise<RestoreRunResult> {
+  const { supabase, runId } = options
+
+  const failed = (status: number, error: string): RestoreRunResult => ({
+    status,
+    body: { success: false, runId: '', restoredFromRunId: runId, fields: [], error },
+  })
+
+  try {
+    // Fetch the run to restore
+    const { data: source } = await supabase
+      .from('analyzer_runs')
+      .select('*')
+      .eq('id', runId)
+      .single()
+
+    if (!source) return failed(404, 'Run not found')
+
+    const run = source as AnalyzerRun
+    const config = ANALYZER_REGISTRY[run.analyzer_type]
+
+    if (run.status !== 'completed') {
+      return failed(400, 'Only completed runs can be restored')
+    }
+    if (!run.output_fields) {
+      return failed(409, 'This run was recorded before restoring was possible')
+    }
+
+    const project = await loadProject(supabase, run.project_id)
+    if (!project) return failed(404, 'Project not found')
+
+    // Don't restore under a run that's about to overwrite it
+    const { data: runs } = await supabase
+      .from('analyzer_runs')
+      .select('*')
+      .eq('project_id', run.project_id)
+      .eq('analyzer_type', run.analyzer_type)
+
+    const latest = getLatestRun((runs || []) as AnalyzerRun[], run.analyzer_type)
+    if (latest?.status === 'pending' || latest?.status === 'running') {
+      return failed(409, `${config.name} is running - wait for it to finish first`)
+    }
+
+    log.info(`${config.icon} [Restore] Restoring ${config.name}`, { runId })
+
+    // Write the old outputs back - never over what the user typed since,
+    // stamped with the run that produced them
+    const { allowed, skipped } = applyWritePolicy(project, run.output_fields)
+    const { error: projectError } = await supabase
+      .from('business_projects')
+      .update({
+        ...allowed,
+        field_provenance: analyzerProvenance(run.analyzer_type, run.id, run.confidence_score, Object.keys(allowed)),
+      })
+      .eq('id', run.project_id)
+
+    if (projectError) throw projectError
+
+    // Record the restore as a new run
+    const now = new Date().toISOString()
+    const { data: restored, error: insertError } = await supabase
+      .from('analyzer_runs')
+      .insert({
+        project_id: run.project_id,
+        analyzer_type: run.analyzer_type,
+        status: 'completed',
+        trigger_reason: 'restore',
+        restored_from_run_id: run.id,
+        input_snapshot: {
+          ...(run.input_snapshot || {}),
+          input_hash: getInputHash(run.analyzer_type, project),
+        },
+        raw_analysis: run.raw_analysis,
+        parsed_fields: run.parsed_fields,
+        output_fields: allowed,
+        skipped_fields: skipped,
+        confidence_score: run.confidence_score,
+        next_attempt_at: null,
+        started_at: now,
+        completed_at: now,
+        created_at: now,
+      })
+      .select('id')
+      .single()
+
+    if (insertError) throw insertError
+
+    const fields = Object.keys(allowed)
+
+    // Analyzers that read the restored columns are now out of date
+    await refreshStaleAnalyzers(
+      supabase,
+      { ...project, ...allowed } as BusinessProject,
+      fields
+    )
+
+    log.success(`${config.icon} [Restore] ${config.name} restored`, {
+      runId: restored.id,
+      restoredFrom: run.id,
+      skipped,
+    })
+
+    return {
+      status: 200,
+      body: {
+        success: true,
+        runId: restored.id as string,
+        restoredFromRunId: run.id,
+        analyzerType: run.analyzer_type,
+        fields,
+      },
+    }
+  } catch (error) {
+    log.error('⏪ [Restore] Failed to restore run', error)
+    return failed(500, error instanceof Error ? error.message : 'Unknown error')
+  }
+}
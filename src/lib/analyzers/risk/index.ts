@@ -0,0 +1,30 @@
+/**
+ * ⚠️ RISK ANALYZER
+ * ================
+ * Definition for the risk analyzer.
+ *
+ * The shared runner (../runner.ts) executes this definition:
+ * validate → Phase 1 prompt → Phase 2 parsing → transform → map fields.
+ *
+ * Flow:
+ *   "Run" on the hub → trigger → runner → update project
+ */
+
+import type { BusinessProject } from '@/lib/types'
+import type { AnalyzerDefinition, RiskParsedOutput } from '../types'
+import { SYSTEM_PROMPT, buildPhase1Prompt } from './prompt'
+import { PHASE2_SCHEMA, RawParsedOutput, transformParsedOutput, getFieldsToUpdate } from './schema'
+
+export const riskAnalyzer: AnalyzerDefinition<BusinessProject, RawParsedOutput, RiskParsedOutput> = {
+  type: 'risk',
+  validate: project =>
+    project.biggest_risks?.length || project.validation_status
+      ? null
+      : 'Known risks or validation status are required',
+  selectInput: project => project,
+  systemPrompt: SYSTEM_PROMPT,
+  buildPrompt: buildPhase1Prompt,
+  schema: PHASE2_SCHEMA,
+  transform: transformParsedOutput,
+  mapFields: getFieldsToUpdate,
+}
@@ -0,0 +1,39 @@
+/**
+ * 📝 RISK PROMPT BUILDER
+ * ======================
+ * Phase 1 prompt for the risk analyzer.
+ *
+ * The AI should:
+ * - Identify the risks most likely to sink the business
+ * - Rate each one and suggest a mitigation
+ */
+
+import type { BusinessProject } from '@/lib/types'
+import { buildProjectContext } from '../context'
+
+/** System prompt for the risk assessor */
+export const SYSTEM_PROMPT = `You are a pragmatic investor doing risk diligence on an early-stage business. Be direct, but always pair a risk with a way to reduce it.`
+
+/**
+ * Build the Phase 1 analysis prompt
+ *
+ * @param project - The business project
+ * @returns The formatted prompt string
+ */
+export function buildPhase1Prompt(project: BusinessProject): string {
+  return `Here is everything we know about this business:
+
+${buildProjectContext(project)}
+
+---
+
+Please identify the 3-6 biggest risks to this business.
+
+For each risk:
+- Give it a short title
+- Rate its severity: low, medium or high
+- Suggest one concrete mitigation
+
+Consider market, execution, financial and validation risks. Include the risks the
+founder already named if they're real, and add the ones they haven't noticed.`
+}
@@ -0,0 +1,86 @@
+/**
+ * 📊 RISK SCHEMA
+ * ==============
+ * Phase 2 parsing schema for the risk analyzer.
+ */
+
+import type { IdentifiedRisk, RiskParsedOutput } from '../types'
+import { normalizeConfidence } from '../phases'
+
+/**
+ * OpenAI function calling schema for Phase 2 parsing
+ */
+export const PHASE2_SCHEMA = {
+  type: 'function' as const,
+  function: {
+    name: 'save_risk_analysis',
+    description: 'Save the risk analysis results',
+    parameters: {
+      type: 'object',
+      properties: {
+        risks: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              title: { type: 'string', description: 'Short risk title' },
+              severity: { type: 'string', enum: ['low', 'medium', 'high'] },
+              mitigation: { type: 'string', description: 'One concrete mitigation' },
+            },
+            required: ['title', 'severity'],
+          },
+          description: 'The identified risks',
+        },
+        confidence: {
+          type: 'number',
+          description: 'Confidence level in the analysis from 0 to 1 (1 = very confident)',
+        },
+      },
+      required: ['risks', 'confidence'],
+    },
+  },
+}
+
+/**
+ * Type for the raw parsed output from GPT
+ */
+export interface RawParsedOutput {
+  risks?: Array<{
+    title?: string
+    severity?: string
+    mitigation?: string
+  }>
+  confidence?: number
+}
+
+const SEVERITIES: IdentifiedRisk['severity'][] = ['low', 'medium', 'high']
+
+/**
+ * Transform the raw GPT output into our final RiskParsedOutput format
+ */
+export function transformParsedOutput(rawOutput: RawParsedOutput): RiskParsedOutput {
+  const risks: IdentifiedRisk[] = (rawOutput.risks || [])
+    .filter(risk => risk?.title?.trim())
+    .map(risk => {
+      const severity = risk.severity?.toLowerCase() as IdentifiedRisk['severity']
+      return {
+        title: risk.title!.trim(),
+        severity: SEVERITIES.includes(severity) ? severity : 'medium',
+        mitigation: risk.mitigation?.trim() || null,
+      }
+    })
+
+  return {
+    risks,
+    confidence: normalizeConfidence(rawOutput.confidence),
+  }
+}
+
+/**
+ * Fields to update in the business_projects table
+ */
+export function getFieldsToUpdate(parsed: RiskParsedOutput): Record<string, unknown> {
+  return {
+    ai_risks: { risks: parsed.risks },
+  }
+}
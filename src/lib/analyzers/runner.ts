@@ -0,0 +1,376 @@
+/**
+ * 🏃 ANALYZER RUNNER
+ * ==================
+ * Executes any registered AnalyzerDefinition.
+ *
+ * Two layers:
+ * - runAnalyzer(): the pure AI part (Phase 1 → Phase 2 → transform → map)
+ * - executeAnalyzerRun(): the full lifecycle around it - load the project,
+ *   create or advance the analyzer_runs row, write outputs to
+ *   business_projects (through the write policy, stamping provenance -
+ *   see provenance.ts), re-queue analyzers that read those outputs,
+ *   queue newly unblocked dependents, and hand failures back to the
+ *   queue for retry
+ *
+ * Used by the queue worker, /api/analyzers/[type] and /api/analyze.
+ *
+ * Usage:
+ *   const { status, body } = await executeAnalyzerRun({ supabase, type: 'clarity', projectId })
+ *   return NextResponse.json(body, { status })
+ */
+
+import { randomUUID } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { log } from '@/lib/utils/logger'
+import { getLLM } from '@/lib/llm'
+import type { ResolvedLLM } from '@/lib/llm'
+import type { BusinessProject } from '@/lib/types'
+import type {
+  AnalyzerDefinition,
+  AnalyzerResult,
+  AnyAnalyzerDefinition,
+  AnalyzerType,
+  RunAnalyzerResponse,
+} from './types'
+import { ANALYZER_REGISTRY } from './registry'
+import { getAnalyzerDefinition } from './definitions'
+import { runAnalysisPhase, runParsingPhase } from './phases'
+import { LeaseLostError, leaseFields, recordRunFailure, renewLease } from './queue'
+import { refreshStaleAnalyzers, scheduleDependents } from './scheduler'
+import { getInputHash } from './staleness'
+import { analyzerProvenance, applyWritePolicy } from './provenance'
+
+// ============================================
+// 🤖 LLM
+// ============================================
+
+/**
+ * Provider + model for an analyzer (see @/lib/llm/config.ts)
+ */
+export function getAnalyzerLLM(definition: AnyAnalyzerDefinition): ResolvedLLM {
+  return getLLM(definition.type, definition.llm)
+}
+
+// ============================================
+// 🔗 ROUTING HELPERS
+// ============================================
+
+/**
+ * Turn a URL slug into an analyzer type ('web-scraper' → 'web_scraper'),
+ * or null if unknown (inherited keys like 'constructor' included)
+ */
+export function parseAnalyzerSlug(slug: string): AnalyzerType | null {
+  const type = slug.replace(/-/g, '_')
+  return Object.hasOwn(ANALYZER_REGISTRY, type) ? (type as AnalyzerType) : null
+}
+
+// ============================================
+// 📦 DATA HELPERS
+// ============================================
+
+/**
+ * Load a project by id (null if missing or not visible to this client)
+ */
+export async function loadProject(
+  supabase: SupabaseClient,
+  projectId: string
+): Promise<BusinessProject | null> {
+  const { data: project, error } = await supabase
+    .from('business_projects')
+    .select('*')
+    .eq('id', projectId)
+    .single()
+
+  if (error || !project) return null
+  return project as BusinessProject
+}
+
+/**
+ * The project's provenance and some columns as they are now - what the
+ * write policy checks right before an analyzer writes (the project
+ * loaded at the start of the run can be minutes old by then)
+ *
+ * @throws If the project can't be read
+ */
+export async function loadWriteTargets(
+  supabase: SupabaseClient,
+  projectId: string,
+  fields: string[]
+): Promise<BusinessProject> {
+  const { data, error } = await supabase
+    .from('business_projects')
+    .select(['field_provenance', ...fields].join(','))
+    .eq('id', projectId)
+    .single()
+
+  if (error || !data) throw error ?? new Error('Project not found')
+  return data as unknown as BusinessProject
+}
+
+// ============================================
+// 🧠 AI EXECUTION
+// ============================================
+
+/**
+ * Run a definition's AI steps against already-selected input
+ *
+ * @param definition - The analyzer definition
+ * @param input - Output of definition.selectInput()
+ * @param llm - Provider + model to run against
+ * @returns Raw analysis, parsed output and the columns to update
+ */
+export async function runAnalyzer<TInput, TRaw, TParsed extends { confidence: number }>(
+  definition: AnalyzerDefinition<TInput, TRaw, TParsed>,
+  input: TInput,
+  llm: ResolvedLLM
+): Promise<AnalyzerResult<TParsed>> {
+  // Phase 1: Natural language analysis
+  const rawAnalysis = await runAnalysisPhase(llm, {
+    systemPrompt: definition.systemPrompt,
+    prompt: definition.buildPrompt(input),
+    maxTokens: definition.maxTokens,
+    label: definition.type,
+  })
+
+  // Phase 2: Structured parsing
+  const rawParsed = await runParsingPhase<TRaw>(
+    llm,
+    rawAnalysis,
+    definition.schema,
+    definition.parserPrompt,
+    definition.type
+  )
+
+  // Transform + map onto project columns
+  const parsedFields = definition.transform(rawParsed, input)
+  const fieldsToUpdate = definition.mapFields(parsedFields, input)
+
+  return { rawAnalysis, parsedFields, fieldsToUpdate }
+}
+
+// ============================================
+// 🚀 FULL RUN LIFECYCLE
+// ============================================
+
+export interface ExecuteAnalyzerOptions {
+  /** Supabase client (user-scoped in routes) */
+  supabase: SupabaseClient
+  type: AnalyzerType
+  projectId: string
+  /** Existing pending run to advance (otherwise one is created) */
+  runId?: string
+  /** Recorded on newly created runs */
+  triggerReason?: string
+  /** The worker holding the run's lease (runs executed inline get their own) */
+  workerId?: string
+  /** Override the provider + model (defaults to getAnalyzerLLM()) */
+  llm?: ResolvedLLM
+}
+
+export interface ExecuteAnalyzerResult {
+  /** HTTP status for the route to return */
+  status: number
+  body: RunAnalyzerResponse
+}
+
+/**
+ * Execute an analyzer end to end, recording the run in analyzer_runs
+ *
+ * Never throws - failures are recorded on the run and returned as a
+ * failed response so routes can pass the result straight through.
+ */
+export async function executeAnalyzerRun(
+  options: ExecuteAnalyzerOptions
+): Promise<ExecuteAnalyzerResult> {
+  const { supabase, type, projectId, triggerReason = 'direct' } = options
+  const config = ANALYZER_REGISTRY[type]
+  const definition = getAnalyzerDefinition(type)
+  const lockId = options.workerId ?? `inline:${randomUUID()}`
+  let runId = options.runId
+
+  const failed = (status: number, error: string): ExecuteAnalyzerResult => ({
+    status,
+    body: {
+      success: false,
+      runId: runId || '',
+      analyzerType: type,
+      status: 'failed',
+      error,
+    },
+  })
+
+  try {
+    // Fetch the project
+    const project = await loadProject(supabase, projectId)
+    if (!project) {
+      log.warn(`${config.icon} [Runner] Project not found`, { projectId })
+      return failed(404, 'Project not found')
+    }
+
+    // Check the analyzer has what it needs
+    const missing = definition.validate?.(project)
+    if (missing) {
+      log.warn(`${config.icon} [Runner] Cannot run ${type}: ${missing}`)
+      if (runId) {
+        await supabase
+          .from('analyzer_runs')
+          .update({
+            status: 'failed',
+            error_message: missing,
+            completed_at: new Date().toISOString(),
+          })
+          .eq('id', runId)
+      }
+      return failed(400, missing)
+    }
+
+    if (runId) {
+      // Mark the queued run as running (with a lease, so a dead request gets reclaimed)
+      const { error: updateError } = await supabase
+        .from('analyzer_runs')
+        .update({
+          status: 'running',
+          started_at: new Date().toISOString(),
+          ...leaseFields(lockId),
+        })
+        .eq('id', runId)
+
+      if (updateError) {
+        log.warn(`${config.icon} [Runner] Failed to update run status`, updateError)
+      }
+    } else {
+      // No runId provided - create one that's already running, so no
+      // worker can claim it while we execute it inline
+      const now = new Date().toISOString()
+      const { data: newRun, error: createError } = await supabase
+        .from('analyzer_runs')
+        .insert({
+          project_id: projectId,
+          analyzer_type: type,
+          status: 'running',
+          trigger_reason: triggerReason,
+          started_at: now,
+          created_at: now,
+          ...leaseFields(lockId),
+        })
+        .select('id')
+        .single()
+
+      if (createError) {
+        log.error(`${config.icon} [Runner] Failed to create run`, createError)
+        throw createError
+      }
+      runId = newRun.id as string
+    }
+
+    log.info(`${config.icon} [Runner] Starting ${config.name}...`, { runId })
+
+    // Select input + run the AI phases, renewing the lease after each
+    // slow step so the run isn't reclaimed from under us
+    const input = await definition.selectInput(project)
+    await renewLease(supabase, runId!, lockId)
+    const llm = options.llm ?? getAnalyzerLLM(definition)
+    const inputSnapshot = {
+      ...(definition.snapshotInput?.(input, project) ?? {
+        project_name: project.project_name,
+        project_updated_at: project.updated_at,
+      }),
+      // What staleness checks compare against
+      input_hash: getInputHash(type, project),
+      // Which model produced this run
+      llm: { provider: llm.provider.name, model: llm.model },
+    }
+    const result = await runAnalyzer(definition, input, llm)
+    await renewLease(supabase, runId!, lockId)
+
+    // Never overwrite what the user typed - including while this ran
+    const current = await loadWriteTargets(supabase, projectId, Object.keys(result.fieldsToUpdate))
+    const { allowed, skipped } = applyWritePolicy(current, result.fieldsToUpdate)
+    if (skipped.length > 0) {
+      log.info(`${config.icon} [Runner] Kept user-entered values`, { runId, fields: skipped })
+    }
+
+    // Update the project with results
+    const { error: projectUpdateError } = await supabase
+      .from('business_projects')
+      .update({
+        ...allowed,
+        field_provenance: analyzerProvenance(type, runId!, result.parsedFields.confidence, Object.keys(allowed)),
+      })
+      .eq('id', projectId)
+
+    if (projectUpdateError) {
+      log.error(`${config.icon} [Runner] Failed to update project`, projectUpdateError)
+      throw projectUpdateError
+    }
+
+    // Mark run as completed
+    const { data: completed, error: completeError } = await supabase
+      .from('analyzer_runs')
+      .update({
+        status: 'completed',
+        input_snapshot: inputSnapshot,
+        raw_analysis: result.rawAnalysis,
+        parsed_fields: result.parsedFields,
+        output_fields: allowed,
+        skipped_fields: skipped,
+        confidence_score: result.parsedFields.confidence,
+        error_message: null,
+        locked_by: null,
+        lease_expires_at: null,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', runId)
+      .eq('locked_by', lockId)
+      .select('id')
+
+    // Still "running" - don't schedule dependents off it
+    if (completeError) {
+      log.error(`${config.icon} [Runner] Failed to mark run completed`, completeError)
+      throw completeError
+    }
+    if (!completed || completed.length === 0) throw new LeaseLostError(runId!)
+
+    log.success(`${config.icon} [Runner] ${config.name} complete!`, {
+      runId,
+      fields: Object.keys(allowed),
+    })
+
+    // Our outputs may be other analyzers' inputs
+    await refreshStaleAnalyzers(
+      supabase,
+      { ...project, ...allowed } as BusinessProject,
+      Object.keys(allowed)
+    )
+
+    // Queue any analyzers this one was blocking
+    await scheduleDependents(supabase, projectId, type)
+
+    return {
+      status: 200,
+      body: {
+        success: true,
+        runId: runId!,
+        analyzerType: type,
+        status: 'completed',
+        rawAnalysis: result.rawAnalysis,
+        parsedFields: allowed,
+      },
+    }
+  } catch (error) {
+    // Reclaimed while we ran - the new attempt owns the run now
+    if (error instanceof LeaseLostError) {
+      log.warn(`${config.icon} [Runner] ${config.name} result dropped: ${error.message}`)
+      return failed(409, error.message)
+    }
+
+    log.error(`${config.icon} [Runner] ${config.name} error`, error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+
+    if (runId) {
+      await recordRunFailure(supabase, runId, message, lockId)
+    }
+
+    return failed(500, message)
+  }
+}
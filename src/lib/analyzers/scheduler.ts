@@ -0,0 +1,161 @@
+/**
+ * 🗓️ ANALYZER SCHEDULER
+ * =====================
+ * Moves work along the analyzer DAG.
+ *
+ * When a run completes, the runner calls scheduleDependents(). Every
+ * analyzer that depends on the one that just finished is re-checked,
+ * and the ones whose dependencies are now all complete (and whose
+ * inputs are filled in) are queued for the worker.
+ *
+ * This is how synthesis starts on its own once clarity is done.
+ *
+ * When project fields change, refreshStaleAnalyzers() marks the latest
+ * runs that read them as stale (see staleness.ts) and re-queues the
+ * auto-trigger ones.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { log } from '@/lib/utils/logger'
+import type { BusinessProject } from '@/lib/types'
+import type { AnalyzerRun, AnalyzerType } from './types'
+import { ANALYZER_REGISTRY } from './registry'
+import { dependenciesMet, getDependents } from './graph'
+import { enqueueRun } from './queue'
+import { findStaleRuns } from './staleness'
+
+// ============================================
+// 🧭 DEPENDENTS
+// ============================================
+
+/**
+ * Queue the dependents of a just-completed analyzer that are now eligible
+ *
+ * Never throws - a scheduling hiccup shouldn't fail the run that finished.
+ *
+ * @returns The analyzer types that were queued
+ */
+export async function scheduleDependents(
+  supabase: SupabaseClient,
+  projectId: string,
+  completedType: AnalyzerType
+): Promise<AnalyzerType[]> {
+  const dependents = getDependents(ANALYZER_REGISTRY, completedType)
+  if (dependents.length === 0) return []
+
+  try {
+    // Fresh project (the run just wrote to it) and runs, newest first
+    const [{ data: project }, { data: runs }] = await Promise.all([
+      supabase.from('business_projects').select('*').eq('id', projectId).single(),
+      supabase
+        .from('analyzer_runs')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: false }),
+    ])
+
+    if (!project) return []
+    const existingRuns = (runs || []) as AnalyzerRun[]
+    const queued: AnalyzerType[] = []
+
+    for (const type of dependents) {
+      const config = ANALYZER_REGISTRY[type]
+
+      if (!dependenciesMet(ANALYZER_REGISTRY, type, existingRuns)) {
+        log.debug(`🗓️ [Scheduler] ${type} still waiting on dependencies`)
+        continue
+      }
+
+      if (!config.shouldTrigger(project as BusinessProject, existingRuns)) {
+        log.debug(`🗓️ [Scheduler] ${type} not eligible yet`)
+        continue
+      }
+
+      await enqueueRun(supabase, { projectId, type, triggerReason: 'dependency' })
+      queued.push(type)
+      log.info(`🗓️ [Scheduler] Queued ${config.icon} ${config.name} after ${completedType}`)
+    }
+
+    return queued
+  } catch (error) {
+    log.error('🗓️ [Scheduler] Failed to schedule dependents', error)
+    return []
+  }
+}
+
+// ============================================
+// 🕰️ STALE RUNS
+// ============================================
+
+export interface RefreshStaleResult {
+  /** Analyzers whose latest run was just marked stale */
+  stale: AnalyzerType[]
+  /** Analyzers re-queued because of it */
+  queued: AnalyzerType[]
+}
+
+/**
+ * Mark runs stale after their inputs changed, and re-queue the
+ * auto-trigger analyzers among them
+ *
+ * Never throws - a scheduling hiccup shouldn't fail the save that
+ * caused it.
+ *
+ * @param project - The project after the change
+ * @param changedFields - Fields that were just written (omit to compare every analyzer by hash)
+ */
+export async function refreshStaleAnalyzers(
+  supabase: SupabaseClient,
+  project: BusinessProject,
+  changedFields?: string[]
+): Promise<RefreshStaleResult> {
+  const result: RefreshStaleResult = { stale: [], queued: [] }
+
+  try {
+    const { data: runs, error } = await supabase
+      .from('analyzer_runs')
+      .select('*')
+      .eq('project_id', project.id)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+
+    const staleRuns = findStaleRuns(project, (runs || []) as AnalyzerRun[], changedFields)
+    if (staleRuns.length === 0) return result
+
+    // Mark them
+    const staleAt = new Date().toISOString()
+    const staleIds = staleRuns.map(run => run.id)
+
+    const { error: markError } = await supabase
+      .from('analyzer_runs')
+      .update({ stale_at: staleAt })
+      .in('id', staleIds)
+
+    if (markError) throw markError
+
+    result.stale = staleRuns.map(run => run.analyzer_type)
+    log.info('🕰️ [Scheduler] Marked stale', { analyzers: result.stale, changedFields })
+
+    // Re-queue the auto-trigger ones that can run
+    const existingRuns = ((runs || []) as AnalyzerRun[]).map(run =>
+      staleIds.includes(run.id) ? { ...run, stale_at: staleAt } : run
+    )
+
+    for (const type of result.stale) {
+      const config = ANALYZER_REGISTRY[type]
+      if (!config.autoTrigger) continue
+      if (!dependenciesMet(ANALYZER_REGISTRY, type, existingRuns)) continue
+      if (!config.shouldTrigger(project, existingRuns)) continue
+
+      await enqueueRun(supabase, { projectId: project.id, type, triggerReason: 'stale' })
+      result.queued.push(type)
+      log.info(`🕰️ [Scheduler] Re-queued ${config.icon} ${config.name} with updated inputs`)
+    }
+
+    return result
+  } catch (error) {
+    log.error('🕰️ [Scheduler] Failed to refresh stale analyzers', error)
+    return result
+  }
+}
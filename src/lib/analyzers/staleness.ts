@@ -0,0 +1,156 @@
+/**
+ * 🕰️ ANALYZER STALENESS
+ * =====================
+ * Works out when an analyzer's latest result no longer matches the
+ * answers it was based on.
+ *
+ * Each AnalyzerConfig lists its inputFields. When a run starts, the
+ * runner hashes those fields into input_snapshot.input_hash. A completed
+ * run is stale when:
+ * - it was marked stale (stale_at) after a watched field changed, or
+ * - the project's current inputs no longer hash to input_hash
+ *
+ * Everything here is pure and safe to use in the browser. Marking runs
+ * and re-queueing them lives in scheduler.ts.
+ *
+ * Usage:
+ *   const hash = getInputHash('clarity', project)
+ *   if (isRunStale(run, project)) showBadge()
+ */
+
+import type { BusinessProject } from '@/lib/types'
+import type { AnalyzerRun, AnalyzerType } from './types'
+import { ANALYZER_REGISTRY } from './registry'
+import { getLatestRun } from './graph'
+
+// ============================================
+// #️⃣ HASHING
+// ============================================
+
+/**
+ * JSON with sorted object keys, so equal values always serialize the same
+ */
+function stableStringify(value: unknown): string {
+  if (value === undefined || value === null) return 'null'
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+/**
+ * FNV-1a (32-bit) as hex - enough to notice a change, and synchronous
+ * in both the browser and Node
+ */
+function fnv1a(text: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * Hash a set of project fields
+ *
+ * @param project - The business project
+ * @param fields - Fields to include (order doesn't matter)
+ * @returns 8-character hex hash
+ */
+export function hashProjectFields(
+  project: BusinessProject,
+  fields: (keyof BusinessProject)[]
+): string {
+  const picked: Record<string, unknown> = {}
+  for (const field of fields) {
+    picked[field] = project[field] ?? null
+  }
+  return fnv1a(stableStringify(picked))
+}
+
+/**
+ * Hash of an analyzer's current inputs
+ */
+export function getInputHash(type: AnalyzerType, project: BusinessProject): string {
+  return hashProjectFields(project, ANALYZER_REGISTRY[type].inputFields)
+}
+
+/**
+ * Input hash a run was based on (null for runs recorded before hashing)
+ */
+export function getRunInputHash(run: AnalyzerRun): string | null {
+  const hash = run.input_snapshot?.input_hash
+  return typeof hash === 'string' ? hash : null
+}
+
+// ============================================
+// 🕰️ STALENESS
+// ============================================
+
+/**
+ * Analyzers that read any of the given fields
+ */
+export function getAnalyzersWatching(fields: string[]): AnalyzerType[] {
+  return Object.values(ANALYZER_REGISTRY)
+    .filter(config => config.inputFields.some(field => fields.includes(field)))
+    .map(config => config.type)
+}
+
+/**
+ * Whether a completed run was based on older answers
+ *
+ * @param run - An analyzer run
+ * @param project - The project as it is now
+ */
+export function isRunStale(run: AnalyzerRun, project: BusinessProject): boolean {
+  if (run.status !== 'completed') return false
+  if (run.stale_at) return true
+
+  const hash = getRunInputHash(run)
+  return hash !== null && hash !== getInputHash(run.analyzer_type, project)
+}
+
+/**
+ * Latest completed runs that have gone stale but aren't marked yet
+ *
+ * With changedFields, only analyzers watching those fields are checked,
+ * and runs recorded before hashing count as stale (a watched field did
+ * change). Without it, every analyzer is compared by hash.
+ *
+ * @param project - The project after the change
+ * @param runs - All analyzer runs for the project
+ * @param changedFields - Fields that were just written, if known
+ * @returns Runs to mark stale
+ */
+export function findStaleRuns(
+  project: BusinessProject,
+  runs: AnalyzerRun[],
+  changedFields?: string[]
+): AnalyzerRun[] {
+  const types = changedFields
+    ? getAnalyzersWatching(changedFields)
+    : (Object.keys(ANALYZER_REGISTRY) as AnalyzerType[])
+
+  const stale: AnalyzerRun[] = []
+
+  for (const type of types) {
+    const run = getLatestRun(runs, type)
+    if (!run || run.status !== 'completed' || run.stale_at) continue
+
+    const hash = getRunInputHash(run)
+    const changed = hash === null
+      ? !!changedFields
+      : hash !== getInputHash(type, project)
+
+    if (changed) stale.push(run)
+  }
+
+  return stale
+}
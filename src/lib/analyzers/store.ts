@@ -6,6 +6,8 @@
  * Responsibilities:
  * - Track analyzer runs for the current project
  * - Handle triggering analyzers
+ * - Re-queue analyzers whose inputs just changed
+ * - Browse run history and restore earlier runs
  * - Subscribe to realtime updates
  * - Provide loading/error states
  *
@@ -16,8 +18,16 @@
 import { create } from 'zustand'
 import { supabase } from '@/lib/supabase/client'
 import { log } from '@/lib/utils/logger'
-import type { AnalyzerRun, AnalyzerType, TriggerAnalyzersResponse } from './types'
+import type {
+  AnalyzerRun,
+  AnalyzerRunSummary,
+  AnalyzerType,
+  ListAnalyzerRunsResponse,
+  RestoreRunResponse,
+  TriggerAnalyzersResponse,
+} from './types'
 import { ANALYZER_REGISTRY } from './registry'
+import { getLatestRun } from './graph'
 
 // ============================================
 // 📋 TYPES
@@ -33,10 +43,18 @@ interface AnalyzerState {
   // Current project ID being tracked
   currentProjectId: string | null
 
+  // Run history for one analyzer (newest first)
+  history: AnalyzerRunSummary[]
+  isLoadingHistory: boolean
+
   // Actions
   loadRuns: (projectId: string) => Promise<void>
   triggerAnalyzers: (projectId: string, analyzerType?: AnalyzerType) => Promise<TriggerAnalyzersResponse>
+  refreshStale: (projectId: string, changedFields: string[]) => Promise<void>
   subscribeToUpdates: (projectId: string) => () => void
+  loadHistory: (projectId: string, type: AnalyzerType) => Promise<void>
+  fetchRun: (runId: string) => Promise<AnalyzerRun | null>
+  restoreRun: (projectId: string, runId: string) => Promise<RestoreRunResponse>
   getRunByType: (type: AnalyzerType) => AnalyzerRun | undefined
   clearRuns: () => void
 }
@@ -52,6 +70,8 @@ export const useAnalyzerStore = create<AnalyzerState>((set, get) => ({
   isTriggering: false,
   error: null,
   currentProjectId: null,
+  history: [],
+  isLoadingHistory: false,
 
   /**
    * 📥 Load all analyzer runs for a project
@@ -118,6 +138,40 @@ export const useAnalyzerStore = create<AnalyzerState>((set, get) => ({
     }
   },
 
+  /**
+   * 🕰️ Mark analyzers that read the changed fields as stale
+   * Auto-trigger ones are re-queued server-side. Never throws - the
+   * save that caused this already succeeded.
+   */
+  refreshStale: async (projectId: string, changedFields: string[]) => {
+    log.info('🕰️ Checking analyzers for stale inputs...', { projectId, changedFields })
+
+    try {
+      const response = await fetch('/api/analyzers/trigger', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ projectId, changedFields }),
+      })
+
+      const data: TriggerAnalyzersResponse = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to refresh stale analyzers')
+      }
+
+      if (data.stale?.length) {
+        log.info('🕰️ Analyzers out of date', { stale: data.stale, requeued: data.triggered })
+      }
+
+      // Pick up stale marks if this project's runs are on screen
+      if (get().currentProjectId === projectId) {
+        await get().loadRuns(projectId)
+      }
+    } catch (error) {
+      log.error('🕰️ Failed to refresh stale analyzers', error)
+    }
+  },
+
   /**
    * 📡 Subscribe to realtime updates for analyzer runs
    * Returns unsubscribe function
@@ -183,17 +237,102 @@ export const useAnalyzerStore = create<AnalyzerState>((set, get) => ({
   },
 
   /**
-   * 🔍 Get a specific run by analyzer type
+   * 🗂️ Load the run history for one analyzer
+   */
+  loadHistory: async (projectId: string, type: AnalyzerType) => {
+    log.info('🗂️ Loading run history...', { projectId, type })
+    set({ isLoadingHistory: true, error: null })
+
+    try {
+      const params = new URLSearchParams({ projectId, type })
+      const response = await fetch(`/api/analyzers/runs?${params}`)
+      const data: ListAnalyzerRunsResponse = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load run history')
+      }
+
+      log.success('🗂️ Run history loaded', { type, count: data.runs.length })
+      set({ history: data.runs, isLoadingHistory: false })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load run history'
+      log.error('🗂️ Failed to load run history', error)
+      set({ isLoadingHistory: false, error: message })
+    }
+  },
+
+  /**
+   * 📄 Fetch a single run with its full analysis
+   */
+  fetchRun: async (runId: string) => {
+    try {
+      const response = await fetch(`/api/analyzers/runs/${runId}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch run')
+      }
+
+      return data.run as AnalyzerRun
+    } catch (error) {
+      log.error('🗂️ Failed to fetch run', error, { runId })
+      return null
+    }
+  },
+
+  /**
+   * ⏪ Restore an earlier run's outputs onto the project
+   */
+  restoreRun: async (projectId: string, runId: string) => {
+    log.info('⏪ Restoring run...', { runId })
+    set({ error: null })
+
+    try {
+      const response = await fetch(`/api/analyzers/runs/${runId}/restore`, {
+        method: 'POST',
+      })
+
+      const data: RestoreRunResponse = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to restore run')
+      }
+
+      log.success('⏪ Run restored', { fields: data.fields })
+
+      // The restore is a new run - reload runs + history
+      await get().loadRuns(projectId)
+      if (data.analyzerType) {
+        await get().loadHistory(projectId, data.analyzerType)
+      }
+
+      return data
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to restore'
+      log.error('⏪ Failed to restore run', error)
+      set({ error: message })
+      return {
+        success: false,
+        runId: '',
+        restoredFromRunId: runId,
+        fields: [],
+        error: message,
+      }
+    }
+  },
+
+  /**
+   * 🔍 Get the latest run for an analyzer type
    */
   getRunByType: (type: AnalyzerType) => {
-    return get().runs.find(r => r.analyzer_type === type)
+    return getLatestRun(get().runs, type)
   },
 
   /**
    * 🧹 Clear all runs (when switching projects)
    */
   clearRuns: () => {
-    set({ runs: [], currentProjectId: null, error: null })
+    set({ runs: [], history: [], currentProjectId: null, error: null })
   },
 }))
 
@@ -214,13 +353,15 @@ export function useIsAnalyzerRunning(): boolean {
  */
 export function useAnalyzerRun(type: AnalyzerType): AnalyzerRun | undefined {
   const runs = useAnalyzerStore(state => state.runs)
-  return runs.find(r => r.analyzer_type === type)
+  return getLatestRun(runs, type)
 }
 
 /**
- * Get all completed analyzer runs
+ * Get the latest run of each analyzer whose latest run completed
  */
 export function useCompletedAnalyzers(): AnalyzerRun[] {
   const runs = useAnalyzerStore(state => state.runs)
-  return runs.filter(r => r.status === 'completed')
+  return Object.values(ANALYZER_REGISTRY)
+    .map(config => getLatestRun(runs, config.type))
+    .filter((run): run is AnalyzerRun => run?.status === 'completed')
 }
@@ -0,0 +1,45 @@
+/**
+ * 📝 SYNTHESIS PROMPT BUILDER
+ * ===========================
+ * Phase 1 prompt for the full synthesis analyzer.
+ *
+ * The AI should:
+ * - Score overall viability
+ * - Summarize the business
+ * - Call out strengths, weaknesses and next steps
+ */
+
+import type { BusinessProject } from '@/lib/types'
+import { buildProjectContext } from '../context'
+
+/** System prompt for the startup advisor */
+export const SYSTEM_PROMPT = `You are a seasoned startup advisor. Be honest but constructive. Focus on actionable insights.`
+
+/**
+ * Build the Phase 1 analysis prompt
+ *
+ * @param project - The business project
+ * @returns The formatted prompt string
+ */
+export function buildPhase1Prompt(project: BusinessProject): string {
+  const priorInsights = [
+    project.ai_one_liner && `- Refined one-liner: ${project.ai_one_liner}`,
+    project.ai_clarity_score && `- Clarity score: ${project.ai_clarity_score}/100`,
+    project.ai_implied_assumptions?.length &&
+      `- Implied assumptions: ${project.ai_implied_assumptions.join('; ')}`,
+  ].filter(Boolean)
+
+  return `Here is everything we know about this business:
+
+${buildProjectContext(project)}
+${priorInsights.length ? `\n## Prior Analysis\n${priorInsights.join('\n')}\n` : ''}
+---
+
+Synthesize everything you know about this business into:
+
+1. A viability score (1-100) - how likely is this to succeed?
+2. A comprehensive summary (2-3 paragraphs)
+3. Key strengths (3-5 bullet points)
+4. Key weaknesses/risks (3-5 bullet points)
+5. Recommended next steps (3-5 actionable items)`
+}
@@ -0,0 +1,91 @@
+/**
+ * 📊 SYNTHESIS SCHEMA
+ * ===================
+ * Phase 2 parsing schema for the full synthesis analyzer.
+ */
+
+import type { SynthesisParsedOutput } from '../types'
+import { clampScore, cleanList, normalizeConfidence } from '../phases'
+
+/**
+ * OpenAI function calling schema for Phase 2 parsing
+ */
+export const PHASE2_SCHEMA = {
+  type: 'function' as const,
+  function: {
+    name: 'save_synthesis_analysis',
+    description: 'Save the synthesis analysis results',
+    parameters: {
+      type: 'object',
+      properties: {
+        viabilityScore: {
+          type: 'number',
+          description: 'Viability score from 1-100',
+        },
+        summary: {
+          type: 'string',
+          description: 'Comprehensive summary of the business',
+        },
+        strengths: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Key strengths',
+        },
+        weaknesses: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Key weaknesses/risks',
+        },
+        nextSteps: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Recommended next steps',
+        },
+        confidence: {
+          type: 'number',
+          description: 'Confidence level in the analysis from 0 to 1 (1 = very confident)',
+        },
+      },
+      required: ['viabilityScore', 'summary', 'confidence'],
+    },
+  },
+}
+
+/**
+ * Type for the raw parsed output from GPT
+ */
+export interface RawParsedOutput {
+  viabilityScore?: number
+  summary?: string
+  strengths?: string[]
+  weaknesses?: string[]
+  nextSteps?: string[]
+  confidence?: number
+}
+
+/**
+ * Transform the raw GPT output into our final SynthesisParsedOutput format
+ */
+export function transformParsedOutput(rawOutput: RawParsedOutput): SynthesisParsedOutput {
+  return {
+    viabilityScore: clampScore(rawOutput.viabilityScore, 1, 100),
+    summary: rawOutput.summary?.trim() || null,
+    strengths: cleanList(rawOutput.strengths),
+    weaknesses: cleanList(rawOutput.weaknesses),
+    nextSteps: cleanList(rawOutput.nextSteps),
+    confidence: normalizeConfidence(rawOutput.confidence),
+  }
+}
+
+/**
+ * Fields to update in the business_projects table
+ */
+export function getFieldsToUpdate(parsed: SynthesisParsedOutput): Record<string, unknown> {
+  return {
+    ai_viability_score: parsed.viabilityScore,
+    ai_summary: parsed.summary,
+    ai_strengths: parsed.strengths,
+    ai_weaknesses: parsed.weaknesses,
+    ai_next_steps: parsed.nextSteps,
+  }
+}
@@ -20,6 +20,7 @@
 import type { BusinessProject } from '@/lib/types'
 import type { AnalyzerRun, AnalyzerType, TriggerResult } from './types'
 import { ANALYZER_REGISTRY, getAutoTriggerAnalyzers } from './registry'
+import { dependenciesMet, getLatestRun } from './graph'
 import { log } from '@/lib/utils/logger'
 
 // ============================================
@@ -50,9 +51,7 @@ export function evaluateTriggers(
   const autoTriggerAnalyzers = getAutoTriggerAnalyzers()
 
   for (const config of autoTriggerAnalyzers) {
-    const existingRun = existingRuns.find(
-      r => r.analyzer_type === config.type
-    )
+    const existingRun = getLatestRun(existingRuns, config.type)
 
     // Track status
     if (existingRun?.status === 'running' || existingRun?.status === 'pending') {
@@ -60,7 +59,8 @@ export function evaluateTriggers(
       continue
     }
 
-    if (existingRun?.status === 'completed') {
+    // Completed runs stay put until their inputs change (stale_at)
+    if (existingRun?.status === 'completed' && !existingRun.stale_at) {
       completed.push(config.type)
       continue
     }
@@ -70,18 +70,11 @@ export function evaluateTriggers(
 
     if (shouldRun) {
       // Check dependencies
-      if (config.dependencies?.length) {
-        const dependenciesMet = config.dependencies.every(dep => {
-          const depRun = existingRuns.find(r => r.analyzer_type === dep)
-          return depRun?.status === 'completed'
+      if (!dependenciesMet(ANALYZER_REGISTRY, config.type, existingRuns)) {
+        log.debug(`🎯 Skipping ${config.type} - dependencies not met`, {
+          dependencies: config.dependencies,
         })
-
-        if (!dependenciesMet) {
-          log.debug(`🎯 Skipping ${config.type} - dependencies not met`, {
-            dependencies: config.dependencies,
-          })
-          continue
-        }
+        continue
       }
 
       toTrigger.push(config.type)
@@ -172,7 +165,7 @@ export function getMissingRequirements(
       break
 
     case 'voice':
-      if (!project.company_values?.length) missing.push('Brand words')
+      if (!project.brand_personality?.length) missing.push('Brand words')
       if (!project.target_audience?.length) missing.push('Target audience')
       break
 
@@ -182,8 +175,22 @@ export function getMissingRequirements(
       if (!project.secret_sauce) missing.push('Secret sauce')
       break
 
-    default:
-      // Other analyzers have less strict requirements
+    case 'market':
+      if (!project.market_size_estimate && !project.competitors?.length) {
+        missing.push('Market size or competitors')
+      }
+      break
+
+    case 'model':
+      if (!project.revenue_model?.length && !project.customer_type) {
+        missing.push('Revenue model or customer type')
+      }
+      break
+
+    case 'risk':
+      if (!project.biggest_risks?.length && !project.validation_status) {
+        missing.push('Known risks or validation status')
+      }
       break
   }
 
@@ -201,7 +208,7 @@ export function getAnalyzerStatusMessage(
   analyzerType: AnalyzerType,
   existingRuns: AnalyzerRun[]
 ): string {
-  const run = existingRuns.find(r => r.analyzer_type === analyzerType)
+  const run = getLatestRun(existingRuns, analyzerType)
 
   if (!run) {
     return 'Not started'
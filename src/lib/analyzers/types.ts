@@ -9,11 +9,13 @@
  *
  * Each analyzer has:
  * - Defined trigger conditions (what data must exist to run)
- * - Input requirements (what project fields it needs)
+ * - Input fields (what project fields it reads - changing one makes
+ *   its latest run stale)
  * - Output fields (what it updates in the project)
  */
 
-import type { BusinessProject } from '@/lib/types'
+import type { BusinessProject, ScrapeSuggestions, VisualIdentity } from '@/lib/types'
+import type { LLMConfig, LLMTool } from '@/lib/llm/types'
 
 // ============================================
 // 📋 ANALYZER TYPES
@@ -59,18 +61,41 @@ export interface AnalyzerRun {
   input_snapshot: Record<string, unknown> | null
   raw_analysis: string | null       // Phase 1 output
   parsed_fields: Record<string, unknown> | null  // Phase 2 output
+  output_fields: Record<string, unknown> | null  // What was written to the project
+  skipped_fields: string[] | null  // Outputs the write policy kept off user-entered values
   confidence_score: number | null
 
+  // Set when this run restored an earlier one's outputs
+  restored_from_run_id: string | null
+
   // Error handling
   error_message: string | null
   retry_count: number
 
+  // Queue (see queue.ts)
+  next_attempt_at: string | null
+  locked_by: string | null
+  lease_expires_at: string | null
+
+  // Staleness (see staleness.ts) - set when an input field changed after
+  // this run completed
+  stale_at: string | null
+
   // Timing
   started_at: string | null
   completed_at: string | null
   created_at: string
 }
 
+/**
+ * A run in a history list - everything but the (large) outputs
+ * Fetch the full run by id to compare or restore it
+ */
+export type AnalyzerRunSummary = Omit<
+  AnalyzerRun,
+  'input_snapshot' | 'raw_analysis' | 'parsed_fields' | 'output_fields'
+>
+
 // ============================================
 // ⚙️ ANALYZER CONFIG
 // ============================================
@@ -98,6 +123,9 @@ export interface AnalyzerConfig {
   /** Function to check if trigger conditions are met */
   shouldTrigger: (project: BusinessProject, existingRuns: AnalyzerRun[]) => boolean
 
+  /** Project fields the analyzer reads - hashed into each run's input_snapshot */
+  inputFields: (keyof BusinessProject)[]
+
   /** Fields this analyzer updates in the project */
   outputFields: string[]
 
@@ -105,6 +133,78 @@ export interface AnalyzerConfig {
   dependencies?: AnalyzerType[]
 }
 
+// ============================================
+// 🧩 ANALYZER DEFINITION
+// ============================================
+
+/**
+ * Everything the runner needs to execute an analyzer
+ *
+ * AnalyzerConfig says *when* an analyzer runs (and is safe to import
+ * in the browser). AnalyzerDefinition says *how* it runs - prompts,
+ * tool schema and field mapping - and is only used on the server.
+ *
+ * @typeParam TInput - What selectInput hands to the prompt builder
+ * @typeParam TRaw - Raw Phase 2 tool-call arguments
+ * @typeParam TParsed - Cleaned-up output stored in analyzer_runs.parsed_fields
+ */
+export interface AnalyzerDefinition<
+  TInput = BusinessProject,
+  TRaw = Record<string, unknown>,
+  TParsed extends { confidence: number } = { confidence: number },
+> {
+  /** Which registered analyzer this implements */
+  type: AnalyzerType
+
+  /** Returns a reason the analyzer can't run yet, or null if it can */
+  validate?: (project: BusinessProject) => string | null
+
+  /** Pick (or fetch) the input the prompts need */
+  selectInput: (project: BusinessProject) => TInput | Promise<TInput>
+
+  /** What to record in analyzer_runs.input_snapshot */
+  snapshotInput?: (input: TInput, project: BusinessProject) => Record<string, unknown>
+
+  /** Phase 1 system prompt */
+  systemPrompt: string
+
+  /** Phase 1 user prompt */
+  buildPrompt: (input: TInput) => string
+
+  /** Max tokens for Phase 1 */
+  maxTokens?: number
+
+  /** Preferred provider/model (LLM_<TYPE>_PROVIDER / _MODEL env vars win) */
+  llm?: Partial<LLMConfig>
+
+  /** Phase 2 tool schema */
+  schema: LLMTool
+
+  /** Optional Phase 2 system prompt */
+  parserPrompt?: string
+
+  /** Turn raw tool-call arguments into the parsed output */
+  transform: (raw: TRaw, input: TInput) => TParsed
+
+  /** Map the parsed output onto business_projects columns */
+  mapFields: (parsed: TParsed, input: TInput) => Record<string, unknown>
+}
+
+/**
+ * Any analyzer definition, regardless of its generics
+ * Used where definitions are stored side by side (the runner's lookup)
+ */
+export type AnyAnalyzerDefinition = AnalyzerDefinition<any, any, any>
+
+/**
+ * What the runner produces for a single analyzer execution
+ */
+export interface AnalyzerResult<TParsed = Record<string, unknown>> {
+  rawAnalysis: string
+  parsedFields: TParsed
+  fieldsToUpdate: Record<string, unknown>
+}
+
 // ============================================
 // 🔄 TRIGGER RESULT
 // ============================================
@@ -139,6 +239,8 @@ export interface TriggerAnalyzersRequest {
   analyzerType?: AnalyzerType
   /** Optional: force re-run even if already completed */
   force?: boolean
+  /** Optional: fields that just changed - only re-queues analyzers they made stale */
+  changedFields?: string[]
 }
 
 /**
@@ -147,6 +249,8 @@ export interface TriggerAnalyzersRequest {
 export interface TriggerAnalyzersResponse {
   success: boolean
   triggered: AnalyzerType[]
+  /** Analyzers whose latest run was marked stale by this request */
+  stale?: AnalyzerType[]
   message: string
   error?: string
 }
@@ -173,6 +277,29 @@ export interface RunAnalyzerResponse {
   error?: string
 }
 
+/**
+ * Response from the run history endpoint
+ */
+export interface ListAnalyzerRunsResponse {
+  success: boolean
+  runs: AnalyzerRunSummary[]
+  error?: string
+}
+
+/**
+ * Response from restoring an earlier run
+ */
+export interface RestoreRunResponse {
+  success: boolean
+  /** The new run recording the restore */
+  runId: string
+  restoredFromRunId: string
+  analyzerType?: AnalyzerType
+  /** Project columns that were rewritten */
+  fields: string[]
+  error?: string
+}
+
 // ============================================
 // 🌐 WEB SCRAPER SPECIFIC TYPES
 // ============================================
@@ -190,6 +317,44 @@ export interface SocialUrls {
   [key: string]: string | undefined  // Allow other platforms
 }
 
+/**
+ * Structured details a site publishes about itself
+ * (JSON-LD, Open Graph, icons, mailto:/tel: links, <address>)
+ */
+export interface SiteMetadata {
+  /** Business name (JSON-LD, then og:site_name) */
+  name: string | null
+  logoUrl: string | null
+  faviconUrl: string | null
+  /** og:image - usually a share image, not the logo */
+  ogImageUrl: string | null
+  email: string | null
+  phone: string | null
+  /** Postal address on one line */
+  address: string | null
+  /** "City, Region" from a structured address */
+  location: string | null
+  foundedYear: number | null
+  /** Profile URLs from JSON-LD sameAs */
+  sameAs: string[]
+}
+
+/**
+ * What a crawled page looks like it's about
+ */
+export type PageLabel = 'home' | 'about' | 'services' | 'pricing' | 'team' | 'contact' | 'other'
+
+/**
+ * One page read by the crawler
+ */
+export interface ScrapedPage {
+  url: string
+  label: PageLabel
+  title: string | null
+  /** Page text (truncated) */
+  content: string
+}
+
 /**
  * Data extracted by the web scraper
  */
@@ -203,15 +368,27 @@ export interface ScrapedData {
   /** Meta description */
   description: string | null
 
-  /** Main text content (truncated) */
+  /** Text of every page read, labeled per page (truncated) */
   content: string
 
+  /** Pages read, home page first, then most relevant first */
+  pages: ScrapedPage[]
+
+  /** Structured metadata, merged across pages (home page first) */
+  metadata: SiteMetadata
+
+  /** Brand colors and fonts from the home page's CSS */
+  visualIdentity: VisualIdentity
+
   /** Social media URLs found on page */
   socialUrls: SocialUrls
 
   /** Whether scrape was successful */
   success: boolean
 
+  /** Whether the fetch was refused (private address, robots.txt, size or type) */
+  refused?: boolean
+
   /** Error message if failed */
   error?: string
 }
@@ -240,6 +417,146 @@ export interface WebScraperParsedOutput {
   youtubeUrl: string | null
   linkedinUrl: string | null
 
+  /** From the site's structured metadata, not the AI */
+  logoUrl: string | null
+  contactEmail: string | null
+  contactPhone: string | null
+  businessAddress: string | null
+  location: string | null
+  foundedYear: number | null
+
+  /** Brand colors and fonts from the site's CSS (null if none found) */
+  visualIdentity: VisualIdentity | null
+
+  /** Suggested answers for the story and words pages */
+  suggestions: ScrapeSuggestions
+
+  /** Confidence in the analysis (0-1) */
+  confidence: number
+}
+
+// ============================================
+// 🧠 PROJECT ANALYZER OUTPUT TYPES
+// ============================================
+
+/**
+ * Parsed output from the clarity analyzer
+ */
+export interface ClarityParsedOutput {
+  /** How clearly the idea is articulated (1-100) */
+  clarityScore: number | null
+
+  /** A refined one-liner for the business */
+  oneLiner: string | null
+
+  /** Assumptions the idea relies on without saying so */
+  impliedAssumptions: string[]
+
+  /** Confidence in the analysis (0-1) */
+  confidence: number
+}
+
+/**
+ * Parsed output from the narrative analyzer
+ */
+export interface NarrativeParsedOutput {
+  /** Short narrative summary of the brand story */
+  summary: string | null
+
+  /** One sentence describing the natural positioning */
+  positioning: string | null
+
+  /** Primary brand archetype (Hero, Sage, Caregiver, ...) */
+  archetype: string | null
+
+  /** Why the archetype fits */
+  archetypeRationale: string | null
+
+  /** Questions that would strengthen the story */
+  clarifyingQuestions: string[]
+
+  /** Confidence in the analysis (0-1) */
+  confidence: number
+}
+
+/**
+ * Parsed output from the voice analyzer
+ */
+export interface VoiceParsedOutput {
+  /** One phrase describing the ideal tone */
+  toneSummary: string | null
+
+  /** Specific, actionable voice guidelines */
+  voiceGuidelines: string[]
+
+  /** Vocabulary that fits the voice */
+  wordsToUse: string[]
+
+  /** Vocabulary that clashes with the voice */
+  wordsToAvoid: string[]
+
+  /** Confidence in the analysis (0-1) */
+  confidence: number
+}
+
+/**
+ * Parsed output from the synthesis analyzer
+ */
+export interface SynthesisParsedOutput {
+  /** How likely the business is to succeed (1-100) */
+  viabilityScore: number | null
+
+  /** Comprehensive summary of the business */
+  summary: string | null
+
+  strengths: string[]
+  weaknesses: string[]
+  nextSteps: string[]
+
+  /** Confidence in the analysis (0-1) */
+  confidence: number
+}
+
+/**
+ * Parsed output from the market analyzer
+ */
+export interface MarketParsedOutput {
+  /** Market size estimate in plain words */
+  marketSize: string | null
+
+  /** Competitors worth knowing about */
+  competitors: string[]
+
+  /** Confidence in the analysis (0-1) */
+  confidence: number
+}
+
+/**
+ * Parsed output from the business model analyzer
+ */
+export interface ModelParsedOutput {
+  /** Recommended revenue model and pricing approach */
+  suggestedModel: string | null
+
+  /** Confidence in the analysis (0-1) */
+  confidence: number
+}
+
+/**
+ * A single risk identified by the risk analyzer
+ */
+export interface IdentifiedRisk {
+  title: string
+  severity: 'low' | 'medium' | 'high'
+  mitigation: string | null
+}
+
+/**
+ * Parsed output from the risk analyzer
+ */
+export interface RiskParsedOutput {
+  risks: IdentifiedRisk[]
+
   /** Confidence in the analysis (0-1) */
   confidence: number
 }
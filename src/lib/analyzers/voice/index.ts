@@ -0,0 +1,28 @@
+/**
+ * 🎤 VOICE ANALYZER
+ * =================
+ * Definition for the brand voice analyzer.
+ *
+ * The shared runner (../runner.ts) executes this definition:
+ * validate → Phase 1 prompt → Phase 2 parsing → transform → map fields.
+ *
+ * Flow:
+ *   words step saved → trigger → runner → update project
+ */
+
+import type { BusinessProject } from '@/lib/types'
+import type { AnalyzerDefinition, VoiceParsedOutput } from '../types'
+import { SYSTEM_PROMPT, buildPhase1Prompt } from './prompt'
+import { PHASE2_SCHEMA, RawParsedOutput, transformParsedOutput, getFieldsToUpdate } from './schema'
+
+export const voiceAnalyzer: AnalyzerDefinition<BusinessProject, RawParsedOutput, VoiceParsedOutput> = {
+  type: 'voice',
+  validate: project =>
+    project.brand_personality?.length ? null : 'Brand words are required',
+  selectInput: project => project,
+  systemPrompt: SYSTEM_PROMPT,
+  buildPrompt: buildPhase1Prompt,
+  schema: PHASE2_SCHEMA,
+  transform: transformParsedOutput,
+  mapFields: getFieldsToUpdate,
+}
@@ -0,0 +1,71 @@
+/**
+ * 📝 VOICE PROMPT BUILDER
+ * =======================
+ * Phase 1 prompt for the brand voice analyzer.
+ *
+ * The AI should:
+ * - Synthesize a personality from the brand words
+ * - Describe the ideal tone in one phrase
+ * - Write actionable voice guidelines
+ * - Suggest vocabulary to use and avoid
+ */
+
+import type { BusinessProject } from '@/lib/types'
+import { SLIDER_CONFIGS } from '@/lib/config/onboarding'
+
+/** System prompt for the voice specialist */
+export const SYSTEM_PROMPT = `You are a brand voice specialist analyzing word selections to understand brand personality.
+
+Be specific and actionable. These guidelines will be used for actual content creation.`
+
+/**
+ * Build the Phase 1 analysis prompt
+ *
+ * @param project - The business project
+ * @returns The formatted prompt string
+ */
+export function buildPhase1Prompt(project: BusinessProject): string {
+  const commStyle = SLIDER_CONFIGS.find(s => s.id === 'commStyle')!
+  const formality = project.communication_style
+    ? `${project.communication_style}/5 - ${commStyle.descriptions[project.communication_style]}`
+    : 'Not specified'
+
+  return `BRAND CONTEXT:
+- Brand Name: ${project.project_name || project.idea_name || 'Not specified'}
+- Core Offering: ${project.one_liner || project.secret_sauce || 'Not specified'}
+- Who They Help: ${project.customer_description || 'Not specified'}
+- Brand Archetype (from prior analysis): ${project.brand_archetype || 'not yet determined'}
+- Preferred Formality (1 = formal, 5 = casual): ${formality}
+
+WORD SELECTIONS:
+
+Brand Personality Words (how they see themselves):
+${project.brand_personality?.join(', ') || 'None selected'}
+
+Customer Descriptor Words (how they see their audience):
+${project.target_audience?.join(', ') || 'None selected'}
+
+ANALYSIS TASKS:
+
+1. PERSONALITY SYNTHESIS
+   What overall brand personality emerges from these word choices?
+   Describe it as if describing a person's character.
+
+2. TONE SUMMARY
+   In one phrase, describe the ideal tone of voice.
+   Format: "[adjective] and [adjective] with [quality]"
+   Example: "Warm and confident with a touch of playfulness"
+
+3. VOICE GUIDELINES
+   Provide 5-7 specific, actionable voice guidelines.
+   Format as clear directives, e.g.:
+   - "Use 'we' and 'you' to create partnership feeling"
+   - "Lead with benefits before features"
+
+4. VOCABULARY SUGGESTIONS
+   Words TO use (10-15 words that fit this voice):
+   Words to AVOID (5-10 words that clash):
+
+5. TENSION CHECK
+   Are there any contradictions between brand words and customer words?`
+}
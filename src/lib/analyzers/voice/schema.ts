@@ -0,0 +1,84 @@
+/**
+ * 📊 VOICE SCHEMA
+ * ===============
+ * Phase 2 parsing schema for the brand voice analyzer.
+ */
+
+import type { VoiceParsedOutput } from '../types'
+import { cleanList, normalizeConfidence } from '../phases'
+
+/**
+ * OpenAI function calling schema for Phase 2 parsing
+ */
+export const PHASE2_SCHEMA = {
+  type: 'function' as const,
+  function: {
+    name: 'save_voice_analysis',
+    description: 'Save the brand voice analysis results',
+    parameters: {
+      type: 'object',
+      properties: {
+        toneSummary: {
+          type: 'string',
+          description: 'One phrase describing the ideal tone of voice',
+        },
+        voiceGuidelines: {
+          type: 'array',
+          items: { type: 'string' },
+          description: '5-7 actionable voice guidelines',
+        },
+        wordsToUse: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Words that fit this voice',
+        },
+        wordsToAvoid: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Words that clash with this voice',
+        },
+        confidence: {
+          type: 'number',
+          description: 'Confidence level in the analysis from 0 to 1 (1 = very confident)',
+        },
+      },
+      required: ['toneSummary', 'voiceGuidelines', 'confidence'],
+    },
+  },
+}
+
+/**
+ * Type for the raw parsed output from GPT
+ */
+export interface RawParsedOutput {
+  toneSummary?: string
+  voiceGuidelines?: string[]
+  wordsToUse?: string[]
+  wordsToAvoid?: string[]
+  confidence?: number
+}
+
+/**
+ * Transform the raw GPT output into our final VoiceParsedOutput format
+ */
+export function transformParsedOutput(rawOutput: RawParsedOutput): VoiceParsedOutput {
+  return {
+    toneSummary: rawOutput.toneSummary?.trim() || null,
+    voiceGuidelines: cleanList(rawOutput.voiceGuidelines),
+    wordsToUse: cleanList(rawOutput.wordsToUse),
+    wordsToAvoid: cleanList(rawOutput.wordsToAvoid),
+    confidence: normalizeConfidence(rawOutput.confidence),
+  }
+}
+
+/**
+ * Fields to update in the business_projects table
+ */
+export function getFieldsToUpdate(parsed: VoiceParsedOutput): Record<string, unknown> {
+  return {
+    brand_tone: parsed.toneSummary,
+    ai_voice_guidelines: parsed.voiceGuidelines,
+    ai_words_to_use: parsed.wordsToUse,
+    ai_words_to_avoid: parsed.wordsToAvoid,
+  }
+}
@@ -0,0 +1,393 @@
+/**
+ * 🕸️ WEBSITE CRAWLER
+ * ==================
+ * Reads the few pages of a site that say the most about the business.
+ *
+ * A home page alone often misses what the analyzer needs (services,
+ * pricing, who's behind it), so the crawler:
+ * 1. Fetches the home page and /sitemap.xml
+ * 2. Collects same-origin links from both (nav links count for more)
+ * 3. Ranks them by how relevant they look (about, services, pricing,
+ *    team, contact) - blog posts, legal pages and files are skipped
+ * 4. Fetches the best ones until the page or time budget runs out
+ * 5. Bundles the text into one labeled section per page, and merges
+ *    each page's structured metadata (./metadata.ts)
+ * 6. Reads the home page's CSS for brand colors and fonts (./visual.ts)
+ *
+ * Every request goes through safeFetch (./safe-fetch.ts).
+ *
+ * Never throws: a failed home page gives success: false (and
+ * refused: true if safeFetch refused it), a failed inner page is just
+ * left out.
+ *
+ * Try it against the fixture site: npm run crawler:fixture
+ */
+
+import { log } from '@/lib/utils/logger'
+import type { PageLabel, ScrapedData, ScrapedPage, SocialUrls } from '../types'
+import {
+  normalizeUrl,
+  siteHost,
+  extractLinks,
+  extractTitle,
+  extractDescription,
+  extractTextFromHtml,
+  findSocialUrls,
+} from './scraper'
+import type { PageLink } from './scraper'
+import { safeFetch, FetchRefusedError, CSS_TYPES, XML_TYPES } from './safe-fetch'
+import { emptyMetadata, extractMetadata, mergeMetadata } from './metadata'
+import { extractVisualIdentity } from './visual'
+import type { FetchedResource, SafeFetchOptions } from './safe-fetch'
+
+// ============================================
+// 📋 CONSTANTS
+// ============================================
+
+/** Pages to read, home page included */
+const DEFAULT_MAX_PAGES = 6
+
+/** Total time for the whole crawl in ms */
+const DEFAULT_TIME_BUDGET = 30000
+
+/** Text kept per page (chars) */
+const MAX_PAGE_LENGTH = 4000
+
+/** Text kept across all pages (chars) */
+const MAX_CONTENT_LENGTH = 16000
+
+/** Sitemap entries considered */
+const MAX_SITEMAP_URLS = 500
+
+/** Largest stylesheet we read (bytes) */
+const MAX_STYLESHEET_BYTES = 1024 * 1024
+
+/** Don't start a fetch with less time than this left (ms) */
+const MIN_FETCH_TIME = 500
+
+/**
+ * How each label is recognized and how much it's worth.
+ * Matched against the last path segment and the link text.
+ */
+const PAGE_RULES: Array<{ label: PageLabel; pattern: RegExp; weight: number }> = [
+  { label: 'about', pattern: /\b(about|story|who-we-are|mission)\b/, weight: 5 },
+  { label: 'services', pattern: /\b(services?|what-we-do|offerings?|products?|solutions|menu|shop|work-with-me)\b/, weight: 4 },
+  { label: 'pricing', pattern: /\b(pricing|prices?|plans|rates|packages)\b/, weight: 4 },
+  { label: 'team', pattern: /\b(team|people|founders?|staff|meet)\b/, weight: 3 },
+  { label: 'contact', pattern: /\b(contact|locations?|visit|find-us)\b/, weight: 2 },
+]
+
+/** Paths that never say much about the business */
+const SKIP_PATH = /(^|\/)(blog|news|posts?|tags?|category|author|feed|wp-[a-z]+|cart|checkout|account|login|sign-?in|sign-?up|privacy|terms|cookies?|legal)(\/|$)/i
+
+/** Links to files rather than pages */
+const SKIP_EXTENSION = /\.(pdf|jpe?g|png|gif|svg|webp|ico|zip|xml|json|txt|css|js|mp3|mp4|mov)$/i
+
+/** Display names for the bundle headings */
+export const PAGE_LABEL_NAMES: Record<PageLabel, string> = {
+  home: 'Home',
+  about: 'About',
+  services: 'Services',
+  pricing: 'Pricing',
+  team: 'Team',
+  contact: 'Contact',
+  other: 'Other',
+}
+
+// ============================================
+// 📋 TYPES
+// ============================================
+
+export interface CrawlOptions {
+  /** Pages to read, home page included (default 6) */
+  maxPages?: number
+  /** Total time for the crawl in ms (default 30s) */
+  timeBudgetMs?: number
+  /** Allow private and loopback addresses - only for local fixtures */
+  allowPrivateNetwork?: boolean
+}
+
+/**
+ * A page worth fetching, with its score
+ */
+interface Candidate {
+  url: string
+  label: PageLabel
+  score: number
+}
+
+// ============================================
+// 🛠️ HELPERS
+// ============================================
+
+/**
+ * Label and score a link. Returns null for pages we skip.
+ */
+function rankLink(link: PageLink): Candidate | null {
+  const { pathname } = new URL(link.url)
+  if (SKIP_PATH.test(pathname) || SKIP_EXTENSION.test(pathname)) return null
+
+  const segments = pathname.split('/').filter(Boolean)
+  if (segments.length === 0) return null // The home page
+
+  const lastSegment = segments[segments.length - 1].replace(/[_.]/g, '-')
+  const haystack = `${lastSegment} ${link.text}`.toLowerCase()
+  const rule = PAGE_RULES.find(r => r.pattern.test(haystack))
+
+  const score =
+    (rule?.weight ?? 0) +
+    (link.inNav ? 1 : 0) -
+    (segments.length - 1) * 0.5
+
+  // Unlabeled pages only make it in from the nav
+  if (score <= 0) return null
+
+  return { url: link.url, label: rule?.label ?? 'other', score }
+}
+
+/**
+ * Rank every link, best first
+ */
+function rankLinks(links: PageLink[], homeUrl: string): Candidate[] {
+  const seen = new Set([homeUrl.replace(/\/$/, '')])
+  const candidates: Candidate[] = []
+
+  for (const link of links) {
+    const key = link.url.replace(/\/$/, '')
+    if (seen.has(key)) continue
+    seen.add(key)
+
+    const candidate = rankLink(link)
+    if (candidate) candidates.push(candidate)
+  }
+
+  return candidates.sort((a, b) => b.score - a.score || a.url.length - b.url.length)
+}
+
+/**
+ * Read page URLs from /sitemap.xml
+ * A sitemap index is followed one level down (first child only).
+ * Missing or broken sitemaps just give no URLs.
+ */
+async function readSitemap(origin: string, fetchOptions: SafeFetchOptions): Promise<string[]> {
+  const options = { ...fetchOptions, accept: 'application/xml,text/xml', allowedTypes: XML_TYPES }
+  const locs = (xml: string) =>
+    Array.from(xml.matchAll(/<loc>\s*([^<]+?)\s*<\/loc>/gi)).map(m => m[1]).slice(0, MAX_SITEMAP_URLS)
+
+  try {
+    const sitemap = await safeFetch(`${origin}/sitemap.xml`, options)
+    let urls = locs(sitemap.body)
+
+    if (/<sitemapindex\b/i.test(sitemap.body) && urls.length > 0) {
+      const child = await safeFetch(urls[0], options)
+      urls = locs(child.body)
+    }
+
+    log.debug('🕸️ Read sitemap', { urls: urls.length })
+    return urls
+  } catch (error) {
+    log.debug('🕸️ No usable sitemap', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    return []
+  }
+}
+
+/**
+ * Turn fetched HTML into a page
+ */
+function toPage(url: string, label: PageLabel, html: string): ScrapedPage {
+  const text = extractTextFromHtml(html)
+
+  return {
+    url,
+    label,
+    title: extractTitle(html),
+    content: text.length > MAX_PAGE_LENGTH ? text.slice(0, MAX_PAGE_LENGTH) + '...' : text,
+  }
+}
+
+/**
+ * One labeled section per page, cut off at MAX_CONTENT_LENGTH
+ */
+export function formatPageBundle(pages: ScrapedPage[]): string {
+  const bundle = pages
+    .map(page => `### ${PAGE_LABEL_NAMES[page.label]} — ${new URL(page.url).pathname}\n${page.content}`)
+    .join('\n\n')
+
+  return bundle.length > MAX_CONTENT_LENGTH
+    ? bundle.slice(0, MAX_CONTENT_LENGTH) + '...'
+    : bundle
+}
+
+// ============================================
+// 🕸️ MAIN CRAWLER FUNCTION
+// ============================================
+
+/**
+ * Crawl a website and extract relevant data
+ *
+ * @param url - The site's URL (the home page)
+ * @param options - Page and time budgets
+ * @returns ScrapedData with the combined content and each page read
+ */
+export async function crawlWebsite(url: string, options: CrawlOptions = {}): Promise<ScrapedData> {
+  const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES
+  const deadline = Date.now() + (options.timeBudgetMs ?? DEFAULT_TIME_BUDGET)
+  const remaining = () => deadline - Date.now()
+  const fetchOptions = () => ({
+    timeoutMs: remaining(),
+    allowPrivateNetwork: options.allowPrivateNetwork,
+  })
+
+  const normalizedUrl = normalizeUrl(url)
+  log.info('🕸️ Starting website crawl...', { url: normalizedUrl, maxPages })
+
+  let origin: string
+  try {
+    origin = new URL(normalizedUrl).origin
+  } catch {
+    return failure(normalizedUrl, 'Invalid URL')
+  }
+
+  // Home page and sitemap side by side (readSitemap never throws)
+  let home: FetchedResource
+  let sitemapUrls: string[]
+  try {
+    [home, sitemapUrls] = await Promise.all([
+      safeFetch(normalizedUrl, fetchOptions()),
+      readSitemap(origin, fetchOptions()),
+    ])
+  } catch (error) {
+    if (error instanceof FetchRefusedError) {
+      log.warn('🕸️ Refused to fetch home page', { url: normalizedUrl, reason: error.message })
+      return failure(normalizedUrl, error.message, true)
+    }
+
+    log.error('🕸️ Failed to fetch home page', error, { url: normalizedUrl })
+    return failure(normalizedUrl, error instanceof Error ? error.message : 'Unknown error')
+  }
+
+  const { url: homeUrl, body: homeHtml } = home
+
+  // Same-origin links from the home page, then the sitemap
+  const host = siteHost(homeUrl)
+  const links: PageLink[] = [
+    ...extractLinks(homeHtml, homeUrl),
+    ...sitemapUrls.flatMap(loc => {
+      try {
+        const parsed = new URL(loc, homeUrl)
+        return siteHost(parsed.href) === host
+          ? [{ url: `${parsed.origin}${parsed.pathname}`, text: '', inNav: false }]
+          : []
+      } catch {
+        return []
+      }
+    }),
+  ]
+
+  const candidates = rankLinks(links, homeUrl)
+  log.debug('🕸️ Ranked pages', {
+    candidates: candidates.slice(0, maxPages).map(c => `${c.label} ${c.url} (${c.score})`),
+  })
+
+  // Fetch the best pages within budget
+  const pages: ScrapedPage[] = [toPage(homeUrl, 'home', homeHtml)]
+  const socialUrls: SocialUrls = findSocialUrls(homeHtml)
+  let metadata = extractMetadata(homeHtml, homeUrl)
+
+  // Keep the first link found for each platform
+  const addSocialUrls = (source: string) => {
+    for (const [platform, socialUrl] of Object.entries(findSocialUrls(source))) {
+      socialUrls[platform] = socialUrls[platform] ?? socialUrl
+    }
+  }
+
+  for (const candidate of candidates) {
+    if (pages.length >= maxPages) break
+    if (remaining() < MIN_FETCH_TIME) {
+      log.warn('🕸️ Crawl time budget used up', { pagesRead: pages.length })
+      break
+    }
+
+    try {
+      const page = await safeFetch(candidate.url, fetchOptions())
+      pages.push(toPage(page.url, candidate.label, page.body))
+      addSocialUrls(page.body)
+      metadata = mergeMetadata(metadata, extractMetadata(page.body, page.url))
+    } catch (error) {
+      log.warn('🕸️ Skipping page', {
+        url: candidate.url,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  // Profiles the site lists in JSON-LD sameAs
+  addSocialUrls(metadata.sameAs.join(' '))
+
+  // Brand colors and fonts, with whatever time is left for stylesheets
+  const visualIdentity = await extractVisualIdentity(homeHtml, homeUrl, async stylesheetUrl => {
+    if (remaining() < MIN_FETCH_TIME) return null
+
+    try {
+      const stylesheet = await safeFetch(stylesheetUrl, {
+        ...fetchOptions(),
+        accept: 'text/css',
+        allowedTypes: CSS_TYPES,
+        maxBytes: MAX_STYLESHEET_BYTES,
+      })
+      return stylesheet.body
+    } catch (error) {
+      log.debug('🕸️ Skipping stylesheet', {
+        url: stylesheetUrl,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+      return null
+    }
+  })
+
+  const content = formatPageBundle(pages)
+
+  log.success('🕸️ Website crawled successfully', {
+    pages: pages.map(p => `${p.label} ${new URL(p.url).pathname}`),
+    contentLength: content.length,
+    socialsFound: Object.keys(socialUrls).length,
+    metadataFound: Object.entries(metadata)
+      .filter(([, value]) => (Array.isArray(value) ? value.length > 0 : value != null))
+      .map(([key]) => key),
+    colors: visualIdentity.colors.map(c => c.hex),
+    fonts: visualIdentity.fonts.map(f => `${f.family} (${f.role})`),
+  })
+
+  return {
+    url: homeUrl,
+    title: extractTitle(homeHtml),
+    description: extractDescription(homeHtml),
+    content,
+    pages,
+    metadata,
+    visualIdentity,
+    socialUrls,
+    success: true,
+  }
+}
+
+/**
+ * Result for a site we couldn't read
+ */
+function failure(url: string, error: string, refused = false): ScrapedData {
+  return {
+    url,
+    title: null,
+    description: null,
+    content: '',
+    pages: [],
+    metadata: emptyMetadata(),
+    visualIdentity: { colors: [], fonts: [] },
+    socialUrls: {},
+    success: false,
+    refused,
+    error,
+  }
+}
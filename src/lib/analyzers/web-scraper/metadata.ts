@@ -0,0 +1,299 @@
+/**
+ * 🏷️ SITE METADATA EXTRACTOR
+ * ==========================
+ * Pulls the structured details a site publishes about itself out of
+ * its HTML:
+ * - schema.org JSON-LD (Organization, LocalBusiness and friends):
+ *   name, logo, founding date, address, email, phone, sameAs
+ * - Open Graph tags (og:site_name, og:image)
+ * - Icons (<link rel="icon">, apple-touch-icon) and <img> logos
+ * - mailto: / tel: links and <address> blocks
+ *
+ * JSON-LD wins where both say something. Each page gives a partial
+ * result; the crawler merges them (home page first) with mergeMetadata.
+ */
+
+import type { SiteMetadata } from '../types'
+import { extractTextFromHtml } from './scraper'
+
+// ============================================
+// 📋 CONSTANTS
+// ============================================
+
+/** schema.org types that describe the business itself */
+const ORGANIZATION_TYPE = /(Organization|Business|Corporation|Store|Restaurant|Service|Establishment|NGO)$/
+
+/** Types that are never the business, even with a logo */
+const NON_ORGANIZATION_TYPE = /^(WebSite|WebPage|BreadcrumbList|Person|ImageObject|Article|BlogPosting|Product|Offer)$/
+
+/** How deep to look into nested JSON-LD (publisher, author, ...) */
+const MAX_JSON_LD_DEPTH = 5
+
+/** Longest <address> text we treat as an address */
+const MAX_ADDRESS_LENGTH = 200
+
+type JsonLdNode = Record<string, unknown>
+
+// ============================================
+// 🛠️ HELPERS
+// ============================================
+
+/**
+ * Metadata with nothing found
+ */
+export function emptyMetadata(): SiteMetadata {
+  return {
+    name: null,
+    logoUrl: null,
+    faviconUrl: null,
+    ogImageUrl: null,
+    email: null,
+    phone: null,
+    address: null,
+    location: null,
+    foundedYear: null,
+    sameAs: [],
+  }
+}
+
+/**
+ * Resolve a URL against the page, http(s) only
+ */
+function resolveUrl(value: string | null | undefined, pageUrl: string): string | null {
+  if (!value?.trim()) return null
+  try {
+    const url = new URL(value.trim(), pageUrl)
+    return /^https?:$/.test(url.protocol) ? url.href : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Attributes of an HTML tag, lowercased names
+ */
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const match of Array.from(tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g))) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? ''
+  }
+  return attributes
+}
+
+/**
+ * First string in a JSON-LD value (string or array of strings)
+ */
+function firstString(value: unknown): string | null {
+  if (typeof value === 'string') return value.trim() || null
+  if (Array.isArray(value)) return value.map(firstString).find(Boolean) ?? null
+  return null
+}
+
+/**
+ * URL from a JSON-LD image value (URL, ImageObject or an array of either)
+ */
+function imageValue(value: unknown): string | null {
+  if (Array.isArray(value)) return value.map(imageValue).find(Boolean) ?? null
+  if (value && typeof value === 'object') {
+    const image = value as JsonLdNode
+    return firstString(image.url) ?? firstString(image.contentUrl)
+  }
+  return firstString(value)
+}
+
+/**
+ * A year from a date-ish value ("2019", "2019-04-01"), within the
+ * range year_founded accepts
+ */
+function parseYear(value: unknown): number | null {
+  const match = firstString(value)?.match(/\b(1[89]\d{2}|2\d{3})\b/)
+  if (!match) return null
+
+  const year = Number(match[1])
+  return year >= 1800 && year <= new Date().getFullYear() + 1 ? year : null
+}
+
+/**
+ * The types of a JSON-LD node
+ */
+function nodeTypes(node: JsonLdNode): string[] {
+  const type = node['@type']
+  return (Array.isArray(type) ? type : [type]).filter((t): t is string => typeof t === 'string')
+}
+
+/**
+ * Every object in a JSON-LD document that has a @type
+ */
+function collectNodes(value: unknown, nodes: JsonLdNode[] = [], depth = 0): JsonLdNode[] {
+  if (depth > MAX_JSON_LD_DEPTH || !value || typeof value !== 'object') return nodes
+
+  if (Array.isArray(value)) {
+    value.forEach(item => collectNodes(item, nodes, depth + 1))
+    return nodes
+  }
+
+  const node = value as JsonLdNode
+  if (node['@type']) nodes.push(node)
+  Object.values(node).forEach(child => collectNodes(child, nodes, depth + 1))
+  return nodes
+}
+
+/**
+ * The JSON-LD node that best describes the business
+ * Organization-like types first; otherwise anything (but a page,
+ * person or product) with a logo, address or founding date.
+ */
+function findOrganization(html: string): JsonLdNode | null {
+  const nodes: JsonLdNode[] = []
+
+  for (const match of Array.from(html.matchAll(/<script\b[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi))) {
+    try {
+      collectNodes(JSON.parse(match[1].trim()), nodes)
+    } catch {
+      // Broken JSON-LD is common - skip it
+    }
+  }
+
+  const typed = nodes.find(node => nodeTypes(node).some(type => ORGANIZATION_TYPE.test(type)))
+  if (typed) return typed
+
+  return nodes.find(node =>
+    !nodeTypes(node).some(type => NON_ORGANIZATION_TYPE.test(type)) &&
+    (node.logo || node.address || node.foundingDate)
+  ) ?? null
+}
+
+/**
+ * Postal address on one line, plus "City, Region" for the location
+ */
+function parseAddress(value: unknown): { address: string | null; location: string | null } {
+  if (Array.isArray(value)) return parseAddress(value[0])
+
+  if (typeof value === 'string') {
+    return { address: value.trim() || null, location: null }
+  }
+
+  if (!value || typeof value !== 'object') {
+    return { address: null, location: null }
+  }
+
+  const postal = value as JsonLdNode
+  // addressCountry is a name, a code or a Country node
+  const countryValue = postal.addressCountry
+  const country = firstString(countryValue) ??
+    (countryValue && typeof countryValue === 'object' ? firstString((countryValue as JsonLdNode).name) : null)
+  const locality = firstString(postal.addressLocality)
+  const region = firstString(postal.addressRegion)
+
+  const address = [firstString(postal.streetAddress), locality, region, firstString(postal.postalCode), country]
+    .filter(Boolean)
+    .join(', ')
+  const location = locality ? [locality, region ?? country].filter(Boolean).join(', ') : null
+
+  return { address: address || null, location }
+}
+
+// ============================================
+// 🏷️ MAIN EXTRACTOR
+// ============================================
+
+/**
+ * Extract structured metadata from one page
+ *
+ * @param html - The page's HTML
+ * @param pageUrl - The page's URL (relative links resolve against it)
+ */
+export function extractMetadata(html: string, pageUrl: string): SiteMetadata {
+  const metadata = emptyMetadata()
+
+  // 1️⃣ JSON-LD
+  const organization = findOrganization(html)
+  if (organization) {
+    const { address, location } = parseAddress(organization.address ?? (organization.location as JsonLdNode | undefined)?.address)
+
+    metadata.name = firstString(organization.name)
+    metadata.logoUrl = resolveUrl(imageValue(organization.logo), pageUrl)
+    metadata.email = firstString(organization.email)?.replace(/^mailto:/i, '') ?? null
+    metadata.phone = firstString(organization.telephone)
+    metadata.address = address
+    metadata.location = location
+    metadata.foundedYear = parseYear(organization.foundingDate)
+
+    const sameAs = organization.sameAs
+    metadata.sameAs = (Array.isArray(sameAs) ? sameAs : [sameAs])
+      .map(url => (typeof url === 'string' ? resolveUrl(url, pageUrl) : null))
+      .filter((url): url is string => !!url)
+  }
+
+  // 2️⃣ Open Graph
+  for (const tag of Array.from(html.matchAll(/<meta\b[^>]*>/gi))) {
+    const attributes = parseAttributes(tag[0])
+    const key = (attributes.property ?? attributes.name ?? '').toLowerCase()
+
+    if (key === 'og:site_name') metadata.name = metadata.name ?? (attributes.content?.trim() || null)
+    if (key === 'og:image') metadata.ogImageUrl = metadata.ogImageUrl ?? resolveUrl(attributes.content, pageUrl)
+  }
+
+  // 3️⃣ Icons - apple-touch-icon is big enough to stand in for a logo
+  let touchIcon: string | null = null
+  for (const tag of Array.from(html.matchAll(/<link\b[^>]*>/gi))) {
+    const attributes = parseAttributes(tag[0])
+    const rel = (attributes.rel ?? '').toLowerCase().split(/\s+/)
+
+    if (rel.includes('apple-touch-icon')) touchIcon = touchIcon ?? resolveUrl(attributes.href, pageUrl)
+    if (rel.includes('icon')) metadata.faviconUrl = metadata.faviconUrl ?? resolveUrl(attributes.href, pageUrl)
+  }
+
+  // 4️⃣ Logo image - an <img> that calls itself a logo
+  if (!metadata.logoUrl) {
+    for (const tag of Array.from(html.matchAll(/<img\b[^>]*>/gi))) {
+      const attributes = parseAttributes(tag[0])
+      const hint = [attributes.class, attributes.id, attributes.alt, attributes.src].join(' ')
+
+      if (/logo/i.test(hint)) {
+        metadata.logoUrl = resolveUrl(attributes.src, pageUrl)
+        if (metadata.logoUrl) break
+      }
+    }
+  }
+  metadata.logoUrl = metadata.logoUrl ?? touchIcon
+
+  // 5️⃣ Contact links
+  if (!metadata.email) {
+    const mailto = html.match(/href=["']mailto:([^"'?]+)/i)?.[1]
+    const email = mailto ? decodeURIComponent(mailto).trim() : null
+    metadata.email = email && /^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email) ? email : null
+  }
+
+  if (!metadata.phone) {
+    const tel = html.match(/href=["']tel:([^"']+)/i)?.[1]
+    metadata.phone = tel ? decodeURIComponent(tel).trim() || null : null
+  }
+
+  // 6️⃣ <address> block
+  if (!metadata.address) {
+    const block = html.match(/<address\b[^>]*>([\s\S]*?)<\/address>/i)?.[1]
+    const text = block ? extractTextFromHtml(block) : ''
+    metadata.address = text && text.length <= MAX_ADDRESS_LENGTH ? text : null
+  }
+
+  return metadata
+}
+
+/**
+ * Fill the gaps in one page's metadata from another's
+ * (the first page's values win)
+ */
+export function mergeMetadata(into: SiteMetadata, from: SiteMetadata): SiteMetadata {
+  const merged = { ...into }
+
+  for (const key of Object.keys(from) as Array<keyof SiteMetadata>) {
+    if (key === 'sameAs') continue
+    if (merged[key] == null && from[key] != null) {
+      (merged as Record<string, unknown>)[key] = from[key]
+    }
+  }
+
+  merged.sameAs = Array.from(new Set([...into.sameAs, ...from.sameAs]))
+  return merged
+}
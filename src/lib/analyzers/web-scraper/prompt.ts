@@ -4,7 +4,8 @@
  * Phase 1 prompt for the web scraper analyzer.
  *
  * This prompt asks GPT to analyze the scraped website content
- * and infer useful information about the business.
+ * (one labeled section per crawled page) and infer useful
+ * information about the business.
  *
  * The AI should:
  * - Identify the main tagline/value proposition
@@ -14,6 +15,7 @@
  */
 
 import type { ScrapedData } from '../types'
+import { PAGE_LABEL_NAMES } from './crawler'
 
 /**
  * Build the Phase 1 analysis prompt
@@ -50,16 +52,45 @@ ${socialUrls.map(([platform, url]) => `- ${platform}: ${url}`).join('\n')}
 `
   }
 
+  // Structured details the site publishes about itself, plus its
+  // colors and fonts (they say something about the personality)
+  const { metadata, visualIdentity } = scrapedData
+  const details = [
+    metadata.name && `- Name: ${metadata.name}`,
+    metadata.location && `- Location: ${metadata.location}`,
+    metadata.foundedYear && `- Founded: ${metadata.foundedYear}`,
+    visualIdentity.colors.length > 0 && `- Brand colors: ${visualIdentity.colors.map(c => c.hex).join(', ')}`,
+    visualIdentity.fonts.length > 0 && `- Fonts: ${visualIdentity.fonts.map(f => `${f.family} (${f.role})`).join(', ')}`,
+  ].filter(Boolean)
+
+  let metadataSection = ''
+  if (details.length > 0) {
+    metadataSection = `
+Structured Details (from the site's own markup and CSS):
+${details.join('\n')}
+`
+  }
+
+  // List the pages the content came from
+  let pagesSection = ''
+  if (scrapedData.pages.length > 1) {
+    pagesSection = `
+Pages Read:
+${scrapedData.pages.map(page => `- ${PAGE_LABEL_NAMES[page.label]}: ${page.url}`).join('\n')}
+`
+  }
+
   return `You are a business analyst helping to understand a company based on their website.
 
 Analyze the following website content and extract insights about this business.
+The content is split into one section per page, headed with the page type and path.
 ${existingContext}
 ---
 
 **Website URL:** ${scrapedData.url}
 **Page Title:** ${scrapedData.title || 'Not found'}
 **Meta Description:** ${scrapedData.description || 'Not found'}
-${socialSection}
+${socialSection}${metadataSection}${pagesSection}
 ---
 
 **Website Content:**
@@ -85,7 +116,10 @@ Based on this website content, please provide:
 5. **Brand Personality**
    What vibe does the website give off? Professional, playful, luxury, accessible, technical, etc.
 
-6. **Key Observations**
+6. **In Their Words**
+   Finish these the way the owner would say it: "We help ___ by ___."
+
+7. **Key Observations**
    Any other interesting observations about this business based on their website.
 
 Be specific and use actual text from the website where possible. If something isn't clear from the content, say so.`
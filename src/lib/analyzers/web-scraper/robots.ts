@@ -0,0 +1,117 @@
+/**
+ * 🤖 ROBOTS.TXT RULES
+ * ===================
+ * Parses robots.txt and answers "may this user agent read this path?"
+ * following RFC 9309:
+ * - The groups naming our product token apply; otherwise the "*" groups
+ * - The longest matching rule wins, Allow wins a tie
+ * - "*" matches any run of characters, a trailing "$" anchors the end
+ * - No matching rule means allowed
+ *
+ * Fetching and caching live in ./safe-fetch.ts - this file is pure.
+ */
+
+// ============================================
+// 📋 TYPES
+// ============================================
+
+export interface RobotsRule {
+  allow: boolean
+  /** Path pattern, may contain * and a trailing $ */
+  path: string
+}
+
+/** Everything allowed (no robots.txt, or a 4xx for it) */
+export const ALLOW_ALL: RobotsRule[] = []
+
+/** Nothing allowed (robots.txt answered with a 5xx) */
+export const DISALLOW_ALL: RobotsRule[] = [{ allow: false, path: '/' }]
+
+// ============================================
+// 🛠️ PARSING
+// ============================================
+
+/**
+ * Rules from a robots.txt that apply to a user agent
+ *
+ * @param text - The robots.txt body
+ * @param productToken - Our crawler's name, e.g. "FoundationBot"
+ */
+export function parseRobots(text: string, productToken: string): RobotsRule[] {
+  const token = productToken.toLowerCase()
+  const ours: RobotsRule[] = []
+  const everyone: RobotsRule[] = []
+  let foundOurs = false
+
+  // Current group state
+  let agents: string[] = []
+  let inRules = false
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    const separator = line.indexOf(':')
+    if (separator === -1) continue
+
+    const key = line.slice(0, separator).trim().toLowerCase()
+    const value = line.slice(separator + 1).trim()
+
+    if (key === 'user-agent') {
+      // A user-agent line after rules starts a new group
+      if (inRules) {
+        agents = []
+        inRules = false
+      }
+      agents.push(value.toLowerCase())
+      if (value.toLowerCase() === token) foundOurs = true
+      continue
+    }
+
+    if (key !== 'allow' && key !== 'disallow') continue
+    inRules = true
+
+    // An empty Disallow allows everything - same as no rule
+    if (!value) continue
+
+    const rule = { allow: key === 'allow', path: value }
+    if (agents.includes(token)) ours.push(rule)
+    if (agents.includes('*')) everyone.push(rule)
+  }
+
+  return foundOurs ? ours : everyone
+}
+
+/**
+ * Whether a path (with its query string) may be fetched
+ */
+export function isPathAllowed(rules: RobotsRule[], path: string): boolean {
+  let best: RobotsRule | null = null
+
+  for (const rule of rules) {
+    if (!matchesPattern(rule.path, path)) continue
+
+    if (
+      !best ||
+      rule.path.length > best.path.length ||
+      (rule.path.length === best.path.length && rule.allow)
+    ) {
+      best = rule
+    }
+  }
+
+  return best ? best.allow : true
+}
+
+/**
+ * Match a robots.txt path pattern against the start of a path
+ */
+function matchesPattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$')
+  const body = anchored ? pattern.slice(0, -1) : pattern
+
+  const regex = body
+    .split('*')
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+
+  return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(path)
+}
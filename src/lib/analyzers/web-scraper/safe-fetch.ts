@@ -0,0 +1,430 @@
+/**
+ * 🛡️ SAFE FETCH
+ * =============
+ * The scraper's only way onto the network.
+ *
+ * The URLs we fetch come from users, and the requests leave from our
+ * servers - so nothing may reach cloud metadata (169.254.169.254),
+ * localhost or anything else on the internal network. Every request:
+ * - Must be http(s), without credentials in the URL
+ * - Must resolve to public addresses only. The check runs inside the
+ *   socket's DNS lookup, so the address we check is the one we connect to
+ * - Follows at most MAX_REDIRECTS redirects, each hop checked again
+ * - Must be allowed by the site's robots.txt for FoundationBot
+ * - Must have an expected Content-Type and stay under the body limit
+ *
+ * Anything refused throws a FetchRefusedError whose message is safe to
+ * show users (it ends up in analyzer_runs.error_message). Network
+ * errors, timeouts and bad statuses throw plain Errors.
+ */
+
+import http from 'http'
+import https from 'https'
+import zlib from 'zlib'
+import { lookup as dnsLookup } from 'dns'
+import { BlockList, isIP } from 'net'
+import type { LookupFunction } from 'net'
+import type { IncomingMessage } from 'http'
+import type { Readable } from 'stream'
+import { log } from '@/lib/utils/logger'
+import { ALLOW_ALL, DISALLOW_ALL, isPathAllowed, parseRobots } from './robots'
+import type { RobotsRule } from './robots'
+
+// ============================================
+// 📋 CONSTANTS
+// ============================================
+
+/** Product token robots.txt groups are matched against */
+export const ROBOTS_USER_AGENT = 'FoundationBot'
+
+/** User agent to use for requests */
+const USER_AGENT = `Mozilla/5.0 (compatible; ${ROBOTS_USER_AGENT}/1.0; +https://foundation.app)`
+
+/** Request timeout in ms (covers every redirect hop) */
+const FETCH_TIMEOUT = 15000
+
+/** Redirects followed before giving up */
+const MAX_REDIRECTS = 5
+
+/** Largest body we read, after decompression (bytes) */
+const MAX_BODY_BYTES = 5 * 1024 * 1024
+
+/** Largest robots.txt we read (bytes) */
+const MAX_ROBOTS_BYTES = 500 * 1024
+
+/** How long a site's robots.txt is trusted (ms) */
+const ROBOTS_TTL = 60 * 60 * 1000
+
+/** Sites whose robots.txt we keep */
+const MAX_ROBOTS_CACHE = 200
+
+/** Content types for pages */
+export const HTML_TYPES = ['text/html', 'application/xhtml+xml']
+
+/** Content types for sitemaps */
+export const XML_TYPES = ['application/xml', 'text/xml', 'text/plain']
+
+/** Content types for stylesheets */
+export const CSS_TYPES = ['text/css', 'text/plain']
+
+/**
+ * Addresses we never connect to: "this network", private, carrier NAT,
+ * loopback, link-local (cloud metadata), documentation, benchmarking,
+ * multicast and reserved ranges. IPv4-mapped IPv6 addresses match the
+ * IPv4 ranges too; the deprecated IPv4-compatible ones (::127.0.0.1)
+ * are blocked outright.
+ */
+const BLOCKED_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24],
+  ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24],
+  ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['::', 96], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+// ============================================
+// 📋 TYPES
+// ============================================
+
+/**
+ * A fetch we won't make, and why
+ */
+export class FetchRefusedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FetchRefusedError'
+  }
+}
+
+export interface SafeFetchOptions {
+  /** Accept header (defaults to HTML) */
+  accept?: string
+  /** Content types to accept (defaults to HTML_TYPES, [] for any); a missing Content-Type passes */
+  allowedTypes?: string[]
+  /** Give up sooner than FETCH_TIMEOUT */
+  timeoutMs?: number
+  /** Body limit in bytes (defaults to MAX_BODY_BYTES) */
+  maxBytes?: number
+  /** Check robots.txt first (default true) */
+  checkRobots?: boolean
+  /** Allow private and loopback addresses - only for local fixtures */
+  allowPrivateNetwork?: boolean
+}
+
+/**
+ * A fetched page (or sitemap)
+ */
+export interface FetchedResource {
+  /** Final URL after redirects */
+  url: string
+  status: number
+  contentType: string
+  body: string
+}
+
+// ============================================
+// 🛠️ ADDRESS CHECKS
+// ============================================
+
+/**
+ * Whether an IP address is off limits
+ */
+export function isBlockedAddress(address: string): boolean {
+  return BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4')
+}
+
+/**
+ * DNS lookup that fails when any address a hostname resolves to is
+ * blocked. Used as the socket's lookup, so it runs on every connection.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '')
+      return
+    }
+
+    const blocked = addresses.find(entry => isBlockedAddress(entry.address))
+    if (blocked) {
+      callback(new FetchRefusedError(`${hostname} resolves to a private address (${blocked.address})`), '')
+      return
+    }
+
+    if (options.all) {
+      callback(null, addresses)
+    } else {
+      callback(null, addresses[0].address, addresses[0].family)
+    }
+  })
+}
+
+/**
+ * Parse a URL and refuse anything we won't fetch before DNS is involved
+ * (IP literals skip the lookup, so they're checked here)
+ */
+function checkUrl(url: string, options: SafeFetchOptions): URL {
+  let target: URL
+  try {
+    target = new URL(url)
+  } catch {
+    throw new FetchRefusedError(`Not a valid URL: ${url}`)
+  }
+
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    throw new FetchRefusedError(`Only http and https URLs can be fetched (got ${target.protocol})`)
+  }
+
+  if (target.username || target.password) {
+    throw new FetchRefusedError('URLs with a username or password are not fetched')
+  }
+
+  const host = target.hostname.replace(/^\[|\]$/g, '')
+  if (!options.allowPrivateNetwork && isIP(host) && isBlockedAddress(host)) {
+    throw new FetchRefusedError(`${host} is a private address`)
+  }
+
+  return target
+}
+
+// ============================================
+// 🌐 REQUESTS
+// ============================================
+
+/**
+ * Decompress a response body if needed
+ */
+function decodedStream(response: IncomingMessage): Readable {
+  switch (response.headers['content-encoding']) {
+    case 'gzip':
+    case 'x-gzip':
+      return response.pipe(zlib.createGunzip())
+    case 'deflate':
+      return response.pipe(zlib.createInflate())
+    case 'br':
+      return response.pipe(zlib.createBrotliDecompress())
+    default:
+      return response
+  }
+}
+
+/**
+ * Text from a body, in the charset the Content-Type names
+ */
+function decodeBody(body: Buffer, contentType: string): string {
+  const charset = contentType.match(/charset=["']?([\w-]+)/i)?.[1] ?? 'utf-8'
+  try {
+    return new TextDecoder(charset).decode(body)
+  } catch {
+    return new TextDecoder('utf-8').decode(body)
+  }
+}
+
+/**
+ * One HTTP request, no redirects followed.
+ * Redirects and error statuses come back without a body.
+ */
+function request(
+  target: URL,
+  options: SafeFetchOptions,
+  signal: AbortSignal
+): Promise<FetchedResource & { location?: string }> {
+  const client = target.protocol === 'https:' ? https : http
+  const maxBytes = options.maxBytes ?? MAX_BODY_BYTES
+  const allowedTypes = options.allowedTypes ?? HTML_TYPES
+
+  return new Promise((resolve, reject) => {
+    const req = client.request(target, {
+      headers: {
+        'User-Agent': USER_AGENT,
+        'Accept': options.accept ?? 'text/html,application/xhtml+xml',
+        'Accept-Language': 'en-US,en;q=0.9',
+        'Accept-Encoding': 'gzip, deflate, br',
+      },
+      lookup: options.allowPrivateNetwork ? undefined : publicLookup,
+      signal,
+    }, response => {
+      const status = response.statusCode ?? 0
+      const contentType = response.headers['content-type'] ?? ''
+      const base = { url: target.href, status, contentType, body: '' }
+
+      // Redirects and errors - the caller only needs the status
+      if (status < 200 || status >= 300) {
+        response.resume()
+        resolve({ ...base, location: response.headers.location })
+        return
+      }
+
+      const mediaType = contentType.split(';')[0].trim().toLowerCase()
+      if (mediaType && allowedTypes.length > 0 && !allowedTypes.some(type => mediaType.startsWith(type))) {
+        response.destroy()
+        reject(new FetchRefusedError(`${target.href} is ${mediaType}, not ${allowedTypes.join(' or ')}`))
+        return
+      }
+
+      const declaredLength = Number(response.headers['content-length'])
+      if (declaredLength > maxBytes) {
+        response.destroy()
+        reject(new FetchRefusedError(`${target.href} is larger than ${Math.round(maxBytes / 1024)} KB`))
+        return
+      }
+
+      // Count decompressed bytes, so a small gzip can't expand past the limit
+      const stream = decodedStream(response)
+      const chunks: Buffer[] = []
+      let size = 0
+
+      stream.on('data', (chunk: Buffer) => {
+        size += chunk.length
+        if (size > maxBytes) {
+          response.destroy()
+          stream.destroy()
+          reject(new FetchRefusedError(`${target.href} is larger than ${Math.round(maxBytes / 1024)} KB`))
+          return
+        }
+        chunks.push(chunk)
+      })
+      stream.on('end', () => resolve({ ...base, body: decodeBody(Buffer.concat(chunks), contentType) }))
+      stream.on('error', reject)
+    })
+
+    req.on('error', reject)
+    req.end()
+  })
+}
+
+/**
+ * Request a URL, following redirects and checking every hop
+ */
+async function requestFollowingRedirects(
+  url: string,
+  options: SafeFetchOptions,
+  signal: AbortSignal
+): Promise<FetchedResource> {
+  let current = url
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const target = checkUrl(current, options)
+
+    if (options.checkRobots !== false && !(await isAllowedByRobots(target, options, signal))) {
+      throw new FetchRefusedError(
+        `robots.txt on ${target.host} doesn't allow ${ROBOTS_USER_AGENT} to read ${target.pathname}`
+      )
+    }
+
+    const response = await request(target, options, signal)
+    if (response.status >= 300 && response.status < 400 && response.location) {
+      current = new URL(response.location, target).href
+      log.debug('🛡️ Following redirect', { from: target.href, to: current })
+      continue
+    }
+
+    return {
+      url: response.url,
+      status: response.status,
+      contentType: response.contentType,
+      body: response.body,
+    }
+  }
+
+  throw new FetchRefusedError(`${url} redirects more than ${MAX_REDIRECTS} times`)
+}
+
+// ============================================
+// 🤖 ROBOTS.TXT
+// ============================================
+
+const robotsCache = new Map<string, { rules: RobotsRule[]; expiresAt: number }>()
+
+/**
+ * A site's robots.txt rules for us, cached per origin
+ * 4xx means no rules; 5xx means stay out (RFC 9309). If robots.txt
+ * can't be reached at all, the fetch fails like any network error.
+ */
+async function getRobotsRules(
+  origin: string,
+  options: SafeFetchOptions,
+  signal: AbortSignal
+): Promise<RobotsRule[]> {
+  const cached = robotsCache.get(origin)
+  if (cached && cached.expiresAt > Date.now()) return cached.rules
+
+  const response = await requestFollowingRedirects(`${origin}/robots.txt`, {
+    ...options,
+    accept: 'text/plain',
+    // Some sites answer with an HTML page - it just has no rules
+    allowedTypes: [],
+    maxBytes: MAX_ROBOTS_BYTES,
+    checkRobots: false,
+  }, signal)
+
+  const rules = response.status >= 500
+    ? DISALLOW_ALL
+    : response.status >= 400
+      ? ALLOW_ALL
+      : parseRobots(response.body, ROBOTS_USER_AGENT)
+
+  // Keep the cache bounded - oldest site out first
+  if (robotsCache.size >= MAX_ROBOTS_CACHE) {
+    robotsCache.delete(robotsCache.keys().next().value as string)
+  }
+  robotsCache.set(origin, { rules, expiresAt: Date.now() + ROBOTS_TTL })
+
+  log.debug('🤖 Read robots.txt', { origin, status: response.status, rules: rules.length })
+  return rules
+}
+
+/**
+ * Whether robots.txt lets us fetch a URL
+ */
+async function isAllowedByRobots(
+  target: URL,
+  options: SafeFetchOptions,
+  signal: AbortSignal
+): Promise<boolean> {
+  if (target.pathname === '/robots.txt') return true
+
+  const rules = await getRobotsRules(target.origin, options, signal)
+  return isPathAllowed(rules, `${target.pathname}${target.search}`)
+}
+
+// ============================================
+// 🛡️ MAIN FETCH FUNCTION
+// ============================================
+
+/**
+ * Fetch a user-supplied URL safely
+ * Throws FetchRefusedError for refused fetches, Error for failed ones.
+ *
+ * @param url - The URL to fetch
+ * @param options - Content types, limits and timeout
+ * @returns The final URL, content type and decoded body
+ */
+export async function safeFetch(url: string, options: SafeFetchOptions = {}): Promise<FetchedResource> {
+  const timeout = Math.min(FETCH_TIMEOUT, options.timeoutMs ?? FETCH_TIMEOUT)
+  const signal = AbortSignal.timeout(timeout)
+
+  try {
+    log.debug('🛡️ Fetching URL...', { url })
+    const response = await requestFollowingRedirects(url, options, signal)
+
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`HTTP ${response.status}`)
+    }
+
+    log.debug('🛡️ Received response', { url: response.url, length: response.body.length })
+    return response
+  } catch (error) {
+    if (signal.aborted && !(error instanceof FetchRefusedError)) {
+      throw new Error(`Timed out after ${timeout}ms`)
+    }
+    throw error
+  }
+}
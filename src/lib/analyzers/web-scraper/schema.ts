@@ -7,7 +7,9 @@
  * GPT takes the Phase 1 analysis and extracts specific fields.
  */
 
-import type { WebScraperParsedOutput } from '../types'
+import type { BusinessProject, ScrapeSuggestions, VisualIdentity } from '@/lib/types'
+import { BRAND_WORDS, CUSTOMER_WORDS, MAX_WORD_SELECTIONS } from '@/lib/config/onboarding'
+import type { SiteMetadata, WebScraperParsedOutput } from '../types'
 
 /**
  * OpenAI function calling schema for Phase 2 parsing
@@ -41,6 +43,24 @@ export const PHASE2_SCHEMA = {
           type: 'string',
           description: 'Brand personality traits observed (professional, playful, luxury, etc.)',
         },
+        coreOffering: {
+          type: 'string',
+          description: 'What they do for their customers, as a short lowercase phrase that finishes "we help [customers] by ___" (e.g., "delivering plant-based meal kits").',
+        },
+        customerDescription: {
+          type: 'string',
+          description: 'Who they serve, as a short lowercase phrase that finishes "we help ___" (e.g., "busy parents of young kids").',
+        },
+        brandWords: {
+          type: 'array',
+          items: { type: 'string', enum: BRAND_WORDS },
+          description: `Up to ${MAX_WORD_SELECTIONS} words from the list that fit the brand personality the site shows`,
+        },
+        customerWords: {
+          type: 'array',
+          items: { type: 'string', enum: CUSTOMER_WORDS },
+          description: `Up to ${MAX_WORD_SELECTIONS} words from the list that describe their target customer`,
+        },
         confidence: {
           type: 'number',
           description: 'Confidence level in the analysis from 0 to 1 (1 = very confident)',
@@ -60,16 +80,43 @@ export interface RawParsedOutput {
   industry?: string
   targetCustomer?: string
   brandPersonality?: string
+  coreOffering?: string
+  customerDescription?: string
+  brandWords?: string[]
+  customerWords?: string[]
   confidence?: number
 }
 
 /**
- * Transform the raw GPT output plus scraped social data
- * into our final WebScraperParsedOutput format
+ * Onboarding suggestions from the raw output
+ * Word picks are kept only if they're in the bank; the offering falls
+ * back to the services found.
+ */
+function buildSuggestions(rawOutput: RawParsedOutput): ScrapeSuggestions {
+  const pick = (words: string[] | undefined, bank: string[]) =>
+    Array.from(new Set((words || []).filter(word => bank.includes(word)))).slice(0, MAX_WORD_SELECTIONS)
+
+  const services = (rawOutput.services || []).slice(0, 3)
+
+  return {
+    coreOffering: rawOutput.coreOffering?.trim() ||
+      (services.length > 0 ? services.join(', ').toLowerCase() : null),
+    customerDescription: rawOutput.customerDescription?.trim() || null,
+    brandWords: pick(rawOutput.brandWords, BRAND_WORDS),
+    customerWords: pick(rawOutput.customerWords, CUSTOMER_WORDS),
+  }
+}
+
+/**
+ * Transform the raw GPT output plus scraped social data, site
+ * metadata and visual identity into our final WebScraperParsedOutput
+ * format
  */
 export function transformParsedOutput(
   rawOutput: RawParsedOutput,
-  socialUrls: Record<string, string | undefined>
+  socialUrls: Record<string, string | undefined>,
+  metadata: SiteMetadata,
+  visualIdentity: VisualIdentity
 ): WebScraperParsedOutput {
   // Extract handles from URLs
   const extractHandle = (url: string | undefined, platform: string): string | null => {
@@ -109,16 +156,30 @@ export function transformParsedOutput(
     tiktokHandle: extractHandle(socialUrls.tiktok, 'tiktok'),
     youtubeUrl: socialUrls.youtube || null,
     linkedinUrl: socialUrls.linkedin || null,
+    logoUrl: metadata.logoUrl,
+    contactEmail: metadata.email,
+    contactPhone: metadata.phone,
+    businessAddress: metadata.address,
+    location: metadata.location,
+    foundedYear: metadata.foundedYear,
+    visualIdentity: visualIdentity.colors.length > 0 || visualIdentity.fonts.length > 0
+      ? visualIdentity
+      : null,
+    suggestions: buildSuggestions(rawOutput),
     confidence: rawOutput.confidence ?? 0.5,
   }
 }
 
 /**
  * Fields to update in the business_projects table
+ * Site metadata and the visual identity are only written when found,
+ * and the
+ * profile answers (location, founding year) only when still empty.
  */
 export function getFieldsToUpdate(
   parsed: WebScraperParsedOutput,
-  rawContent: string
+  rawContent: string,
+  project: BusinessProject
 ): Record<string, unknown> {
   return {
     // Scraped content fields
@@ -127,6 +188,7 @@ export function getFieldsToUpdate(
     scraped_industry: parsed.industry,
     scraped_content: rawContent.slice(0, 5000), // Truncate for storage
     scrape_confidence: parsed.confidence,
+    scrape_suggestions: parsed.suggestions,
     scraped_at: new Date().toISOString(),
 
     // Social URLs as JSONB
@@ -138,7 +200,18 @@ export function getFieldsToUpdate(
     facebook_url: parsed.facebookUrl,
     tiktok_handle: parsed.tiktokHandle,
     youtube_url: parsed.youtubeUrl,
-    // Note: linkedin_url already exists, only update if we found one and it's different
+    // Only if we found one - the write policy keeps a LinkedIn URL the user typed
     ...(parsed.linkedinUrl && { linkedin_url: parsed.linkedinUrl }),
+
+    // Site metadata
+    ...(parsed.logoUrl && { logo_url: parsed.logoUrl }),
+    ...(parsed.contactEmail && { contact_email: parsed.contactEmail }),
+    ...(parsed.contactPhone && { contact_phone: parsed.contactPhone }),
+    ...(parsed.businessAddress && { business_address: parsed.businessAddress }),
+    ...(parsed.visualIdentity && { visual_identity: parsed.visualIdentity }),
+
+    // Saves typing them in the Mad Libs - never overwrites an answer
+    ...(parsed.location && !project.brand_location && { brand_location: parsed.location }),
+    ...(parsed.foundedYear && !project.year_founded && { year_founded: parsed.foundedYear }),
   }
 }
@@ -1,13 +1,15 @@
 /**
  * 🌐 WEB SCRAPER UTILITY
  * ======================
- * Fetches and extracts content from a website URL.
+ * Extracts content from a page's HTML.
  *
  * This is a lightweight scraper that:
- * 1. Fetches the HTML from the URL
- * 2. Extracts text content (strips HTML tags)
- * 3. Finds social media links
- * 4. Extracts meta information
+ * 1. Extracts text content (strips HTML tags)
+ * 2. Finds social media links
+ * 3. Extracts meta information and same-origin links
+ *
+ * Fetching goes through ./safe-fetch.ts; the crawler (./crawler.ts)
+ * uses both to read several pages of a site.
  *
  * For production, you might want to use a service like:
  * - Firecrawl (https://firecrawl.dev)
@@ -18,20 +20,7 @@
  */
 
 import { log } from '@/lib/utils/logger'
-import type { ScrapedData, SocialUrls } from '../types'
-
-// ============================================
-// 📋 CONSTANTS
-// ============================================
-
-/** Maximum content length to extract (chars) */
-const MAX_CONTENT_LENGTH = 10000
-
-/** Request timeout in ms */
-const FETCH_TIMEOUT = 15000
-
-/** User agent to use for requests */
-const USER_AGENT = 'Mozilla/5.0 (compatible; FoundationBot/1.0; +https://foundation.app)'
+import type { SocialUrls } from '../types'
 
 // ============================================
 // 🔗 SOCIAL MEDIA PATTERNS
@@ -49,6 +38,22 @@ const SOCIAL_PATTERNS: Record<string, RegExp> = {
   youtube: /(?:https?:\/\/)?(?:www\.)?youtube\.com\/(?:@|channel\/|user\/)?([a-zA-Z0-9_-]+)\/?/gi,
 }
 
+// ============================================
+// 📋 TYPES
+// ============================================
+
+/**
+ * A link found on a page
+ */
+export interface PageLink {
+  /** Absolute URL without query or hash */
+  url: string
+  /** The link's visible text */
+  text: string
+  /** Whether the link sits in the page's <nav> or <header> */
+  inNav: boolean
+}
+
 // ============================================
 // 🛠️ HELPER FUNCTIONS
 // ============================================
@@ -71,7 +76,7 @@ export function normalizeUrl(url: string): string {
  * Extract text content from HTML
  * Strips tags and cleans up whitespace
  */
-function extractTextFromHtml(html: string): string {
+export function extractTextFromHtml(html: string): string {
   // Remove script and style tags with their content
   let text = html
     .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
@@ -101,7 +106,7 @@ function extractTextFromHtml(html: string): string {
 /**
  * Extract title from HTML
  */
-function extractTitle(html: string): string | null {
+export function extractTitle(html: string): string | null {
   const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i)
   if (titleMatch) {
     return titleMatch[1].trim()
@@ -112,7 +117,7 @@ function extractTitle(html: string): string | null {
 /**
  * Extract meta description from HTML
  */
-function extractDescription(html: string): string | null {
+export function extractDescription(html: string): string | null {
   // Try standard meta description
   const descMatch = html.match(
     /<meta[^>]*name=["']description["'][^>]*content=["']([^"']+)["']/i
@@ -135,7 +140,7 @@ function extractDescription(html: string): string | null {
 /**
  * Find social media URLs in content
  */
-function findSocialUrls(html: string): SocialUrls {
+export function findSocialUrls(html: string): SocialUrls {
   const socialUrls: SocialUrls = {}
 
   for (const [platform, pattern] of Object.entries(SOCIAL_PATTERNS)) {
@@ -181,87 +186,52 @@ export function extractHandle(url: string, platform: string): string | null {
   return null
 }
 
-// ============================================
-// 🌐 MAIN SCRAPER FUNCTION
-// ============================================
+/**
+ * Host without a leading "www." - www.example.com and example.com
+ * count as the same site
+ */
+export function siteHost(url: string): string {
+  return new URL(url).host.toLowerCase().replace(/^www\./, '')
+}
 
 /**
- * Scrape a website and extract relevant data
- *
- * @param url - The URL to scrape
- * @returns ScrapedData object with extracted content
+ * Find same-origin links on a page
+ * Query strings and hashes are dropped so each page appears once.
  */
-export async function scrapeWebsite(url: string): Promise<ScrapedData> {
-  log.info('🌐 Starting website scrape...', { url })
-
-  const normalizedUrl = normalizeUrl(url)
-
-  try {
-    // Create abort controller for timeout
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT)
-
-    // Fetch the page
-    log.debug('🌐 Fetching URL...', { url: normalizedUrl })
-    const response = await fetch(normalizedUrl, {
-      headers: {
-        'User-Agent': USER_AGENT,
-        'Accept': 'text/html,application/xhtml+xml',
-        'Accept-Language': 'en-US,en;q=0.9',
-      },
-      signal: controller.signal,
-    })
-
-    clearTimeout(timeoutId)
-
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`)
-    }
+export function extractLinks(html: string, pageUrl: string): PageLink[] {
+  const host = siteHost(pageUrl)
+  const links = new Map<string, PageLink>()
+
+  const collect = (source: string, inNav: boolean) => {
+    for (const match of Array.from(source.matchAll(/<a\b[^>]*href=["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi))) {
+      let resolved: URL
+      try {
+        resolved = new URL(match[1].trim(), pageUrl)
+      } catch {
+        continue
+      }
 
-    // Get HTML content
-    const html = await response.text()
-    log.debug('🌐 Received HTML', { length: html.length })
-
-    // Extract data
-    const title = extractTitle(html)
-    const description = extractDescription(html)
-    const textContent = extractTextFromHtml(html)
-    const socialUrls = findSocialUrls(html)
-
-    // Truncate content if too long
-    const truncatedContent = textContent.length > MAX_CONTENT_LENGTH
-      ? textContent.slice(0, MAX_CONTENT_LENGTH) + '...'
-      : textContent
-
-    const result: ScrapedData = {
-      url: normalizedUrl,
-      title,
-      description,
-      content: truncatedContent,
-      socialUrls,
-      success: true,
-    }
+      if (!/^https?:$/.test(resolved.protocol)) continue
+      if (resolved.host.toLowerCase().replace(/^www\./, '') !== host) continue
 
-    log.success('🌐 Website scraped successfully', {
-      title,
-      contentLength: truncatedContent.length,
-      socialsFound: Object.keys(socialUrls).length,
-    })
-
-    return result
-
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error'
-    log.error('🌐 Failed to scrape website', error, { url: normalizedUrl })
-
-    return {
-      url: normalizedUrl,
-      title: null,
-      description: null,
-      content: '',
-      socialUrls: {},
-      success: false,
-      error: message,
+      const url = `${resolved.origin}${resolved.pathname}`
+      const text = extractTextFromHtml(match[2])
+      const existing = links.get(url)
+
+      if (existing) {
+        existing.inNav = existing.inNav || inNav
+        existing.text = existing.text || text
+      } else {
+        links.set(url, { url, text, inNav })
+      }
     }
   }
+
+  // Nav links first, so they keep the nav flag
+  for (const region of Array.from(html.matchAll(/<(nav|header)\b[\s\S]*?<\/\1>/gi))) {
+    collect(region[0], true)
+  }
+  collect(html, false)
+
+  return Array.from(links.values())
 }
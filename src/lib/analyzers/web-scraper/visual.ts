@@ -0,0 +1,416 @@
+/**
+ * 🎨 VISUAL IDENTITY EXTRACTOR
+ * ============================
+ * Works out a brand's colors and fonts from its website's CSS.
+ *
+ * Reads the home page's <style> blocks, style="" attributes and linked
+ * stylesheets, then:
+ * - Colors: every hex / rgb() / hsl() value, weighted by where it's
+ *   used (brand-ish custom properties and theme-color count most,
+ *   backgrounds more than borders). Similar shades are merged, greys
+ *   only make the palette when there aren't enough real colors.
+ * - Fonts: the first real family of each font-family stack, sorted
+ *   into heading and body by the selectors using them. Google Fonts
+ *   links mark which families we can load for the specimens.
+ *
+ * Stylesheets are fetched through the caller's function, so the
+ * crawler's safety checks and time budget apply.
+ */
+
+import type { BrandColor, BrandFont, BrandFontRole, VisualIdentity } from '@/lib/types'
+
+// ============================================
+// 📋 CONSTANTS
+// ============================================
+
+/** Linked stylesheets read per site */
+const MAX_STYLESHEETS = 5
+
+/** Colors in the palette */
+const MAX_COLORS = 6
+
+/** Palette size below which greys are added */
+const MIN_COLORS = 3
+
+/** Fonts in the profile */
+const MAX_FONTS = 4
+
+/** RGB distance under which two colors count as one */
+const MERGE_DISTANCE = 40
+
+/** Weight of <meta name="theme-color"> */
+const THEME_COLOR_WEIGHT = 10
+
+/** Families that aren't a brand choice */
+const GENERIC_FONT = /^(serif|sans-serif|monospace|cursive|fantasy|system-ui|ui-[a-z-]+|-apple-system|blinkmacsystemfont|segoe ui|inherit|initial|unset|revert|emoji|math|apple color emoji|segoe ui emoji|segoe ui symbol|noto color emoji)$/i
+
+/** Icon fonts */
+const ICON_FONT = /(awesome|icon|dashicons|glyph|eicons|swiper)/i
+
+/** Selectors / custom property names that mean headings or body text */
+const HEADING_HINT = /(^|[\s,>+~])h[1-6]\b|head|title|display|hero/i
+const BODY_HINT = /(^|[\s,>+~-])(html|body|p)\b|:root|base|text|copy|sans|serif/i
+
+/** Custom properties that name brand colors */
+const BRAND_COLOR_VARIABLE = /(brand|primary|secondary|accent|theme|main)/i
+
+/** Any CSS color value we understand */
+const COLOR_TOKEN = /#(?:[0-9a-f]{8}|[0-9a-f]{6}|[0-9a-f]{3,4})\b|rgba?\([^)]*\)|hsla?\([^)]*\)/gi
+
+// ============================================
+// 📋 TYPES
+// ============================================
+
+/**
+ * Fetch a stylesheet's text, or null if it can't be read
+ */
+export type FetchStylesheet = (url: string) => Promise<string | null>
+
+interface CssRule {
+  selector: string
+  declarations: Array<[string, string]>
+}
+
+interface Rgba {
+  r: number
+  g: number
+  b: number
+  a: number
+}
+
+// ============================================
+// 🛠️ CSS PARSING
+// ============================================
+
+/**
+ * Flat list of rules - rules inside @media blocks come out as their own
+ */
+function parseRules(css: string): CssRule[] {
+  const rules: CssRule[] = []
+  const clean = css.replace(/\/\*[\s\S]*?\*\//g, '')
+
+  for (const match of Array.from(clean.matchAll(/([^{}]*)\{([^{}]*)\}/g))) {
+    const declarations = match[2]
+      .split(';')
+      .map(declaration => {
+        const colon = declaration.indexOf(':')
+        return colon === -1
+          ? null
+          : [declaration.slice(0, colon).trim().toLowerCase(), declaration.slice(colon + 1).trim()] as [string, string]
+      })
+      .filter((declaration): declaration is [string, string] => !!declaration && !!declaration[1])
+
+    rules.push({ selector: match[1].trim(), declarations })
+  }
+
+  return rules
+}
+
+/**
+ * Replace var(--x) with the custom property's value
+ */
+function resolveVariables(value: string, variables: Map<string, string>, depth = 0): string {
+  if (depth > 3 || !value.includes('var(')) return value
+
+  const resolved = value.replace(/var\(\s*(--[\w-]+)\s*(?:,([^)]*))?\)/g, (_, name: string, fallback?: string) =>
+    variables.get(name) ?? fallback?.trim() ?? ''
+  )
+  return resolveVariables(resolved, variables, depth + 1)
+}
+
+/**
+ * Families loaded from Google Fonts links (css and css2 APIs)
+ */
+function googleFontFamilies(source: string): string[] {
+  const families: string[] = []
+
+  for (const match of Array.from(source.matchAll(/https?:\/\/fonts\.googleapis\.com\/css2?\?[^"')\s]+/gi))) {
+    const params = new URLSearchParams(match[0].split('?')[1].replace(/&amp;/g, '&'))
+    for (const family of params.getAll('family')) {
+      for (const entry of family.split('|')) {
+        const name = entry.split(':')[0].trim()
+        if (name) families.push(name)
+      }
+    }
+  }
+
+  return families
+}
+
+// ============================================
+// 🎨 COLORS
+// ============================================
+
+/**
+ * Parse a CSS color value
+ */
+function parseColor(token: string): Rgba | null {
+  const value = token.trim().toLowerCase()
+
+  if (value.startsWith('#')) {
+    let hex = value.slice(1)
+    if (hex.length <= 4) hex = hex.split('').map(c => c + c).join('')
+    return {
+      r: parseInt(hex.slice(0, 2), 16),
+      g: parseInt(hex.slice(2, 4), 16),
+      b: parseInt(hex.slice(4, 6), 16),
+      a: hex.length === 8 ? parseInt(hex.slice(6, 8), 16) / 255 : 1,
+    }
+  }
+
+  const parts = value.replace(/^[a-z]+\(|\)$/g, '').split(/[\s,/]+/).filter(Boolean)
+  if (parts.length < 3) return null
+
+  const alpha = parts[3] === undefined
+    ? 1
+    : parts[3].endsWith('%') ? parseFloat(parts[3]) / 100 : parseFloat(parts[3])
+
+  if (value.startsWith('rgb')) {
+    const channel = (part: string) =>
+      part.endsWith('%') ? (parseFloat(part) / 100) * 255 : parseFloat(part)
+    const [r, g, b] = parts.slice(0, 3).map(channel)
+    return [r, g, b, alpha].some(Number.isNaN) ? null : { r, g, b, a: alpha }
+  }
+
+  // hsl()
+  const h = ((parseFloat(parts[0]) % 360) + 360) % 360
+  const s = parseFloat(parts[1]) / 100
+  const l = parseFloat(parts[2]) / 100
+  if ([h, s, l, alpha].some(Number.isNaN)) return null
+
+  const k = (n: number) => (n + h / 30) % 12
+  const f = (n: number) => l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1))
+  return { r: f(0) * 255, g: f(8) * 255, b: f(4) * 255, a: alpha }
+}
+
+function toHex({ r, g, b }: Rgba): string {
+  return '#' + [r, g, b]
+    .map(channel => Math.round(Math.max(0, Math.min(255, channel))).toString(16).padStart(2, '0'))
+    .join('')
+}
+
+function fromHex(hex: string): Rgba {
+  return parseColor(hex)!
+}
+
+/**
+ * Greys, near-white and near-black
+ */
+function isNeutral(hex: string): boolean {
+  const { r, g, b } = fromHex(hex)
+  const max = Math.max(r, g, b) / 255
+  const min = Math.min(r, g, b) / 255
+  const lightness = (max + min) / 2
+  const saturation = max === min ? 0 : (max - min) / (1 - Math.abs(2 * lightness - 1))
+
+  return saturation < 0.15 || lightness > 0.95 || lightness < 0.08
+}
+
+function distance(a: string, b: string): number {
+  const x = fromHex(a)
+  const y = fromHex(b)
+  return Math.sqrt((x.r - y.r) ** 2 + (x.g - y.g) ** 2 + (x.b - y.b) ** 2)
+}
+
+/**
+ * How much a color use says about the brand
+ */
+function colorWeight(property: string): number {
+  if (property.startsWith('--')) return BRAND_COLOR_VARIABLE.test(property) ? 5 : 1
+  if (property.startsWith('background')) return 3
+  if (property === 'color') return 2
+  if (/^(border|outline|fill|stroke|text-decoration)/.test(property)) return 1
+  return 0.5
+}
+
+/**
+ * Merge similar shades, then pick the heaviest - real colors first,
+ * greys only to fill a sparse palette
+ */
+function buildPalette(uses: Map<string, number>): BrandColor[] {
+  const clusters: Array<{ hex: string; weight: number }> = []
+
+  for (const [hex, weight] of Array.from(uses.entries()).sort((a, b) => b[1] - a[1])) {
+    const cluster = clusters.find(c => distance(c.hex, hex) < MERGE_DISTANCE)
+    if (cluster) {
+      cluster.weight += weight
+    } else {
+      clusters.push({ hex, weight })
+    }
+  }
+
+  const sorted = clusters.sort((a, b) => b.weight - a.weight)
+  const palette = sorted.filter(c => !isNeutral(c.hex)).slice(0, MAX_COLORS)
+  if (palette.length < MIN_COLORS) {
+    palette.push(
+      ...sorted.filter(c => isNeutral(c.hex) && c.hex !== '#ffffff').slice(0, MIN_COLORS - palette.length)
+    )
+  }
+
+  const total = palette.reduce((sum, c) => sum + c.weight, 0)
+  return palette.map(c => ({ hex: c.hex, weight: Math.round((c.weight / total) * 100) / 100 }))
+}
+
+// ============================================
+// 🔤 FONTS
+// ============================================
+
+/**
+ * First brand family in a font stack
+ */
+function firstFamily(stack: string): string | null {
+  for (const entry of stack.split(',')) {
+    const family = entry.trim().replace(/^["']|["']$/g, '').trim()
+    if (!family || family.includes('(')) continue
+    if (GENERIC_FONT.test(family) || ICON_FONT.test(family)) continue
+    return family
+  }
+  return null
+}
+
+/**
+ * The font stack in a font / font-family / --font-* declaration
+ */
+function fontStack(property: string, value: string): string | null {
+  if (property === 'font-family') return value
+  if (property === 'font') {
+    // font: [style] [weight] size[/line-height] family, fallback
+    return value.match(/(?:^|\s)[\d.]+(?:px|r?em|%|pt|vw|vh)?(?:\/[\w.%-]+)?\s+(.+)$/)?.[1] ?? null
+  }
+  if (property.startsWith('--') && /(font|family)/.test(property) && !/(size|weight|height|spacing)/.test(property)) {
+    return /^[\d.]/.test(value) ? null : value
+  }
+  return null
+}
+
+// ============================================
+// 🎨 MAIN EXTRACTOR
+// ============================================
+
+/**
+ * Extract the visual identity from a page and its stylesheets
+ *
+ * @param html - The page's HTML (the home page)
+ * @param pageUrl - The page's URL (stylesheet links resolve against it)
+ * @param fetchStylesheet - Reads a linked stylesheet
+ */
+export async function extractVisualIdentity(
+  html: string,
+  pageUrl: string,
+  fetchStylesheet: FetchStylesheet
+): Promise<VisualIdentity> {
+  const sources: string[] = []
+
+  // Inline styles
+  for (const match of Array.from(html.matchAll(/<style\b[^>]*>([\s\S]*?)<\/style>/gi))) {
+    sources.push(match[1])
+  }
+  for (const match of Array.from(html.matchAll(/\sstyle=(?:"([^"]*)"|'([^']*)')/gi))) {
+    sources.push(`[style] { ${match[1] ?? match[2]} }`)
+  }
+
+  // Linked stylesheets - the site's own first
+  const host = new URL(pageUrl).host
+  const stylesheets = Array.from(html.matchAll(/<link\b[^>]*>/gi))
+    .map(tag => tag[0])
+    .filter(tag => /rel=["']?[^"'>]*stylesheet/i.test(tag))
+    .map(tag => tag.match(/href=["']([^"']+)["']/i)?.[1])
+    .flatMap(href => {
+      try {
+        return href ? [new URL(href.replace(/&amp;/g, '&'), pageUrl)] : []
+      } catch {
+        return []
+      }
+    })
+    .filter(url => /^https?:$/.test(url.protocol) && url.host !== 'fonts.googleapis.com')
+    .sort((a, b) => Number(b.host === host) - Number(a.host === host))
+    .slice(0, MAX_STYLESHEETS)
+
+  for (const url of stylesheets) {
+    const css = await fetchStylesheet(url.href)
+    if (css) sources.push(css)
+  }
+
+  const rules = sources.flatMap(parseRules)
+
+  // Custom properties, for var() lookups (last one wins, like the cascade)
+  const variables = new Map<string, string>()
+  for (const rule of rules) {
+    for (const [property, value] of rule.declarations) {
+      if (property.startsWith('--')) variables.set(property, value)
+    }
+  }
+
+  // Collect color uses and font families
+  const colorUses = new Map<string, number>()
+  const fontScores = new Map<string, { family: string; heading: number; body: number; total: number }>()
+
+  const addColor = (token: string, weight: number) => {
+    const color = parseColor(token)
+    if (!color || color.a < 0.5 || weight <= 0) return
+    const hex = toHex(color)
+    colorUses.set(hex, (colorUses.get(hex) ?? 0) + weight)
+  }
+
+  const addFont = (family: string, hint: string, amount = 1) => {
+    const key = family.toLowerCase()
+    const score = fontScores.get(key) ?? { family, heading: 0, body: 0, total: 0 }
+    if (HEADING_HINT.test(hint)) score.heading += amount
+    else if (BODY_HINT.test(hint)) score.body += amount
+    score.total += amount
+    fontScores.set(key, score)
+  }
+
+  const themeColor = html.match(/<meta\b[^>]*name=["']theme-color["'][^>]*content=["']([^"']+)["']/i)?.[1]
+  if (themeColor) addColor(themeColor, THEME_COLOR_WEIGHT)
+
+  for (const rule of rules) {
+    if (rule.selector.startsWith('@font-face')) continue
+
+    for (const [property, rawValue] of rule.declarations) {
+      const value = resolveVariables(rawValue, variables)
+
+      for (const token of value.match(COLOR_TOKEN) ?? []) {
+        addColor(token, colorWeight(property))
+      }
+
+      const stack = fontStack(property, value)
+      const family = stack && firstFamily(stack)
+      if (family) addFont(family, property.startsWith('--') ? property : rule.selector)
+    }
+  }
+
+  // Google Fonts the site loads count even if we missed the CSS using them
+  const googleFamilies = new Set<string>()
+  for (const family of googleFontFamilies([html, ...sources].join('\n'))) {
+    googleFamilies.add(family.toLowerCase())
+    addFont(family, '', 2)
+  }
+
+  // Heading and body fonts, then accents
+  const scores = Array.from(fontScores.values())
+  const byTotal = [...scores].sort((a, b) => b.total - a.total)
+  const heading = [...scores].filter(s => s.heading > 0).sort((a, b) => b.heading - a.heading)[0]
+  const body = [...scores].filter(s => s.body > 0).sort((a, b) => b.body - a.body)[0] ??
+    byTotal.find(s => s !== heading)
+
+  const fonts: BrandFont[] = []
+  const addBrandFont = (family: string, role: BrandFontRole) => {
+    if (fonts.some(f => f.family.toLowerCase() === family.toLowerCase())) return
+    fonts.push({
+      family,
+      role,
+      source: googleFamilies.has(family.toLowerCase()) ? 'google_fonts' : 'site',
+    })
+  }
+
+  // One family for both reads as the body font
+  if (heading && heading !== body) addBrandFont(heading.family, 'heading')
+  if (body) addBrandFont(body.family, 'body')
+  for (const score of byTotal) {
+    if (fonts.length >= MAX_FONTS) break
+    if (score.total >= 2) addBrandFont(score.family, 'accent')
+  }
+
+  return { colors: buildPalette(colorUses), fonts }
+}
@@ -0,0 +1,124 @@
+/**
+ * 👷 ANALYZER WORKER
+ * ==================
+ * Drains the analyzer_runs queue.
+ *
+ * Each tick:
+ * 1. Reclaims runs whose lease expired (their worker died)
+ * 2. Claims the next due pending run
+ * 3. Executes it with the shared runner
+ *
+ * The worker needs a service-role Supabase client - claiming and
+ * reclaiming are restricted to it, and it must see every project.
+ *
+ * Entry point: scripts/analyzer-worker.ts (npm run worker)
+ */
+
+import os from 'os'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { log } from '@/lib/utils/logger'
+import { sleep } from '@/lib/utils/async'
+import { claimNextRun, reclaimExpiredRuns } from './queue'
+import { executeAnalyzerRun } from './runner'
+
+// ============================================
+// 📋 CONFIG
+// ============================================
+
+/** How long to wait between polls when the queue is empty */
+const DEFAULT_POLL_INTERVAL_MS = 5000
+
+export interface WorkerOptions {
+  /** Service-role Supabase client */
+  supabase: SupabaseClient
+  /** Identifies this worker in analyzer_runs.locked_by */
+  workerId?: string
+  /** Delay between polls when idle */
+  pollIntervalMs?: number
+  /** Drain the queue once and return instead of polling forever */
+  once?: boolean
+  /** Stop the loop after the current run finishes */
+  signal?: AbortSignal
+}
+
+/**
+ * Default worker id: host + process id
+ */
+export function defaultWorkerId(): string {
+  return `${os.hostname()}:${process.pid}`
+}
+
+// ============================================
+// 🔁 WORKER LOOP
+// ============================================
+
+/**
+ * Claim and execute a single run
+ *
+ * @returns true if a run was processed, false if the queue was empty
+ */
+export async function processNextRun(
+  supabase: SupabaseClient,
+  workerId: string
+): Promise<boolean> {
+  const run = await claimNextRun(supabase, workerId)
+  if (!run) return false
+
+  log.info(`👷 [Worker] Claimed ${run.analyzer_type}`, {
+    runId: run.id,
+    attempt: run.retry_count + 1,
+  })
+
+  const result = await executeAnalyzerRun({
+    supabase,
+    type: run.analyzer_type,
+    projectId: run.project_id,
+    runId: run.id,
+    workerId,
+  })
+
+  if (result.body.success) {
+    log.success(`👷 [Worker] Finished ${run.analyzer_type}`, { runId: run.id })
+  } else {
+    log.warn(`👷 [Worker] ${run.analyzer_type} did not complete`, {
+      runId: run.id,
+      error: result.body.error,
+    })
+  }
+
+  return true
+}
+
+/**
+ * Run the worker until stopped (or until the queue is empty with `once`)
+ */
+export async function runWorker(options: WorkerOptions): Promise<void> {
+  const {
+    supabase,
+    workerId = defaultWorkerId(),
+    pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+    once = false,
+    signal,
+  } = options
+
+  log.info('👷 [Worker] Starting', { workerId, once })
+
+  while (!signal?.aborted) {
+    try {
+      await reclaimExpiredRuns(supabase)
+
+      const processed = await processNextRun(supabase, workerId)
+      if (processed) continue
+
+      if (once) break
+    } catch (error) {
+      // Keep polling - a flaky connection shouldn't kill the worker
+      log.error('👷 [Worker] Tick failed', error)
+      if (once) throw error
+    }
+
+    await sleep(pollIntervalMs)
+  }
+
+  log.info('👷 [Worker] Stopped', { workerId })
+}
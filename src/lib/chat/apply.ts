@@ -0,0 +1,73 @@
+/**
+ * 💾 APPLY CHAT FIELD UPDATES
+ * ===========================
+ * Writes bucket fields the chat collected to business_projects.
+ *
+ * Shared by inference confirms and interview answers so both behave
+ * like a save from the onboarding forms: the fields are stamped as
+ * user-entered (the user confirmed or said them), bucket completion is
+ * recalculated and analyzers that read the fields are refreshed.
+ * Client invites save the client's answers the same way, stamped as
+ * the client's.
+ *
+ * Usage:
+ *   const project = await applyFieldUpdates(supabase, projectId, { idea_name: 'Sprout' })
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { log } from '@/lib/utils/logger'
+import { calculateAllBucketCompletion, calculateOverallCompletion } from '@/lib/config/buckets'
+import { refreshStaleAnalyzers } from '@/lib/analyzers/scheduler'
+import { clientProvenance, userProvenance } from '@/lib/analyzers/provenance'
+import type { BusinessProject } from '@/lib/types'
+
+/**
+ * Write fields to a project
+ *
+ * @param supabase - Supabase client (user-scoped in routes)
+ * @param projectId - Project to update
+ * @param fields - Already-normalized field values
+ * @param source - Who entered them: the user, or a client through their invite
+ * @returns The updated project
+ * @throws If the project can't be loaded or saved
+ */
+export async function applyFieldUpdates(
+  supabase: SupabaseClient,
+  projectId: string,
+  fields: Record<string, unknown>,
+  source: 'user' | 'client' = 'user'
+): Promise<BusinessProject> {
+  const { data: current, error: loadError } = await supabase
+    .from('business_projects')
+    .select('*')
+    .eq('id', projectId)
+    .single()
+
+  if (loadError || !current) throw loadError || new Error('Project not found')
+
+  const bucketCompletion = calculateAllBucketCompletion({ ...current, ...fields })
+  const stamp = source === 'client' ? clientProvenance : userProvenance
+
+  const { data: updated, error: updateError } = await supabase
+    .from('business_projects')
+    .update({
+      ...fields,
+      field_provenance: stamp(Object.keys(fields)),
+      bucket_completion: bucketCompletion,
+      overall_completion: calculateOverallCompletion({ ...bucketCompletion }),
+    })
+    .eq('id', projectId)
+    .select()
+    .single()
+
+  if (updateError) throw updateError
+
+  const project = updated as BusinessProject
+  const changed = Object.keys(fields)
+  log.success('💾 [Chat] Saved fields', { projectId, source, fields: changed })
+
+  // Analyzers that read these fields are now out of date
+  await refreshStaleAnalyzers(supabase, project, changed)
+
+  return project
+}
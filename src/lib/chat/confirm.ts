@@ -0,0 +1,143 @@
+/**
+ * ✅ CONFIRM CHAT INFERENCES
+ * ==========================
+ * Applies the user's answer to an inference_reveal message.
+ *
+ * The answer arrives as an inference_confirm message whose metadata
+ * says which proposals were accepted (with their values - the user may
+ * have edited them) and which were turned down. Only fields the reveal
+ * actually proposed are written, each one cleaned up for its field the
+ * same way extraction does.
+ *
+ * The fields are written with applyFieldUpdates() (see apply.ts).
+ *
+ * Usage:
+ *   const { status, body } = await applyInferenceConfirm({ supabase, sessionId, metadata })
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { log } from '@/lib/utils/logger'
+import { getFieldSpec, normalizeFieldValue } from '@/lib/config/fields'
+import { applyFieldUpdates } from './apply'
+import type {
+  BusinessProject,
+  ChatResponse,
+  ConversationMessage,
+  InferenceConfirmMetadata,
+  InferenceRevealMetadata,
+} from '@/lib/types'
+
+export interface ApplyConfirmOptions {
+  /** Supabase client (user-scoped in routes) */
+  supabase: SupabaseClient
+  sessionId: string
+  metadata: InferenceConfirmMetadata
+}
+
+export interface ApplyConfirmResult {
+  /** HTTP status for the route to return */
+  status: number
+  body: ChatResponse | { error: string }
+}
+
+/**
+ * What the user's confirm message says
+ */
+function describeAnswer(applied: string[], rejected: string[]): string {
+  const labels = (fields: string[]) => fields.map(field => getFieldSpec(field).label).join(', ')
+
+  if (applied.length === 0) return "No, those aren't right."
+  if (rejected.length === 0) return `Yes, save ${labels(applied)}.`
+  return `Save ${labels(applied)}, but not ${labels(rejected)}.`
+}
+
+/**
+ * Apply an inference_confirm to its project
+ *
+ * Never throws - failures come back as an error response.
+ */
+export async function applyInferenceConfirm(options: ApplyConfirmOptions): Promise<ApplyConfirmResult> {
+  const { supabase, sessionId, metadata } = options
+  const failed = (status: number, error: string): ApplyConfirmResult => ({ status, body: { error } })
+
+  if (!metadata?.revealMessageId) return failed(400, 'Missing revealMessageId')
+
+  try {
+    // The reveal being answered
+    const { data: reveal } = await supabase
+      .from('conversation_messages')
+      .select('*')
+      .eq('id', metadata.revealMessageId)
+      .eq('session_id', sessionId)
+      .single()
+
+    if (!reveal || reveal.message_type !== 'inference_reveal') {
+      return failed(404, 'Inference not found')
+    }
+
+    const revealMetadata = reveal.metadata as InferenceRevealMetadata
+    if (revealMetadata.resolved) return failed(409, 'This inference was already answered')
+
+    const { data: session } = await supabase
+      .from('onboarding_sessions')
+      .select('project_id')
+      .eq('id', sessionId)
+      .single()
+
+    if (!session) return failed(404, 'Session not found')
+
+    // Only proposed fields, cleaned up for their field
+    const proposed = revealMetadata.proposals.map(p => p.field)
+    const fields: Record<string, unknown> = {}
+    for (const [field, value] of Object.entries(metadata.accepted || {})) {
+      if (!proposed.includes(field)) continue
+      const normalized = normalizeFieldValue(field, value)
+      if (normalized !== undefined) fields[field] = normalized
+    }
+
+    const applied = Object.keys(fields)
+    const rejected = proposed.filter(field => !applied.includes(field))
+
+    let project: BusinessProject | undefined
+
+    if (applied.length > 0) {
+      project = await applyFieldUpdates(supabase, session.project_id, fields)
+    }
+
+    // Record the user's answer
+    const { data: message, error: insertError } = await supabase
+      .from('conversation_messages')
+      .insert({
+        session_id: sessionId,
+        role: 'user',
+        content: describeAnswer(applied, rejected),
+        message_type: 'inference_confirm',
+        metadata: { revealMessageId: reveal.id, accepted: fields, rejected },
+        related_fields: proposed,
+      })
+      .select()
+      .single()
+
+    if (insertError) throw insertError
+
+    // Close the reveal so it can't be answered twice
+    const { error: revealError } = await supabase
+      .from('conversation_messages')
+      .update({ metadata: { ...revealMetadata, resolved: true, appliedFields: applied } })
+      .eq('id', reveal.id)
+
+    if (revealError) log.warn('✅ [Chat] Failed to mark inference answered', revealError)
+
+    return {
+      status: 200,
+      body: {
+        message: message as ConversationMessage,
+        fieldsUpdated: applied,
+        project,
+      },
+    }
+  } catch (error) {
+    log.error('✅ [Chat] Failed to apply inference', error)
+    return failed(500, error instanceof Error ? error.message : 'Unknown error')
+  }
+}
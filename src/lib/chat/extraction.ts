@@ -0,0 +1,201 @@
+/**
+ * 🔎 CHAT FIELD EXTRACTION
+ * ========================
+ * Picks bucket field values out of a chat turn.
+ *
+ * After each user message, one tool call asks the model which of the
+ * BUCKETS fields the conversation has settled. Every field is an
+ * optional property of the tool, typed by its FieldSpec, so choices
+ * come back as option values and scales as numbers.
+ *
+ * The answers are only proposals: the route shows them to the user as
+ * an inference_reveal message, and nothing is written until the user
+ * confirms it (see confirm.ts).
+ *
+ * Usage:
+ *   const proposals = await extractFieldProposals({ llm, project, messages })
+ */
+
+import { log } from '@/lib/utils/logger'
+import { BUCKET_FIELDS, formatFieldValue, getFieldSpec, normalizeFieldValue } from '@/lib/config/fields'
+import type { FieldSpec } from '@/lib/config/fields'
+import type { LLMMessage, LLMTool, ResolvedLLM } from '@/lib/llm'
+import type { BusinessProject, FieldProposal } from '@/lib/types'
+
+/** Proposals below this confidence aren't shown */
+export const MIN_PROPOSAL_CONFIDENCE = 0.6
+
+/** How many recent messages the extractor reads */
+const EXTRACTION_WINDOW = 6
+
+const EXTRACTION_PROMPT = `You extract facts about a business from an onboarding conversation.
+
+Only record a field when the USER has clearly stated it (or plainly agreed to it) in the conversation. Do not guess, and do not record things the assistant suggested that the user didn't confirm.
+
+Skip fields whose current value already says the same thing. Use the user's own words where possible. Confidence is 0-1: how sure you are the user meant exactly this.`
+
+// ============================================
+// 🔧 TOOL SCHEMA
+// ============================================
+
+/**
+ * JSON schema for one field's value
+ */
+function valueSchema(spec: FieldSpec): Record<string, unknown> {
+  switch (spec.kind) {
+    case 'choice':
+      return { type: 'string', enum: spec.options!.map(option => option.value) }
+    case 'scale':
+      return { type: 'integer', minimum: spec.min, maximum: spec.max }
+    case 'list':
+      return { type: 'array', items: { type: 'string' } }
+    default:
+      return { type: 'string' }
+  }
+}
+
+/**
+ * Tool with one optional property per field
+ */
+export function buildExtractionTool(fields: string[] = BUCKET_FIELDS): LLMTool {
+  const properties: Record<string, unknown> = {}
+
+  for (const field of fields) {
+    const spec = getFieldSpec(field)
+    properties[field] = {
+      type: 'object',
+      description: `${spec.label}: ${spec.description}`,
+      properties: {
+        value: valueSchema(spec),
+        confidence: { type: 'number', minimum: 0, maximum: 1 },
+        evidence: { type: 'string', description: 'The words the user used' },
+      },
+      required: ['value', 'confidence'],
+    }
+  }
+
+  return {
+    type: 'function',
+    function: {
+      name: 'save_project_fields',
+      description: 'Record business facts the user has stated. Leave out anything not stated.',
+      parameters: { type: 'object', properties },
+    },
+  }
+}
+
+// ============================================
+// 🧹 FILTERING
+// ============================================
+
+/**
+ * Whether a proposed value says the same as the current one
+ */
+function isSameValue(current: unknown, proposed: unknown): boolean {
+  if (Array.isArray(current) && Array.isArray(proposed)) {
+    const have = new Set(current.map(item => String(item).toLowerCase()))
+    return proposed.every(item => have.has(String(item).toLowerCase()))
+  }
+  if (typeof current === 'string' && typeof proposed === 'string') {
+    return current.trim().toLowerCase() === proposed.trim().toLowerCase()
+  }
+  return current === proposed
+}
+
+/**
+ * Turn raw tool arguments into proposals worth showing
+ *
+ * Drops unknown fields, values that don't fit the field, low-confidence
+ * guesses and values the project already has.
+ */
+export function toProposals(
+  args: Record<string, unknown>,
+  project: Partial<BusinessProject>,
+  fields: string[] = BUCKET_FIELDS
+): FieldProposal[] {
+  const proposals: FieldProposal[] = []
+
+  for (const field of fields) {
+    const entry = args[field] as { value?: unknown; confidence?: unknown; evidence?: unknown } | undefined
+    if (!entry || typeof entry !== 'object') continue
+
+    const value = normalizeFieldValue(field, entry.value)
+    const confidence = typeof entry.confidence === 'number' ? entry.confidence : 0
+    if (value === undefined || confidence < MIN_PROPOSAL_CONFIDENCE) continue
+
+    const current = project[field as keyof BusinessProject]
+    if (isSameValue(current, value)) continue
+
+    proposals.push({
+      field,
+      value,
+      confidence: Math.min(1, confidence),
+      evidence: typeof entry.evidence === 'string' ? entry.evidence : undefined,
+    })
+  }
+
+  return proposals
+}
+
+// ============================================
+// 🚀 EXTRACTION
+// ============================================
+
+export interface ExtractFieldsOptions {
+  llm: ResolvedLLM
+  project: Partial<BusinessProject>
+  /** The conversation so far, newest last (the user's latest message included) */
+  messages: LLMMessage[]
+  signal?: AbortSignal
+}
+
+/**
+ * Ask the model which bucket fields the latest turn settled
+ *
+ * Never throws - extraction is a bonus on top of the reply, so a failure
+ * just means no proposals this turn.
+ */
+export async function extractFieldProposals(options: ExtractFieldsOptions): Promise<FieldProposal[]> {
+  const { llm, project, messages, signal } = options
+
+  const current = BUCKET_FIELDS
+    .map(field => `- ${field}: ${formatFieldValue(field, project[field as keyof BusinessProject])}`)
+    .join('\n')
+
+  const transcript = messages
+    .filter(m => m.role !== 'system')
+    .slice(-EXTRACTION_WINDOW)
+    .map(m => `${m.role.toUpperCase()}: ${m.content}`)
+    .join('\n\n')
+
+  try {
+    const args = await llm.provider.extract<Record<string, unknown>>({
+      model: llm.model,
+      messages: [
+        { role: 'system', content: EXTRACTION_PROMPT },
+        {
+          role: 'user',
+          content: `## Current values\n${current}\n\n## Conversation\n${transcript}`,
+        },
+      ],
+      tool: buildExtractionTool(),
+      label: 'chat',
+      signal,
+    })
+
+    const proposals = toProposals(args, project)
+    log.info('🔎 [Chat] Extracted field proposals', { fields: proposals.map(p => p.field) })
+    return proposals
+  } catch (error) {
+    if (!signal?.aborted) log.warn('🔎 [Chat] Field extraction failed', error)
+    return []
+  }
+}
+
+/**
+ * Text of the inference_reveal message for some proposals
+ */
+export function describeProposals(proposals: FieldProposal[]): string {
+  const lines = proposals.map(p => `• ${getFieldSpec(p.field).label}: ${formatFieldValue(p.field, p.value)}`)
+  return `Here's what I'm picking up - want me to save it?\n${lines.join('\n')}`
+}
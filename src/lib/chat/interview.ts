@@ -0,0 +1,198 @@
+/**
+ * 🎤 INTERVIEW ENGINE
+ * ===================
+ * Decides what the conversational interview asks next.
+ *
+ * The interview walks BUCKET_ORDER. Buckets that
+ * calculateBucketCompletion() already scores at 100% are passed over;
+ * in the first one that isn't, the next unfilled field is asked -
+ * required fields first, then the rest in bucket order. Fields the
+ * user skipped aren't asked again.
+ *
+ * Every question is a typed interaction, picked by field:
+ *   SLIDERS → slider, BINARY_CHOICES → binary_choice,
+ *   WORD_BANKS → word_bank, INTERVIEW_MAD_LIBS → mad_lib
+ *
+ * Pure - safe to use in the browser.
+ *
+ * Usage:
+ *   const step = getNextInterviewStep(project, session.skipped_fields)
+ *   if (!step) // every bucket field is answered or skipped
+ */
+
+import {
+  BUCKETS,
+  BUCKET_ORDER,
+  calculateBucketCompletion,
+  isFieldFilled,
+} from '@/lib/config/buckets'
+import { BINARY_CHOICES, SLIDERS } from '@/lib/config/interactions'
+import { WORD_BANKS } from '@/lib/config/wordBanks'
+import { INTERVIEW_MAD_LIBS } from '@/lib/config/interview'
+import type {
+  BinaryChoiceConfig,
+  BusinessProject,
+  ConversationMessage,
+  InteractionConfig,
+  MadLibConfig,
+  MessageType,
+  SliderConfig,
+  WordBankConfig,
+} from '@/lib/types'
+
+// ============================================
+// 📋 TYPES
+// ============================================
+
+export type InterviewInteraction =
+  | { type: 'slider'; config: SliderConfig }
+  | { type: 'binary_choice'; config: BinaryChoiceConfig }
+  | { type: 'word_bank'; config: WordBankConfig }
+  | { type: 'mad_lib'; config: MadLibConfig }
+
+export type InterviewInteractionType = InterviewInteraction['type']
+
+export interface InterviewStep {
+  bucketId: string
+  field: string
+  interaction: InterviewInteraction
+  /** First question of its bucket */
+  startsBucket: boolean
+}
+
+/** metadata of an interview question message */
+export interface InterviewQuestionMetadata {
+  field: string
+  bucketId: string
+  config: InteractionConfig
+}
+
+/** metadata of an interview response message */
+export interface InterviewResponseMetadata {
+  field: string
+  value: unknown
+}
+
+/**
+ * Message type the user's answer is sent as, per question type
+ */
+export const RESPONSE_TYPES: Record<InterviewInteractionType, MessageType> = {
+  slider: 'slider_response',
+  binary_choice: 'binary_response',
+  word_bank: 'word_bank_response',
+  mad_lib: 'mad_lib_response',
+}
+
+/**
+ * Whether a message type is an interview question
+ */
+export function isInterviewQuestion(type: MessageType): type is InterviewInteractionType {
+  return type in RESPONSE_TYPES
+}
+
+/**
+ * Whether a message type is an answer to an interview question
+ */
+export function isInterviewResponse(type: MessageType): boolean {
+  return Object.values(RESPONSE_TYPES).includes(type)
+}
+
+/**
+ * The open question in a conversation: the last one with no answer after it
+ */
+export function getPendingQuestion(messages: ConversationMessage[]): ConversationMessage | null {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const type = messages[i].message_type
+    if (isInterviewResponse(type)) return null
+    if (isInterviewQuestion(type)) return messages[i]
+  }
+  return null
+}
+
+// ============================================
+// 🧭 NEXT QUESTION
+// ============================================
+
+/**
+ * The typed interaction that collects a field (null if it has none)
+ */
+export function getFieldInteraction(field: string): InterviewInteraction | null {
+  if (SLIDERS[field]) return { type: 'slider', config: SLIDERS[field] }
+  if (BINARY_CHOICES[field]) return { type: 'binary_choice', config: BINARY_CHOICES[field] }
+  if (WORD_BANKS[field]) return { type: 'word_bank', config: WORD_BANKS[field] }
+  if (INTERVIEW_MAD_LIBS[field]) return { type: 'mad_lib', config: INTERVIEW_MAD_LIBS[field] }
+  return null
+}
+
+/**
+ * Pick the next question
+ *
+ * @param project - Current project values
+ * @param skipped - Fields the user skipped
+ * @param currentBucket - Bucket the last question was in (to flag a new bucket)
+ * @returns The next step, or null once every field is answered or skipped
+ */
+export function getNextInterviewStep(
+  project: Partial<BusinessProject>,
+  skipped: string[] = [],
+  currentBucket?: string
+): InterviewStep | null {
+  const values = project as Record<string, unknown>
+
+  for (const bucketId of BUCKET_ORDER) {
+    if (calculateBucketCompletion(values, bucketId) === 100) continue
+
+    const bucket = BUCKETS[bucketId]
+    const ordered = [
+      ...bucket.requiredFields,
+      ...bucket.fields.filter(field => !bucket.requiredFields.includes(field)),
+    ]
+
+    for (const field of ordered) {
+      if (isFieldFilled(values, field) || skipped.includes(field)) continue
+
+      const interaction = getFieldInteraction(field)
+      if (!interaction) continue
+
+      return { bucketId, field, interaction, startsBucket: bucketId !== currentBucket }
+    }
+  }
+
+  return null
+}
+
+/**
+ * The question's text
+ */
+export function getStepPrompt(step: InterviewStep): string {
+  const { interaction } = step
+
+  // The interaction itself shows the details
+  const question =
+    interaction.type === 'slider' ? interaction.config.label
+    : interaction.type === 'word_bank' ? interaction.config.title
+    : interaction.config.question
+
+  if (!step.startsBucket) return question
+
+  const bucket = BUCKETS[step.bucketId]
+  return `${bucket.emoji} Next up: ${bucket.name} - ${bucket.description}\n\n${question}`
+}
+
+/**
+ * How many interview fields are answered (or skipped) out of the total
+ */
+export function getInterviewProgress(
+  project: Partial<BusinessProject>,
+  skipped: string[] = []
+): { done: number; total: number } {
+  const values = project as Record<string, unknown>
+  const fields = Object.values(BUCKETS)
+    .flatMap(bucket => bucket.fields)
+    .filter(field => getFieldInteraction(field))
+
+  return {
+    done: fields.filter(field => isFieldFilled(values, field) || skipped.includes(field)).length,
+    total: fields.length,
+  }
+}
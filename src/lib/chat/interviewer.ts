@@ -0,0 +1,252 @@
+/**
+ * 🎙️ INTERVIEWER
+ * ==============
+ * Server side of the conversational interview: records answers and
+ * asks the next question.
+ *
+ * - askNextQuestion() saves the next typed question (see interview.ts)
+ *   as an assistant message whose message_type is the interaction
+ *   (slider, binary_choice, word_bank, mad_lib) and whose metadata
+ *   carries the config. Skipping a field adds it to the session's
+ *   skipped_fields first. With nothing left to ask, the session is
+ *   marked completed.
+ * - recordInterviewResponse() checks a *_response message against the
+ *   field's interaction, saves the value to the config's targetField
+ *   (applyFieldUpdates), records the answer and asks the next question.
+ *
+ * Both never throw - failures come back as { status, body } for routes.
+ *
+ * Usage:
+ *   const { status, body } = await askNextQuestion({ supabase, sessionId })
+ *   const { status, body } = await recordInterviewResponse({ supabase, sessionId, messageType, metadata })
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { log } from '@/lib/utils/logger'
+import { formatFieldValue, normalizeFieldValue } from '@/lib/config/fields'
+import type {
+  BusinessProject,
+  ChatResponse,
+  ConversationMessage,
+  MessageType,
+  OnboardingSession,
+} from '@/lib/types'
+import { applyFieldUpdates } from './apply'
+import {
+  RESPONSE_TYPES,
+  getFieldInteraction,
+  getNextInterviewStep,
+  getStepPrompt,
+} from './interview'
+import type { InterviewQuestionMetadata, InterviewResponseMetadata } from './interview'
+
+const WRAP_UP_MESSAGE =
+  "That's everything I need - thank you! 🎉 Your answers are saved, and the analysis hub is already working on them."
+
+export interface InterviewResult {
+  /** HTTP status for the route to return */
+  status: number
+  body: ChatResponse | { error: string }
+}
+
+const failed = (status: number, error: string): InterviewResult => ({ status, body: { error } })
+
+// ============================================
+// 📦 DATA HELPERS
+// ============================================
+
+async function loadSessionAndProject(
+  supabase: SupabaseClient,
+  sessionId: string
+): Promise<{ session: OnboardingSession; project: BusinessProject } | null> {
+  const { data: session } = await supabase
+    .from('onboarding_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .single()
+
+  if (!session) return null
+
+  const { data: project } = await supabase
+    .from('business_projects')
+    .select('*')
+    .eq('id', session.project_id)
+    .single()
+
+  if (!project) return null
+
+  return { session: session as OnboardingSession, project: project as BusinessProject }
+}
+
+/**
+ * Save the next question (or the wrap-up) for a session
+ */
+async function saveNextQuestion(
+  supabase: SupabaseClient,
+  session: OnboardingSession,
+  project: BusinessProject
+): Promise<ChatResponse> {
+  const skipped = session.skipped_fields || []
+  const step = getNextInterviewStep(project, skipped, session.current_bucket)
+  const now = new Date().toISOString()
+
+  if (!step) {
+    log.success('🎙️ [Interview] Interview complete', { sessionId: session.id })
+
+    await supabase
+      .from('onboarding_sessions')
+      .update({ status: 'completed', completed_at: now, last_activity_at: now })
+      .eq('id', session.id)
+
+    const { data: message, error } = await supabase
+      .from('conversation_messages')
+      .insert({ session_id: session.id, role: 'assistant', content: WRAP_UP_MESSAGE, message_type: 'text' })
+      .select()
+      .single()
+
+    if (error) throw error
+    return { message: message as ConversationMessage }
+  }
+
+  const metadata: InterviewQuestionMetadata = {
+    field: step.field,
+    bucketId: step.bucketId,
+    config: step.interaction.config,
+  }
+
+  const { data: message, error } = await supabase
+    .from('conversation_messages')
+    .insert({
+      session_id: session.id,
+      role: 'assistant',
+      content: getStepPrompt(step),
+      message_type: step.interaction.type,
+      metadata,
+      related_fields: [step.field],
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  await supabase
+    .from('onboarding_sessions')
+    .update({ current_bucket: step.bucketId, last_activity_at: now })
+    .eq('id', session.id)
+
+  log.info('🎙️ [Interview] Asked next question', { field: step.field, type: step.interaction.type })
+
+  return {
+    message: message as ConversationMessage,
+    nextInteraction: { type: step.interaction.type, config: step.interaction.config },
+  }
+}
+
+// ============================================
+// 🚀 ENTRY POINTS
+// ============================================
+
+export interface AskNextOptions {
+  /** Supabase client (user-scoped in routes) */
+  supabase: SupabaseClient
+  sessionId: string
+  /** Field the user chose to skip */
+  skip?: string
+}
+
+/**
+ * Ask the next interview question, optionally skipping one first
+ */
+export async function askNextQuestion(options: AskNextOptions): Promise<InterviewResult> {
+  const { supabase, sessionId, skip } = options
+
+  try {
+    const loaded = await loadSessionAndProject(supabase, sessionId)
+    if (!loaded) return failed(404, 'Session not found')
+
+    let { session } = loaded
+
+    if (skip) {
+      if (!getFieldInteraction(skip)) return failed(400, `Unknown field: ${skip}`)
+
+      const skippedFields = Array.from(new Set([...(session.skipped_fields || []), skip]))
+      const { error } = await supabase
+        .from('onboarding_sessions')
+        .update({ skipped_fields: skippedFields })
+        .eq('id', sessionId)
+
+      if (error) throw error
+      session = { ...session, skipped_fields: skippedFields }
+      log.info('🎙️ [Interview] Skipped field', { field: skip })
+    }
+
+    return { status: 200, body: await saveNextQuestion(supabase, session, loaded.project) }
+  } catch (error) {
+    log.error('🎙️ [Interview] Failed to ask next question', error)
+    return failed(500, error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export interface RecordResponseOptions {
+  /** Supabase client (user-scoped in routes) */
+  supabase: SupabaseClient
+  sessionId: string
+  /** slider_response, binary_response, word_bank_response or mad_lib_response */
+  messageType: MessageType
+  metadata: InterviewResponseMetadata
+}
+
+/**
+ * Save an answer to its field, then ask the next question
+ */
+export async function recordInterviewResponse(options: RecordResponseOptions): Promise<InterviewResult> {
+  const { supabase, sessionId, messageType, metadata } = options
+  const field = metadata?.field
+
+  const interaction = field ? getFieldInteraction(field) : null
+  if (!interaction) return failed(400, `Unknown field: ${field}`)
+  if (RESPONSE_TYPES[interaction.type] !== messageType) {
+    return failed(400, `${field} expects a ${RESPONSE_TYPES[interaction.type]}`)
+  }
+
+  const targetField = interaction.config.targetField
+  const value = normalizeFieldValue(targetField, metadata.value)
+  if (value === undefined) return failed(400, `That answer doesn't fit ${targetField}`)
+
+  try {
+    const loaded = await loadSessionAndProject(supabase, sessionId)
+    if (!loaded) return failed(404, 'Session not found')
+
+    const project = await applyFieldUpdates(supabase, loaded.project.id, { [targetField]: value })
+
+    const { data: userMessage, error } = await supabase
+      .from('conversation_messages')
+      .insert({
+        session_id: sessionId,
+        role: 'user',
+        content: formatFieldValue(targetField, value),
+        message_type: messageType,
+        metadata: { field: targetField, value },
+        related_fields: [targetField],
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    const next = await saveNextQuestion(supabase, loaded.session, project)
+
+    return {
+      status: 200,
+      body: {
+        ...next,
+        userMessage: userMessage as ConversationMessage,
+        fieldsUpdated: [targetField],
+        project,
+      },
+    }
+  } catch (error) {
+    log.error('🎙️ [Interview] Failed to record answer', error)
+    return failed(500, error instanceof Error ? error.message : 'Unknown error')
+  }
+}
@@ -10,6 +10,8 @@
  * - 1 = Enrichment (nice to have)
  */
 
+import type { BucketCompletion } from '@/lib/types'
+
 export interface BucketDefinition {
   id: string
   name: string
@@ -126,6 +128,19 @@ export const TOTAL_WEIGHT = Object.values(BUCKETS).reduce(
   0
 )
 
+/**
+ * ✅ Whether a field has a value (empty strings and lists don't count)
+ * @param project - The business project data
+ * @param field - Field to check
+ */
+export function isFieldFilled(project: Record<string, unknown>, field: string): boolean {
+  const value = project[field]
+  if (value === null || value === undefined) return false
+  if (Array.isArray(value)) return value.length > 0
+  if (typeof value === 'string') return value.trim().length > 0
+  return true
+}
+
 /**
  * 📊 Calculate bucket completion percentage
  * @param project - The business project data
@@ -139,17 +154,24 @@ export function calculateBucketCompletion(
   const bucket = BUCKETS[bucketId]
   if (!bucket) return 0
 
-  const filledFields = bucket.fields.filter((field) => {
-    const value = project[field]
-    if (value === null || value === undefined) return false
-    if (Array.isArray(value)) return value.length > 0
-    if (typeof value === 'string') return value.trim().length > 0
-    return true
-  })
+  const filledFields = bucket.fields.filter((field) => isFieldFilled(project, field))
 
   return Math.round((filledFields.length / bucket.fields.length) * 100)
 }
 
+/**
+ * 📊 Calculate completion for every bucket
+ * @param project - The business project data
+ * @returns Completion percentage per bucket
+ */
+export function calculateAllBucketCompletion(project: Record<string, unknown>): BucketCompletion {
+  const completion = {} as BucketCompletion
+  for (const bucketId of BUCKET_ORDER) {
+    completion[bucketId] = calculateBucketCompletion(project, bucketId)
+  }
+  return completion
+}
+
 /**
  * 📈 Calculate overall completion with weights
  * @param bucketCompletions - Object with bucket completion percentages
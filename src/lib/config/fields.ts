@@ -0,0 +1,177 @@
+/**
+ * 🏷️ BUCKET FIELD CONFIGURATION
+ * ============================
+ * What each bucket field holds and how to check a value for it.
+ *
+ * The kind of a field comes from the interaction that collects it:
+ * - choice: one option of a BINARY_CHOICES config
+ * - scale:  a whole number on a SLIDERS config's range
+ * - list:   several short phrases (word banks, competitors)
+ * - text:   free text
+ *
+ * Used wherever something other than the onboarding forms writes to a
+ * bucket field (e.g. chat extraction), so those values look the same
+ * as if the user had picked them.
+ */
+
+import { BUCKETS } from './buckets'
+import { BINARY_CHOICES, SLIDERS } from './interactions'
+import { WORD_BANKS } from './wordBanks'
+
+// ============================================
+// 📋 TYPES
+// ============================================
+
+export type FieldKind = 'text' | 'list' | 'choice' | 'scale'
+
+export interface FieldSpec {
+  field: string
+  kind: FieldKind
+  /** Short human label */
+  label: string
+  /** What the field means (for prompts and tool schemas) */
+  description: string
+  /** choice: allowed values */
+  options?: { value: string; label: string }[]
+  /** scale: allowed range */
+  min?: number
+  max?: number
+}
+
+// ============================================
+// 📝 FIELD DETAILS
+// ============================================
+
+/** Fields that hold several short phrases */
+const LIST_FIELDS = new Set([...Object.keys(WORD_BANKS), 'competitors'])
+
+/** Labels and descriptions for fields without a slider or choice config */
+const FIELD_DESCRIPTIONS: Record<string, { label: string; description: string }> = {
+  idea_name: { label: 'Idea name', description: 'Name of the business or idea' },
+  one_liner: { label: 'One-liner', description: 'One sentence: what it is and who it is for' },
+  target_audience: { label: 'Target audience', description: 'Who the customers are' },
+  problem_statement: { label: 'Problem', description: 'The problem the business solves' },
+  why_now: { label: 'Why now', description: 'Why this is the right time for the idea' },
+  existing_solutions: { label: 'Existing solutions', description: 'What people use today instead' },
+  secret_sauce: { label: 'Secret sauce', description: 'What makes it hard to copy' },
+  competitors: { label: 'Competitors', description: 'Named competitors or alternatives' },
+  positioning: { label: 'Positioning', description: 'How it stands apart in the market' },
+  revenue_model: { label: 'Revenue model', description: 'How it makes money' },
+  biggest_risks: { label: 'Biggest risks', description: 'What could stop it from working' },
+  north_star_metric: { label: 'North star metric', description: 'The one number that shows it is working' },
+  company_values: { label: 'Values', description: 'Principles the company stands for' },
+}
+
+/**
+ * "north_star_metric" → "North star metric"
+ */
+function humanize(field: string): string {
+  const words = field.replace(/_/g, ' ')
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+/**
+ * Every field that belongs to a bucket, in bucket order
+ */
+export const BUCKET_FIELDS: string[] = Object.values(BUCKETS).flatMap(bucket => bucket.fields)
+
+/**
+ * Id of the bucket a field belongs to (null if none)
+ */
+export function getFieldBucket(field: string): string | null {
+  return Object.values(BUCKETS).find(bucket => bucket.fields.includes(field))?.id ?? null
+}
+
+/**
+ * What a bucket field holds
+ */
+export function getFieldSpec(field: string): FieldSpec {
+  const choice = BINARY_CHOICES[field]
+  if (choice) {
+    return {
+      field,
+      kind: 'choice',
+      label: FIELD_DESCRIPTIONS[field]?.label || humanize(field),
+      description: choice.question,
+      options: choice.options.map(option => ({ value: option.value, label: option.label })),
+    }
+  }
+
+  const slider = SLIDERS[field]
+  if (slider) {
+    return {
+      field,
+      kind: 'scale',
+      label: FIELD_DESCRIPTIONS[field]?.label || humanize(field),
+      description: `${slider.label} (${slider.min} = ${slider.leftLabel}, ${slider.max} = ${slider.rightLabel})`,
+      min: slider.min,
+      max: slider.max,
+    }
+  }
+
+  return {
+    field,
+    kind: LIST_FIELDS.has(field) ? 'list' : 'text',
+    label: FIELD_DESCRIPTIONS[field]?.label || humanize(field),
+    description: FIELD_DESCRIPTIONS[field]?.description || humanize(field),
+  }
+}
+
+// ============================================
+// ✅ VALUES
+// ============================================
+
+/**
+ * Coerce a value into the shape a field stores
+ *
+ * @returns The cleaned value, or undefined if it doesn't fit the field
+ */
+export function normalizeFieldValue(field: string, value: unknown): unknown {
+  const spec = getFieldSpec(field)
+
+  switch (spec.kind) {
+    case 'choice': {
+      const match = spec.options?.find(option =>
+        typeof value === 'string' &&
+        (option.value === value || option.label.toLowerCase() === value.trim().toLowerCase())
+      )
+      return match?.value
+    }
+
+    case 'scale': {
+      const number = typeof value === 'string' ? Number(value) : value
+      if (typeof number !== 'number' || !Number.isFinite(number)) return undefined
+      return Math.min(spec.max!, Math.max(spec.min!, Math.round(number)))
+    }
+
+    case 'list': {
+      const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : []
+      const cleaned = items
+        .filter((item): item is string => typeof item === 'string')
+        .map(item => item.trim())
+        .filter(Boolean)
+      return cleaned.length > 0 ? Array.from(new Set(cleaned)) : undefined
+    }
+
+    default: {
+      if (typeof value !== 'string') return undefined
+      const text = value.trim()
+      return text || undefined
+    }
+  }
+}
+
+/**
+ * Display form of a field value ("Consumers", "4 / 5", "A, B")
+ */
+export function formatFieldValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—'
+
+  const spec = getFieldSpec(field)
+  if (spec.kind === 'choice') {
+    return spec.options?.find(option => option.value === value)?.label || String(value)
+  }
+  if (spec.kind === 'scale') return `${value} / ${spec.max}`
+  if (Array.isArray(value)) return value.join(', ')
+  return String(value)
+}
@@ -8,7 +8,9 @@ export {
   BUCKETS,
   BUCKET_ORDER,
   TOTAL_WEIGHT,
+  isFieldFilled,
   calculateBucketCompletion,
+  calculateAllBucketCompletion,
   calculateOverallCompletion,
   hasMinimumViableData,
 } from './buckets'
@@ -43,3 +45,15 @@ export {
   EXIT_VISION_CHOICE,
   MARKET_SIZE_CHOICE,
 } from './interactions'
+
+export {
+  BUCKET_FIELDS,
+  getFieldBucket,
+  getFieldSpec,
+  normalizeFieldValue,
+  formatFieldValue,
+} from './fields'
+
+export type { FieldKind, FieldSpec } from './fields'
+
+export { INTERVIEW_MAD_LIBS } from './interview'
@@ -0,0 +1,110 @@
+/**
+ * 🎤 INTERVIEW CONFIGURATION
+ * ==========================
+ * Fill-in-the-blank prompts for the conversational interview.
+ *
+ * Every bucket field gets a typed interaction in the interview. Fields
+ * with a slider, binary choice or word bank use that config; the free
+ * text fields below are asked as one-sentence mad libs instead, so
+ * answers stay short and land in the right column.
+ *
+ * @see src/lib/chat/interview.ts for how the next question is picked
+ */
+
+import type { MadLibConfig } from '@/lib/types'
+
+// ============================================
+// 📝 MAD LIBS BY FIELD
+// ============================================
+
+export const IDEA_NAME_MAD_LIB: MadLibConfig = {
+  id: 'idea_name',
+  question: "Let's start with a name - what's it called?",
+  template: "It's called {{blank}}.",
+  placeholder: 'name',
+  hint: 'e.g., Sprout Kitchen',
+  width: 'lg',
+  targetField: 'idea_name',
+}
+
+export const ONE_LINER_MAD_LIB: MadLibConfig = {
+  id: 'one_liner',
+  question: 'How would you describe it in one line?',
+  template: 'In one line: {{blank}}.',
+  placeholder: 'what it is and who it is for',
+  hint: 'e.g., meal kits for families with picky eaters',
+  width: 'xl',
+  targetField: 'one_liner',
+}
+
+export const PROBLEM_STATEMENT_MAD_LIB: MadLibConfig = {
+  id: 'problem_statement',
+  question: 'What problem does it solve?',
+  template: 'The problem is that {{blank}}.',
+  placeholder: 'what goes wrong today',
+  hint: 'e.g., parents end up cooking two dinners a night',
+  width: 'xl',
+  targetField: 'problem_statement',
+}
+
+export const WHY_NOW_MAD_LIB: MadLibConfig = {
+  id: 'why_now',
+  question: 'Why is now the right time?',
+  template: 'Now is the time because {{blank}}.',
+  placeholder: "what's changed",
+  hint: 'e.g., more families are eating plant-based',
+  width: 'xl',
+  targetField: 'why_now',
+}
+
+export const SECRET_SAUCE_MAD_LIB: MadLibConfig = {
+  id: 'secret_sauce',
+  question: "What's your secret sauce?",
+  template: "What's hard to copy is {{blank}}.",
+  placeholder: 'your unfair advantage',
+  hint: 'e.g., every recipe is tested with a panel of kids',
+  width: 'xl',
+  targetField: 'secret_sauce',
+}
+
+export const COMPETITORS_MAD_LIB: MadLibConfig = {
+  id: 'competitors',
+  question: 'Who else is doing something similar?',
+  template: 'The main alternatives are {{blank}}.',
+  placeholder: 'names, separated by commas',
+  hint: 'e.g., HelloFresh, Gousto, takeout',
+  width: 'xl',
+  targetField: 'competitors',
+}
+
+export const POSITIONING_MAD_LIB: MadLibConfig = {
+  id: 'positioning',
+  question: 'How do you stand apart from them?',
+  template: 'Unlike them, we {{blank}}.',
+  placeholder: 'how you are different',
+  hint: 'e.g., design every meal kid-first',
+  width: 'xl',
+  targetField: 'positioning',
+}
+
+export const NORTH_STAR_MAD_LIB: MadLibConfig = {
+  id: 'north_star_metric',
+  question: "What's the one number that tells you it's working?",
+  template: "We'll know it's working when {{blank}} goes up.",
+  placeholder: 'your north star metric',
+  hint: 'e.g., families still ordering after 8 weeks',
+  width: 'lg',
+  targetField: 'north_star_metric',
+}
+
+/** All mad libs indexed by field name */
+export const INTERVIEW_MAD_LIBS: Record<string, MadLibConfig> = {
+  idea_name: IDEA_NAME_MAD_LIB,
+  one_liner: ONE_LINER_MAD_LIB,
+  problem_statement: PROBLEM_STATEMENT_MAD_LIB,
+  why_now: WHY_NOW_MAD_LIB,
+  secret_sauce: SECRET_SAUCE_MAD_LIB,
+  competitors: COMPETITORS_MAD_LIB,
+  positioning: POSITIONING_MAD_LIB,
+  north_star_metric: NORTH_STAR_MAD_LIB,
+}
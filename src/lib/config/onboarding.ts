@@ -10,6 +10,17 @@
  * @see /AI_Dev_Docs/01-PRODUCT-OVERVIEW.md for design philosophy
  */
 
+import type {
+  BusinessProject,
+  CompanySize,
+  ProjectType,
+  ScrapeSuggestions,
+  SuggestionDecision,
+  SuggestionDecisionStatus,
+  SuggestionField,
+  WordBankCategory,
+} from '@/lib/types'
+
 // ============================================
 // 📍 STEP DEFINITIONS
 // ============================================
@@ -154,7 +165,7 @@ export function getStepIndex(stepId: OnboardStep): number {
 // ============================================
 
 export interface CompanySizeOption {
-  value: string
+  value: CompanySize
   label: string
   description: string
   emoji: string
@@ -196,15 +207,7 @@ export const ROLE_SUGGESTIONS = [
  * Mad Libs Level 1 - The core narrative
  * These are fill-in-the-blank prompts that feel natural to complete.
  *
- * Field mappings to existing database:
- * - repName → maps to member.name (or stored separately)
- * - repRole → stored in project
- * - brandName → project_name / idea_name
- * - brandLocation → stored in project metadata
- * - yearFounded → stored in project metadata
- * - foundingReason → one_liner or problem_statement
- * - customerDescription → target_audience (converted to string)
- * - coreOffering → one_liner or secret_sauce
+ * Where each blank is saved: see FIELD_MAPPINGS below.
  */
 export interface MadLibField {
   id: string
@@ -238,6 +241,143 @@ We exist because {{foundingReason}}.
 
 In simple terms, we help {{customerDescription}} by {{coreOffering}}.`
 
+/**
+ * The same paragraph told about a client's brand (portfolio projects)
+ */
+export const MAD_LIBS_TEMPLATE_PORTFOLIO = `I'm {{repName}}, the {{repRole}} working with {{brandName}}.
+
+They're based in {{brandLocation}} and started in {{yearFounded}}.
+
+They exist because {{foundingReason}}.
+
+In simple terms, they help {{customerDescription}} by {{coreOffering}}.`
+
+// ============================================
+// 📚 WORD BANKS (Words page)
+// ============================================
+
+/**
+ * Brand Personality Words
+ * Users pick 5-7 words that feel like their brand
+ */
+export const BRAND_WORD_CATEGORIES: WordBankCategory[] = [
+  {
+    id: 'warmth',
+    label: 'Warmth & Care',
+    emoji: '💛',
+    words: [
+      'Compassionate', 'Nurturing', 'Supportive', 'Welcoming',
+      'Friendly', 'Approachable', 'Caring', 'Gentle',
+      'Kind', 'Warm', 'Empathetic', 'Thoughtful',
+    ],
+  },
+  {
+    id: 'energy',
+    label: 'Energy & Drive',
+    emoji: '⚡',
+    words: [
+      'Bold', 'Dynamic', 'Energetic', 'Driven',
+      'Ambitious', 'Fearless', 'Adventurous', 'Spirited',
+      'Vibrant', 'Passionate', 'Determined', 'Motivated',
+    ],
+  },
+  {
+    id: 'trust',
+    label: 'Trust & Reliability',
+    emoji: '🤝',
+    words: [
+      'Trustworthy', 'Reliable', 'Dependable', 'Consistent',
+      'Stable', 'Honest', 'Authentic', 'Transparent',
+      'Credible', 'Solid', 'Genuine', 'Loyal',
+    ],
+  },
+  {
+    id: 'expertise',
+    label: 'Expertise & Quality',
+    emoji: '✨',
+    words: [
+      'Expert', 'Professional', 'Sophisticated', 'Refined',
+      'Premium', 'Meticulous', 'Precise', 'Excellent',
+      'Elite', 'Masterful', 'Polished', 'Distinguished',
+    ],
+  },
+  {
+    id: 'innovation',
+    label: 'Innovation & Creativity',
+    emoji: '💡',
+    words: [
+      'Innovative', 'Creative', 'Original', 'Inventive',
+      'Visionary', 'Forward-thinking', 'Fresh', 'Modern',
+      'Imaginative', 'Pioneering', 'Cutting-edge', 'Unconventional',
+    ],
+  },
+  {
+    id: 'fun',
+    label: 'Fun & Playful',
+    emoji: '🎈',
+    words: [
+      'Playful', 'Fun', 'Quirky', 'Witty',
+      'Cheerful', 'Light-hearted', 'Joyful', 'Entertaining',
+      'Delightful', 'Whimsical', 'Humorous', 'Lively',
+    ],
+  },
+]
+
+/**
+ * Customer Descriptor Words
+ * Users pick 5-7 words that describe their ideal customer
+ */
+export const CUSTOMER_WORD_CATEGORIES: WordBankCategory[] = [
+  {
+    id: 'life_stage',
+    label: 'Life Stage',
+    emoji: '🌱',
+    words: [
+      'New parent', 'Career changer', 'Recent graduate', 'Retiree',
+      'Mid-career professional', 'Startup founder', 'Empty nester',
+      'Young professional', 'Established business owner', 'First-time buyer',
+    ],
+  },
+  {
+    id: 'mindset',
+    label: 'Mindset',
+    emoji: '🧠',
+    words: [
+      'Ambitious', 'Curious', 'Overwhelmed', 'Stuck',
+      'Ready for change', 'Growth-oriented', 'Skeptical', 'Eager',
+      'Cautious', 'Open-minded', 'Motivated', 'Stressed',
+    ],
+  },
+  {
+    id: 'needs',
+    label: 'Needs & Priorities',
+    emoji: '🎯',
+    words: [
+      'Time-strapped', 'Budget-conscious', 'Quality-focused', 'Results-driven',
+      'Relationship-oriented', 'Balance-seeking', 'Security-seeking', 'Status-conscious',
+      'Value-driven', 'Convenience-focused', 'Health-conscious', 'Career-focused',
+    ],
+  },
+  {
+    id: 'industry',
+    label: 'Industry',
+    emoji: '💼',
+    words: [
+      'Creative professional', 'Healthcare worker', 'Educator', 'Tech worker',
+      'Service provider', 'Consultant', 'Retail owner', 'Freelancer',
+      'Finance professional', 'Nonprofit worker', 'Agency owner', 'Small business owner',
+    ],
+  },
+]
+
+/** Every brand / customer word, for checking suggested picks */
+export const BRAND_WORDS = BRAND_WORD_CATEGORIES.flatMap(category => category.words)
+export const CUSTOMER_WORDS = CUSTOMER_WORD_CATEGORIES.flatMap(category => category.words)
+
+/** How many words each bank wants picked */
+export const MIN_WORD_SELECTIONS = 5
+export const MAX_WORD_SELECTIONS = 7
+
 // ============================================
 // 🎚️ SLIDER CONFIGURATIONS
 // ============================================
@@ -290,10 +430,12 @@ export const SLIDER_CONFIGS: SliderConfig[] = [
 // ============================================
 
 export interface ProjectTypeOption {
-  value: 'primary' | 'portfolio'
+  value: ProjectType
   label: string
   description: string
   emoji: string
+  /** Dashboard section heading */
+  groupLabel: string
 }
 
 export const PROJECT_TYPE_OPTIONS: ProjectTypeOption[] = [
@@ -302,56 +444,212 @@ export const PROJECT_TYPE_OPTIONS: ProjectTypeOption[] = [
     label: 'My Brand',
     description: 'Define your own business',
     emoji: '🏠',
+    groupLabel: 'My Brands',
   },
   {
     value: 'portfolio',
     label: 'Client Brand',
     description: "A brand you're working with",
     emoji: '📁',
+    groupLabel: 'Client Brands',
   },
 ]
 
+// ============================================
+// 🗣️ PERSPECTIVE COPY
+// ============================================
+
+/**
+ * Onboarding copy that changes with whose brand it is.
+ * Portfolio projects talk about the client ("their brand").
+ */
+export const ONBOARD_COPY = {
+  setupSubtitle: {
+    primary: "Let's get to know your brand",
+    portfolio: "Let's get to know your client's brand",
+  },
+  brandNameLabel: {
+    primary: "What's the brand called?",
+    portfolio: "What's their brand called?",
+  },
+  brandNamePlaceholder: {
+    primary: 'Enter your brand or business name',
+    portfolio: "Enter the client's brand or business name",
+  },
+  companySizeLabel: {
+    primary: 'How big is the team?',
+    portfolio: 'How big is their team?',
+  },
+  assetsTitle: {
+    primary: 'Help us learn about you',
+    portfolio: 'Help us learn about them',
+  },
+  assetsSubtitle: {
+    primary: 'Share your website or LinkedIn so we can learn more (optional)',
+    portfolio: 'Share their website or LinkedIn so we can learn more (optional)',
+  },
+  storyTitle: {
+    primary: 'Tell us your story',
+    portfolio: 'Tell us their story',
+  },
+  wordsTitle: {
+    primary: 'Words that feel like your brand',
+    portfolio: 'Words that feel like their brand',
+  },
+  wordsSubtitle: {
+    primary: 'Pick words from each section — this helps us understand your voice',
+    portfolio: 'Pick words from each section — this helps us understand their voice',
+  },
+  brandWordsDescription: {
+    primary: 'Pick 5-7 words that describe how you want your brand to feel',
+    portfolio: 'Pick 5-7 words that describe how they want their brand to feel',
+  },
+  customerWordsTitle: {
+    primary: 'Your Ideal Customer',
+    portfolio: 'Their Ideal Customer',
+  },
+  customerWordsDescription: {
+    primary: 'Pick 5-7 words that describe who you serve',
+    portfolio: 'Pick 5-7 words that describe who they serve',
+  },
+  styleSubtitle: {
+    primary: 'These help us understand your positioning',
+    portfolio: 'These help us understand their positioning',
+  },
+  hubTitle: {
+    primary: 'Building your brand foundation',
+    portfolio: 'Building their brand foundation',
+  },
+  storyCardDescription: {
+    primary: 'Your founding reason and core offering',
+    portfolio: 'Their founding reason and core offering',
+  },
+  brandWordsCardDescription: {
+    primary: 'Words that describe your brand',
+    portfolio: 'Words that describe their brand',
+  },
+  customerCardDescription: {
+    primary: 'Words that describe your ideal customer',
+    portfolio: 'Words that describe their ideal customer',
+  },
+  styleCardDescription: {
+    primary: 'Your communication style and market position',
+    portfolio: 'Their communication style and market position',
+  },
+  doneTitle: {
+    primary: 'Your brand foundation is ready! 🎉',
+    portfolio: 'Their brand foundation is ready! 🎉',
+  },
+} as const
+
+export type OnboardCopyKey = keyof typeof ONBOARD_COPY
+
+/**
+ * 🗣️ Get the onboarding copy for a project type
+ */
+export function getOnboardCopy(projectType?: ProjectType | null): Record<OnboardCopyKey, string> {
+  const perspective = projectType ?? 'primary'
+  return Object.fromEntries(
+    Object.entries(ONBOARD_COPY).map(([key, copy]) => [key, copy[perspective]])
+  ) as Record<OnboardCopyKey, string>
+}
+
 // ============================================
 // 🔄 FIELD MAPPINGS
 // ============================================
 
 /**
- * Maps our onboarding fields to the existing database schema.
- * This lets us build the new UX without database migrations!
- *
- * The existing BusinessProject schema has these fields we can use:
- * - project_name → brand name
- * - idea_name → brand name (display)
- * - one_liner → founding reason + core offering combined
- * - target_audience → customer words (array)
- * - problem_statement → founding reason
- * - secret_sauce → core offering / unique approach
- * - company_values → brand personality words
- * - validation_status → can use existing enum
- * - customer_type → B2B/B2C (existing)
+ * Where each onboarding input is saved on business_projects.
  *
- * For new fields, we use the metadata pattern or add them later.
+ * Inputs that mean the same thing as a bucket field fill that field
+ * (so the forms count towards bucket completion); everything else has
+ * its own brand profile column (migration 009).
  */
-export const FIELD_MAPPINGS = {
+export const FIELD_MAPPINGS: Record<string, keyof BusinessProject> = {
+  // New project page
+  projectType: 'project_type',
+
   // Setup page
-  brandName: 'idea_name',        // Primary display name
-  companySize: 'team_size',      // Uses existing team_size field
-  repRole: 'current_step',       // Temporarily store in unused field (or metadata)
+  brandName: 'idea_name',
+  clientName: 'client_name',
+  clientContact: 'client_contact',
+  companySize: 'company_size',
+  repName: 'rep_name',
+  repRole: 'rep_role',
+
+  // Assets page
+  websiteUrl: 'website_url',
+  linkedinUrl: 'linkedin_url',
 
   // Story page (Mad Libs)
+  brandLocation: 'brand_location',
+  yearFounded: 'year_founded',
   foundingReason: 'problem_statement',
+  customerDescription: 'customer_description',
   coreOffering: 'secret_sauce',
-  customerDescription: 'one_liner',  // We'll parse this intelligently
 
   // Words page
-  brandWords: 'company_values',
+  brandWords: 'brand_personality',
   customerWords: 'target_audience',
 
   // Style page
-  commStyle: 'pricing_tier',         // Reuse slider field
-  pricePosition: 'differentiation_score',  // Reuse slider field
+  commStyle: 'communication_style',
+  pricePosition: 'price_position',
+}
 
-  // Assets page
-  websiteUrl: 'positioning',     // Store URL in text field for now
-  linkedinUrl: 'north_star_metric',  // Store URL in text field for now
-} as const
+// ============================================
+// 💡 SCRAPE SUGGESTIONS
+// ============================================
+
+/**
+ * Onboarding inputs the web scraper suggests answers for
+ * (scrape_suggestions). The story and words pages offer each one
+ * once; the user's answer is kept in suggestion_decisions.
+ */
+export const SUGGESTION_LABELS: Record<SuggestionField, string> = {
+  coreOffering: 'What you do for them',
+  customerDescription: 'Who you serve',
+  brandWords: 'Brand personality words',
+  customerWords: 'Customer words',
+}
+
+/**
+ * The scrape's suggestion for a field - null if there isn't one or
+ * the user has already answered it
+ *
+ * @param decisions - Answers given on the page but not saved yet
+ */
+export function getPendingSuggestion<F extends SuggestionField>(
+  project: BusinessProject,
+  field: F,
+  decisions: Partial<Record<SuggestionField, SuggestionDecision>> = {}
+): ScrapeSuggestions[F] | null {
+  const suggestion = project.scrape_suggestions?.[field]
+  if (!suggestion || (Array.isArray(suggestion) && suggestion.length === 0)) return null
+  if (decisions[field] || project.suggestion_decisions?.[field]) return null
+  return suggestion
+}
+
+/**
+ * A record of the user's answer to a suggestion
+ */
+export function buildSuggestionDecision(
+  suggested: string | string[],
+  status: SuggestionDecisionStatus,
+  value: string | string[] | null
+): SuggestionDecision {
+  return { status, suggested, value, decided_at: new Date().toISOString() }
+}
+
+/**
+ * Bank words named in free text ("warm, playful"), spelled as in the bank
+ */
+export function matchBankWords(text: string, bank: string[]): string[] {
+  const byName = new Map(bank.map(word => [word.toLowerCase(), word]))
+  const words = text
+    .split(/[,\n]/)
+    .map(word => byName.get(word.trim().toLowerCase()))
+    .filter((word): word is string => !!word)
+
+  return Array.from(new Set(words))
+}
@@ -0,0 +1,291 @@
+/**
+ * 📄 BRAND FOUNDATION DOCUMENT
+ * ============================
+ * Turns a project into the brand foundation document we hand to clients:
+ * an ordered list of sections made of simple blocks. Renderers (pdf.ts)
+ * lay the blocks out - nothing here knows about pages or fonts.
+ *
+ * Sections with nothing to show are left out, so a half-finished
+ * project still exports cleanly. Share links can leave out more: any
+ * of the DOCUMENT_PARTS (e.g. the AI's weaknesses).
+ */
+
+import { SLIDER_CONFIGS } from '@/lib/config/onboarding'
+import { ANALYZER_REGISTRY } from '@/lib/analyzers/registry'
+import type { BrandFontRole, BusinessProject, VisualIdentity } from '@/lib/types'
+import type { IdentifiedRisk } from '@/lib/analyzers/types'
+
+// ============================================
+// 📋 TYPES
+// ============================================
+
+/** One piece of a section */
+export type DocumentBlock =
+  | { type: 'paragraph'; label?: string; text: string }
+  | { type: 'facts'; facts: { label: string; value: string }[] }
+  | { type: 'tags'; label?: string; items: string[] }
+  | { type: 'list'; label?: string; items: string[] }
+  | { type: 'score'; label: string; value: number; max: number }
+  | { type: 'risks'; risks: IdentifiedRisk[] }
+  | { type: 'visual'; visualIdentity: VisualIdentity }
+
+export interface DocumentSection {
+  id: string
+  title: string
+  /** One line under the title, e.g. which analyzer wrote it */
+  subtitle?: string
+  blocks: DocumentBlock[]
+}
+
+export interface BrandDocument {
+  title: string
+  /** e.g. "Brand foundation for Acme Co." */
+  subtitle: string
+  generatedAt: string
+  sections: DocumentSection[]
+}
+
+/** Parts of the document an owner can leave out of a share link */
+export const DOCUMENT_PARTS = [
+  { id: 'overview', label: 'Overview & contact details' },
+  { id: 'story', label: 'Brand story' },
+  { id: 'brand_words', label: 'Brand words' },
+  { id: 'customer_words', label: 'Customer words' },
+  { id: 'style', label: 'Style & positioning' },
+  { id: 'visual_identity', label: 'Visual identity' },
+  { id: 'website', label: 'From the website' },
+  { id: 'clarity', label: 'Idea clarity' },
+  { id: 'narrative', label: 'Brand narrative' },
+  { id: 'voice', label: 'Brand voice' },
+  { id: 'market', label: 'Market' },
+  { id: 'model', label: 'Business model' },
+  { id: 'risks', label: 'Risks' },
+  { id: 'summary', label: 'Viability score & summary' },
+  { id: 'strengths', label: 'Strengths' },
+  { id: 'weaknesses', label: 'Weaknesses' },
+  { id: 'next_steps', label: 'Next steps' },
+] as const
+
+export type DocumentPartId = (typeof DOCUMENT_PARTS)[number]['id']
+
+export interface BuildOptions {
+  /** Parts to leave out */
+  hidden?: string[]
+}
+
+/** How renderers label a brand font's role */
+export const FONT_ROLE_LABELS: Record<BrandFontRole, string> = {
+  heading: 'Headings',
+  body: 'Body text',
+  accent: 'Accent',
+}
+
+// ============================================
+// 🧱 BLOCK HELPERS
+// ============================================
+
+function paragraph(text: string | null | undefined, label?: string): DocumentBlock | null {
+  return text?.trim() ? { type: 'paragraph', label, text: text.trim() } : null
+}
+
+function tags(items: string[] | null | undefined, label?: string): DocumentBlock | null {
+  return items && items.length > 0 ? { type: 'tags', label, items } : null
+}
+
+function list(items: string[] | null | undefined, label?: string): DocumentBlock | null {
+  return items && items.length > 0 ? { type: 'list', label, items } : null
+}
+
+function score(value: number | null | undefined, label: string): DocumentBlock | null {
+  return value != null ? { type: 'score', label, value, max: 100 } : null
+}
+
+function facts(entries: [string, string | number | null | undefined][]): DocumentBlock | null {
+  const filled = entries
+    .filter(([, value]) => value != null && String(value).trim() !== '')
+    .map(([label, value]) => ({ label, value: String(value) }))
+
+  return filled.length > 0 ? { type: 'facts', facts: filled } : null
+}
+
+function section(
+  id: string,
+  title: string,
+  blocks: (DocumentBlock | null)[],
+  subtitle?: string
+): DocumentSection | null {
+  const kept = blocks.filter((block): block is DocumentBlock => block !== null)
+  return kept.length > 0 ? { id, title, subtitle, blocks: kept } : null
+}
+
+/** "Written by Brand Voice" - the subtitle of an AI section */
+function byAnalyzer(type: keyof typeof ANALYZER_REGISTRY): string {
+  return `Written by ${ANALYZER_REGISTRY[type].name}`
+}
+
+/**
+ * A 1-5 slider answer in words, e.g. "Friendly and conversational"
+ */
+export function describeSlider(sliderId: string, value: number | null): string | null {
+  if (value == null) return null
+  return SLIDER_CONFIGS.find(slider => slider.id === sliderId)?.descriptions[value] ?? null
+}
+
+function getRisks(project: BusinessProject): IdentifiedRisk[] {
+  const risks = (project.ai_risks as { risks?: IdentifiedRisk[] } | null)?.risks
+  return Array.isArray(risks) ? risks : []
+}
+
+// ============================================
+// 📄 BUILDER
+// ============================================
+
+/**
+ * Build the brand foundation document for a project
+ */
+export function buildBrandDocument(project: BusinessProject, options: BuildOptions = {}): BrandDocument {
+  const name = project.idea_name || project.project_name
+  const risks = getRisks(project)
+  const hidden = new Set(options.hidden ?? [])
+
+  // For parts smaller than a section
+  const only = (part: DocumentPartId, block: DocumentBlock | null) => (hidden.has(part) ? null : block)
+
+  const sections = [
+    section('overview', 'Overview', [
+      facts([
+        ['Business', name],
+        ['Client', project.client_name],
+        ['Contact', project.rep_name && [project.rep_name, project.rep_role].filter(Boolean).join(', ')],
+        ['Location', project.brand_location],
+        ['Founded', project.year_founded],
+        ['Website', project.website_url],
+        ['Email', project.contact_email],
+        ['Phone', project.contact_phone],
+        ['Address', project.business_address],
+      ]),
+      paragraph(project.scraped_tagline, 'Tagline'),
+    ]),
+
+    section('story', 'Brand Story', [
+      paragraph(project.problem_statement, 'Why we started'),
+      paragraph(project.customer_description, 'Who we help'),
+      paragraph(project.secret_sauce, 'What we do'),
+    ]),
+
+    section('brand_words', 'Brand Words', [tags(project.brand_personality)]),
+
+    section('customer_words', 'Customer Words', [tags(project.target_audience)]),
+
+    section('style', 'Style & Positioning', [
+      facts([
+        ['Communication', describeSlider('commStyle', project.communication_style)],
+        ['Price position', describeSlider('pricePosition', project.price_position)],
+      ]),
+    ]),
+
+    section(
+      'visual_identity',
+      'Visual Identity',
+      [
+        project.visual_identity &&
+        (project.visual_identity.colors.length > 0 || project.visual_identity.fonts.length > 0)
+          ? { type: 'visual' as const, visualIdentity: project.visual_identity }
+          : null,
+      ],
+      'Colors and fonts from your website'
+    ),
+
+    section(
+      'website',
+      'From Your Website',
+      [
+        facts([['Industry', project.scraped_industry]]),
+        list(project.scraped_services, 'Services'),
+      ],
+      byAnalyzer('web_scraper')
+    ),
+
+    section(
+      'clarity',
+      'Idea Clarity',
+      [
+        score(project.ai_clarity_score, 'Clarity score'),
+        paragraph(project.ai_one_liner, 'Refined one-liner'),
+        list(project.ai_implied_assumptions, 'Assumptions to test'),
+      ],
+      byAnalyzer('clarity')
+    ),
+
+    section(
+      'narrative',
+      'Brand Narrative',
+      [
+        facts([['Archetype', project.brand_archetype]]),
+        paragraph(project.ai_positioning, 'Positioning'),
+      ],
+      byAnalyzer('narrative')
+    ),
+
+    section(
+      'voice',
+      'Brand Voice',
+      [
+        paragraph(project.brand_tone, 'Tone'),
+        list(project.ai_voice_guidelines, 'Guidelines'),
+        tags(project.ai_words_to_use, 'Words to use'),
+        tags(project.ai_words_to_avoid, 'Words to avoid'),
+      ],
+      byAnalyzer('voice')
+    ),
+
+    section(
+      'market',
+      'Market',
+      [
+        paragraph(project.ai_market_size, 'Market size'),
+        tags(project.ai_competitors, 'Competitors'),
+      ],
+      byAnalyzer('market')
+    ),
+
+    section(
+      'model',
+      'Business Model',
+      [paragraph(project.ai_suggested_model, 'Suggested model')],
+      byAnalyzer('model')
+    ),
+
+    section(
+      'risks',
+      'Risks',
+      [risks.length > 0 ? { type: 'risks' as const, risks } : null],
+      byAnalyzer('risk')
+    ),
+
+    // Hidden block by block - a link may show strengths but not weaknesses
+    section(
+      'synthesis',
+      'Synthesis',
+      [
+        only('summary', score(project.ai_viability_score, 'Viability score')),
+        only('summary', paragraph(project.ai_summary, 'Summary')),
+        only('strengths', list(project.ai_strengths, 'Strengths')),
+        only('weaknesses', list(project.ai_weaknesses, 'Weaknesses')),
+        only('next_steps', list(project.ai_next_steps, 'Next steps')),
+      ],
+      byAnalyzer('synthesis')
+    ),
+  ]
+
+  return {
+    title: name,
+    subtitle: project.client_name
+      ? `Brand foundation for ${project.client_name}`
+      : 'Brand foundation',
+    generatedAt: new Date().toISOString(),
+    sections: sections.filter(
+      (entry): entry is DocumentSection => entry !== null && !hidden.has(entry.id)
+    ),
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * 📘 BRAND FOUNDATION DOCX
+ * ========================
+ * Writes a BrandDocument as a Word document with the docx package - opens
+ * in Word and Google Docs with real headings, lists and tables, so the
+ * client can keep editing it.
+ *
+ * Same look as the PDF: teal headings, labelled blocks, word chips
+ * (shaded runs), score lines, rated risks and color swatch cells.
+ */
+
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  Footer,
+  HeadingLevel,
+  Packer,
+  PageNumber,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx'
+import { FONT_ROLE_LABELS, type BrandDocument, type DocumentBlock } from './document'
+import type { IdentifiedRisk } from '@/lib/analyzers/types'
+
+// ============================================
+// 📋 CONSTANTS
+// ============================================
+
+// Tailwind's primary / gray scales, as in pdf.ts
+const COLORS = {
+  primary: '0D9488',
+  primaryDark: '115E59',
+  primaryLight: 'F0FDFA',
+  heading: '111827',
+  muted: '6B7280',
+}
+
+const SEVERITY_COLORS: Record<IdentifiedRisk['severity'], string> = {
+  high: 'DC2626',
+  medium: 'D97706',
+  low: '16A34A',
+}
+
+const NO_BORDER = { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' }
+const NO_BORDERS = { top: NO_BORDER, bottom: NO_BORDER, left: NO_BORDER, right: NO_BORDER }
+
+// ============================================
+// 🧱 BLOCKS
+// ============================================
+
+function label(text: string): Paragraph {
+  return new Paragraph({
+    spacing: { before: 160, after: 60 },
+    children: [new TextRun({ text: text.toUpperCase(), bold: true, size: 17, color: COLORS.muted })],
+  })
+}
+
+function body(children: TextRun[]): Paragraph {
+  return new Paragraph({ spacing: { after: 120 }, children })
+}
+
+/** Label / value rows without borders */
+function factsTable(facts: { label: string; value: string }[]): Table {
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    borders: { ...NO_BORDERS, insideHorizontal: NO_BORDER, insideVertical: NO_BORDER },
+    rows: facts.map(fact =>
+      new TableRow({
+        children: [
+          new TableCell({
+            width: { size: 25, type: WidthType.PERCENTAGE },
+            children: [new Paragraph({ children: [new TextRun({ text: fact.label, bold: true, color: COLORS.muted })] })],
+          }),
+          new TableCell({
+            width: { size: 75, type: WidthType.PERCENTAGE },
+            children: [new Paragraph({ children: [new TextRun(fact.value)] })],
+          }),
+        ],
+      })
+    ),
+  })
+}
+
+/** One row of color swatches, hex code under each */
+function swatchTable(hexes: string[]): Table {
+  return new Table({
+    borders: { ...NO_BORDERS, insideHorizontal: NO_BORDER, insideVertical: NO_BORDER },
+    rows: [
+      new TableRow({
+        height: { value: 700, rule: 'atLeast' },
+        children: hexes.map(hex =>
+          new TableCell({
+            width: { size: 1100, type: WidthType.DXA },
+            shading: { type: ShadingType.CLEAR, color: 'auto', fill: hex.replace('#', '') },
+            children: [new Paragraph('')],
+          })
+        ),
+      }),
+      new TableRow({
+        children: hexes.map(hex =>
+          new TableCell({
+            width: { size: 1100, type: WidthType.DXA },
+            children: [new Paragraph({ children: [new TextRun({ text: hex, size: 16 })] })],
+          })
+        ),
+      }),
+    ],
+  })
+}
+
+function renderBlock(block: DocumentBlock): (Paragraph | Table)[] {
+  const heading = 'label' in block && block.label ? [label(block.label)] : []
+
+  switch (block.type) {
+    case 'paragraph':
+      return [...heading, body([new TextRun(block.text)])]
+
+    case 'facts':
+      return [factsTable(block.facts), body([])]
+
+    case 'tags':
+      return [
+        ...heading,
+        body(
+          block.items.flatMap((item, index) => [
+            ...(index > 0 ? [new TextRun('  ')] : []),
+            new TextRun({
+              text: ` ${item} `,
+              color: COLORS.primaryDark,
+              shading: { type: ShadingType.CLEAR, color: 'auto', fill: COLORS.primaryLight },
+            }),
+          ])
+        ),
+      ]
+
+    case 'list':
+      return [
+        ...heading,
+        ...block.items.map(item => new Paragraph({ bullet: { level: 0 }, children: [new TextRun(item)] })),
+        body([]),
+      ]
+
+    case 'score':
+      return [
+        label(block.label),
+        body([
+          new TextRun({ text: String(block.value), bold: true, size: 40, color: COLORS.heading }),
+          new TextRun({ text: ` / ${block.max}`, color: COLORS.muted }),
+        ]),
+      ]
+
+    case 'risks':
+      return block.risks.map(risk =>
+        new Paragraph({
+          bullet: { level: 0 },
+          spacing: { after: 80 },
+          children: [
+            new TextRun({ text: `${risk.severity.toUpperCase()}  `, bold: true, size: 16, color: SEVERITY_COLORS[risk.severity] ?? COLORS.muted }),
+            new TextRun({ text: risk.title, bold: true }),
+            ...(risk.mitigation
+              ? [new TextRun({ text: `Mitigation: ${risk.mitigation}`, color: COLORS.muted, break: 1 })]
+              : []),
+          ],
+        })
+      )
+
+    case 'visual': {
+      const { colors, fonts } = block.visualIdentity
+      return [
+        ...(colors.length > 0 ? [label('Colors'), swatchTable(colors.map(color => color.hex))] : []),
+        ...(fonts.length > 0
+          ? [
+              label('Fonts'),
+              factsTable(fonts.map(font => ({ label: FONT_ROLE_LABELS[font.role], value: font.family }))),
+            ]
+          : []),
+        body([]),
+      ]
+    }
+  }
+}
+
+// ============================================
+// 📘 RENDER
+// ============================================
+
+/**
+ * Render a brand foundation document as .docx bytes
+ */
+export async function renderBrandDocx(doc: BrandDocument): Promise<Uint8Array> {
+  const prepared = new Date(doc.generatedAt).toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+  })
+
+  const children: (Paragraph | Table)[] = [
+    new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun(doc.title)] }),
+    body([new TextRun({ text: `${doc.subtitle} - prepared ${prepared}`, color: COLORS.muted })]),
+  ]
+
+  for (const section of doc.sections) {
+    children.push(new Paragraph({ heading: HeadingLevel.HEADING_1, children: [new TextRun(section.title)] }))
+    if (section.subtitle) {
+      children.push(body([new TextRun({ text: section.subtitle, italics: true, size: 18, color: COLORS.muted })]))
+    }
+    for (const block of section.blocks) children.push(...renderBlock(block))
+  }
+
+  const document = new Document({
+    title: `${doc.title} - Brand foundation`,
+    description: doc.subtitle,
+    creator: 'Foundation Studio',
+    styles: {
+      default: {
+        document: { run: { font: 'Calibri', size: 22, color: '374151' } },
+        title: { run: { font: 'Calibri', size: 52, bold: true, color: COLORS.primary } },
+        heading1: {
+          run: { font: 'Calibri', size: 32, bold: true, color: COLORS.primaryDark },
+          paragraph: { spacing: { before: 360, after: 60 } },
+        },
+      },
+    },
+    sections: [
+      {
+        footers: {
+          default: new Footer({
+            children: [
+              new Paragraph({
+                alignment: AlignmentType.RIGHT,
+                children: [
+                  new TextRun({
+                    children: [`${doc.title} - Brand foundation    Page `, PageNumber.CURRENT, ' of ', PageNumber.TOTAL_PAGES],
+                    size: 16,
+                    color: COLORS.muted,
+                  }),
+                ],
+              }),
+            ],
+          }),
+        },
+        children,
+      },
+    ],
+  })
+
+  return new Uint8Array(await Packer.toBuffer(document))
+}
@@ -0,0 +1,294 @@
+/**
+ * 📦 BRAND FOUNDATION JSON
+ * ========================
+ * The versioned JSON form of a project - for moving foundations between
+ * accounts and into other tools, and for reading them back in.
+ *
+ * Format (version 1):
+ *   {
+ *     "format": "brand-foundation",
+ *     "version": 1,
+ *     "exported_at": "2026-01-01T00:00:00.000Z",
+ *     "project":    { project_name, project_type, status, client_name, ... },
+ *     "assets":     { website_url, linkedin_url },
+ *     "profile":    { rep_name, rep_role, ..., communication_style, price_position },
+ *     "buckets":    { core_idea: { idea_name, ... }, value_prop: { ... }, ... },
+ *     "ai":         { ai_clarity_score, ai_one_liner, ..., ai_words_to_avoid },
+ *     "scraped":    { social_urls, scraped_tagline, ..., visual_identity, scrape_suggestions },
+ *     "onboarding": { suggestion_decisions },
+ *     "provenance": { [column]: { source, set_at, confidence } }
+ *   }
+ * Keys are business_projects column names, and every column is present
+ * (null when empty). Ids, owners, timestamps and analyzer run ids are
+ * left out - they mean nothing in another account.
+ *
+ * Versioning: renaming, moving or retyping a field bumps
+ * BRAND_FOUNDATION_VERSION, and readBrandFoundation() upgrades older
+ * files. Adding a field doesn't - readers skip keys they don't know.
+ */
+
+import { BUCKETS, BUCKET_ORDER } from '@/lib/config/buckets'
+import { getFieldSpec } from '@/lib/config/fields'
+import { ANALYZER_REGISTRY } from '@/lib/analyzers/registry'
+import type { BusinessProject, FieldProvenance, FieldSource } from '@/lib/types'
+
+// ============================================
+// 📋 FORMAT
+// ============================================
+
+export const BRAND_FOUNDATION_FORMAT = 'brand-foundation'
+export const BRAND_FOUNDATION_VERSION = 1
+
+/** What a column holds, as far as the file is concerned */
+type ValueKind = 'text' | 'number' | 'list' | 'object'
+
+const KIND_LABELS: Record<ValueKind, string> = {
+  text: 'text',
+  number: 'a number',
+  list: 'a list of text',
+  object: 'an object',
+}
+
+/** Every group but the buckets - column → kind, in file order */
+const GROUPS = {
+  project: {
+    project_name: 'text',
+    project_type: 'text',
+    status: 'text',
+    client_name: 'text',
+    client_contact: 'text',
+    current_step: 'text',
+    bucket_completion: 'object',
+    overall_completion: 'number',
+  },
+  assets: {
+    website_url: 'text',
+    linkedin_url: 'text',
+  },
+  profile: {
+    rep_name: 'text',
+    rep_role: 'text',
+    company_size: 'text',
+    brand_location: 'text',
+    year_founded: 'number',
+    customer_description: 'text',
+    brand_personality: 'list',
+    communication_style: 'number',
+    price_position: 'number',
+  },
+  ai: {
+    ai_clarity_score: 'number',
+    ai_one_liner: 'text',
+    ai_implied_assumptions: 'list',
+    ai_viability_score: 'number',
+    ai_summary: 'text',
+    ai_next_steps: 'list',
+    ai_market_size: 'text',
+    ai_competitors: 'list',
+    ai_suggested_model: 'text',
+    ai_risks: 'object',
+    ai_strengths: 'list',
+    ai_weaknesses: 'list',
+    ai_positioning: 'text',
+    brand_archetype: 'text',
+    brand_tone: 'text',
+    ai_voice_guidelines: 'list',
+    ai_words_to_use: 'list',
+    ai_words_to_avoid: 'list',
+  },
+  scraped: {
+    social_urls: 'object',
+    scraped_tagline: 'text',
+    scraped_services: 'list',
+    scraped_industry: 'text',
+    scraped_content: 'text',
+    scrape_confidence: 'number',
+    scraped_at: 'text',
+    instagram_handle: 'text',
+    twitter_handle: 'text',
+    facebook_url: 'text',
+    tiktok_handle: 'text',
+    youtube_url: 'text',
+    logo_url: 'text',
+    contact_email: 'text',
+    contact_phone: 'text',
+    business_address: 'text',
+    visual_identity: 'object',
+    scrape_suggestions: 'object',
+  },
+  onboarding: {
+    suggestion_decisions: 'object',
+  },
+} satisfies Record<string, Partial<Record<keyof BusinessProject, ValueKind>>>
+
+type GroupName = keyof typeof GROUPS
+
+/** Columns that stay behind */
+export const NOT_EXPORTED = ['id', 'workspace_id', 'member_id', 'field_provenance', 'step_drafts', 'created_at', 'updated_at']
+
+export type BrandFoundation = {
+  format: typeof BRAND_FOUNDATION_FORMAT
+  version: number
+  exported_at: string
+  buckets: Record<string, Record<string, unknown>>
+  provenance: Record<string, Omit<FieldProvenance, 'run_id'>>
+} & Record<GroupName, Record<string, unknown>>
+
+/**
+ * Bucket fields take their kind from the field config
+ */
+function bucketFieldKind(field: string): ValueKind {
+  const kind = getFieldSpec(field).kind
+  return kind === 'scale' ? 'number' : kind === 'list' ? 'list' : 'text'
+}
+
+/**
+ * Every exported column and its kind
+ */
+export function getFoundationFields(): Record<string, ValueKind> {
+  return {
+    ...Object.assign({}, ...Object.values(GROUPS)),
+    ...Object.fromEntries(
+      BUCKET_ORDER.flatMap(id => BUCKETS[id].fields.map(field => [field, bucketFieldKind(field)]))
+    ),
+  }
+}
+
+// ============================================
+// 📤 EXPORT
+// ============================================
+
+/**
+ * A project as a brand foundation file
+ */
+export function toBrandFoundation(project: BusinessProject): BrandFoundation {
+  const values = project as unknown as Record<string, unknown>
+  const pick = (fields: string[]) =>
+    Object.fromEntries(fields.map(field => [field, values[field] ?? null]))
+
+  const groups = Object.fromEntries(
+    Object.entries(GROUPS).map(([name, fields]) => [name, pick(Object.keys(fields))])
+  ) as Record<GroupName, Record<string, unknown>>
+
+  const provenance = Object.fromEntries(
+    Object.entries(project.field_provenance ?? {}).map(([field, entry]) => [
+      field,
+      { source: entry.source, set_at: entry.set_at, confidence: entry.confidence },
+    ])
+  )
+
+  return {
+    format: BRAND_FOUNDATION_FORMAT,
+    version: BRAND_FOUNDATION_VERSION,
+    exported_at: new Date().toISOString(),
+    project: groups.project,
+    assets: groups.assets,
+    profile: groups.profile,
+    buckets: Object.fromEntries(BUCKET_ORDER.map(id => [id, pick(BUCKETS[id].fields)])),
+    ai: groups.ai,
+    scraped: groups.scraped,
+    onboarding: groups.onboarding,
+    provenance,
+  }
+}
+
+// ============================================
+// 📥 IMPORT
+// ============================================
+
+export type BrandFoundationReadResult =
+  | {
+      ok: true
+      /** Columns for a new business_projects row (empty ones left out) */
+      fields: Record<string, unknown>
+      /** Provenance for those columns, without run ids */
+      provenance: Record<string, FieldProvenance>
+    }
+  | { ok: false; error: string }
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isKind(value: unknown, kind: ValueKind): boolean {
+  switch (kind) {
+    case 'text':
+      return typeof value === 'string'
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+    case 'list':
+      return Array.isArray(value) && value.every(item => typeof item === 'string')
+    case 'object':
+      return isRecord(value)
+  }
+}
+
+const FIELD_SOURCES = new Set<string>(['user', 'client', ...Object.keys(ANALYZER_REGISTRY)])
+
+/**
+ * Check a brand foundation file and turn it into project columns
+ */
+export function readBrandFoundation(input: unknown): BrandFoundationReadResult {
+  if (!isRecord(input) || input.format !== BRAND_FOUNDATION_FORMAT) {
+    return { ok: false, error: 'Not a brand foundation file' }
+  }
+
+  const version = input.version
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return { ok: false, error: 'The file has no valid version' }
+  }
+  if (version > BRAND_FOUNDATION_VERSION) {
+    return {
+      ok: false,
+      error: `The file is version ${version} - this app reads up to version ${BRAND_FOUNDATION_VERSION}`,
+    }
+  }
+
+  const fields: Record<string, unknown> = {}
+
+  // Copies one group's columns, or says which value doesn't fit
+  const readGroup = (path: string, group: unknown, kinds: Record<string, ValueKind>): string | null => {
+    if (group === undefined || group === null) return null
+    if (!isRecord(group)) return `${path} should be an object`
+
+    for (const [field, kind] of Object.entries(kinds)) {
+      const value = group[field]
+      if (value === undefined || value === null) continue
+      if (!isKind(value, kind)) return `${path}.${field} should be ${KIND_LABELS[kind]}`
+      fields[field] = value
+    }
+
+    return null
+  }
+
+  for (const [name, kinds] of Object.entries(GROUPS)) {
+    const error = readGroup(name, input[name], kinds)
+    if (error) return { ok: false, error }
+  }
+
+  const buckets = isRecord(input.buckets) ? input.buckets : {}
+  for (const id of BUCKET_ORDER) {
+    const kinds = Object.fromEntries(BUCKETS[id].fields.map(field => [field, bucketFieldKind(field)]))
+    const error = readGroup(`buckets.${id}`, buckets[id], kinds)
+    if (error) return { ok: false, error }
+  }
+
+  if (!fields.project_name) fields.project_name = 'Imported project'
+
+  // Provenance only for columns we're writing, from sources we know
+  const provenance: Record<string, FieldProvenance> = {}
+  for (const [field, entry] of Object.entries(isRecord(input.provenance) ? input.provenance : {})) {
+    if (!(field in fields) || !isRecord(entry)) continue
+    if (typeof entry.source !== 'string' || !FIELD_SOURCES.has(entry.source)) continue
+    if (typeof entry.set_at !== 'string') continue
+
+    provenance[field] = {
+      source: entry.source as FieldSource,
+      run_id: null,
+      set_at: entry.set_at,
+      confidence: typeof entry.confidence === 'number' ? entry.confidence : null,
+    }
+  }
+
+  return { ok: true, fields, provenance }
+}
@@ -0,0 +1,74 @@
+/**
+ * 📝 BRAND FOUNDATION MARKDOWN
+ * ============================
+ * Writes a BrandDocument as Markdown - pastes cleanly into Notion, Google
+ * Docs (with Markdown enabled) and most wikis. Sections become `##`
+ * headings and block labels `###`, so the outline survives the paste.
+ */
+
+import { FONT_ROLE_LABELS, type BrandDocument, type DocumentBlock } from './document'
+
+/**
+ * Markdown for one block
+ */
+function renderBlock(block: DocumentBlock): string {
+  const heading = 'label' in block && block.label ? `### ${block.label}\n\n` : ''
+
+  switch (block.type) {
+    case 'paragraph':
+      return `${heading}${block.text}`
+
+    case 'facts':
+      return block.facts.map(fact => `**${fact.label}:** ${fact.value}`).join('  \n')
+
+    case 'tags':
+      return `${heading}${block.items.join(', ')}`
+
+    case 'list':
+      return `${heading}${block.items.map(item => `- ${item}`).join('\n')}`
+
+    case 'score':
+      return `**${block.label}:** ${block.value} / ${block.max}`
+
+    case 'risks':
+      return block.risks
+        .map(risk => {
+          const mitigation = risk.mitigation ? ` - ${risk.mitigation}` : ''
+          return `- **${risk.title}** (${risk.severity})${mitigation}`
+        })
+        .join('\n')
+
+    case 'visual': {
+      const { colors, fonts } = block.visualIdentity
+      const parts: string[] = []
+      if (colors.length > 0) {
+        parts.push(`**Colors:** ${colors.map(color => `\`${color.hex}\``).join(', ')}`)
+      }
+      for (const font of fonts) {
+        parts.push(`**${FONT_ROLE_LABELS[font.role]}:** ${font.family}`)
+      }
+      return parts.join('  \n')
+    }
+  }
+}
+
+/**
+ * Render a brand foundation document as Markdown
+ */
+export function renderBrandMarkdown(doc: BrandDocument): string {
+  const prepared = new Date(doc.generatedAt).toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+  })
+
+  const parts = [`# ${doc.title}`, `_${doc.subtitle} - prepared ${prepared}_`]
+
+  for (const section of doc.sections) {
+    parts.push(`## ${section.title}`)
+    if (section.subtitle) parts.push(`_${section.subtitle}_`)
+    parts.push(...section.blocks.map(renderBlock))
+  }
+
+  return `${parts.join('\n\n')}\n`
+}
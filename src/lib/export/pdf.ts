@@ -0,0 +1,509 @@
+/**
+ * 🖨️ BRAND FOUNDATION PDF
+ * =======================
+ * Lays a BrandDocument out as a US Letter PDF with pdf-lib - pure JS, so
+ * it runs in a route handler without a headless browser.
+ *
+ * Layout:
+ * - Teal title band on the first page, sections flow after it
+ * - Labels, wrapped paragraphs, fact rows, word chips, bullet lists,
+ *   score bars, rated risks, color swatches
+ * - Footer with the business name and "Page n of N" on every page
+ *
+ * The standard PDF fonts only cover WinAnsi (Latin-1 plus a few
+ * typographic marks), so text is cleaned to what they can draw.
+ */
+
+import { PDFDocument, PDFFont, PDFPage, PageSizes, RGB, StandardFonts, rgb } from 'pdf-lib'
+import { FONT_ROLE_LABELS, type BrandDocument, type DocumentBlock, type DocumentSection } from './document'
+import type { VisualIdentity } from '@/lib/types'
+import type { IdentifiedRisk } from '@/lib/analyzers/types'
+
+// ============================================
+// 📋 CONSTANTS
+// ============================================
+
+const [PAGE_WIDTH, PAGE_HEIGHT] = PageSizes.Letter
+const MARGIN = 56
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+const FOOTER_HEIGHT = 32
+
+const BODY_SIZE = 11
+const LINE_HEIGHT = 15
+const LABEL_SIZE = 8.5
+
+function hexToRgb(hex: string): RGB {
+  const value = parseInt(hex.replace('#', ''), 16)
+  return rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255)
+}
+
+// Tailwind's primary / gray scales, so the PDF looks like the app
+const COLORS = {
+  primary: hexToRgb('#0d9488'),
+  primaryDark: hexToRgb('#115e59'),
+  primaryLight: hexToRgb('#f0fdfa'),
+  primaryBorder: hexToRgb('#99f6e4'),
+  heading: hexToRgb('#111827'),
+  body: hexToRgb('#374151'),
+  muted: hexToRgb('#6b7280'),
+  rule: hexToRgb('#e5e7eb'),
+  track: hexToRgb('#f3f4f6'),
+  white: rgb(1, 1, 1),
+}
+
+const SEVERITY_COLORS: Record<IdentifiedRisk['severity'], RGB> = {
+  high: hexToRgb('#dc2626'),
+  medium: hexToRgb('#d97706'),
+  low: hexToRgb('#16a34a'),
+}
+
+// ============================================
+// ✍️ WRITER
+// ============================================
+
+interface Fonts {
+  regular: PDFFont
+  bold: PDFFont
+  italic: PDFFont
+}
+
+/**
+ * Draws top to bottom, adding pages as it runs out of room
+ */
+class PdfWriter {
+  private page!: PDFPage
+  private y = 0
+  private readonly drawable: Set<number>
+
+  constructor(private readonly pdf: PDFDocument, private readonly fonts: Fonts) {
+    this.drawable = new Set(fonts.regular.getCharacterSet())
+    this.addPage()
+  }
+
+  // ------------------------------------------
+  // Pages
+  // ------------------------------------------
+
+  private addPage() {
+    this.page = this.pdf.addPage(PageSizes.Letter)
+    this.y = PAGE_HEIGHT - MARGIN
+  }
+
+  /** Start a new page unless `height` more points fit on this one */
+  ensureSpace(height: number) {
+    if (this.y - height < MARGIN + FOOTER_HEIGHT) this.addPage()
+  }
+
+  gap(height: number) {
+    this.y -= height
+  }
+
+  // ------------------------------------------
+  // Text
+  // ------------------------------------------
+
+  /** Keep only what the standard fonts can draw */
+  clean(text: string): string {
+    return Array.from(text.replace(/\t/g, ' ').replace(/\r/g, ''))
+      .map(char => {
+        if (char === '\n' || this.drawable.has(char.codePointAt(0)!)) return char
+        // Try the unaccented letter (e.g. "ő" -> "o")
+        const base = char.normalize('NFKD').charAt(0)
+        return this.drawable.has(base.codePointAt(0)!) ? base : ''
+      })
+      .join('')
+      // Dropped emoji leave double spaces behind
+      .replace(/ {2,}/g, ' ')
+  }
+
+  /** Split text into lines no wider than `width` */
+  wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+    const lines: string[] = []
+
+    for (const paragraph of this.clean(text).split('\n')) {
+      let line = ''
+
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word
+        if (font.widthOfTextAtSize(candidate, size) <= width) {
+          line = candidate
+          continue
+        }
+
+        if (line) lines.push(line)
+
+        // A word wider than the line (e.g. a long URL) gets broken up
+        line = ''
+        for (const char of word) {
+          if (font.widthOfTextAtSize(line + char, size) > width && line) {
+            lines.push(line)
+            line = ''
+          }
+          line += char
+        }
+      }
+
+      lines.push(line)
+    }
+
+    return lines
+  }
+
+  /** Draw one line at the cursor's x offset, without moving down */
+  drawLine(text: string, x: number, options: { font?: PDFFont; size?: number; color?: RGB } = {}) {
+    this.page.drawText(this.clean(text), {
+      x,
+      y: this.y,
+      font: options.font ?? this.fonts.regular,
+      size: options.size ?? BODY_SIZE,
+      color: options.color ?? COLORS.body,
+    })
+  }
+
+  /** Draw wrapped text, moving down a line at a time */
+  text(
+    text: string,
+    options: { x?: number; width?: number; font?: PDFFont; size?: number; color?: RGB; lineHeight?: number } = {}
+  ) {
+    const x = options.x ?? MARGIN
+    const size = options.size ?? BODY_SIZE
+    const font = options.font ?? this.fonts.regular
+    const lineHeight = options.lineHeight ?? LINE_HEIGHT
+
+    for (const line of this.wrap(text, font, size, options.width ?? CONTENT_WIDTH - (x - MARGIN))) {
+      this.ensureSpace(lineHeight)
+      this.y -= lineHeight
+      this.drawLine(line, x, { font, size, color: options.color })
+    }
+  }
+
+  label(text: string) {
+    this.ensureSpace(LINE_HEIGHT * 2)
+    this.text(text.toUpperCase(), { font: this.fonts.bold, size: LABEL_SIZE, color: COLORS.muted, lineHeight: 13 })
+    this.gap(2)
+  }
+
+  // ------------------------------------------
+  // Document parts
+  // ------------------------------------------
+
+  titleBand(doc: BrandDocument) {
+    const height = 128
+    this.page.drawRectangle({
+      x: 0,
+      y: PAGE_HEIGHT - height,
+      width: PAGE_WIDTH,
+      height,
+      color: COLORS.primary,
+    })
+
+    // Long names shrink to fit on one line, then get cut short
+    let title = this.clean(doc.title)
+    let size = 26
+    while (size > 14 && this.fonts.bold.widthOfTextAtSize(title, size) > CONTENT_WIDTH) size--
+    while (title.length > 1 && this.fonts.bold.widthOfTextAtSize(`${title}...`, size) > CONTENT_WIDTH) {
+      title = title.slice(0, -1)
+    }
+    if (title !== this.clean(doc.title)) title = `${title.trimEnd()}...`
+
+    this.y = PAGE_HEIGHT - 56
+    this.drawLine(title, MARGIN, { font: this.fonts.bold, size, color: COLORS.white })
+    this.y = PAGE_HEIGHT - 80
+    this.drawLine(doc.subtitle, MARGIN, { size: 13, color: COLORS.primaryLight })
+    this.y = PAGE_HEIGHT - 98
+    this.drawLine(
+      `Prepared ${new Date(doc.generatedAt).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}`,
+      MARGIN,
+      { size: 9, color: COLORS.primaryLight }
+    )
+
+    this.y = PAGE_HEIGHT - height - 28
+  }
+
+  sectionHeading(section: DocumentSection) {
+    // Keep the heading with at least a couple of lines of its content
+    this.ensureSpace(80)
+    this.gap(10)
+    this.text(section.title, { font: this.fonts.bold, size: 16, color: COLORS.primaryDark, lineHeight: 20 })
+
+    if (section.subtitle) {
+      this.text(section.subtitle, { font: this.fonts.italic, size: 9, color: COLORS.muted, lineHeight: 13 })
+    }
+
+    this.gap(6)
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 0.75,
+      color: COLORS.rule,
+    })
+    this.gap(6)
+  }
+
+  paragraph(text: string, label?: string) {
+    if (label) this.label(label)
+    this.text(text)
+    this.gap(10)
+  }
+
+  facts(facts: { label: string; value: string }[]) {
+    const labelWidth = 110
+
+    for (const fact of facts) {
+      this.ensureSpace(LINE_HEIGHT)
+      this.y -= LINE_HEIGHT
+      this.drawLine(fact.label, MARGIN, { font: this.fonts.bold, size: 10, color: COLORS.muted })
+      // Value wraps in its own column, starting on the label's line
+      this.y += LINE_HEIGHT
+      this.text(fact.value, { x: MARGIN + labelWidth })
+      this.gap(3)
+    }
+
+    this.gap(7)
+  }
+
+  tags(items: string[], label?: string) {
+    if (label) this.label(label)
+
+    const size = 10
+    const padX = 8
+    const height = 18
+    let x = MARGIN
+
+    this.ensureSpace(height + 6)
+    this.y -= height
+
+    for (const item of items) {
+      const text = this.clean(item)
+      const width = Math.min(this.fonts.regular.widthOfTextAtSize(text, size) + padX * 2, CONTENT_WIDTH)
+
+      if (x + width > PAGE_WIDTH - MARGIN && x > MARGIN) {
+        x = MARGIN
+        this.ensureSpace(height + 6)
+        this.y -= height + 6
+      }
+
+      this.page.drawRectangle({
+        x,
+        y: this.y,
+        width,
+        height,
+        color: COLORS.primaryLight,
+        borderColor: COLORS.primaryBorder,
+        borderWidth: 0.75,
+      })
+      this.page.drawText(text, {
+        x: x + padX,
+        y: this.y + 5.5,
+        font: this.fonts.regular,
+        size,
+        color: COLORS.primaryDark,
+      })
+      x += width + 6
+    }
+
+    this.gap(16)
+  }
+
+  list(items: string[], label?: string) {
+    if (label) this.label(label)
+
+    for (const item of items) {
+      this.ensureSpace(LINE_HEIGHT)
+      this.drawBullet()
+      this.text(item, { x: MARGIN + 14 })
+      this.gap(3)
+    }
+
+    this.gap(7)
+  }
+
+  private drawBullet() {
+    this.page.drawCircle({
+      x: MARGIN + 4,
+      y: this.y - LINE_HEIGHT + 3.5,
+      size: 2,
+      color: COLORS.primary,
+    })
+  }
+
+  score(label: string, value: number, max: number) {
+    const barWidth = 220
+    const barHeight = 8
+
+    this.ensureSpace(42)
+    this.label(label)
+
+    this.y -= 20
+    this.drawLine(`${value}`, MARGIN, { font: this.fonts.bold, size: 20, color: COLORS.heading })
+    this.drawLine(`/ ${max}`, MARGIN + this.fonts.bold.widthOfTextAtSize(`${value}`, 20) + 4, {
+      size: 10,
+      color: COLORS.muted,
+    })
+
+    const barX = MARGIN + 80
+    this.page.drawRectangle({ x: barX, y: this.y + 4, width: barWidth, height: barHeight, color: COLORS.track })
+    this.page.drawRectangle({
+      x: barX,
+      y: this.y + 4,
+      width: barWidth * Math.max(0, Math.min(1, value / max)),
+      height: barHeight,
+      color: COLORS.primary,
+    })
+
+    this.gap(14)
+  }
+
+  risks(risks: IdentifiedRisk[]) {
+    for (const risk of risks) {
+      const chip = risk.severity.toUpperCase()
+      const chipWidth = this.fonts.bold.widthOfTextAtSize(chip, 7.5) + 10
+
+      this.ensureSpace(LINE_HEIGHT * 2)
+      this.y -= LINE_HEIGHT
+      this.page.drawRectangle({
+        x: MARGIN,
+        y: this.y - 3,
+        width: chipWidth,
+        height: 13,
+        color: SEVERITY_COLORS[risk.severity] ?? COLORS.muted,
+      })
+      this.drawLine(chip, MARGIN + 5, { font: this.fonts.bold, size: 7.5, color: COLORS.white })
+      this.y += LINE_HEIGHT
+      this.text(risk.title, { x: MARGIN + chipWidth + 8, font: this.fonts.bold, color: COLORS.heading })
+
+      if (risk.mitigation) {
+        this.text(`Mitigation: ${risk.mitigation}`, { x: MARGIN + chipWidth + 8, size: 10, color: COLORS.muted })
+      }
+
+      this.gap(8)
+    }
+
+    this.gap(4)
+  }
+
+  visual({ colors, fonts }: VisualIdentity) {
+    if (colors.length > 0) {
+      this.label('Colors')
+
+      const swatch = 44
+      const step = swatch + 20
+      let x = MARGIN
+
+      this.ensureSpace(swatch + 24)
+      for (const color of colors) {
+        if (x + swatch > PAGE_WIDTH - MARGIN) {
+          x = MARGIN
+          this.y -= swatch + 24
+          this.ensureSpace(swatch + 24)
+        }
+
+        this.page.drawRectangle({
+          x,
+          y: this.y - swatch,
+          width: swatch,
+          height: swatch,
+          color: hexToRgb(color.hex),
+          borderColor: COLORS.rule,
+          borderWidth: 0.75,
+        })
+        this.page.drawText(color.hex, {
+          x,
+          y: this.y - swatch - 12,
+          font: this.fonts.regular,
+          size: 8,
+          color: COLORS.body,
+        })
+        x += step
+      }
+
+      this.y -= swatch + 28
+    }
+
+    if (fonts.length > 0) {
+      this.label('Fonts')
+      this.facts(
+        fonts.map(font => ({
+          label: FONT_ROLE_LABELS[font.role],
+          value: font.source === 'google_fonts' ? `${font.family} (Google Fonts)` : font.family,
+        }))
+      )
+    }
+  }
+
+  block(block: DocumentBlock) {
+    switch (block.type) {
+      case 'paragraph':
+        return this.paragraph(block.text, block.label)
+      case 'facts':
+        return this.facts(block.facts)
+      case 'tags':
+        return this.tags(block.items, block.label)
+      case 'list':
+        return this.list(block.items, block.label)
+      case 'score':
+        return this.score(block.label, block.value, block.max)
+      case 'risks':
+        return this.risks(block.risks)
+      case 'visual':
+        return this.visual(block.visualIdentity)
+    }
+  }
+
+  /** Footer on every page, once the page count is known */
+  footers(title: string) {
+    const pages = this.pdf.getPages()
+
+    pages.forEach((page, index) => {
+      const pageLabel = `Page ${index + 1} of ${pages.length}`
+      const size = 8
+
+      page.drawText(this.clean(`${title} - Brand foundation`), {
+        x: MARGIN,
+        y: MARGIN - 20,
+        font: this.fonts.regular,
+        size,
+        color: COLORS.muted,
+      })
+      page.drawText(pageLabel, {
+        x: PAGE_WIDTH - MARGIN - this.fonts.regular.widthOfTextAtSize(pageLabel, size),
+        y: MARGIN - 20,
+        font: this.fonts.regular,
+        size,
+        color: COLORS.muted,
+      })
+    })
+  }
+}
+
+// ============================================
+// 🖨️ RENDER
+// ============================================
+
+/**
+ * Render a brand foundation document as PDF bytes
+ */
+export async function renderBrandPdf(doc: BrandDocument): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create()
+  pdf.setTitle(`${doc.title} - Brand foundation`)
+  pdf.setSubject(doc.subtitle)
+  pdf.setCreator('Foundation Studio')
+  pdf.setCreationDate(new Date(doc.generatedAt))
+
+  const writer = new PdfWriter(pdf, {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+    italic: await pdf.embedFont(StandardFonts.HelveticaOblique),
+  })
+
+  writer.titleBand(doc)
+
+  for (const section of doc.sections) {
+    writer.sectionHeading(section)
+    for (const block of section.blocks) writer.block(block)
+  }
+
+  writer.footers(doc.title)
+
+  return pdf.save()
+}
@@ -0,0 +1,133 @@
+/**
+ * 📨 CLIENT INVITES
+ * =================
+ * Helpers for client invites (safe to use in the browser - the token and
+ * database side is in server.ts).
+ *
+ * A consultant sends the client of a portfolio project a link to
+ * /guest/<token>: a guest version of onboarding with just the setup,
+ * story, words and style steps. The client needs no account, can only
+ * write GUEST_FIELDS, and their answers are stamped as source 'client'.
+ *
+ * There's no mail service, so invites and reminders go out from the
+ * consultant's own mail app (getInviteMailto).
+ */
+
+import type { ClientInvite, ClientInviteStep } from '@/lib/types'
+import type { OnboardStep } from '@/lib/config/onboarding'
+
+// ============================================
+// 📋 CONFIG
+// ============================================
+
+/** The onboarding steps a client answers, in order */
+export const GUEST_STEPS = ['setup', 'story', 'words', 'style'] as const satisfies readonly OnboardStep[]
+
+/** How long a new invite lasts */
+export const INVITE_EXPIRY_DAYS = 30
+
+/**
+ * Columns the client may write, and what they hold - the answers on the
+ * four steps. Project name and type and the client's own name and
+ * contact stay the consultant's.
+ */
+export const GUEST_FIELDS = {
+  // Setup
+  idea_name: 'text',
+  company_size: 'text',
+  rep_name: 'text',
+  rep_role: 'text',
+  // Story
+  brand_location: 'text',
+  year_founded: 'number',
+  problem_statement: 'text',
+  customer_description: 'text',
+  secret_sauce: 'text',
+  // Words
+  brand_personality: 'list',
+  target_audience: 'list',
+  // Style
+  communication_style: 'number',
+  price_position: 'number',
+  // Answers to the website's suggestions (story and words)
+  suggestion_decisions: 'object',
+} as const
+
+export type GuestField = keyof typeof GUEST_FIELDS
+
+// ============================================
+// 🔍 HELPERS
+// ============================================
+
+export type ClientInviteStatus = 'not_started' | 'in_progress' | 'completed' | 'expired' | 'revoked'
+
+/**
+ * Where an invite stands
+ */
+export function getClientInviteStatus(invite: ClientInvite, now = new Date()): ClientInviteStatus {
+  if (invite.revoked_at) return 'revoked'
+  if (invite.completed_at) return 'completed'
+  if (invite.expires_at && new Date(invite.expires_at) <= now) return 'expired'
+  return invite.opened_at ? 'in_progress' : 'not_started'
+}
+
+/**
+ * Whether the client can still open the link (a finished client can
+ * still go back and change answers)
+ */
+export function isInviteOpen(invite: ClientInvite, now = new Date()): boolean {
+  return !invite.revoked_at && !(invite.expires_at && new Date(invite.expires_at) <= now)
+}
+
+/**
+ * Steps the client has finished
+ */
+export function getInviteProgress(invite: ClientInvite): number {
+  if (invite.current_step === 'done') return GUEST_STEPS.length
+  return GUEST_STEPS.indexOf(invite.current_step)
+}
+
+/**
+ * The step after this one in the guest flow ('done' after the last)
+ */
+export function getNextGuestStep(step: ClientInviteStep): ClientInviteStep {
+  const index = GUEST_STEPS.indexOf(step as (typeof GUEST_STEPS)[number])
+  return index === -1 || index === GUEST_STEPS.length - 1 ? 'done' : GUEST_STEPS[index + 1]
+}
+
+/**
+ * Whether an onboarding step is one the client answers (or their 'done')
+ */
+export function isClientInviteStep(step: unknown): step is ClientInviteStep {
+  return step === 'done' || GUEST_STEPS.includes(step as (typeof GUEST_STEPS)[number])
+}
+
+/**
+ * The public path for an invite (or one of its steps)
+ */
+export function getInvitePath(token: string, step?: ClientInviteStep): string {
+  return step ? `/guest/${token}/${step}` : `/guest/${token}`
+}
+
+/**
+ * A mailto: link with the invite (or a reminder) ready to send
+ *
+ * @param url - the full invite URL
+ */
+export function getInviteMailto(
+  invite: ClientInvite,
+  url: string,
+  options: { brandName: string; senderName?: string | null; reminder?: boolean }
+): string {
+  const greeting = invite.client_name ? `Hi ${invite.client_name},` : 'Hi,'
+  const signOff = options.senderName ? `\n\nThanks,\n${options.senderName}` : ''
+
+  const subject = options.reminder
+    ? `Reminder: a few questions about ${options.brandName}`
+    : `A few questions about ${options.brandName}`
+  const body = options.reminder
+    ? `${greeting}\n\nJust a nudge - your answers help me build the brand foundation for ${options.brandName}. You can pick up where you left off here:\n\n${url}${signOff}`
+    : `${greeting}\n\nI'm building the brand foundation for ${options.brandName} and I'd love your input. It's four short steps, no account needed:\n\n${url}${signOff}`
+
+  return `mailto:${encodeURIComponent(invite.client_email ?? '')}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`
+}
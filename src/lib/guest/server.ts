@@ -0,0 +1,248 @@
+/**
+ * 📨 CLIENT INVITES (SERVER)
+ * ==========================
+ * Opening an invite and saving the client's answers. Server only - the
+ * client isn't signed in, so everything here uses the service role and
+ * the token is the only check. Only GUEST_FIELDS are ever written.
+ */
+
+import { createAdminClient } from '@/lib/supabase/server'
+import { applyFieldUpdates } from '@/lib/chat/apply'
+import { COMPANY_SIZE_OPTIONS, SUGGESTION_LABELS } from '@/lib/config/onboarding'
+import { log } from '@/lib/utils/logger'
+import { GUEST_FIELDS, GUEST_STEPS, isClientInviteStep, isInviteOpen } from './invites'
+import type { GuestField } from './invites'
+import type { BusinessProject, ClientInvite, ClientInviteStep } from '@/lib/types'
+
+/** Columns the guest pages get - the answers and what the forms need, never the analysis */
+const GUEST_PROJECT_COLUMNS = [
+  'id',
+  'project_name',
+  'scrape_suggestions',
+  'scrape_confidence',
+  'field_provenance',
+  ...Object.keys(GUEST_FIELDS),
+].join(',')
+
+const COMPANY_SIZES = new Set<string>(COMPANY_SIZE_OPTIONS.map(option => option.value))
+
+const SUGGESTION_FIELDS = new Set<string>(Object.keys(SUGGESTION_LABELS))
+
+const DECISION_STATUSES = new Set<unknown>(['accepted', 'edited', 'rejected'])
+
+// ============================================
+// 👀 OPEN
+// ============================================
+
+/**
+ * The project as the guest pages see it
+ *
+ * The client answers about their own brand, so the forms talk to them
+ * as its owner. "About you" is about whoever answers - the consultant's
+ * name and role are left out until the client has given their own.
+ */
+function toGuestProject(project: Record<string, unknown>, invite: ClientInvite): BusinessProject {
+  const { field_provenance: provenance, ...values } = project as Record<string, unknown> & {
+    field_provenance: BusinessProject['field_provenance']
+  }
+  const isClients = (field: string) => provenance?.[field]?.source === 'client'
+
+  return {
+    ...values,
+    project_type: 'primary',
+    rep_name: isClients('rep_name') ? values.rep_name : invite.client_name,
+    rep_role: isClients('rep_role') ? values.rep_role : null,
+  } as unknown as BusinessProject
+}
+
+/**
+ * An invite by its token, if it's still open
+ *
+ * @returns null if the invite doesn't exist, expired or was revoked
+ * @throws If the lookup fails
+ */
+export async function findClientInvite(token: string): Promise<ClientInvite | null> {
+  const { data: invite, error } = await createAdminClient()
+    .from('client_invites')
+    .select('*')
+    .eq('token', token)
+    .maybeSingle()
+
+  if (error) throw error
+  return invite && isInviteOpen(invite as ClientInvite) ? (invite as ClientInvite) : null
+}
+
+/**
+ * Open an invite: check it's still open, note the first visit, load
+ * the client's view of the project
+ *
+ * @returns null if the invite doesn't exist, expired or was revoked
+ */
+export async function openClientInvite(
+  token: string
+): Promise<{ invite: ClientInvite; project: BusinessProject } | null> {
+  try {
+    let invite = await findClientInvite(token)
+    if (!invite) return null
+
+    const supabase = createAdminClient()
+
+    if (!invite.opened_at) {
+      const now = new Date().toISOString()
+      const { data: opened } = await supabase
+        .from('client_invites')
+        .update({ opened_at: now, last_activity_at: now })
+        .eq('id', invite.id)
+        .select()
+        .single()
+      if (opened) invite = opened as ClientInvite
+    }
+
+    const { data: project, error } = await supabase
+      .from('business_projects')
+      .select(GUEST_PROJECT_COLUMNS)
+      .eq('id', invite.project_id)
+      .single()
+
+    if (error || !project) throw error ?? new Error('Invited project not found')
+
+    return { invite, project: toGuestProject(project as unknown as Record<string, unknown>, invite) }
+  } catch (error) {
+    log.error('📨 Failed to open client invite', error)
+    return null
+  }
+}
+
+// ============================================
+// 💾 SAVE
+// ============================================
+
+function isAnswerValue(value: unknown): value is string | string[] {
+  return typeof value === 'string' || (Array.isArray(value) && value.every(item => typeof item === 'string'))
+}
+
+/**
+ * Whether answers to the website's suggestions are shaped like
+ * suggestion_decisions: keyed by suggestion, each a SuggestionDecision
+ */
+function isSuggestionDecisions(value: Record<string, unknown>): boolean {
+  return Object.entries(value).every(([field, decision]) => {
+    if (!SUGGESTION_FIELDS.has(field)) return false
+    if (typeof decision !== 'object' || decision === null || Array.isArray(decision)) return false
+
+    const { status, suggested, value: kept, decided_at: decidedAt } = decision as Record<string, unknown>
+    return (
+      DECISION_STATUSES.has(status) &&
+      isAnswerValue(suggested) &&
+      (kept === null || isAnswerValue(kept)) &&
+      typeof decidedAt === 'string'
+    )
+  })
+}
+
+/**
+ * Check a guest save and keep only what the client may write
+ *
+ * Anything else the forms send (project name and type, status...) is
+ * dropped.
+ * current_step is where the client is headed next - it moves the invite
+ * along rather than the project.
+ *
+ * @returns the columns to write and the step reached, or an error message
+ */
+export function readGuestAnswers(
+  input: unknown
+): { fields: Partial<Record<GuestField, unknown>>; step: ClientInviteStep | null } | { error: string } {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { error: 'fields must be an object' }
+  }
+
+  const values = input as Record<string, unknown>
+  const fields: Partial<Record<GuestField, unknown>> = {}
+
+  for (const [field, kind] of Object.entries(GUEST_FIELDS) as [GuestField, string][]) {
+    const value = values[field]
+    if (value === undefined) continue
+
+    const valid =
+      value === null ||
+      (kind === 'text' && typeof value === 'string') ||
+      (kind === 'number' && typeof value === 'number' && Number.isFinite(value)) ||
+      (kind === 'list' && Array.isArray(value) && value.every(item => typeof item === 'string')) ||
+      (kind === 'object' && typeof value === 'object' && !Array.isArray(value))
+
+    if (!valid) return { error: `${field} has the wrong type` }
+    if (field === 'company_size' && value !== null && !COMPANY_SIZES.has(value as string)) {
+      return { error: 'Unknown company size' }
+    }
+    if (field === 'suggestion_decisions' && value !== null && !isSuggestionDecisions(value as Record<string, unknown>)) {
+      return { error: 'suggestion_decisions has the wrong shape' }
+    }
+
+    fields[field] = value
+  }
+
+  const step = isClientInviteStep(values.current_step) ? values.current_step : null
+  return { fields, step }
+}
+
+/**
+ * Save the client's answers to the project (stamped as the client's)
+ * and record their progress on the invite
+ *
+ * @param step - the step the client moved on to, if any
+ * @returns the client's view of the project and the updated invite
+ * @throws If the project or invite can't be saved
+ */
+export async function saveGuestAnswers(
+  invite: ClientInvite,
+  fields: Partial<Record<GuestField, unknown>>,
+  step: ClientInviteStep | null
+): Promise<{ invite: ClientInvite; project: BusinessProject }> {
+  const supabase = createAdminClient()
+
+  if (Object.keys(fields).length > 0) {
+    await applyFieldUpdates(supabase, invite.project_id, fields, 'client')
+  }
+
+  // Progress only moves forward - going back to change an answer
+  // doesn't undo it
+  const now = new Date().toISOString()
+  const order: ClientInviteStep[] = [...GUEST_STEPS, 'done']
+  const progress: Partial<ClientInvite> = { last_activity_at: now }
+
+  if (step && order.indexOf(step) > order.indexOf(invite.current_step)) {
+    progress.current_step = step
+  }
+  if (step === 'done' && !invite.completed_at) {
+    progress.completed_at = now
+  }
+
+  const { data: updated, error } = await supabase
+    .from('client_invites')
+    .update(progress)
+    .eq('id', invite.id)
+    .select()
+    .single()
+
+  if (error || !updated) throw error ?? new Error('Client invite not found')
+
+  const { data: project, error: projectError } = await supabase
+    .from('business_projects')
+    .select(GUEST_PROJECT_COLUMNS)
+    .eq('id', invite.project_id)
+    .single()
+
+  if (projectError || !project) throw projectError ?? new Error('Invited project not found')
+
+  log.info('📨 Client answers saved', {
+    inviteId: invite.id,
+    fields: Object.keys(fields),
+    step: updated.current_step,
+  })
+
+  return {
+    invite: updated as ClientInvite,
+    project: toGuestProject(project as unknown as Record<string, unknown>, updated as ClientInvite),
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * 📜 FIELD CHANGES
+ * ================
+ * The change log of a project's fields: every value written, who wrote
+ * it and what it replaced.
+ *
+ * The log is kept by the database (migration 018) from each write's
+ * field_provenance stamp, so saves from the forms, the chat, a client
+ * invite or an analyzer run all land in it without asking. Nothing here
+ * writes to it - restoring a value is an ordinary user save, and logs
+ * itself like any other.
+ *
+ * Usage:
+ *   describeChangeSource(change, member?.id)  // "You", "Sam", "Client", "Brand Voice"
+ *   isCurrentValue(project, change.field, change.old_value)
+ */
+
+import { ANALYZER_REGISTRY } from '@/lib/analyzers/registry'
+import type { BusinessProject, FieldChange } from '@/lib/types'
+
+// ============================================
+// 📋 CONSTANTS
+// ============================================
+
+/** Changes loaded per page of the timeline */
+export const HISTORY_PAGE_SIZE = 50
+
+/** Which side of a change to put back */
+export type RestoreSide = 'old' | 'new'
+
+// ============================================
+// 🏷️ LABELS
+// ============================================
+
+/**
+ * Who made a change, for display
+ *
+ * @param currentMemberId - the signed-in member, shown as "You"
+ */
+export function describeChangeSource(change: FieldChange, currentMemberId?: string | null): string {
+  if (change.source === 'client') return 'Client'
+  if (change.source === 'user') {
+    if (change.changed_by && change.changed_by === currentMemberId) return 'You'
+    return change.member?.name || change.member?.email || 'A teammate'
+  }
+  return ANALYZER_REGISTRY[change.source]?.name ?? change.source
+}
+
+/**
+ * "problem_statement" → "Problem statement"
+ */
+export function humanizeField(field: string): string {
+  const words = field.replace(/_/g, ' ')
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+/**
+ * Short display form of a logged value
+ */
+export function formatChangeValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—'
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '—'
+    return value.map(item => (typeof item === 'object' ? JSON.stringify(item) : String(item))).join(', ')
+  }
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+// ============================================
+// 🔍 LOOKUPS
+// ============================================
+
+/**
+ * Whether a field currently holds this value (nothing to restore)
+ */
+export function isCurrentValue(project: BusinessProject, field: string, value: unknown): boolean {
+  const current = (project as unknown as Record<string, unknown>)[field]
+  return JSON.stringify(current ?? null) === JSON.stringify(value ?? null)
+}
+
+/**
+ * Whether a restore request names a side of a change
+ */
+export function isRestoreSide(value: unknown): value is RestoreSide {
+  return value === 'old' || value === 'new'
+}
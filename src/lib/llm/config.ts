@@ -0,0 +1,78 @@
+/**
+ * ⚙️ LLM CONFIG
+ * =============
+ * Decides which provider and model each caller uses.
+ *
+ * Every caller has a scope - the analyzer type ('clarity',
+ * 'web_scraper', ...) or 'chat'. For each setting the first match wins:
+ * 1. LLM_<SCOPE>_PROVIDER / LLM_<SCOPE>_MODEL (e.g. LLM_CLARITY_MODEL)
+ * 2. The caller's own default (e.g. AnalyzerDefinition.llm)
+ * 3. LLM_PROVIDER / LLM_MODEL
+ * 4. openai / gpt-4o-mini
+ *
+ * Usage:
+ *   resolveLLMConfig('clarity')                    // { provider: 'openai', model: 'gpt-4o-mini' }
+ *   resolveLLMConfig('synthesis', { model: 'gpt-4o' })
+ */
+
+import { log } from '@/lib/utils/logger'
+import type { LLMConfig, LLMProviderName } from './types'
+
+// ============================================
+// 📋 DEFAULTS
+// ============================================
+
+export const DEFAULT_PROVIDER: LLMProviderName = 'openai'
+
+export const DEFAULT_MODEL = 'gpt-4o-mini'
+
+const PROVIDER_NAMES: LLMProviderName[] = ['openai', 'mock']
+
+// ============================================
+// 🔍 RESOLUTION
+// ============================================
+
+/**
+ * 'web_scraper' → 'WEB_SCRAPER'
+ */
+function envKey(scope: string): string {
+  return scope.toUpperCase().replace(/[^A-Z0-9]+/g, '_')
+}
+
+function readEnv(name: string): string | undefined {
+  const value = process.env[name]?.trim()
+  return value || undefined
+}
+
+function isProviderName(value: string): value is LLMProviderName {
+  return (PROVIDER_NAMES as string[]).includes(value)
+}
+
+/**
+ * Provider and model for a scope
+ *
+ * @param scope - Analyzer type or other caller ('chat')
+ * @param defaults - The caller's own preference, below scope env vars
+ */
+export function resolveLLMConfig(scope: string, defaults: Partial<LLMConfig> = {}): LLMConfig {
+  const key = envKey(scope)
+
+  const provider =
+    readEnv(`LLM_${key}_PROVIDER`) ??
+    defaults.provider ??
+    readEnv('LLM_PROVIDER') ??
+    DEFAULT_PROVIDER
+
+  const model =
+    readEnv(`LLM_${key}_MODEL`) ??
+    defaults.model ??
+    readEnv('LLM_MODEL') ??
+    DEFAULT_MODEL
+
+  if (!isProviderName(provider)) {
+    log.warn(`⚙️ Unknown LLM provider "${provider}" for ${scope}, using ${DEFAULT_PROVIDER}`)
+    return { provider: DEFAULT_PROVIDER, model }
+  }
+
+  return { provider, model }
+}
@@ -0,0 +1,76 @@
+/**
+ * 🧠 LLM LAYER - Public API
+ * =========================
+ * Server-side access to language models.
+ *
+ * Callers ask for a scope and get back a provider + model:
+ *   const llm = getLLM('clarity')
+ *   const text = await llm.provider.complete({ model: llm.model, messages, label: 'clarity' })
+ *
+ * Providers:
+ * - openai: the real thing (providers/openai.ts)
+ * - mock:   replays recorded fixtures, no network (providers/mock.ts)
+ *
+ * See config.ts for how provider and model are chosen per scope.
+ */
+
+import { log } from '@/lib/utils/logger'
+import type { LLMConfig, LLMProvider, LLMProviderName, ResolvedLLM } from './types'
+import { resolveLLMConfig } from './config'
+import { OpenAIProvider } from './providers/openai'
+import { MockProvider } from './providers/mock'
+import { RecordingProvider } from './providers/recording'
+
+export type {
+  LLMRole,
+  LLMMessage,
+  LLMTool,
+  LLMChatRequest,
+  LLMExtractRequest,
+  LLMProvider,
+  LLMProviderName,
+  LLMConfig,
+  ResolvedLLM,
+} from './types'
+export { resolveLLMConfig, DEFAULT_MODEL, DEFAULT_PROVIDER } from './config'
+export { OpenAIProvider } from './providers/openai'
+export { MockProvider } from './providers/mock'
+export { RecordingProvider } from './providers/recording'
+
+// ============================================
+// 🔌 PROVIDERS
+// ============================================
+
+const providers = new Map<LLMProviderName, LLMProvider>()
+
+/**
+ * Shared provider instance by name
+ * With LLM_RECORD_FIXTURES=true, real providers record what they return
+ */
+export function getProvider(name: LLMProviderName): LLMProvider {
+  let provider = providers.get(name)
+
+  if (!provider) {
+    provider = name === 'mock' ? new MockProvider() : new OpenAIProvider()
+
+    if (name !== 'mock' && process.env.LLM_RECORD_FIXTURES === 'true') {
+      log.info(`📼 Recording ${name} responses as fixtures`)
+      provider = new RecordingProvider(provider)
+    }
+
+    providers.set(name, provider)
+  }
+
+  return provider
+}
+
+/**
+ * Provider and model for a scope (analyzer type, 'chat', ...)
+ *
+ * @param scope - Who's asking
+ * @param defaults - The caller's own preference (see config.ts for precedence)
+ */
+export function getLLM(scope: string, defaults?: Partial<LLMConfig>): ResolvedLLM {
+  const config = resolveLLMConfig(scope, defaults)
+  return { provider: getProvider(config.provider), model: config.model }
+}
@@ -0,0 +1,59 @@
+/**
+ * 📼 LLM FIXTURES
+ * ===============
+ * Reads and writes the recorded responses the mock provider replays.
+ *
+ * One JSON file per label (analyzer type or 'chat') in the fixtures
+ * directory (LLM_FIXTURES_DIR, default ./fixtures/llm):
+ *
+ *   {
+ *     "complete": "Phase 1 / chat reply text",
+ *     "extract": { "<tool name>": { ...tool call arguments } }
+ *   }
+ */
+
+import fs from 'fs'
+import path from 'path'
+
+export interface LLMFixture {
+  /** Reply for complete() and stream() */
+  complete?: string
+  /** Tool-call arguments for extract(), keyed by tool name */
+  extract?: Record<string, Record<string, unknown>>
+}
+
+/**
+ * Where fixtures live
+ */
+export function getFixturesDir(): string {
+  return process.env.LLM_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'llm')
+}
+
+function fixturePath(dir: string, label: string): string {
+  // Labels are analyzer types / scopes - keep them filename-safe anyway
+  return path.join(dir, `${label.replace(/[^a-z0-9_-]/gi, '_')}.json`)
+}
+
+/**
+ * Load the fixture for a label (null if there isn't one)
+ */
+export function readFixture(dir: string, label: string): LLMFixture | null {
+  const file = fixturePath(dir, label)
+  if (!fs.existsSync(file)) return null
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as LLMFixture
+}
+
+/**
+ * Merge a recorded response into the fixture for a label
+ */
+export function writeFixture(dir: string, label: string, patch: LLMFixture): void {
+  const current = readFixture(dir, label) || {}
+  const next: LLMFixture = {
+    ...current,
+    ...(patch.complete !== undefined && { complete: patch.complete }),
+    ...(patch.extract && { extract: { ...current.extract, ...patch.extract } }),
+  }
+
+  fs.mkdirSync(dir, { recursive: true })
+  fs.writeFileSync(fixturePath(dir, label), `${JSON.stringify(next, null, 2)}\n`)
+}
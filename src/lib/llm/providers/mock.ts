@@ -0,0 +1,76 @@
+/**
+ * 🎭 MOCK PROVIDER
+ * ================
+ * Deterministic LLMProvider that replays recorded responses.
+ *
+ * Each request is answered from the fixture for its label (see
+ * fixtures.ts): complete() returns the recorded text, extract() the
+ * recorded arguments for the requested tool, and stream() replays the
+ * text word by word. No network, no randomness - the same request
+ * always gets the same answer.
+ *
+ * Usage:
+ *   LLM_PROVIDER=mock npm run analyzers:offline
+ */
+
+import { log } from '@/lib/utils/logger'
+import type { LLMChatRequest, LLMExtractRequest, LLMProvider } from '../types'
+import { getFixturesDir, readFixture } from './fixtures'
+import type { LLMFixture } from './fixtures'
+
+/** Label used when a request doesn't give one */
+const DEFAULT_LABEL = 'default'
+
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock' as const
+
+  private cache = new Map<string, LLMFixture | null>()
+
+  constructor(private readonly fixturesDir = getFixturesDir()) {}
+
+  private fixture(label = DEFAULT_LABEL): LLMFixture {
+    if (!this.cache.has(label)) {
+      this.cache.set(label, readFixture(this.fixturesDir, label))
+    }
+
+    const fixture = this.cache.get(label)
+    if (!fixture) {
+      throw new Error(
+        `No mock LLM fixture for "${label}" in ${this.fixturesDir} - record one with LLM_RECORD_FIXTURES=true`
+      )
+    }
+    return fixture
+  }
+
+  async complete(request: LLMChatRequest): Promise<string> {
+    const text = this.fixture(request.label).complete
+    if (text === undefined) {
+      throw new Error(`Mock LLM fixture "${request.label}" has no recorded completion`)
+    }
+
+    log.debug(`🎭 [Mock] Replayed completion (${request.label})`, { length: text.length })
+    return text
+  }
+
+  async extract<T = Record<string, unknown>>(request: LLMExtractRequest): Promise<T> {
+    const toolName = request.tool.function.name
+    const args = this.fixture(request.label).extract?.[toolName]
+    if (!args) {
+      throw new Error(`Mock LLM fixture "${request.label}" has no recorded call to ${toolName}`)
+    }
+
+    log.debug(`🎭 [Mock] Replayed ${toolName} (${request.label})`)
+    // Hand out a copy so callers can't change the cached fixture
+    return JSON.parse(JSON.stringify(args)) as T
+  }
+
+  async *stream(request: LLMChatRequest): AsyncIterable<string> {
+    const text = await this.complete(request)
+
+    // Word by word, keeping whitespace, so joined chunks equal the text
+    for (const chunk of text.match(/\s*\S+\s*/g) || []) {
+      if (request.signal?.aborted) return
+      yield chunk
+    }
+  }
+}
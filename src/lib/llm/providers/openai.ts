@@ -0,0 +1,93 @@
+/**
+ * 🤖 OPENAI PROVIDER
+ * ==================
+ * LLMProvider backed by the OpenAI Chat Completions API.
+ *
+ * The only place the app imports the OpenAI SDK. The client is created
+ * on first use so builds don't fail when OPENAI_API_KEY is missing.
+ */
+
+import OpenAI from 'openai'
+import { log } from '@/lib/utils/logger'
+import type { LLMChatRequest, LLMExtractRequest, LLMProvider } from '../types'
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const
+
+  private client: OpenAI | null = null
+
+  constructor(private readonly apiKey = process.env.OPENAI_API_KEY) {}
+
+  /**
+   * Lazily create the OpenAI client
+   */
+  private getClient(): OpenAI {
+    if (!this.client) {
+      if (!this.apiKey) {
+        throw new Error('❌ OPENAI_API_KEY environment variable is not set')
+      }
+      this.client = new OpenAI({ apiKey: this.apiKey })
+    }
+    return this.client
+  }
+
+  async complete(request: LLMChatRequest): Promise<string> {
+    const response = await this.getClient().chat.completions.create(
+      {
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+      },
+      { signal: request.signal }
+    )
+
+    const content = response.choices[0]?.message?.content
+
+    if (!content) {
+      throw new Error('No response returned from OpenAI')
+    }
+
+    return content
+  }
+
+  async extract<T = Record<string, unknown>>(request: LLMExtractRequest): Promise<T> {
+    const response = await this.getClient().chat.completions.create(
+      {
+        model: request.model,
+        messages: request.messages,
+        tools: [request.tool],
+        tool_choice: 'required',
+      },
+      { signal: request.signal }
+    )
+
+    const toolCall = response.choices[0]?.message?.tool_calls?.[0]
+
+    if (!toolCall || toolCall.type !== 'function') {
+      throw new Error('No function call returned from OpenAI')
+    }
+
+    return JSON.parse(toolCall.function.arguments) as T
+  }
+
+  async *stream(request: LLMChatRequest): AsyncIterable<string> {
+    const stream = await this.getClient().chat.completions.create(
+      {
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        stream: true,
+      },
+      { signal: request.signal }
+    )
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content
+      if (delta) yield delta
+    }
+
+    log.debug(`🤖 [OpenAI] Stream finished (${request.label || 'chat'})`)
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * 📼 RECORDING PROVIDER
+ * =====================
+ * Wraps a real provider and saves every response as a mock fixture.
+ *
+ * Turned on with LLM_RECORD_FIXTURES=true. Run an analyzer once against
+ * OpenAI and its Phase 1 text and Phase 2 arguments land in
+ * fixtures/llm/<analyzer>.json, ready for the mock provider to replay.
+ */
+
+import { log } from '@/lib/utils/logger'
+import type { LLMChatRequest, LLMExtractRequest, LLMProvider } from '../types'
+import { getFixturesDir, writeFixture } from './fixtures'
+
+export class RecordingProvider implements LLMProvider {
+  constructor(
+    private readonly inner: LLMProvider,
+    private readonly fixturesDir = getFixturesDir()
+  ) {}
+
+  get name() {
+    return this.inner.name
+  }
+
+  private record(label: string | undefined, patch: Parameters<typeof writeFixture>[2]) {
+    const name = label || 'default'
+    writeFixture(this.fixturesDir, name, patch)
+    log.info(`📼 [Recorder] Saved fixture for ${name}`)
+  }
+
+  async complete(request: LLMChatRequest): Promise<string> {
+    const text = await this.inner.complete(request)
+    this.record(request.label, { complete: text })
+    return text
+  }
+
+  async extract<T = Record<string, unknown>>(request: LLMExtractRequest): Promise<T> {
+    const args = await this.inner.extract<T>(request)
+    this.record(request.label, {
+      extract: { [request.tool.function.name]: args as Record<string, unknown> },
+    })
+    return args
+  }
+
+  async *stream(request: LLMChatRequest): AsyncIterable<string> {
+    let text = ''
+    for await (const chunk of this.inner.stream(request)) {
+      text += chunk
+      yield chunk
+    }
+    this.record(request.label, { complete: text })
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * 🧠 LLM TYPES
+ * ============
+ * Provider-neutral types for talking to language models.
+ *
+ * Everything that calls a model (analyzers, chat) goes through an
+ * LLMProvider, so the OpenAI SDK only appears in providers/openai.ts
+ * and tests or offline runs can swap in the fixture-driven mock.
+ */
+
+// ============================================
+// 💬 MESSAGES
+// ============================================
+
+export type LLMRole = 'system' | 'user' | 'assistant'
+
+export interface LLMMessage {
+  role: LLMRole
+  content: string
+}
+
+// ============================================
+// 🧩 TOOLS
+// ============================================
+
+/**
+ * A function the model must call with structured arguments
+ * (same shape as OpenAI function calling - the common denominator)
+ */
+export interface LLMTool {
+  type: 'function'
+  function: {
+    name: string
+    description?: string
+    /** JSON Schema for the arguments */
+    parameters: Record<string, unknown>
+  }
+}
+
+// ============================================
+// 📨 REQUESTS
+// ============================================
+
+export interface LLMChatRequest {
+  model: string
+  messages: LLMMessage[]
+  temperature?: number
+  maxTokens?: number
+  /** What's calling (analyzer type, 'chat', ...) - used in logs and to pick mock fixtures */
+  label?: string
+  /** Abort the request (streaming cancel, timeouts) */
+  signal?: AbortSignal
+}
+
+export interface LLMExtractRequest {
+  model: string
+  messages: LLMMessage[]
+  /** The tool the model is required to call */
+  tool: LLMTool
+  /** What's calling - used in logs and to pick mock fixtures */
+  label?: string
+  signal?: AbortSignal
+}
+
+// ============================================
+// 🔌 PROVIDER
+// ============================================
+
+export type LLMProviderName = 'openai' | 'mock'
+
+/**
+ * A language model backend
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName
+
+  /** Chat completion - returns the assistant's reply */
+  complete(request: LLMChatRequest): Promise<string>
+
+  /** Tool-call extraction - returns the parsed arguments of the required tool call */
+  extract<T = Record<string, unknown>>(request: LLMExtractRequest): Promise<T>
+
+  /** Streaming chat completion - yields text deltas as they arrive */
+  stream(request: LLMChatRequest): AsyncIterable<string>
+}
+
+/**
+ * Which provider and model a caller uses
+ */
+export interface LLMConfig {
+  provider: LLMProviderName
+  model: string
+}
+
+/**
+ * A provider instance paired with the model to ask for
+ */
+export interface ResolvedLLM {
+  provider: LLMProvider
+  model: string
+}
@@ -0,0 +1,72 @@
+/**
+ * 🔗 SHARE LINKS
+ * ==============
+ * Helpers for public read-only links to a brand foundation (safe to use
+ * in the browser - the token and database side is in server.ts).
+ *
+ * A link lives at /share/<token>. It stops working when revoked or once
+ * expires_at passes, and leaves out the document parts in
+ * hidden_sections (ids from DOCUMENT_PARTS in lib/export/document.ts).
+ */
+
+import { DOCUMENT_PARTS } from '@/lib/export/document'
+import type { ShareLink } from '@/lib/types'
+
+// ============================================
+// 📋 CONFIG
+// ============================================
+
+/** How long a new link lasts (null = until revoked) */
+export const SHARE_EXPIRY_OPTIONS: { days: number | null; label: string }[] = [
+  { days: null, label: 'Never expires' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+]
+
+/** Longest expiry the API accepts */
+export const MAX_SHARE_DAYS = 365
+
+/** Parts new links hide unless the owner changes it */
+export const DEFAULT_HIDDEN_PARTS: string[] = ['weaknesses']
+
+const PART_IDS = new Set<string>(DOCUMENT_PARTS.map(part => part.id))
+
+// ============================================
+// 🔍 HELPERS
+// ============================================
+
+export type ShareLinkStatus = 'live' | 'expired' | 'revoked'
+
+/**
+ * Whether a link still opens
+ */
+export function getShareLinkStatus(link: ShareLink, now = new Date()): ShareLinkStatus {
+  if (link.revoked_at) return 'revoked'
+  if (link.expires_at && new Date(link.expires_at) <= now) return 'expired'
+  return 'live'
+}
+
+/**
+ * The public path for a link
+ */
+export function getSharePath(token: string): string {
+  return `/share/${token}`
+}
+
+/**
+ * Keep only real document part ids (drops unknown or repeated ones)
+ *
+ * @returns null if the value isn't a list of strings
+ */
+export function cleanHiddenParts(value: unknown): string[] | null {
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) return null
+  return Array.from(new Set(value.filter(part => PART_IDS.has(part))))
+}
+
+/**
+ * expires_at for a link that lasts `days` (null = never)
+ */
+export function getExpiryDate(days: number | null): string | null {
+  return days === null ? null : new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString()
+}
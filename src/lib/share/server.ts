@@ -0,0 +1,51 @@
+/**
+ * 🔗 SHARE LINKS (SERVER)
+ * =======================
+ * Token creation and opening a link for the public page. Server only -
+ * opening a link uses the service role, since viewers aren't signed in.
+ */
+
+import { randomBytes } from 'crypto'
+import { createAdminClient } from '@/lib/supabase/server'
+import { log } from '@/lib/utils/logger'
+import type { BusinessProject, ShareLink } from '@/lib/types'
+
+/**
+ * A new unguessable token (32 URL-safe characters)
+ */
+export function createShareToken(): string {
+  return randomBytes(24).toString('base64url')
+}
+
+/**
+ * Open a share link: check it's live, count the view, load its project
+ *
+ * @returns null if the link doesn't exist, expired or was revoked
+ */
+export async function openShareLink(
+  token: string
+): Promise<{ link: ShareLink; project: BusinessProject } | null> {
+  try {
+    const supabase = createAdminClient()
+
+    const { data: links, error } = await supabase.rpc('view_share_link', { p_token: token })
+    if (error) throw error
+
+    const link = (links as ShareLink[] | null)?.[0]
+    if (!link) return null
+
+    const { data: project, error: projectError } = await supabase
+      .from('business_projects')
+      .select('*')
+      .eq('id', link.project_id)
+      .single()
+
+    if (projectError || !project) throw projectError ?? new Error('Shared project not found')
+
+    log.info('🔗 Share link opened', { linkId: link.id, views: link.view_count })
+    return { link, project: project as BusinessProject }
+  } catch (error) {
+    log.error('🔗 Failed to open share link', error)
+    return null
+  }
+}
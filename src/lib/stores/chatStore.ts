@@ -4,25 +4,80 @@
  * Manages chat/conversation state with Zustand.
  *
  * Usage:
- *   const { messages, sendMessage, isTyping } = useChatStore()
+ *   const { messages, sendMessage, streamReply, cancelStream } = useChatStore()
+ *
+ *   await sendMessage(text)
+ *   await streamReply(text, projectId)  // reply fills in as it streams
+ *
+ *   // Answer an inference_reveal the reply proposed
+ *   await confirmInference(revealId, { idea_name: 'Sprout' }, ['one_liner'])
+ *
+ *   // Interview: ask the next typed question, then answer it
+ *   await askNextQuestion()
+ *   await sendInteractionResponse('slider_response', 'problem_urgency', 4)
  */
 
 import { create } from 'zustand'
 import { supabase } from '@/lib/supabase/client'
 import { log } from '@/lib/utils/logger'
 import { generateId } from '@/lib/utils/helpers'
+import { readSSE } from '@/lib/utils/sse'
+import { useProjectStore } from './projectStore'
 import type {
+  ChatResponse,
+  ChatStreamEvent,
   ConversationMessage,
+  InferenceRevealMetadata,
   OnboardingSession,
   MessageType,
 } from '@/lib/types'
 
+// Aborts the reply that's currently streaming
+let streamController: AbortController | null = null
+
+/**
+ * Keep the open project in step with what the chat saved
+ */
+function syncProject(result: ChatResponse) {
+  if (result.project && useProjectStore.getState().project?.id === result.project.id) {
+    useProjectStore.setState({ project: result.project })
+  }
+}
+
+/**
+ * Session after an interview step (skipped field, finished interview)
+ */
+function withInterviewState(session: OnboardingSession, result: ChatResponse, skip?: string): OnboardingSession {
+  return {
+    ...session,
+    skipped_fields: skip ? [...(session.skipped_fields || []), skip] : session.skipped_fields,
+    status: result.nextInteraction ? session.status : 'completed',
+  }
+}
+
+/**
+ * POST to a chat endpoint and return its ChatResponse (throws on error)
+ */
+async function postChat(url: string, payload: Record<string, unknown>): Promise<ChatResponse> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  })
+
+  const body = await response.json()
+  if (!response.ok) throw new Error(body.error || `Chat request failed (${response.status})`)
+  return body as ChatResponse
+}
+
 interface ChatState {
   // State
   session: OnboardingSession | null
   messages: ConversationMessage[]
   isLoading: boolean
   isTyping: boolean
+  /** Assistant message currently being streamed in, if any */
+  streamingMessageId: string | null
   error: string | null
 
   // Actions
@@ -38,6 +93,20 @@ interface ChatState {
     messageType?: MessageType,
     metadata?: Record<string, unknown>
   ) => void
+  streamReply: (message: string, projectId?: string) => Promise<ConversationMessage | null>
+  appendToMessage: (messageId: string, delta: string) => void
+  cancelStream: () => void
+  confirmInference: (
+    revealMessageId: string,
+    accepted: Record<string, unknown>,
+    rejected: string[]
+  ) => Promise<ChatResponse | null>
+  askNextQuestion: (skip?: string) => Promise<ChatResponse | null>
+  sendInteractionResponse: (
+    messageType: MessageType,
+    field: string,
+    value: unknown
+  ) => Promise<ChatResponse | null>
   setTyping: (isTyping: boolean) => void
   clearMessages: () => void
   clearError: () => void
@@ -49,6 +118,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
   messages: [],
   isLoading: false,
   isTyping: false,
+  streamingMessageId: null,
   error: null,
 
   /**
@@ -258,6 +328,251 @@ export const useChatStore = create<ChatState>((set, get) => ({
     })
   },
 
+  /**
+   * 📡 Stream the assistant's reply to a message from /api/chat
+   *
+   * Adds an empty assistant message straight away and appends to it as
+   * tokens arrive. The server saves the finished reply; once it's done
+   * the local message takes the saved id. Cancelling keeps whatever
+   * arrived so far.
+   */
+  streamReply: async (message, projectId) => {
+    const { session, streamingMessageId } = get()
+    if (!session) {
+      log.warn('💬 No active session')
+      return null
+    }
+    if (streamingMessageId) {
+      log.warn('💬 Already streaming a reply')
+      return null
+    }
+
+    const placeholder: ConversationMessage = {
+      id: generateId(),
+      session_id: session.id,
+      role: 'assistant',
+      content: '',
+      message_type: 'text',
+      metadata: {},
+      related_fields: null,
+      created_at: new Date().toISOString(),
+    }
+
+    const controller = new AbortController()
+    streamController = controller
+
+    set((state) => ({
+      messages: [...state.messages, placeholder],
+      streamingMessageId: placeholder.id,
+      isTyping: false,
+      error: null,
+    }))
+
+    try {
+      const response = await fetch('/api/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId: session.id, message, projectId }),
+        signal: controller.signal,
+      })
+
+      if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => ({}))
+        throw new Error(body.error || `Chat request failed (${response.status})`)
+      }
+
+      // The saved reply (proposals may follow it)
+      let reply: ConversationMessage | null = null
+
+      for await (const event of readSSE<ChatStreamEvent>(response.body)) {
+        if (event.type === 'delta') {
+          get().appendToMessage(placeholder.id, event.content)
+        } else if (event.type === 'done') {
+          set((state) => ({
+            messages: state.messages.map((m) =>
+              m.id === placeholder.id ? event.message : m
+            ),
+          }))
+          log.success('💬 Reply streamed', { length: event.message.content.length })
+          reply = event.message
+        } else if (event.type === 'inference') {
+          set((state) => ({ messages: [...state.messages, event.message] }))
+        } else {
+          throw new Error(event.error)
+        }
+      }
+
+      if (!reply) throw new Error('Reply ended unexpectedly')
+      return reply
+    } catch (error) {
+      const partial = get().messages.find((m) => m.id === placeholder.id)
+
+      if (controller.signal.aborted) {
+        log.info('💬 Reply cancelled', { length: partial?.content.length ?? 0 })
+
+        // Keep what arrived (the server saves it too), drop an empty bubble
+        set((state) => ({
+          messages: partial?.content
+            ? state.messages.map((m) =>
+                m.id === placeholder.id ? { ...m, metadata: { ...m.metadata, cancelled: true } } : m
+              )
+            : state.messages.filter((m) => m.id !== placeholder.id),
+        }))
+        return partial?.content ? partial : null
+      }
+
+      log.error('💬 Failed to stream reply', error)
+      set((state) => ({
+        messages: state.messages.filter((m) => m.id !== placeholder.id),
+        error: error instanceof Error ? error.message : 'Failed to get a reply',
+      }))
+      return null
+    } finally {
+      if (streamController === controller) streamController = null
+      set({ streamingMessageId: null })
+    }
+  },
+
+  /**
+   * ➕ Append streamed text to a message
+   */
+  appendToMessage: (messageId, delta) => {
+    set((state) => ({
+      messages: state.messages.map((m) =>
+        m.id === messageId ? { ...m, content: m.content + delta } : m
+      ),
+    }))
+  },
+
+  /**
+   * ⏹️ Stop the reply that's streaming
+   */
+  cancelStream: () => {
+    streamController?.abort()
+  },
+
+  /**
+   * ✅ Answer an inference_reveal
+   *
+   * Accepted fields (with the values to save) are written to the project;
+   * the rest are dropped. Updates the project store with the result.
+   */
+  confirmInference: async (revealMessageId, accepted, rejected) => {
+    const { session } = get()
+    if (!session) {
+      log.warn('💬 No active session')
+      return null
+    }
+
+    log.info('💬 Confirming inference', { accepted: Object.keys(accepted), rejected })
+
+    try {
+      const result = await postChat('/api/chat', {
+        sessionId: session.id,
+        messageType: 'inference_confirm',
+        metadata: { revealMessageId, accepted, rejected },
+      })
+
+      set((state) => ({
+        messages: [
+          ...state.messages.map((m) =>
+            m.id === revealMessageId
+              ? {
+                  ...m,
+                  metadata: {
+                    ...(m.metadata as unknown as InferenceRevealMetadata),
+                    resolved: true,
+                    appliedFields: result.fieldsUpdated || [],
+                  },
+                }
+              : m
+          ),
+          result.message,
+        ],
+      }))
+
+      syncProject(result)
+
+      log.success('💬 Inference answered', { fieldsUpdated: result.fieldsUpdated })
+      return result
+    } catch (error) {
+      log.error('💬 Failed to confirm inference', error)
+      set({ error: error instanceof Error ? error.message : 'Failed to save' })
+      return null
+    }
+  },
+
+  /**
+   * 🎤 Ask the next interview question (optionally skipping a field)
+   */
+  askNextQuestion: async (skip) => {
+    const { session } = get()
+    if (!session) {
+      log.warn('💬 No active session')
+      return null
+    }
+
+    set({ isTyping: true, error: null })
+
+    try {
+      const result = await postChat('/api/chat/interview', { sessionId: session.id, skip })
+
+      set((state) => ({
+        messages: [...state.messages, result.message],
+        session: state.session && withInterviewState(state.session, result, skip),
+        isTyping: false,
+      }))
+
+      log.info('💬 Next question', { type: result.nextInteraction?.type ?? 'done' })
+      return result
+    } catch (error) {
+      log.error('💬 Failed to get next question', error)
+      set({ isTyping: false, error: error instanceof Error ? error.message : 'Failed to continue' })
+      return null
+    }
+  },
+
+  /**
+   * 🎛️ Answer an interview question (slider, choice, word bank, mad lib)
+   *
+   * Saves the value to its field and appends the next question.
+   */
+  sendInteractionResponse: async (messageType, field, value) => {
+    const { session } = get()
+    if (!session) {
+      log.warn('💬 No active session')
+      return null
+    }
+
+    log.debug('💬 Sending answer', { messageType, field })
+    set({ isTyping: true, error: null })
+
+    try {
+      const result = await postChat('/api/chat', {
+        sessionId: session.id,
+        messageType,
+        metadata: { field, value },
+      })
+
+      set((state) => ({
+        messages: [
+          ...state.messages,
+          ...(result.userMessage ? [result.userMessage] : []),
+          result.message,
+        ],
+        session: state.session && withInterviewState(state.session, result),
+        isTyping: false,
+      }))
+
+      syncProject(result)
+      return result
+    } catch (error) {
+      log.error('💬 Failed to send answer', error)
+      set({ isTyping: false, error: error instanceof Error ? error.message : 'Failed to save' })
+      return null
+    }
+  },
+
   /**
    * ⏳ Set typing indicator
    */
@@ -266,7 +581,10 @@ export const useChatStore = create<ChatState>((set, get) => ({
   /**
    * 🧹 Clear messages
    */
-  clearMessages: () => set({ session: null, messages: [] }),
+  clearMessages: () => {
+    streamController?.abort()
+    set({ session: null, messages: [], streamingMessageId: null })
+  },
 
   /**
    * 🧹 Clear error
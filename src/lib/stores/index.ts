@@ -7,3 +7,4 @@
 export { useAuthStore } from './authStore'
 export { useProjectStore } from './projectStore'
 export { useChatStore } from './chatStore'
+export { useWorkspaceStore } from './workspaceStore'
@@ -8,6 +8,14 @@
  * - Timeout protection (no hanging forever)
  * - Proper error propagation for calling code
  * - Save error state for UI feedback
+ * - Flags analyzers as stale when fields they read change
+ * - Stamps saved fields as user-entered (field_provenance)
+ * - Guest mode: a client on an invite link loads and saves through
+ *   /api/guest/<token> instead (see setGuestToken)
+ * - Step drafts: a step's form values as they're typed, kept in
+ *   localStorage until the step is saved (a refresh doesn't lose them),
+ *   with undo/redo and a debounced background autosave to step_drafts
+ *   (see startDraft)
  *
  * Usage:
  *   const { project, updateField, createProject, saveError } = useProjectStore()
@@ -17,7 +25,11 @@ import { create } from 'zustand'
 import { supabase, createClient } from '@/lib/supabase/client'
 import { log } from '@/lib/utils/logger'
 import { calculateBucketCompletion, calculateOverallCompletion, BUCKET_ORDER } from '@/lib/config/buckets'
-import type { BusinessProject, BucketCompletion } from '@/lib/types'
+import { useAnalyzerStore } from '@/lib/analyzers/store'
+import { getAnalyzersWatching } from '@/lib/analyzers/staleness'
+import { userProvenance } from '@/lib/analyzers/provenance'
+import { withRetry, withTimeout } from '@/lib/utils/async'
+import type { BusinessProject, BucketCompletion, ProjectType, SavedStepDraft } from '@/lib/types'
 
 // ============================================
 // 📋 CONFIG
@@ -26,10 +38,217 @@ import type { BusinessProject, BucketCompletion } from '@/lib/types'
 /** Database operation timeout in ms */
 const DB_TIMEOUT_MS = 20000
 
+/** localStorage key prefix for step drafts (+ :<projectId>:<step>) */
+const DRAFT_KEY_PREFIX = 'foundation-studio:draft'
+
+/** How long edits have to pause before they're autosaved, in ms */
+const AUTOSAVE_DELAY_MS = 1500
+
+/** Tries per autosave before giving up (until the next edit) */
+const AUTOSAVE_ATTEMPTS = 3
+
+/** Undo steps kept per draft */
+const MAX_UNDO_STEPS = 50
+
+/** Edits to one field this close together undo as one, in ms */
+const UNDO_MERGE_MS = 1000
+
+/**
+ * Load or save through the guest API (a client on an invite link)
+ *
+ * @returns the client's view of the project
+ * @throws If the invite isn't available or the request fails
+ */
+async function guestRequest(token: string, fields?: Partial<BusinessProject>): Promise<BusinessProject> {
+  const response = await withTimeout(fetch(`/api/guest/${token}`, fields
+    ? {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fields }),
+      }
+    : undefined), DB_TIMEOUT_MS, 'Guest request')
+  const data = await response.json()
+  if (!response.ok) throw new Error(data.error || 'Request failed')
+  return data.project
+}
+
+// ============================================
+// 📝 DRAFT STORAGE
+// ============================================
+
+type DraftValues = Record<string, unknown>
+
+function draftKey(projectId: string, step: string): string {
+  return `${DRAFT_KEY_PREFIX}:${projectId}:${step}`
+}
+
+/**
+ * A step's draft from an earlier visit, if there is one
+ */
+function readLocalDraft(projectId: string, step: string): DraftValues | null {
+  if (typeof window === 'undefined') return null
+
+  try {
+    const saved = localStorage.getItem(draftKey(projectId, step))
+    const parsed = saved ? JSON.parse(saved) : null
+    return parsed?.values && typeof parsed.values === 'object' ? parsed.values : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Keep (or, with null, forget) a step's draft - failures (storage full
+ * or blocked) only cost the refresh-proofing
+ */
+function writeLocalDraft(projectId: string, step: string, values: DraftValues | null): void {
+  if (typeof window === 'undefined') return
+
+  try {
+    if (values) {
+      localStorage.setItem(draftKey(projectId, step), JSON.stringify({ values, saved_at: new Date().toISOString() }))
+    } else {
+      localStorage.removeItem(draftKey(projectId, step))
+    }
+  } catch (error) {
+    log.warn('📝 Could not keep the draft locally', { step, error })
+  }
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+// ============================================
+// 💾 AUTOSAVE
+// ============================================
+// One autosave at a time: edits collect in pendingAutosave until they
+// pause, then the draft's values go to the project's step_drafts (with
+// the DB_TIMEOUT_MS limit and retries). Only the draft - the step's
+// fields, their provenance stamps (and so the change log) and stale
+// analyzers wait for the step to be saved (commitDraft). A guest's
+// draft stays on their device.
+
+let autosaveTimer: ReturnType<typeof setTimeout> | null = null
+let pendingAutosave: { projectId: string; step: string; values: DraftValues } | null = null
+let autosaveInFlight: Promise<void> | null = null
+
+/** The field last edited and when - quick edits to it undo together */
+let lastEdit: { field: string; at: number } | null = null
+
+/**
+ * The project's step drafts with one step's set (or, with null, dropped)
+ */
+function withStepDraft(project: BusinessProject, step: string, saved: SavedStepDraft | null): Record<string, SavedStepDraft> {
+  const others = Object.entries(project.step_drafts ?? {}).filter(([name]) => name !== step)
+  return Object.fromEntries(saved ? [...others, [step, saved]] : others)
+}
+
+/**
+ * Write (or, with null, drop) a step's autosaved draft
+ * Only this step's entry is sent - the database merges it into
+ * step_drafts (migration 021), so other steps' drafts are kept.
+ * Nothing is stamped, logged or made stale.
+ *
+ * @throws If the write fails or times out (the loaded project is put back)
+ */
+async function writeStepDraft(projectId: string, step: string, saved: SavedStepDraft | null): Promise<void> {
+  const { project } = useProjectStore.getState()
+  if (project?.id !== projectId) return
+
+  const previous = project.step_drafts?.[step] ?? null
+  useProjectStore.setState({ project: { ...project, step_drafts: withStepDraft(project, step, saved) } })
+
+  try {
+    const { error } = await withTimeout(
+      Promise.resolve(
+        createClient()
+          .from('business_projects')
+          .update({ step_drafts: { [step]: saved } })
+          .eq('id', projectId)
+      ),
+      DB_TIMEOUT_MS,
+      'Draft autosave'
+    )
+
+    if (error) throw error
+  } catch (error) {
+    const current = useProjectStore.getState().project
+    if (current?.id === projectId) {
+      useProjectStore.setState({ project: { ...current, step_drafts: withStepDraft(current, step, previous) } })
+    }
+    throw error
+  }
+}
+
+async function runAutosave(): Promise<void> {
+  const pending = pendingAutosave
+  pendingAutosave = null
+
+  const { project } = useProjectStore.getState()
+  if (!pending || project?.id !== pending.projectId) return
+
+  const isLast = () => !pendingAutosave && !autosaveTimer
+
+  // Nothing new since the last autosave
+  if (isSameValue(project.step_drafts?.[pending.step]?.values, pending.values)) {
+    if (isLast()) useProjectStore.setState({ autosaveStatus: 'saved' })
+    return
+  }
+
+  useProjectStore.setState({ autosaveStatus: 'saving' })
+
+  try {
+    const saved: SavedStepDraft = { values: pending.values, saved_at: new Date().toISOString() }
+    await withRetry(() => writeStepDraft(pending.projectId, pending.step, saved), { maxAttempts: AUTOSAVE_ATTEMPTS })
+    log.debug('📝 Draft autosaved', { step: pending.step })
+    if (isLast()) useProjectStore.setState({ autosaveStatus: 'saved' })
+  } catch (error) {
+    // Only the toolbar hears about it - the answers are still kept locally
+    log.error('📝 Autosave failed', error)
+    useProjectStore.setState({ autosaveStatus: 'error' })
+  }
+}
+
+function startAutosave(): void {
+  autosaveTimer = null
+  autosaveInFlight = (autosaveInFlight ?? Promise.resolve())
+    .then(runAutosave)
+    .finally(() => {
+      autosaveInFlight = null
+    })
+}
+
+/**
+ * Drop a pending autosave and wait for one in flight
+ */
+async function settleAutosave(): Promise<void> {
+  if (autosaveTimer) clearTimeout(autosaveTimer)
+  autosaveTimer = null
+  pendingAutosave = null
+  await autosaveInFlight
+}
+
 // ============================================
 // 📋 TYPES
 // ============================================
 
+/** A step's form values while they're edited (see startDraft) */
+export interface StepDraft {
+  projectId: string
+  step: string
+  values: DraftValues
+  /** Earlier values, newest last - what undo goes back to */
+  past: DraftValues[]
+  /** Undone values, newest last - what redo brings back */
+  future: DraftValues[]
+  /** Opened from an earlier visit's unsaved values */
+  restored: boolean
+}
+
+/** Where the background save of a draft is */
+export type AutosaveStatus = 'idle' | 'pending' | 'saving' | 'saved' | 'error'
+
 interface ProjectState {
   // State
   project: BusinessProject | null
@@ -39,18 +258,43 @@ interface ProjectState {
   error: string | null
   /** Last save error - separate from load errors for better UX */
   saveError: string | null
+  /** Set while a client answers through an invite link */
+  guestToken: string | null
+  /** The step being edited, if any */
+  draft: StepDraft | null
+  autosaveStatus: AutosaveStatus
 
   // Actions
-  loadProjects: (memberId: string) => Promise<void>
+  /** Projects in a workspace */
+  loadProjects: (workspaceId: string) => Promise<void>
   loadProject: (projectId: string) => Promise<void>
-  createProject: (memberId: string, name?: string) => Promise<BusinessProject | null>
+  /** Re-reads some columns (e.g. ones an analyzer just wrote) into the loaded project */
+  refreshFields: (fields: Array<keyof BusinessProject>) => Promise<void>
+  createProject: (memberId: string, workspaceId: string, name?: string, projectType?: ProjectType) => Promise<BusinessProject | null>
   updateField: <K extends keyof BusinessProject>(field: K, value: BusinessProject[K]) => Promise<void>
-  /** Updates multiple fields - THROWS on error for caller handling */
-  updateFields: (fields: Partial<BusinessProject>) => Promise<void>
+  /** Updates multiple fields (optionally dropping a step's autosaved draft in the same write) - THROWS on error for caller handling */
+  updateFields: (fields: Partial<BusinessProject>, options?: { dropStepDraft?: string }) => Promise<void>
   deleteProject: (projectId: string) => Promise<void>
   clearProject: () => void
   clearError: () => void
   clearSaveError: () => void
+  /** Switch to (or, with null, out of) guest mode for an invite link */
+  setGuestToken: (token: string | null) => void
+
+  // Drafts
+  /** Open a step's draft on the loaded project - unsaved values from an earlier visit (this device's, else the autosaved ones) win over `initial` */
+  startDraft: (step: string, initial: DraftValues) => void
+  /** Record an edit (undoable, kept locally) - `field` makes quick edits to one field undo as one */
+  editDraft: (values: DraftValues, field?: string) => void
+  /** Step back / forward through the edits - returns the values now current (null if nothing to do) */
+  undoDraft: () => DraftValues | null
+  redoDraft: () => DraftValues | null
+  /** Autosave the draft's values to step_drafts once edits pause (debounced, retried) */
+  autosave: () => void
+  /** Save the step: its fields through updateFields (stamped, analyzers refreshed), then forget the draft - THROWS like updateFields */
+  commitDraft: (fields: Partial<BusinessProject>) => Promise<void>
+  /** Forget the draft: the local copy, the autosaved one, undo history and any pending autosave */
+  clearDraft: () => void
 }
 
 export const useProjectStore = create<ProjectState>((set, get) => ({
@@ -61,19 +305,22 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   isSaving: false,
   error: null,
   saveError: null,
+  guestToken: null,
+  draft: null,
+  autosaveStatus: 'idle',
 
   /**
-   * 📋 Load all projects for a member
+   * 📋 Load all projects in a workspace
    */
-  loadProjects: async (memberId) => {
-    log.info('💼 Loading projects...', { memberId })
+  loadProjects: async (workspaceId) => {
+    log.info('💼 Loading projects...', { workspaceId })
     set({ isLoading: true, error: null })
 
     try {
       const { data, error } = await supabase
         .from('business_projects')
         .select('*')
-        .eq('member_id', memberId)
+        .eq('workspace_id', workspaceId)
         .order('updated_at', { ascending: false })
 
       if (error) throw error
@@ -95,11 +342,14 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     set({ isLoading: true, error: null })
 
     try {
-      const { data, error } = await supabase
-        .from('business_projects')
-        .select('*')
-        .eq('id', projectId)
-        .single()
+      const { guestToken } = get()
+      const { data, error } = guestToken
+        ? { data: await guestRequest(guestToken), error: null }
+        : await supabase
+            .from('business_projects')
+            .select('*')
+            .eq('id', projectId)
+            .single()
 
       if (error) throw error
 
@@ -113,18 +363,50 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   },
 
   /**
-   * ➕ Create a new project
+   * 🔃 Refresh some fields of the loaded project
+   * Leaves the rest of the project (and any unsaved form state built
+   * from it) alone - no loading state, failures are only logged.
    */
-  createProject: async (memberId, name = 'Untitled Project') => {
-    log.info('💼 Creating project...', { memberId, name })
+  refreshFields: async (fields) => {
+    const { project, guestToken } = get()
+    if (!project) return
+
+    try {
+      const { data, error } = guestToken
+        ? { data: await guestRequest(guestToken), error: null }
+        : await supabase
+            .from('business_projects')
+            .select(fields.join(','))
+            .eq('id', project.id)
+            .single()
+
+      if (error) throw error
+
+      const current = get().project
+      if (current?.id === project.id) {
+        const values = data as unknown as Record<string, unknown>
+        set({ project: { ...current, ...Object.fromEntries(fields.map(field => [field, values[field]])) } })
+      }
+    } catch (error) {
+      log.error('💼 Failed to refresh project fields', error, { fields })
+    }
+  },
+
+  /**
+   * ➕ Create a new project in a workspace
+   */
+  createProject: async (memberId, workspaceId, name = 'Untitled Project', projectType = 'primary') => {
+    log.info('💼 Creating project...', { memberId, workspaceId, name, projectType })
     set({ isLoading: true, error: null })
 
     try {
       const { data, error } = await supabase
         .from('business_projects')
         .insert({
+          workspace_id: workspaceId,
           member_id: memberId,
           project_name: name,
+          project_type: projectType,
           status: 'draft',
         })
         .select()
@@ -152,18 +434,28 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
    * 📝 Update a single field
    */
   updateField: async (field, value) => {
-    const { project } = get()
+    const { project, guestToken } = get()
     if (!project) {
       log.warn('💼 No project loaded')
       return
     }
 
+    if (guestToken) {
+      await get().updateFields({ [field]: value }).catch(() => undefined)
+      return
+    }
+
     log.debug('💼 Updating field', { field, value })
     set({ isSaving: true })
 
     try {
       // Optimistic update
-      const updatedProject = { ...project, [field]: value }
+      const provenance = userProvenance([field])
+      const updatedProject = {
+        ...project,
+        [field]: value,
+        field_provenance: { ...project.field_provenance, ...provenance },
+      }
 
       // Recalculate completion
       const bucketCompletion: BucketCompletion = {
@@ -198,6 +490,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
         .from('business_projects')
         .update({
           [field]: value,
+          field_provenance: provenance,
           bucket_completion: bucketCompletion,
           overall_completion: overallCompletion,
         })
@@ -224,7 +517,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
    *
    * @throws Error if the database update fails or times out
    */
-  updateFields: async (fields) => {
+  updateFields: async (fields, options) => {
     const { project } = get()
     if (!project) {
       log.warn('💼 No project loaded')
@@ -239,12 +532,39 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     })
     set({ isSaving: true, saveError: null })
 
+    // Guests save through the invite - the server keeps what they may
+    // write, stamps it as the client's and refreshes analyzers
+    const { guestToken } = get()
+    if (guestToken) {
+      try {
+        const saved = await guestRequest(guestToken, fields)
+        log.success('💼 Fields updated ✓ (guest)')
+        set({ project: saved, isSaving: false })
+        return
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to save'
+        log.error('💼 Failed to update fields', error)
+        set({ isSaving: false, saveError: message })
+        throw error
+      }
+    }
+
     // Keep original for rollback
     const originalProject = project
 
     try {
       // Optimistic update - update UI immediately
-      const updatedProject = { ...project, ...fields }
+      // (only the new provenance entries are sent; the database merges them)
+      // (likewise only the dropped step draft; the database merges it)
+      const provenance = userProvenance(fieldKeys)
+      const hasProvenance = Object.keys(provenance).length > 0
+      const dropStep = options?.dropStepDraft
+      const updatedProject = {
+        ...project,
+        ...fields,
+        ...(hasProvenance && { field_provenance: { ...project.field_provenance, ...provenance } }),
+        ...(dropStep && { step_drafts: withStepDraft(project, dropStep, null) }),
+      }
 
       // Recalculate completion scores
       const bucketCompletion: BucketCompletion = {
@@ -281,6 +601,8 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       // Log what we're about to save (for debugging)
       const updatePayload = {
         ...fields,
+        ...(hasProvenance && { field_provenance: provenance }),
+        ...(dropStep && { step_drafts: { [dropStep]: null } }),
         bucket_completion: bucketCompletion,
         overall_completion: overallCompletion,
       }
@@ -351,6 +673,12 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
         updatedAt: data?.updated_at 
       })
       set({ isSaving: false })
+
+      // Analyzers that read these fields are now out of date - don't
+      // hold up the save while they're re-queued
+      if (getAnalyzersWatching(fieldKeys).length > 0) {
+        useAnalyzerStore.getState().refreshStale(project.id, fieldKeys)
+      }
     } catch (error) {
       // Rollback optimistic update
       const message = error instanceof Error ? error.message : 'Failed to save'
@@ -408,4 +736,143 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
    * 🧹 Clear save error message
    */
   clearSaveError: () => set({ saveError: null }),
+
+  /**
+   * 📨 Enter or leave guest mode
+   * Clears the loaded project so nothing carries over between modes.
+   */
+  setGuestToken: (token) => set({ guestToken: token, project: null }),
+
+  /**
+   * 📝 Open a step's draft
+   */
+  startDraft: (step, initial) => {
+    const { project } = get()
+    if (!project) return
+
+    const saved = readLocalDraft(project.id, step) ?? project.step_drafts?.[step]?.values ?? null
+    const values = saved ? { ...initial, ...saved } : initial
+    const restored = !!saved && Object.keys(saved).some(field => !isSameValue(saved[field], initial[field]))
+
+    if (restored) log.info('📝 Restored unsaved answers', { step })
+    lastEdit = null
+    set({
+      draft: { projectId: project.id, step, values, past: [], future: [], restored },
+      autosaveStatus: 'idle',
+    })
+  },
+
+  /**
+   * ✏️ Record an edit to the draft
+   */
+  editDraft: (values, field) => {
+    const { draft } = get()
+    if (!draft) return
+
+    const now = Date.now()
+    const merge = !!field && lastEdit?.field === field && now - lastEdit.at < UNDO_MERGE_MS
+    lastEdit = field ? { field, at: now } : null
+
+    writeLocalDraft(draft.projectId, draft.step, values)
+    set({
+      draft: {
+        ...draft,
+        values,
+        past: merge ? draft.past : [...draft.past, draft.values].slice(-MAX_UNDO_STEPS),
+        future: [],
+      },
+    })
+  },
+
+  /**
+   * ↩️ Undo the last edit
+   */
+  undoDraft: () => {
+    const { draft } = get()
+    if (!draft || draft.past.length === 0) return null
+
+    const values = draft.past[draft.past.length - 1]
+    lastEdit = null
+    writeLocalDraft(draft.projectId, draft.step, values)
+    set({
+      draft: {
+        ...draft,
+        values,
+        past: draft.past.slice(0, -1),
+        future: [...draft.future, draft.values],
+      },
+    })
+    return values
+  },
+
+  /**
+   * ↪️ Redo the last undone edit
+   */
+  redoDraft: () => {
+    const { draft } = get()
+    if (!draft || draft.future.length === 0) return null
+
+    const values = draft.future[draft.future.length - 1]
+    lastEdit = null
+    writeLocalDraft(draft.projectId, draft.step, values)
+    set({
+      draft: {
+        ...draft,
+        values,
+        past: [...draft.past, draft.values],
+        future: draft.future.slice(0, -1),
+      },
+    })
+    return values
+  },
+
+  /**
+   * 💾 Autosave the draft once edits pause
+   */
+  autosave: () => {
+    const { draft, guestToken } = get()
+    if (!draft || guestToken) return
+
+    pendingAutosave = { projectId: draft.projectId, step: draft.step, values: draft.values }
+
+    if (autosaveTimer) clearTimeout(autosaveTimer)
+    autosaveTimer = setTimeout(startAutosave, AUTOSAVE_DELAY_MS)
+    set({ autosaveStatus: 'pending' })
+  },
+
+  /**
+   * ✅ Save the step and forget its draft
+   * The autosaved copy is dropped in the same write.
+   */
+  commitDraft: async (fields) => {
+    await settleAutosave()
+
+    const { draft, project } = get()
+    const dropStepDraft = draft && project?.step_drafts?.[draft.step] ? draft.step : undefined
+
+    await get().updateFields(fields, { dropStepDraft })
+    get().clearDraft()
+  },
+
+  /**
+   * 🧹 Forget the draft
+   */
+  clearDraft: () => {
+    const { draft, project } = get()
+    if (autosaveTimer) clearTimeout(autosaveTimer)
+    autosaveTimer = null
+    pendingAutosave = null
+    lastEdit = null
+
+    if (draft) {
+      writeLocalDraft(draft.projectId, draft.step, null)
+
+      if (project?.id === draft.projectId && project.step_drafts?.[draft.step]) {
+        writeStepDraft(draft.projectId, draft.step, null).catch(error => {
+          log.warn('📝 Could not drop the autosaved draft', { step: draft.step, error })
+        })
+      }
+    }
+    set({ draft: null, autosaveStatus: 'idle' })
+  },
 }))
@@ -0,0 +1,350 @@
+/**
+ * 👥 WORKSPACE STORE
+ * ==================
+ * Manages workspaces (teams), their members and invitations with Zustand.
+ *
+ * Features:
+ * - The member's workspaces, with their role in each
+ * - The current workspace (remembered in localStorage)
+ * - Team management for owners: invite by email, change roles, remove
+ * - Invitations sent to the member's email, to accept or decline
+ *
+ * Who can do what is enforced by RLS (016_workspaces.sql) - see
+ * lib/workspaces/roles.ts.
+ *
+ * Usage:
+ *   const { workspaces, currentWorkspace, switchWorkspace } = useWorkspaceStore()
+ */
+
+import { create } from 'zustand'
+import { supabase } from '@/lib/supabase/client'
+import { log } from '@/lib/utils/logger'
+import type {
+  Member,
+  WorkspaceInvitation,
+  WorkspaceMember,
+  WorkspaceRole,
+  WorkspaceWithRole,
+} from '@/lib/types'
+
+// ============================================
+// 📋 CONFIG
+// ============================================
+
+/** localStorage key for the last workspace used */
+const CURRENT_WORKSPACE_KEY = 'foundation-studio:workspace'
+
+// ============================================
+// 📋 TYPES
+// ============================================
+
+interface WorkspaceState {
+  // State
+  workspaces: WorkspaceWithRole[]
+  currentWorkspace: WorkspaceWithRole | null
+  /** People in the current workspace */
+  members: WorkspaceMember[]
+  /** Open invites for the current workspace */
+  invitations: WorkspaceInvitation[]
+  /** Open invites sent to the signed-in member */
+  myInvitations: WorkspaceInvitation[]
+  isLoading: boolean
+  error: string | null
+
+  // Actions
+  loadWorkspaces: (member: Member) => Promise<void>
+  switchWorkspace: (workspaceId: string) => void
+  createWorkspace: (member: Member, name: string) => Promise<WorkspaceWithRole | null>
+  loadTeam: () => Promise<void>
+  /** Team actions - THROW on error, so the form can show it */
+  inviteMember: (member: Member, email: string, role: WorkspaceRole) => Promise<void>
+  cancelInvitation: (invitationId: string) => Promise<void>
+  updateMemberRole: (memberId: string, role: WorkspaceRole) => Promise<void>
+  removeMember: (memberId: string) => Promise<void>
+  loadMyInvitations: (member: Member) => Promise<void>
+  acceptInvitation: (member: Member, invitationId: string) => Promise<void>
+  declineInvitation: (invitationId: string) => Promise<void>
+  clearError: () => void
+}
+
+/**
+ * The workspace to open: the last one used, else the oldest (personal)
+ */
+function pickWorkspace(workspaces: WorkspaceWithRole[], preferred?: string | null): WorkspaceWithRole | null {
+  const saved = preferred ?? (typeof window !== 'undefined' ? localStorage.getItem(CURRENT_WORKSPACE_KEY) : null)
+  return workspaces.find(workspace => workspace.id === saved) ?? workspaces[0] ?? null
+}
+
+export const useWorkspaceStore = create<WorkspaceState>((set, get) => ({
+  // Initial state
+  workspaces: [],
+  currentWorkspace: null,
+  members: [],
+  invitations: [],
+  myInvitations: [],
+  isLoading: false,
+  error: null,
+
+  /**
+   * 📋 Load the member's workspaces and pick the current one
+   */
+  loadWorkspaces: async (member) => {
+    log.info('👥 Loading workspaces...', { memberId: member.id })
+    set({ isLoading: true, error: null })
+
+    try {
+      const { data, error } = await supabase
+        .from('workspace_members')
+        .select('role, workspace:workspaces(*)')
+        .eq('member_id', member.id)
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+
+      const workspaces = (data as unknown as { role: WorkspaceRole; workspace: WorkspaceWithRole | null }[])
+        .filter(row => row.workspace)
+        .map(row => ({ ...row.workspace!, role: row.role }))
+
+      log.success('👥 Workspaces loaded', { count: workspaces.length })
+      set({
+        workspaces,
+        currentWorkspace: pickWorkspace(workspaces, get().currentWorkspace?.id),
+        isLoading: false,
+      })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load workspaces'
+      log.error('👥 Failed to load workspaces', error)
+      set({ isLoading: false, error: message })
+    }
+  },
+
+  /**
+   * 🔀 Switch to another workspace
+   */
+  switchWorkspace: (workspaceId) => {
+    const workspace = get().workspaces.find(item => item.id === workspaceId)
+    if (!workspace) return
+
+    log.info('👥 Switched workspace', { workspaceId, role: workspace.role })
+    localStorage.setItem(CURRENT_WORKSPACE_KEY, workspaceId)
+    set({ currentWorkspace: workspace, members: [], invitations: [] })
+  },
+
+  /**
+   * ➕ Create a workspace (you're its owner) and switch to it
+   */
+  createWorkspace: async (member, name) => {
+    log.info('👥 Creating workspace...', { name })
+
+    try {
+      const { data: workspaceId, error } = await supabase.rpc('create_workspace', { p_name: name })
+      if (error) throw error
+
+      await get().loadWorkspaces(member)
+      get().switchWorkspace(workspaceId as string)
+
+      log.success('👥 Workspace created', { workspaceId })
+      return get().currentWorkspace
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to create workspace'
+      log.error('👥 Failed to create workspace', error)
+      set({ error: message })
+      return null
+    }
+  },
+
+  /**
+   * 👤 Load the current workspace's members and open invites
+   */
+  loadTeam: async () => {
+    const workspace = get().currentWorkspace
+    if (!workspace) return
+
+    try {
+      const [membersResult, invitationsResult] = await Promise.all([
+        supabase
+          .from('workspace_members')
+          .select('*, member:members(id, email, name)')
+          .eq('workspace_id', workspace.id)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('workspace_invitations')
+          .select('*')
+          .eq('workspace_id', workspace.id)
+          .is('accepted_at', null)
+          .order('created_at', { ascending: false }),
+      ])
+
+      if (membersResult.error) throw membersResult.error
+      if (invitationsResult.error) throw invitationsResult.error
+
+      // Still the same workspace?
+      if (get().currentWorkspace?.id === workspace.id) {
+        set({ members: membersResult.data, invitations: invitationsResult.data })
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load team'
+      log.error('👥 Failed to load team', error)
+      set({ error: message })
+    }
+  },
+
+  /**
+   * ✉️ Invite someone to the current workspace by email
+   *
+   * @throws Error if the invite can't be saved (e.g. already invited)
+   */
+  inviteMember: async (member, email, role) => {
+    const workspace = get().currentWorkspace
+    if (!workspace) throw new Error('No workspace selected')
+
+    const address = email.trim().toLowerCase()
+    log.info('✉️ Inviting to workspace...', { workspaceId: workspace.id, role })
+
+    if (get().members.some(item => item.member?.email.toLowerCase() === address)) {
+      throw new Error(`${address} is already in this workspace`)
+    }
+
+    const { data, error } = await supabase
+      .from('workspace_invitations')
+      .insert({ workspace_id: workspace.id, email: address, role, invited_by: member.id })
+      .select()
+      .single()
+
+    if (error) {
+      log.error('✉️ Failed to invite', error)
+      // 23505 = unique violation: an open invite already exists
+      throw new Error(error.code === '23505' ? `${address} has already been invited` : error.message)
+    }
+
+    log.success('✉️ Invitation created', { id: data.id })
+    set((state) => ({ invitations: [data, ...state.invitations] }))
+  },
+
+  /**
+   * 🗑️ Withdraw an invite
+   */
+  cancelInvitation: async (invitationId) => {
+    const { error } = await supabase.from('workspace_invitations').delete().eq('id', invitationId)
+
+    if (error) {
+      log.error('✉️ Failed to cancel invitation', error)
+      throw new Error(error.message)
+    }
+
+    set((state) => ({ invitations: state.invitations.filter(item => item.id !== invitationId) }))
+  },
+
+  /**
+   * 🔑 Change someone's role in the current workspace
+   *
+   * @throws Error if it fails (e.g. demoting the last owner)
+   */
+  updateMemberRole: async (memberId, role) => {
+    const workspace = get().currentWorkspace
+    if (!workspace) throw new Error('No workspace selected')
+
+    const { error } = await supabase
+      .from('workspace_members')
+      .update({ role })
+      .eq('workspace_id', workspace.id)
+      .eq('member_id', memberId)
+
+    if (error) {
+      log.error('👥 Failed to change role', error)
+      throw new Error(error.message)
+    }
+
+    log.info('👥 Role changed', { memberId, role })
+    set((state) => ({
+      members: state.members.map(item => (item.member_id === memberId ? { ...item, role } : item)),
+    }))
+  },
+
+  /**
+   * 🚪 Remove someone from the current workspace
+   *
+   * @throws Error if it fails (e.g. removing the last owner)
+   */
+  removeMember: async (memberId) => {
+    const workspace = get().currentWorkspace
+    if (!workspace) throw new Error('No workspace selected')
+
+    const { error } = await supabase
+      .from('workspace_members')
+      .delete()
+      .eq('workspace_id', workspace.id)
+      .eq('member_id', memberId)
+
+    if (error) {
+      log.error('👥 Failed to remove member', error)
+      throw new Error(error.message)
+    }
+
+    log.info('👥 Member removed', { memberId })
+    set((state) => ({ members: state.members.filter(item => item.member_id !== memberId) }))
+  },
+
+  /**
+   * 📬 Load open invites sent to the member's email
+   */
+  loadMyInvitations: async (member) => {
+    try {
+      const { data, error } = await supabase
+        .from('workspace_invitations')
+        .select('*, workspace:workspaces(id, name)')
+        .eq('email', member.email.toLowerCase())
+        .is('accepted_at', null)
+
+      if (error) throw error
+
+      set({ myInvitations: data })
+    } catch (error) {
+      log.error('📬 Failed to load invitations', error)
+    }
+  },
+
+  /**
+   * ✅ Join a workspace from an invite, and switch to it
+   */
+  acceptInvitation: async (member, invitationId) => {
+    log.info('✅ Accepting invitation...', { invitationId })
+
+    try {
+      const { data: workspaceId, error } = await supabase.rpc('accept_workspace_invitation', {
+        p_invitation_id: invitationId,
+      })
+      if (error) throw error
+
+      set((state) => ({ myInvitations: state.myInvitations.filter(item => item.id !== invitationId) }))
+      await get().loadWorkspaces(member)
+      get().switchWorkspace(workspaceId as string)
+
+      log.success('✅ Joined workspace', { workspaceId })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to accept invitation'
+      log.error('✅ Failed to accept invitation', error)
+      set({ error: message })
+    }
+  },
+
+  /**
+   * ❌ Turn down an invite
+   */
+  declineInvitation: async (invitationId) => {
+    const { error } = await supabase.from('workspace_invitations').delete().eq('id', invitationId)
+
+    if (error) {
+      log.error('❌ Failed to decline invitation', error)
+      set({ error: error.message })
+      return
+    }
+
+    set((state) => ({ myInvitations: state.myInvitations.filter(item => item.id !== invitationId) }))
+  },
+
+  /**
+   * 🧹 Clear error message
+   */
+  clearError: () => set({ error: null }),
+}))
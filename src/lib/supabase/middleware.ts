@@ -69,6 +69,10 @@ export async function updateSession(request: NextRequest) {
   
   // Auth callback - special handling for magic link redirects (always allow)
   const isAuthCallback = pathname.startsWith('/auth/callback')
+
+  // Public pages - read-only brand foundations (share links) and client
+  // invites, open to anyone with the link
+  const isPublicRoute = pathname.startsWith('/share/') || pathname.startsWith('/guest/')
   
   // Protected routes - require authentication
   const isProtectedRoute = pathname.startsWith('/dashboard') || pathname.startsWith('/onboard')
@@ -82,6 +86,11 @@ export async function updateSession(request: NextRequest) {
     return supabaseResponse
   }
 
+  // Share and guest pages never redirect - the token is the only check
+  if (isPublicRoute) {
+    return supabaseResponse
+  }
+
   if (!user && isProtectedRoute) {
     // Not logged in, trying to access protected route → redirect to login
     const redirectUrl = new URL('/login', request.url)
@@ -18,6 +18,50 @@ export interface Member {
   updated_at: string
 }
 
+// ============================================
+// 👥 WORKSPACE TYPES
+// ============================================
+
+/** What a member can do in a workspace */
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer'
+
+/** A team and its projects */
+export interface Workspace {
+  id: string
+  name: string
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+/** A workspace with the signed-in member's role in it */
+export interface WorkspaceWithRole extends Workspace {
+  role: WorkspaceRole
+}
+
+/** Someone in a workspace */
+export interface WorkspaceMember {
+  workspace_id: string
+  member_id: string
+  role: WorkspaceRole
+  created_at: string
+  /** Joined from members */
+  member: Pick<Member, 'id' | 'email' | 'name'> | null
+}
+
+/** An invite to join a workspace, by email */
+export interface WorkspaceInvitation {
+  id: string
+  workspace_id: string
+  email: string
+  role: WorkspaceRole
+  invited_by: string | null
+  accepted_at: string | null
+  created_at: string
+  /** Joined from workspaces (for the invitee) */
+  workspace?: Pick<Workspace, 'id' | 'name'> | null
+}
+
 // ============================================
 // 💼 BUSINESS PROJECT TYPES
 // ============================================
@@ -25,6 +69,9 @@ export interface Member {
 /** Project status options */
 export type ProjectStatus = 'draft' | 'in_progress' | 'completed' | 'archived'
 
+/** Whose brand a project is: the user's own, or a client's */
+export type ProjectType = 'primary' | 'portfolio'
+
 /** Why now drivers */
 export type WhyNowDriver = 'technology' | 'regulation' | 'behavior' | 'market' | 'other'
 
@@ -52,6 +99,9 @@ export type FundingStatus = 'bootstrapped' | 'pre_seed' | 'seed' | 'series_a_plu
 /** Exit vision */
 export type ExitVision = 'lifestyle' | 'acquisition' | 'ipo' | 'nonprofit' | 'unsure'
 
+/** Company size (onboarding setup step) */
+export type CompanySize = 'idea' | 'solo' | 'micro' | 'small' | 'medium' | 'large'
+
 /** Bucket completion tracking */
 export interface BucketCompletion {
   [key: string]: number  // Index signature for Record<string, number> compatibility
@@ -63,17 +113,123 @@ export interface BucketCompletion {
   vision: number
 }
 
+/** A brand color found in the website's CSS */
+export interface BrandColor {
+  /** #rrggbb */
+  hex: string
+  /** Share of the palette's weighted uses (0-1) */
+  weight: number
+}
+
+/** What a font is used for on the website */
+export type BrandFontRole = 'heading' | 'body' | 'accent'
+
+/** A font family found in the website's CSS */
+export interface BrandFont {
+  family: string
+  role: BrandFontRole
+  /** Loaded from Google Fonts (so we can load it too) or only from the site */
+  source: 'google_fonts' | 'site'
+}
+
+/** Visual identity scraped from the website */
+export interface VisualIdentity {
+  /** Most dominant first */
+  colors: BrandColor[]
+  fonts: BrandFont[]
+}
+
+/** Onboarding answers the web scraper suggests from the site */
+export interface ScrapeSuggestions {
+  /** Story page: "we help ___ by {coreOffering}" */
+  coreOffering: string | null
+  /** Story page: "we help {customerDescription}" */
+  customerDescription: string | null
+  /** Words page: brand personality words (from the word bank) */
+  brandWords: string[]
+  /** Words page: customer words (from the word bank) */
+  customerWords: string[]
+}
+
+/** An onboarding input a scrape suggestion can fill */
+export type SuggestionField = keyof ScrapeSuggestions
+
+/** What the user did with a suggestion */
+export type SuggestionDecisionStatus = 'accepted' | 'edited' | 'rejected'
+
+/** The user's answer to one suggestion */
+export interface SuggestionDecision {
+  status: SuggestionDecisionStatus
+  /** What was suggested */
+  suggested: string | string[]
+  /** What was kept (null when rejected) */
+  value: string | string[] | null
+  decided_at: string
+}
+
+/**
+ * Who last set a project field: the user (forms, chat), the client
+ * (through a client invite), or the analyzer that wrote it
+ */
+export type FieldSource =
+  | 'user'
+  | 'client'
+  | 'web_scraper'
+  | 'clarity'
+  | 'narrative'
+  | 'voice'
+  | 'synthesis'
+  | 'market'
+  | 'model'
+  | 'risk'
+
+/** Where a project field's current value came from */
+export interface FieldProvenance {
+  source: FieldSource
+  /** The analyzer run that wrote it (null for the user and client) */
+  run_id: string | null
+  set_at: string
+  /** The analyzer's confidence, 0-1 (null for the user and client) */
+  confidence: number | null
+}
+
+/** An onboarding step's autosaved, not yet saved, form values */
+export interface SavedStepDraft {
+  values: Record<string, unknown>
+  saved_at: string
+}
+
 /** Main business project entity */
 export interface BusinessProject {
   id: string
-  member_id: string
+  workspace_id: string
+  /** Who created it (null once they've deleted their account) */
+  member_id: string | null
   project_name: string
   status: ProjectStatus
+  project_type: ProjectType
+
+  // Client (portfolio projects)
+  client_name: string | null
+  client_contact: string | null
 
   // Asset URLs (from onboarding)
   website_url: string | null
   linkedin_url: string | null
 
+  // Brand Profile (from onboarding)
+  rep_name: string | null
+  rep_role: string | null
+  company_size: CompanySize | null
+  brand_location: string | null
+  year_founded: number | null
+  customer_description: string | null
+  brand_personality: string[] | null
+  /** 1 = formal, 5 = casual */
+  communication_style: number | null
+  /** 1 = budget, 5 = premium */
+  price_position: number | null
+
   // Bucket 1: Core Idea
   idea_name: string | null
   one_liner: string | null
@@ -126,6 +282,14 @@ export interface BusinessProject {
   ai_strengths: string[] | null
   ai_weaknesses: string[] | null
 
+  // Brand Analyzer Fields (narrative + voice)
+  ai_positioning: string | null
+  brand_archetype: string | null
+  brand_tone: string | null
+  ai_voice_guidelines: string[] | null
+  ai_words_to_use: string[] | null
+  ai_words_to_avoid: string[] | null
+
   // Web Scraper Fields
   social_urls: Record<string, string | undefined> | null
   scraped_tagline: string | null
@@ -140,6 +304,25 @@ export interface BusinessProject {
   tiktok_handle: string | null
   youtube_url: string | null
 
+  // Site Metadata (web scraper, from the site's own markup)
+  logo_url: string | null
+  contact_email: string | null
+  contact_phone: string | null
+  business_address: string | null
+
+  // Visual Identity (web scraper, from the site's CSS)
+  visual_identity: VisualIdentity | null
+
+  // Onboarding suggestions (web scraper) and what the user did with them
+  scrape_suggestions: ScrapeSuggestions | null
+  suggestion_decisions: Partial<Record<SuggestionField, SuggestionDecision>> | null
+
+  // Who last set each field, keyed by column (see analyzers/provenance.ts)
+  field_provenance: Record<string, FieldProvenance> | null
+
+  // Unsaved onboarding answers, autosaved per step (see stores/projectStore.ts)
+  step_drafts: Record<string, SavedStepDraft> | null
+
   // Progress
   current_step: string
   bucket_completion: BucketCompletion
@@ -163,6 +346,8 @@ export interface OnboardingSession {
   project_id: string
   status: SessionStatus
   current_bucket: string
+  /** Fields the user chose to skip in the interview */
+  skipped_fields: string[]
   started_at: string
   completed_at: string | null
   last_activity_at: string
@@ -197,6 +382,35 @@ export interface ConversationMessage {
   created_at: string
 }
 
+/** A bucket field value the assistant picked up from the conversation */
+export interface FieldProposal {
+  field: string
+  value: unknown
+  /** 0-1 */
+  confidence: number
+  /** What the user said that supports it */
+  evidence?: string
+}
+
+/** metadata of an inference_reveal message */
+export interface InferenceRevealMetadata {
+  proposals: FieldProposal[]
+  /** Set once the user has answered it */
+  resolved?: boolean
+  /** Fields that were written to the project */
+  appliedFields?: string[]
+}
+
+/** metadata of an inference_confirm message */
+export interface InferenceConfirmMetadata {
+  /** The inference_reveal message being answered */
+  revealMessageId: string
+  /** Accepted fields and their (possibly edited) values */
+  accepted: Record<string, unknown>
+  /** Fields the user turned down */
+  rejected: string[]
+}
+
 // ============================================
 // ⚙️ ANALYZER TYPES
 // ============================================
@@ -248,6 +462,71 @@ export interface GeneratedOutput {
   created_at: string
 }
 
+// ============================================
+// 🔗 SHARING TYPES
+// ============================================
+
+/** Public read-only link to a brand foundation */
+export interface ShareLink {
+  id: string
+  project_id: string
+  token: string
+  /** Owner's note, e.g. "For the Acme team" */
+  label: string | null
+  /** Document parts the link leaves out (see lib/export/document.ts) */
+  hidden_sections: string[]
+  expires_at: string | null
+  revoked_at: string | null
+  view_count: number
+  last_viewed_at: string | null
+  created_at: string
+}
+
+/** Where a client is in their invite (see lib/guest/invites.ts) */
+export type ClientInviteStep = 'setup' | 'story' | 'words' | 'style' | 'done'
+
+/** Link for a client to answer a portfolio project's onboarding */
+export interface ClientInvite {
+  id: string
+  project_id: string
+  /** The member who sent it (null once they've deleted their account) */
+  created_by: string | null
+  token: string
+  client_name: string | null
+  client_email: string | null
+  current_step: ClientInviteStep
+  opened_at: string | null
+  last_activity_at: string | null
+  completed_at: string | null
+  reminder_count: number
+  last_reminded_at: string | null
+  expires_at: string | null
+  revoked_at: string | null
+  created_at: string
+}
+
+// ============================================
+// 📜 HISTORY TYPES
+// ============================================
+
+/** One value written to a project field (see migration 018) */
+export interface FieldChange {
+  id: string
+  project_id: string
+  field: string
+  /** Before and after, as stored (null = empty) */
+  old_value: unknown
+  new_value: unknown
+  source: FieldSource
+  /** The analyzer run that wrote it (analyzer sources only) */
+  run_id: string | null
+  /** The signed-in member who saved it (null for analyzers and clients) */
+  changed_by: string | null
+  changed_at: string
+  /** Joined from members */
+  member: Pick<Member, 'id' | 'email' | 'name'> | null
+}
+
 // ============================================
 // 🎯 UI COMPONENT TYPES
 // ============================================
@@ -300,6 +579,21 @@ export interface BinaryChoiceConfig {
   targetField: string
 }
 
+/** Mad lib config (one fill-in-the-blank sentence) */
+export interface MadLibConfig {
+  id: string
+  question: string
+  /** Sentence with a single {{blank}} marker */
+  template: string
+  placeholder: string
+  hint: string
+  width: 'sm' | 'md' | 'lg' | 'xl'
+  targetField: string
+}
+
+/** Any config a typed interaction can carry */
+export type InteractionConfig = WordBankConfig | SliderConfig | BinaryChoiceConfig | MadLibConfig
+
 // ============================================
 // 🔧 API RESPONSE TYPES
 // ============================================
@@ -316,6 +610,7 @@ export interface ApiResponse<T = unknown> {
 export interface ChatRequest {
   sessionId: string
   message: string
+  projectId?: string
   messageType?: MessageType
   metadata?: Record<string, unknown>
 }
@@ -325,7 +620,18 @@ export interface ChatResponse {
   message: ConversationMessage
   nextInteraction?: {
     type: MessageType
-    config: WordBankConfig | SliderConfig | BinaryChoiceConfig
+    config: InteractionConfig
   }
   fieldsUpdated?: string[]
+  /** The user's message as saved (typed responses) */
+  userMessage?: ConversationMessage
+  /** The project after fieldsUpdated were written */
+  project?: BusinessProject
 }
+
+/** Chat API stream event (POST /api/chat sends one per SSE message) */
+export type ChatStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; message: ConversationMessage }
+  | { type: 'inference'; message: ConversationMessage }
+  | { type: 'error'; error: string }
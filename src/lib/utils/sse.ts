@@ -0,0 +1,65 @@
+/**
+ * 📡 SERVER-SENT EVENTS
+ * =====================
+ * Tiny helpers for streaming JSON events over SSE.
+ *
+ * Only `data:` lines are used - each event is one JSON object, and the
+ * object itself says what kind of event it is.
+ *
+ * Usage:
+ *   // Server
+ *   controller.enqueue(encoder.encode(encodeSSE({ type: 'delta', content })))
+ *
+ *   // Client
+ *   for await (const event of readSSE<ChatStreamEvent>(response.body)) { ... }
+ */
+
+/**
+ * Format one event as an SSE message
+ */
+export function encodeSSE(data: unknown): string {
+  return `data: ${JSON.stringify(data)}\n\n`
+}
+
+/**
+ * Read JSON events from an SSE response body
+ *
+ * Yields each `data:` payload parsed as JSON, in order, until the
+ * stream ends. Messages that aren't valid JSON are skipped.
+ */
+export async function* readSSE<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      buffer += decoder.decode(value, { stream: !done })
+
+      // Messages end with a blank line
+      const messages = buffer.split('\n\n')
+      buffer = done ? '' : messages.pop() || ''
+
+      for (const message of messages) {
+        const data = message
+          .split('\n')
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trimStart())
+          .join('\n')
+
+        if (!data) continue
+
+        try {
+          yield JSON.parse(data) as T
+        } catch {
+          // Not JSON - ignore
+        }
+      }
+
+      if (done) return
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * 👥 WORKSPACE ROLES
+ * ==================
+ * What each workspace role can do. Mirrors the RLS policies in
+ * supabase/migrations/016_workspaces.sql - the database is what
+ * enforces it; these only decide what the UI offers.
+ *
+ *   owner  - everything, plus inviting people, changing roles and
+ *            deleting projects
+ *   editor - create and edit projects, run analyzers, share links
+ *   viewer - read only
+ */
+
+import type { WorkspaceRole } from '@/lib/types'
+
+export const WORKSPACE_ROLES: { value: WorkspaceRole; label: string; description: string }[] = [
+  { value: 'owner', label: 'Owner', description: 'Full access, manages the team' },
+  { value: 'editor', label: 'Editor', description: 'Creates and edits projects' },
+  { value: 'viewer', label: 'Viewer', description: 'Can only look' },
+]
+
+export function isWorkspaceRole(value: unknown): value is WorkspaceRole {
+  return WORKSPACE_ROLES.some(role => role.value === value)
+}
+
+/** Create and edit projects */
+export function canEdit(role: WorkspaceRole | null | undefined): boolean {
+  return role === 'owner' || role === 'editor'
+}
+
+/** Invite people, change roles, delete projects */
+export function canManage(role: WorkspaceRole | null | undefined): boolean {
+  return role === 'owner'
+}
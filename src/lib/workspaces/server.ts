@@ -0,0 +1,36 @@
+/**
+ * 👥 WORKSPACES (SERVER)
+ * ======================
+ * Picks the workspace a new project goes into, for API routes.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * The workspace to create a project in
+ *
+ * Uses the requested one if the member can edit it; with none
+ * requested, their oldest workspace they can edit (their personal one).
+ *
+ * @returns null if there's no such workspace
+ */
+export async function getWritableWorkspaceId(
+  supabase: SupabaseClient,
+  memberId: string,
+  requested?: string | null
+): Promise<string | null> {
+  let query = supabase
+    .from('workspace_members')
+    .select('workspace_id')
+    .eq('member_id', memberId)
+    .in('role', ['owner', 'editor'])
+    .order('created_at', { ascending: true })
+    .limit(1)
+
+  if (requested) query = query.eq('workspace_id', requested)
+
+  const { data, error } = await query
+  if (error) throw error
+
+  return data?.[0]?.workspace_id ?? null
+}
@@ -0,0 +1,39 @@
+-- ============================================
+-- 📖 BRAND ANALYZER FIELDS MIGRATION
+-- ============================================
+-- Adds output columns for the narrative and voice analyzers:
+-- 1. Narrative: positioning sentence + brand archetype
+-- 2. Voice: tone summary, guidelines and vocabulary
+-- ============================================
+
+-- --------------------------------------------
+-- 1️⃣ NARRATIVE ANALYZER FIELDS
+-- --------------------------------------------
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS ai_positioning TEXT;
+COMMENT ON COLUMN business_projects.ai_positioning IS '🎯 One-sentence positioning inferred by the narrative analyzer';
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS brand_archetype TEXT;
+COMMENT ON COLUMN business_projects.brand_archetype IS '🎭 Primary brand archetype (Hero, Sage, Caregiver, ...)';
+
+-- --------------------------------------------
+-- 2️⃣ VOICE ANALYZER FIELDS
+-- --------------------------------------------
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS brand_tone TEXT;
+COMMENT ON COLUMN business_projects.brand_tone IS '🎤 One-phrase tone of voice summary';
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS ai_voice_guidelines TEXT[];
+COMMENT ON COLUMN business_projects.ai_voice_guidelines IS '📏 Actionable voice guidelines';
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS ai_words_to_use TEXT[];
+COMMENT ON COLUMN business_projects.ai_words_to_use IS '✅ Vocabulary that fits the brand voice';
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS ai_words_to_avoid TEXT[];
+COMMENT ON COLUMN business_projects.ai_words_to_avoid IS '🚫 Vocabulary that clashes with the brand voice';
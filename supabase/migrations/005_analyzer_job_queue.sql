@@ -0,0 +1,165 @@
+-- ============================================
+-- 📬 ANALYZER JOB QUEUE MIGRATION
+-- ============================================
+-- Turns analyzer_runs into a durable job queue:
+-- 1. Lease + backoff columns on analyzer_runs
+-- 2. claim_analyzer_run() - atomically lease the next due run
+-- 3. reclaim_expired_analyzer_runs() - recover runs from dead workers
+-- 4. Insert/update policies so project owners can enqueue runs
+--
+-- Lifecycle:
+--   pending (next_attempt_at <= now) → running (leased) → completed
+--                         ↑                    │
+--                         └── retry w/ backoff ┴→ failed (retries exhausted)
+-- ============================================
+
+-- --------------------------------------------
+-- 1️⃣ LEASE + BACKOFF COLUMNS
+-- --------------------------------------------
+
+ALTER TABLE analyzer_runs
+ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ DEFAULT NOW();
+COMMENT ON COLUMN analyzer_runs.next_attempt_at IS '⏰ Earliest time a pending run may be claimed (retry backoff)';
+
+ALTER TABLE analyzer_runs
+ADD COLUMN IF NOT EXISTS locked_by TEXT;
+COMMENT ON COLUMN analyzer_runs.locked_by IS '👷 Worker currently holding the lease';
+
+ALTER TABLE analyzer_runs
+ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ;
+COMMENT ON COLUMN analyzer_runs.lease_expires_at IS '⌛ When the current lease lapses and the run can be reclaimed';
+
+-- Index for the claim query (due pending runs, oldest first)
+CREATE INDEX IF NOT EXISTS idx_runs_queue
+ON analyzer_runs(next_attempt_at, created_at)
+WHERE status = 'pending';
+
+-- Index for the reclaim query
+CREATE INDEX IF NOT EXISTS idx_runs_lease
+ON analyzer_runs(lease_expires_at)
+WHERE status = 'running';
+
+-- --------------------------------------------
+-- 2️⃣ CLAIM THE NEXT RUN
+-- --------------------------------------------
+-- SKIP LOCKED lets several workers poll at once without
+-- ever handing the same run to two of them.
+
+CREATE OR REPLACE FUNCTION claim_analyzer_run(
+  p_worker_id TEXT,
+  p_lease_seconds INT DEFAULT 300
+)
+RETURNS SETOF analyzer_runs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE analyzer_runs r
+  SET
+    status = 'running',
+    locked_by = p_worker_id,
+    lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+    started_at = NOW()
+  WHERE r.id = (
+    SELECT q.id
+    FROM analyzer_runs q
+    WHERE q.status = 'pending'
+      AND (q.next_attempt_at IS NULL OR q.next_attempt_at <= NOW())
+    ORDER BY q.next_attempt_at NULLS FIRST, q.created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING r.*;
+END;
+$$;
+
+COMMENT ON FUNCTION claim_analyzer_run IS '📬 Lease the next due pending analyzer run to a worker';
+
+-- --------------------------------------------
+-- 3️⃣ RECLAIM EXPIRED LEASES
+-- --------------------------------------------
+-- A lapsed lease counts as a failed attempt: the run goes back to
+-- pending with exponential backoff, or fails once retries run out.
+
+CREATE OR REPLACE FUNCTION reclaim_expired_analyzer_runs(
+  p_max_retries INT DEFAULT 3,
+  p_base_delay_seconds INT DEFAULT 30
+)
+RETURNS INT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  reclaimed INT;
+BEGIN
+  WITH expired AS (
+    SELECT id
+    FROM analyzer_runs
+    WHERE status = 'running'
+      AND lease_expires_at IS NOT NULL
+      AND lease_expires_at < NOW()
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE analyzer_runs r
+  SET
+    retry_count = r.retry_count + 1,
+    status = CASE WHEN r.retry_count + 1 >= p_max_retries THEN 'failed' ELSE 'pending' END,
+    error_message = 'Lease expired - worker ' || COALESCE(r.locked_by, 'unknown') || ' stopped responding',
+    next_attempt_at = NOW() + make_interval(secs => LEAST(900, p_base_delay_seconds * power(2, r.retry_count))),
+    completed_at = CASE WHEN r.retry_count + 1 >= p_max_retries THEN NOW() ELSE NULL END,
+    locked_by = NULL,
+    lease_expires_at = NULL
+  FROM expired
+  WHERE r.id = expired.id;
+
+  GET DIAGNOSTICS reclaimed = ROW_COUNT;
+  RETURN reclaimed;
+END;
+$$;
+
+COMMENT ON FUNCTION reclaim_expired_analyzer_runs IS '♻️ Return runs with lapsed leases to the queue (or fail them)';
+
+-- Only the worker (service role) may claim or reclaim runs
+REVOKE EXECUTE ON FUNCTION claim_analyzer_run(TEXT, INT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reclaim_expired_analyzer_runs(INT, INT) FROM PUBLIC, anon, authenticated;
+
+-- --------------------------------------------
+-- 4️⃣ LET OWNERS ENQUEUE AND UPDATE RUNS
+-- --------------------------------------------
+-- The trigger route enqueues with the user's session, and the direct
+-- /api/analyzers/[type] route advances runs with it too.
+
+DROP POLICY IF EXISTS "runs_insert_via_project" ON analyzer_runs;
+CREATE POLICY "runs_insert_via_project" ON analyzer_runs
+  FOR INSERT WITH CHECK (
+    project_id IN (
+      SELECT bp.id FROM business_projects bp
+      JOIN members m ON bp.member_id = m.id
+      WHERE m.auth_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "runs_update_via_project" ON analyzer_runs;
+CREATE POLICY "runs_update_via_project" ON analyzer_runs
+  FOR UPDATE USING (
+    project_id IN (
+      SELECT bp.id FROM business_projects bp
+      JOIN members m ON bp.member_id = m.id
+      WHERE m.auth_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "runs_delete_via_project" ON analyzer_runs;
+CREATE POLICY "runs_delete_via_project" ON analyzer_runs
+  FOR DELETE USING (
+    project_id IN (
+      SELECT bp.id FROM business_projects bp
+      JOIN members m ON bp.member_id = m.id
+      WHERE m.auth_id = auth.uid()
+    )
+  );
+
+-- --------------------------------------------
+-- 🎉 MIGRATION COMPLETE
+-- --------------------------------------------
+-- Run the worker with: npm run worker
+-- --------------------------------------------
@@ -0,0 +1,22 @@
+-- ============================================
+-- 🕰️ ANALYZER STALENESS MIGRATION
+-- ============================================
+-- Lets a completed run be flagged as based on older answers.
+--
+-- Each run records a hash of its input fields in
+-- input_snapshot->>'input_hash'. When a watched field changes, the
+-- latest completed run is stamped with stale_at and auto-trigger
+-- analyzers are queued again (see src/lib/analyzers/staleness.ts).
+--
+-- Stale runs are kept - the new run is a new row.
+-- ============================================
+
+ALTER TABLE analyzer_runs
+ADD COLUMN IF NOT EXISTS stale_at TIMESTAMPTZ;
+COMMENT ON COLUMN analyzer_runs.stale_at IS '🕰️ When an input field changed after this run completed (NULL = still current)';
+
+COMMENT ON COLUMN analyzer_runs.input_snapshot IS '📸 Inputs the run was based on, including input_hash for staleness checks';
+
+-- --------------------------------------------
+-- 🎉 MIGRATION COMPLETE
+-- --------------------------------------------
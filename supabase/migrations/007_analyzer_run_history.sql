@@ -0,0 +1,46 @@
+-- ============================================
+-- 🗂️ ANALYZER RUN HISTORY MIGRATION
+-- ============================================
+-- Keeps every analyzer run as an append-only history:
+-- 1. output_fields - exactly what a run wrote to business_projects
+-- 2. restored_from_run_id - links a restore back to the run it copied
+-- 3. History index (newest runs per analyzer first)
+-- 4. Owners can no longer delete runs
+--
+-- Re-running or restoring always adds a new row; old rows are only
+-- removed when their project is deleted (ON DELETE CASCADE).
+-- ============================================
+
+-- --------------------------------------------
+-- 1️⃣ OUTPUT FIELDS
+-- --------------------------------------------
+
+ALTER TABLE analyzer_runs
+ADD COLUMN IF NOT EXISTS output_fields JSONB;
+COMMENT ON COLUMN analyzer_runs.output_fields IS '📤 Columns and values the run wrote to business_projects (used to restore it)';
+
+-- --------------------------------------------
+-- 2️⃣ RESTORE LINK
+-- --------------------------------------------
+
+ALTER TABLE analyzer_runs
+ADD COLUMN IF NOT EXISTS restored_from_run_id UUID REFERENCES analyzer_runs(id) ON DELETE SET NULL;
+COMMENT ON COLUMN analyzer_runs.restored_from_run_id IS '⏪ Earlier run whose outputs this run restored';
+
+-- --------------------------------------------
+-- 3️⃣ HISTORY INDEX
+-- --------------------------------------------
+
+CREATE INDEX IF NOT EXISTS idx_runs_history
+ON analyzer_runs(project_id, analyzer_type, created_at DESC);
+
+-- --------------------------------------------
+-- 4️⃣ APPEND-ONLY
+-- --------------------------------------------
+-- Runs are history now - nothing in the app deletes them
+
+DROP POLICY IF EXISTS "runs_delete_via_project" ON analyzer_runs;
+
+-- --------------------------------------------
+-- 🎉 MIGRATION COMPLETE
+-- --------------------------------------------
@@ -0,0 +1,19 @@
+-- ============================================
+-- 🎤 INTERVIEW SESSIONS MIGRATION
+-- ============================================
+-- Lets a chat session run the bucket-driven interview.
+--
+-- The interview asks every bucket field in BUCKET_ORDER as a typed
+-- question; fields the user skips are remembered on the session so
+-- they aren't asked again (see src/lib/chat/interview.ts).
+-- current_bucket and status were already on the table and are now
+-- kept up to date by the interviewer.
+-- ============================================
+
+ALTER TABLE onboarding_sessions
+ADD COLUMN IF NOT EXISTS skipped_fields TEXT[] DEFAULT '{}';
+COMMENT ON COLUMN onboarding_sessions.skipped_fields IS '⏭️ Bucket fields the user skipped in the interview';
+
+-- --------------------------------------------
+-- 🎉 MIGRATION COMPLETE
+-- --------------------------------------------
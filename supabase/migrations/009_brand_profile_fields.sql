@@ -0,0 +1,106 @@
+-- ============================================
+-- 🪪 BRAND PROFILE FIELDS MIGRATION
+-- ============================================
+-- Gives every structured onboarding input its own column.
+--
+-- Until now the onboarding pages reused bucket fields meant for
+-- something else (see FIELD_MAPPINGS in src/lib/config/onboarding.ts):
+--   communication style  → pricing_tier
+--   price position       → differentiation_score
+--   customer description → one_liner
+--   brand words          → company_values
+--   company size         → team_size (rejected by its CHECK unless 'solo')
+-- and the rep's name/role, location and founding year weren't saved
+-- at all. Analyzer prompts then read those values as what the columns
+-- say they are.
+-- ============================================
+
+-- --------------------------------------------
+-- 1️⃣ ABOUT THE BRAND
+-- --------------------------------------------
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS rep_name TEXT;
+COMMENT ON COLUMN business_projects.rep_name IS '🧑 Name of the person filling in the profile';
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS rep_role TEXT;
+COMMENT ON COLUMN business_projects.rep_role IS '👔 Their role at the brand (Founder, Marketing Director, ...)';
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS company_size TEXT CHECK (company_size IN (
+  'idea', 'solo', 'micro', 'small', 'medium', 'large'
+));
+COMMENT ON COLUMN business_projects.company_size IS '🏢 Company size from the setup step (COMPANY_SIZE_OPTIONS)';
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS brand_location TEXT;
+COMMENT ON COLUMN business_projects.brand_location IS '📍 Where the brand is based';
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS year_founded INT CHECK (year_founded BETWEEN 1800 AND 2100);
+COMMENT ON COLUMN business_projects.year_founded IS '📅 Year the brand started';
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS customer_description TEXT;
+COMMENT ON COLUMN business_projects.customer_description IS '🤝 Who the brand helps, in the user''s words (story step)';
+
+-- --------------------------------------------
+-- 2️⃣ PERSONALITY & STYLE
+-- --------------------------------------------
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS brand_personality TEXT[];
+COMMENT ON COLUMN business_projects.brand_personality IS '💬 Brand personality words picked on the words step';
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS communication_style INT CHECK (communication_style BETWEEN 1 AND 5);
+COMMENT ON COLUMN business_projects.communication_style IS '🗣️ 1 = formal, 5 = casual';
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS price_position INT CHECK (price_position BETWEEN 1 AND 5);
+COMMENT ON COLUMN business_projects.price_position IS '🏷️ 1 = budget, 5 = premium';
+
+-- --------------------------------------------
+-- 3️⃣ MOVE MISPLACED VALUES
+-- --------------------------------------------
+-- Only projects that got past the step which wrote the value are
+-- touched (current_step is set to the next step on save). Moved values
+-- are cleared from the bucket field; bucket_completion catches up on
+-- the project's next save.
+
+-- Style step → hub
+UPDATE business_projects
+SET communication_style = pricing_tier,
+    price_position = differentiation_score,
+    pricing_tier = NULL,
+    differentiation_score = NULL
+WHERE current_step IN ('hub', 'done')
+  AND communication_style IS NULL
+  AND price_position IS NULL;
+
+-- Story step → words
+UPDATE business_projects
+SET customer_description = one_liner,
+    one_liner = NULL
+WHERE current_step IN ('words', 'style', 'hub', 'done')
+  AND customer_description IS NULL
+  AND one_liner IS NOT NULL;
+
+-- Words step → style
+UPDATE business_projects
+SET brand_personality = company_values,
+    company_values = NULL
+WHERE current_step IN ('style', 'hub', 'done')
+  AND brand_personality IS NULL
+  AND company_values IS NOT NULL;
+
+-- Setup step → assets ('solo' is the only size team_size accepted)
+UPDATE business_projects
+SET company_size = team_size
+WHERE company_size IS NULL
+  AND team_size = 'solo';
+
+-- --------------------------------------------
+-- 🎉 MIGRATION COMPLETE
+-- --------------------------------------------
@@ -0,0 +1,30 @@
+-- ============================================
+-- 📁 PROJECT TYPE MIGRATION
+-- ============================================
+-- Keeps a consultant's own brand apart from their client brands.
+--
+-- /onboard/new asks whether a project is the user's own brand
+-- ('primary') or a client's ('portfolio'). Portfolio projects also
+-- carry who the client is and how to reach them. The dashboard groups
+-- projects by type.
+-- ============================================
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS project_type TEXT NOT NULL DEFAULT 'primary'
+  CHECK (project_type IN ('primary', 'portfolio'));
+COMMENT ON COLUMN business_projects.project_type IS '📁 primary = the user''s own brand, portfolio = a client brand';
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS client_name TEXT;
+COMMENT ON COLUMN business_projects.client_name IS '🤝 Client the brand belongs to (portfolio projects)';
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS client_contact TEXT;
+COMMENT ON COLUMN business_projects.client_contact IS '📇 How to reach the client - email or phone (portfolio projects)';
+
+-- Dashboard lists a member's projects by type
+CREATE INDEX IF NOT EXISTS idx_projects_member_type ON business_projects(member_id, project_type);
+
+-- --------------------------------------------
+-- 🎉 MIGRATION COMPLETE
+-- --------------------------------------------
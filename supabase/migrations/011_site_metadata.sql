@@ -0,0 +1,31 @@
+-- ============================================
+-- 🏷️ SITE METADATA MIGRATION
+-- ============================================
+-- Stores what a brand's website says about itself in its markup.
+--
+-- The web scraper now reads schema.org JSON-LD, Open Graph tags,
+-- icons, mailto:/tel: links and <address> blocks. Logo and contact
+-- details get their own columns; location and founding year go into
+-- the existing brand_location / year_founded columns (009), but only
+-- while those are still empty.
+-- ============================================
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS logo_url TEXT;
+COMMENT ON COLUMN business_projects.logo_url IS '🖼️ Logo found on the website (JSON-LD logo, logo <img> or apple-touch-icon)';
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS contact_email TEXT;
+COMMENT ON COLUMN business_projects.contact_email IS '✉️ Public contact email from the website';
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS contact_phone TEXT;
+COMMENT ON COLUMN business_projects.contact_phone IS '📞 Public phone number from the website';
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS business_address TEXT;
+COMMENT ON COLUMN business_projects.business_address IS '🏠 Postal address from the website, on one line';
+
+-- --------------------------------------------
+-- 🎉 MIGRATION COMPLETE
+-- --------------------------------------------
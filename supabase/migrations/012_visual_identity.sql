@@ -0,0 +1,24 @@
+-- ============================================
+-- 🎨 VISUAL IDENTITY MIGRATION
+-- ============================================
+-- Stores a brand's colors and fonts, read from its website's CSS.
+--
+-- The web scraper reads the home page's inline styles and linked
+-- stylesheets, and saves the dominant colors and the font families
+-- in use as one JSONB profile:
+--   {
+--     "colors": [{ "hex": "#2f855a", "weight": 0.42 }, ...],
+--     "fonts":  [{ "family": "Playfair Display", "role": "heading",
+--                  "source": "google_fonts" }, ...]
+--   }
+-- Weights add up to 1. The hub and done pages show the profile as
+-- swatches and type specimens.
+-- ============================================
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS visual_identity JSONB;
+COMMENT ON COLUMN business_projects.visual_identity IS '🎨 Brand colors and fonts from the website''s CSS ({ colors, fonts })';
+
+-- --------------------------------------------
+-- 🎉 MIGRATION COMPLETE
+-- --------------------------------------------
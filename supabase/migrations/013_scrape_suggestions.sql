@@ -0,0 +1,28 @@
+-- ============================================
+-- 💡 SCRAPE SUGGESTIONS MIGRATION
+-- ============================================
+-- Lets the web scraper suggest onboarding answers, and remembers what
+-- the user did with each suggestion.
+--
+-- scrape_suggestions is written by the web scraper:
+--   { "coreOffering": "...", "customerDescription": "...",
+--     "brandWords": [...], "customerWords": [...] }
+-- The story and words pages offer each one through InferenceReveal and
+-- save the answer per input in suggestion_decisions:
+--   { "coreOffering": { "status": "accepted" | "edited" | "rejected",
+--                       "suggested": ..., "value": ...,
+--                       "decided_at": "..." }, ... }
+-- An answered suggestion is never offered again.
+-- ============================================
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS scrape_suggestions JSONB;
+COMMENT ON COLUMN business_projects.scrape_suggestions IS '💡 Onboarding answers suggested from the website (story blanks + word bank picks)';
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS suggestion_decisions JSONB DEFAULT '{}';
+COMMENT ON COLUMN business_projects.suggestion_decisions IS '✅ What the user did with each suggestion (accepted / edited / rejected), keyed by onboarding input';
+
+-- --------------------------------------------
+-- 🎉 MIGRATION COMPLETE
+-- --------------------------------------------
@@ -0,0 +1,56 @@
+-- ============================================
+-- 🏷️ FIELD PROVENANCE MIGRATION
+-- ============================================
+-- Records who last set each project field, so analyzers can't quietly
+-- overwrite what the user typed.
+--
+-- field_provenance is keyed by column:
+--   { "linkedin_url": { "source": "user", "run_id": null,
+--                       "set_at": "...", "confidence": null },
+--     "ai_summary":   { "source": "synthesis", "run_id": "...",
+--                       "set_at": "...", "confidence": 0.8 } }
+-- Writers send only the entries they set; the trigger below merges
+-- them into the stored ones.
+--
+-- skipped_fields lists the outputs a run did NOT write because the
+-- field held a user-entered value.
+-- ============================================
+
+-- --------------------------------------------
+-- 1️⃣ COLUMNS
+-- --------------------------------------------
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS field_provenance JSONB DEFAULT '{}';
+COMMENT ON COLUMN business_projects.field_provenance IS '🏷️ Who last set each field: user or analyzer, with run id, time and confidence';
+
+ALTER TABLE analyzer_runs
+ADD COLUMN IF NOT EXISTS skipped_fields TEXT[];
+COMMENT ON COLUMN analyzer_runs.skipped_fields IS '🛡️ Outputs kept off user-entered values by the write policy';
+
+-- --------------------------------------------
+-- 2️⃣ MERGE ON UPDATE
+-- --------------------------------------------
+-- An update carries only the entries it set. Merging here (rather than
+-- read-modify-write in the app) means a user save and an analyzer run
+-- landing together both keep their entries.
+
+CREATE OR REPLACE FUNCTION merge_field_provenance()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.field_provenance = COALESCE(OLD.field_provenance, '{}'::jsonb)
+    || COALESCE(NEW.field_provenance, '{}'::jsonb);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION merge_field_provenance IS '🏷️ Merge new provenance entries into the stored ones';
+
+DROP TRIGGER IF EXISTS projects_merge_field_provenance ON business_projects;
+CREATE TRIGGER projects_merge_field_provenance
+  BEFORE UPDATE OF field_provenance ON business_projects
+  FOR EACH ROW EXECUTE FUNCTION merge_field_provenance();
+
+-- --------------------------------------------
+-- 🎉 MIGRATION COMPLETE
+-- --------------------------------------------
@@ -0,0 +1,87 @@
+-- ============================================
+-- 🔗 SHARE LINKS MIGRATION
+-- ============================================
+-- Read-only links to a brand foundation for people without an account
+-- (clients, stakeholders).
+--
+-- Each link has an unguessable token (/share/<token>), can expire, and
+-- can be revoked. Owners pick which parts of the foundation it shows -
+-- hidden_sections holds the part ids from src/lib/export/document.ts
+-- (e.g. 'weaknesses'). Every view is counted.
+--
+-- Viewers never touch the tables: the public page calls
+-- view_share_link() with the service role, which checks the token and
+-- counts the view in one step.
+-- ============================================
+
+-- --------------------------------------------
+-- 1️⃣ SHARE LINKS TABLE
+-- --------------------------------------------
+
+CREATE TABLE IF NOT EXISTS share_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID REFERENCES business_projects(id) ON DELETE CASCADE NOT NULL,
+
+  token TEXT UNIQUE NOT NULL,
+  label TEXT,
+  hidden_sections TEXT[] DEFAULT '{}' NOT NULL,
+
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+
+  view_count INT DEFAULT 0 NOT NULL,
+  last_viewed_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_share_links_project ON share_links(project_id);
+
+ALTER TABLE share_links ENABLE ROW LEVEL SECURITY;
+
+-- Owners manage their projects' links
+DROP POLICY IF EXISTS "share_links_via_project" ON share_links;
+CREATE POLICY "share_links_via_project" ON share_links
+  FOR ALL USING (
+    project_id IN (
+      SELECT bp.id FROM business_projects bp
+      JOIN members m ON bp.member_id = m.id
+      WHERE m.auth_id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE share_links IS '🔗 Public read-only links to a brand foundation';
+COMMENT ON COLUMN share_links.hidden_sections IS '🙈 Document parts the link leaves out (ids from lib/export/document.ts)';
+COMMENT ON COLUMN share_links.view_count IS '👀 Times the shared page was opened';
+
+-- --------------------------------------------
+-- 2️⃣ VIEW A LINK
+-- --------------------------------------------
+-- Returns the link (with its project id) if it's live - not revoked,
+-- not expired - and counts the view. No row means "not available".
+
+CREATE OR REPLACE FUNCTION view_share_link(p_token TEXT)
+RETURNS SETOF share_links
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE share_links
+  SET
+    view_count = view_count + 1,
+    last_viewed_at = NOW()
+  WHERE token = p_token
+    AND revoked_at IS NULL
+    AND (expires_at IS NULL OR expires_at > NOW())
+  RETURNING *;
+END;
+$$;
+
+COMMENT ON FUNCTION view_share_link IS '👀 Check a share token and count the view';
+
+-- Only the server (service role) opens links
+REVOKE EXECUTE ON FUNCTION view_share_link(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- --------------------------------------------
+-- 🎉 MIGRATION COMPLETE
+-- --------------------------------------------
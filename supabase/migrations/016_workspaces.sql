@@ -0,0 +1,487 @@
+-- ============================================
+-- 👥 WORKSPACES MIGRATION
+-- ============================================
+-- Projects move from one member to a workspace, so a team (e.g. a
+-- three-person agency) can share a portfolio.
+--
+-- - workspaces: a named group of projects
+-- - workspace_members: who's in it, as owner, editor or viewer
+--     owner  - everything, plus inviting, roles and deleting projects
+--     editor - create and edit projects, run analyzers, share links
+--     viewer - read only
+-- - workspace_invitations: invites by email, accepted by whoever signs
+--   in with that address
+--
+-- Every member gets a personal workspace (existing members too, holding
+-- their existing projects). business_projects.member_id stays, as who
+-- created the project.
+--
+-- RLS on projects and everything hanging off them now goes through
+-- can_view_project() / can_edit_project() instead of member_id.
+-- ============================================
+
+-- --------------------------------------------
+-- 1️⃣ TABLES
+-- --------------------------------------------
+
+CREATE TABLE IF NOT EXISTS workspaces (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  created_by UUID REFERENCES members(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS workspace_members (
+  workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL,
+  member_id UUID REFERENCES members(id) ON DELETE CASCADE NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (workspace_id, member_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_member ON workspace_members(member_id);
+
+CREATE TABLE IF NOT EXISTS workspace_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  invited_by UUID REFERENCES members(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One open invite per address per workspace
+CREATE UNIQUE INDEX IF NOT EXISTS idx_workspace_invitations_pending
+ON workspace_invitations(workspace_id, lower(email))
+WHERE accepted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_workspace_invitations_email
+ON workspace_invitations(lower(email));
+
+DROP TRIGGER IF EXISTS workspaces_updated_at ON workspaces;
+CREATE TRIGGER workspaces_updated_at
+  BEFORE UPDATE ON workspaces
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+COMMENT ON TABLE workspaces IS '👥 A team and its projects';
+COMMENT ON TABLE workspace_members IS '👤 Who is in a workspace, and their role (owner, editor, viewer)';
+COMMENT ON TABLE workspace_invitations IS '✉️ Invites by email - accepted by whoever signs in with that address';
+
+-- --------------------------------------------
+-- 2️⃣ ACCESS HELPERS
+-- --------------------------------------------
+-- SECURITY DEFINER so policies can read workspace_members without
+-- going through its own RLS (which would recurse).
+
+CREATE OR REPLACE FUNCTION workspace_role(p_workspace_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT wm.role
+  FROM workspace_members wm
+  JOIN members m ON m.id = wm.member_id
+  WHERE wm.workspace_id = p_workspace_id
+    AND m.auth_id = auth.uid()
+$$;
+
+CREATE OR REPLACE FUNCTION can_view_project(p_project_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM business_projects bp
+    WHERE bp.id = p_project_id
+      AND workspace_role(bp.workspace_id) IS NOT NULL
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION can_edit_project(p_project_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM business_projects bp
+    WHERE bp.id = p_project_id
+      AND workspace_role(bp.workspace_id) IN ('owner', 'editor')
+  )
+$$;
+
+COMMENT ON FUNCTION workspace_role IS '🔑 The signed-in user''s role in a workspace (null if not a member)';
+COMMENT ON FUNCTION can_view_project IS '👀 Any role in the project''s workspace';
+COMMENT ON FUNCTION can_edit_project IS '✏️ Owner or editor in the project''s workspace';
+
+-- --------------------------------------------
+-- 3️⃣ PERSONAL WORKSPACES
+-- --------------------------------------------
+-- Whoever creates a workspace owns it, and every new member gets one.
+-- The app creates workspaces through create_workspace(), since the
+-- creator can't see the new row until they're its owner.
+
+CREATE OR REPLACE FUNCTION add_workspace_creator()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.created_by IS NOT NULL THEN
+    INSERT INTO workspace_members (workspace_id, member_id, role)
+    VALUES (NEW.id, NEW.created_by, 'owner')
+    ON CONFLICT DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS workspaces_add_creator ON workspaces;
+CREATE TRIGGER workspaces_add_creator
+  AFTER INSERT ON workspaces
+  FOR EACH ROW EXECUTE FUNCTION add_workspace_creator();
+
+CREATE OR REPLACE FUNCTION create_personal_workspace()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO workspaces (name, created_by)
+  VALUES (COALESCE(NULLIF(NEW.name, ''), split_part(NEW.email, '@', 1)) || '''s workspace', NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS members_personal_workspace ON members;
+CREATE TRIGGER members_personal_workspace
+  AFTER INSERT ON members
+  FOR EACH ROW EXECUTE FUNCTION create_personal_workspace();
+
+CREATE OR REPLACE FUNCTION create_workspace(p_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_member_id UUID;
+  v_workspace_id UUID;
+BEGIN
+  SELECT id INTO v_member_id FROM members WHERE auth_id = auth.uid();
+  IF v_member_id IS NULL THEN
+    RAISE EXCEPTION 'Member not found';
+  END IF;
+
+  IF COALESCE(trim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Workspace name is required';
+  END IF;
+
+  INSERT INTO workspaces (name, created_by)
+  VALUES (trim(p_name), v_member_id)
+  RETURNING id INTO v_workspace_id;
+
+  RETURN v_workspace_id;
+END;
+$$;
+
+COMMENT ON FUNCTION create_workspace IS '👥 Create a workspace owned by the signed-in member';
+
+-- Existing members
+INSERT INTO workspaces (name, created_by)
+SELECT COALESCE(NULLIF(m.name, ''), split_part(m.email, '@', 1)) || '''s workspace', m.id
+FROM members m
+WHERE NOT EXISTS (SELECT 1 FROM workspaces w WHERE w.created_by = m.id);
+
+-- --------------------------------------------
+-- 4️⃣ PROJECTS BELONG TO A WORKSPACE
+-- --------------------------------------------
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+
+-- Existing projects go to their creator's personal workspace
+UPDATE business_projects bp
+SET workspace_id = (
+  SELECT w.id FROM workspaces w
+  WHERE w.created_by = bp.member_id
+  ORDER BY w.created_at
+  LIMIT 1
+)
+WHERE bp.workspace_id IS NULL;
+
+ALTER TABLE business_projects ALTER COLUMN workspace_id SET NOT NULL;
+
+-- member_id is now who created it - the project outlives them
+ALTER TABLE business_projects ALTER COLUMN member_id DROP NOT NULL;
+ALTER TABLE business_projects DROP CONSTRAINT IF EXISTS business_projects_member_id_fkey;
+ALTER TABLE business_projects
+ADD CONSTRAINT business_projects_member_id_fkey
+FOREIGN KEY (member_id) REFERENCES members(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_projects_workspace ON business_projects(workspace_id, updated_at DESC);
+
+COMMENT ON COLUMN business_projects.workspace_id IS '👥 The workspace the project belongs to';
+COMMENT ON COLUMN business_projects.member_id IS '👤 Who created the project';
+
+-- --------------------------------------------
+-- 5️⃣ ACCEPTING INVITATIONS
+-- --------------------------------------------
+-- The invite's email must match the signed-in user's. Accepting again
+-- (or being invited to a workspace you're in) just updates the role.
+
+CREATE OR REPLACE FUNCTION accept_workspace_invitation(p_invitation_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitation workspace_invitations;
+  v_member_id UUID;
+BEGIN
+  SELECT * INTO v_invitation
+  FROM workspace_invitations
+  WHERE id = p_invitation_id
+    AND accepted_at IS NULL
+    AND lower(email) = lower(auth.jwt() ->> 'email');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  SELECT id INTO v_member_id FROM members WHERE auth_id = auth.uid();
+  IF v_member_id IS NULL THEN
+    RAISE EXCEPTION 'Member not found';
+  END IF;
+
+  INSERT INTO workspace_members (workspace_id, member_id, role)
+  VALUES (v_invitation.workspace_id, v_member_id, v_invitation.role)
+  ON CONFLICT (workspace_id, member_id) DO UPDATE SET role = EXCLUDED.role;
+
+  UPDATE workspace_invitations SET accepted_at = NOW() WHERE id = p_invitation_id;
+
+  RETURN v_invitation.workspace_id;
+END;
+$$;
+
+COMMENT ON FUNCTION accept_workspace_invitation IS '✉️ Join a workspace from an invite sent to your email';
+
+-- --------------------------------------------
+-- 6️⃣ KEEP AN OWNER
+-- --------------------------------------------
+-- A workspace can't lose its last owner (by role change or removal).
+-- Deleting the workspace, or the owner's account, is fine.
+
+CREATE OR REPLACE FUNCTION keep_workspace_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.role = 'owner'
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+    AND EXISTS (SELECT 1 FROM workspaces WHERE id = OLD.workspace_id)
+    AND EXISTS (SELECT 1 FROM members WHERE id = OLD.member_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM workspace_members
+      WHERE workspace_id = OLD.workspace_id
+        AND role = 'owner'
+        AND member_id <> OLD.member_id
+    )
+  THEN
+    RAISE EXCEPTION 'A workspace needs at least one owner';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS workspace_members_keep_owner ON workspace_members;
+CREATE TRIGGER workspace_members_keep_owner
+  BEFORE UPDATE OF role OR DELETE ON workspace_members
+  FOR EACH ROW EXECUTE FUNCTION keep_workspace_owner();
+
+-- --------------------------------------------
+-- 7️⃣ WORKSPACE RLS
+-- --------------------------------------------
+
+ALTER TABLE workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Workspaces: members see them, owners rename/delete (created with
+-- create_workspace())
+DROP POLICY IF EXISTS "workspaces_select_member" ON workspaces;
+CREATE POLICY "workspaces_select_member" ON workspaces
+  FOR SELECT USING (workspace_role(id) IS NOT NULL);
+
+-- ...and people invited to them, to see what they're joining
+DROP POLICY IF EXISTS "workspaces_select_invitee" ON workspaces;
+CREATE POLICY "workspaces_select_invitee" ON workspaces
+  FOR SELECT USING (
+    id IN (
+      SELECT workspace_id FROM workspace_invitations
+      WHERE accepted_at IS NULL
+        AND lower(email) = lower(auth.jwt() ->> 'email')
+    )
+  );
+
+DROP POLICY IF EXISTS "workspaces_update_owner" ON workspaces;
+CREATE POLICY "workspaces_update_owner" ON workspaces
+  FOR UPDATE USING (workspace_role(id) = 'owner');
+
+DROP POLICY IF EXISTS "workspaces_delete_owner" ON workspaces;
+CREATE POLICY "workspaces_delete_owner" ON workspaces
+  FOR DELETE USING (workspace_role(id) = 'owner');
+
+-- Members: see your teammates; owners change roles and remove people;
+-- anyone can leave. Joining is only through the functions above.
+DROP POLICY IF EXISTS "workspace_members_select" ON workspace_members;
+CREATE POLICY "workspace_members_select" ON workspace_members
+  FOR SELECT USING (workspace_role(workspace_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "workspace_members_update_owner" ON workspace_members;
+CREATE POLICY "workspace_members_update_owner" ON workspace_members
+  FOR UPDATE USING (workspace_role(workspace_id) = 'owner');
+
+DROP POLICY IF EXISTS "workspace_members_delete" ON workspace_members;
+CREATE POLICY "workspace_members_delete" ON workspace_members
+  FOR DELETE USING (
+    workspace_role(workspace_id) = 'owner'
+    OR member_id IN (SELECT id FROM members WHERE auth_id = auth.uid())
+  );
+
+-- Invitations: the workspace sees them, owners manage them, and the
+-- invitee sees (and can decline) their own
+DROP POLICY IF EXISTS "workspace_invitations_select" ON workspace_invitations;
+CREATE POLICY "workspace_invitations_select" ON workspace_invitations
+  FOR SELECT USING (
+    workspace_role(workspace_id) IS NOT NULL
+    OR lower(email) = lower(auth.jwt() ->> 'email')
+  );
+
+DROP POLICY IF EXISTS "workspace_invitations_insert_owner" ON workspace_invitations;
+CREATE POLICY "workspace_invitations_insert_owner" ON workspace_invitations
+  FOR INSERT WITH CHECK (workspace_role(workspace_id) = 'owner');
+
+DROP POLICY IF EXISTS "workspace_invitations_delete" ON workspace_invitations;
+CREATE POLICY "workspace_invitations_delete" ON workspace_invitations
+  FOR DELETE USING (
+    workspace_role(workspace_id) = 'owner'
+    OR lower(email) = lower(auth.jwt() ->> 'email')
+  );
+
+-- Teammates can see each other's name and email
+DROP POLICY IF EXISTS "members_select_teammates" ON members;
+CREATE POLICY "members_select_teammates" ON members
+  FOR SELECT USING (
+    id IN (
+      SELECT wm.member_id FROM workspace_members wm
+      WHERE workspace_role(wm.workspace_id) IS NOT NULL
+    )
+  );
+
+-- --------------------------------------------
+-- 8️⃣ PROJECT RLS (REWRITTEN)
+-- --------------------------------------------
+-- Viewers read; owners and editors write; only owners delete projects.
+
+DROP POLICY IF EXISTS "projects_all_own" ON business_projects;
+
+DROP POLICY IF EXISTS "projects_select_workspace" ON business_projects;
+CREATE POLICY "projects_select_workspace" ON business_projects
+  FOR SELECT USING (workspace_role(workspace_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "projects_insert_workspace" ON business_projects;
+CREATE POLICY "projects_insert_workspace" ON business_projects
+  FOR INSERT WITH CHECK (workspace_role(workspace_id) IN ('owner', 'editor'));
+
+DROP POLICY IF EXISTS "projects_update_workspace" ON business_projects;
+CREATE POLICY "projects_update_workspace" ON business_projects
+  FOR UPDATE
+  USING (workspace_role(workspace_id) IN ('owner', 'editor'))
+  WITH CHECK (workspace_role(workspace_id) IN ('owner', 'editor'));
+
+DROP POLICY IF EXISTS "projects_delete_workspace" ON business_projects;
+CREATE POLICY "projects_delete_workspace" ON business_projects
+  FOR DELETE USING (workspace_role(workspace_id) = 'owner');
+
+-- Onboarding sessions
+DROP POLICY IF EXISTS "sessions_via_project" ON onboarding_sessions;
+
+DROP POLICY IF EXISTS "sessions_select_via_project" ON onboarding_sessions;
+CREATE POLICY "sessions_select_via_project" ON onboarding_sessions
+  FOR SELECT USING (can_view_project(project_id));
+
+DROP POLICY IF EXISTS "sessions_write_via_project" ON onboarding_sessions;
+CREATE POLICY "sessions_write_via_project" ON onboarding_sessions
+  FOR ALL
+  USING (can_edit_project(project_id))
+  WITH CHECK (can_edit_project(project_id));
+
+-- Conversation messages
+DROP POLICY IF EXISTS "messages_via_session" ON conversation_messages;
+
+DROP POLICY IF EXISTS "messages_select_via_session" ON conversation_messages;
+CREATE POLICY "messages_select_via_session" ON conversation_messages
+  FOR SELECT USING (
+    session_id IN (SELECT id FROM onboarding_sessions WHERE can_view_project(project_id))
+  );
+
+DROP POLICY IF EXISTS "messages_write_via_session" ON conversation_messages;
+CREATE POLICY "messages_write_via_session" ON conversation_messages
+  FOR ALL
+  USING (session_id IN (SELECT id FROM onboarding_sessions WHERE can_edit_project(project_id)))
+  WITH CHECK (session_id IN (SELECT id FROM onboarding_sessions WHERE can_edit_project(project_id)));
+
+-- Analyzer runs (still append-only - no delete policy, see 007)
+DROP POLICY IF EXISTS "runs_via_project" ON analyzer_runs;
+CREATE POLICY "runs_via_project" ON analyzer_runs
+  FOR SELECT USING (can_view_project(project_id));
+
+DROP POLICY IF EXISTS "runs_insert_via_project" ON analyzer_runs;
+CREATE POLICY "runs_insert_via_project" ON analyzer_runs
+  FOR INSERT WITH CHECK (can_edit_project(project_id));
+
+DROP POLICY IF EXISTS "runs_update_via_project" ON analyzer_runs;
+CREATE POLICY "runs_update_via_project" ON analyzer_runs
+  FOR UPDATE USING (can_edit_project(project_id));
+
+-- Generated outputs
+DROP POLICY IF EXISTS "outputs_via_project" ON generated_outputs;
+
+DROP POLICY IF EXISTS "outputs_select_via_project" ON generated_outputs;
+CREATE POLICY "outputs_select_via_project" ON generated_outputs
+  FOR SELECT USING (can_view_project(project_id));
+
+DROP POLICY IF EXISTS "outputs_write_via_project" ON generated_outputs;
+CREATE POLICY "outputs_write_via_project" ON generated_outputs
+  FOR ALL
+  USING (can_edit_project(project_id))
+  WITH CHECK (can_edit_project(project_id));
+
+-- Share links (015)
+DROP POLICY IF EXISTS "share_links_via_project" ON share_links;
+
+DROP POLICY IF EXISTS "share_links_select_via_project" ON share_links;
+CREATE POLICY "share_links_select_via_project" ON share_links
+  FOR SELECT USING (can_view_project(project_id));
+
+DROP POLICY IF EXISTS "share_links_write_via_project" ON share_links;
+CREATE POLICY "share_links_write_via_project" ON share_links
+  FOR ALL
+  USING (can_edit_project(project_id))
+  WITH CHECK (can_edit_project(project_id));
+
+-- --------------------------------------------
+-- 🎉 MIGRATION COMPLETE
+-- --------------------------------------------
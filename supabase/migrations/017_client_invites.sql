@@ -0,0 +1,71 @@
+-- ============================================
+-- 📨 CLIENT INVITES MIGRATION
+-- ============================================
+-- Lets a consultant hand a portfolio project's questions to the client.
+--
+-- An invite is a link (/guest/<token>) to a guest version of onboarding
+-- that covers only setup → story → words → style for that one project.
+-- The client needs no account: the server checks the token with the
+-- service role and saves their answers to the project, stamped with
+-- source 'client' in field_provenance.
+--
+-- The invite records how far the client got (current_step, opened and
+-- last activity times, completed_at) so the consultant can follow along
+-- and send reminders (reminder_count, last_reminded_at).
+-- ============================================
+
+-- --------------------------------------------
+-- 1️⃣ CLIENT INVITES TABLE
+-- --------------------------------------------
+
+CREATE TABLE IF NOT EXISTS client_invites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID REFERENCES business_projects(id) ON DELETE CASCADE NOT NULL,
+  created_by UUID REFERENCES members(id) ON DELETE SET NULL,
+
+  token TEXT UNIQUE NOT NULL,
+  client_name TEXT,
+  client_email TEXT,
+
+  -- The step the client is on ('done' once they've finished)
+  current_step TEXT DEFAULT 'setup' NOT NULL
+    CHECK (current_step IN ('setup', 'story', 'words', 'style', 'done')),
+  opened_at TIMESTAMPTZ,
+  last_activity_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+
+  reminder_count INT DEFAULT 0 NOT NULL,
+  last_reminded_at TIMESTAMPTZ,
+
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One open invite per project (revoke it to send a new one)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_client_invites_open
+  ON client_invites(project_id)
+  WHERE revoked_at IS NULL;
+
+ALTER TABLE client_invites ENABLE ROW LEVEL SECURITY;
+
+-- Anyone in the workspace sees how the client is getting on
+DROP POLICY IF EXISTS "client_invites_select_via_project" ON client_invites;
+CREATE POLICY "client_invites_select_via_project" ON client_invites
+  FOR SELECT USING (can_view_project(project_id));
+
+-- Owners and editors send, remind and revoke
+DROP POLICY IF EXISTS "client_invites_write_via_project" ON client_invites;
+CREATE POLICY "client_invites_write_via_project" ON client_invites
+  FOR ALL
+  USING (can_edit_project(project_id))
+  WITH CHECK (can_edit_project(project_id));
+
+COMMENT ON TABLE client_invites IS '📨 Links for clients to answer a portfolio project''s onboarding themselves';
+COMMENT ON COLUMN client_invites.current_step IS '📍 Where the client is in setup → story → words → style (done when finished)';
+COMMENT ON COLUMN client_invites.reminder_count IS '🔔 Reminders the consultant has sent';
+
+-- --------------------------------------------
+-- 🎉 MIGRATION COMPLETE
+-- --------------------------------------------
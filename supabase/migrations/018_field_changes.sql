@@ -0,0 +1,112 @@
+-- ============================================
+-- 📜 FIELD CHANGES MIGRATION
+-- ============================================
+-- An append-only log of every value written to a project field, so we
+-- can answer "who changed the problem statement, and what did it say
+-- before?" and put an earlier value back.
+--
+-- Rows are written by a trigger, not the app: every writer already
+-- stamps the fields it sets in field_provenance (migration 014), and
+-- the stamp says who it was - the user, a client on an invite link, or
+-- an analyzer run. The trigger logs each stamped field whose value
+-- actually changed, with the signed-in member when there is one
+-- (analyzer runs and client invites write with the service role, so
+-- theirs is null).
+--
+-- Bookkeeping columns (status, completion, current_step...) are never
+-- stamped, so they're never logged.
+-- ============================================
+
+-- --------------------------------------------
+-- 1️⃣ FIELD CHANGES TABLE
+-- --------------------------------------------
+
+CREATE TABLE IF NOT EXISTS field_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID REFERENCES business_projects(id) ON DELETE CASCADE NOT NULL,
+  field TEXT NOT NULL,
+
+  -- Values as JSON (null = the field was empty)
+  old_value JSONB,
+  new_value JSONB,
+
+  -- From the field's provenance stamp: 'user', 'client' or an analyzer type
+  source TEXT NOT NULL,
+  run_id UUID, -- the analyzer run, kept even if the run is deleted
+  changed_by UUID REFERENCES members(id) ON DELETE SET NULL,
+
+  changed_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_field_changes_project
+  ON field_changes(project_id, changed_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_field_changes_field
+  ON field_changes(project_id, field, changed_at DESC);
+
+ALTER TABLE field_changes ENABLE ROW LEVEL SECURITY;
+
+-- Anyone in the workspace reads the history. There are no write
+-- policies: only the trigger adds rows, and nothing edits or deletes them.
+DROP POLICY IF EXISTS "field_changes_select_via_project" ON field_changes;
+CREATE POLICY "field_changes_select_via_project" ON field_changes
+  FOR SELECT USING (can_view_project(project_id));
+
+COMMENT ON TABLE field_changes IS '📜 Append-only log of project field values - who set what, and what it was before';
+COMMENT ON COLUMN field_changes.source IS '🏷️ Who set it: user, client or an analyzer type';
+COMMENT ON COLUMN field_changes.changed_by IS '👤 The signed-in member (null for analyzer runs and client invites)';
+
+-- --------------------------------------------
+-- 2️⃣ LOG ON UPDATE
+-- --------------------------------------------
+-- AFTER the provenance merge, so NEW.field_provenance holds every
+-- entry. A field was set by this write when its entry changed.
+
+CREATE OR REPLACE FUNCTION log_field_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old JSONB := to_jsonb(OLD);
+  v_new JSONB := to_jsonb(NEW);
+  v_member_id UUID;
+  v_field TEXT;
+  v_entry JSONB;
+BEGIN
+  SELECT id INTO v_member_id FROM members WHERE auth_id = auth.uid();
+
+  FOR v_field, v_entry IN
+    SELECT key, value FROM jsonb_each(COALESCE(NEW.field_provenance, '{}'::jsonb))
+  LOOP
+    CONTINUE WHEN v_entry IS NOT DISTINCT FROM OLD.field_provenance -> v_field;
+    CONTINUE WHEN NOT (v_new ? v_field);
+    CONTINUE WHEN v_old -> v_field IS NOT DISTINCT FROM v_new -> v_field;
+
+    INSERT INTO field_changes (project_id, field, old_value, new_value, source, run_id, changed_by)
+    VALUES (
+      NEW.id,
+      v_field,
+      NULLIF(v_old -> v_field, 'null'::jsonb),
+      NULLIF(v_new -> v_field, 'null'::jsonb),
+      v_entry ->> 'source',
+      (v_entry ->> 'run_id')::UUID,
+      CASE WHEN v_entry ->> 'source' IN ('user', 'client') THEN v_member_id END
+    );
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+COMMENT ON FUNCTION log_field_changes IS '📜 Log the fields an update stamped and changed';
+
+DROP TRIGGER IF EXISTS projects_log_field_changes ON business_projects;
+CREATE TRIGGER projects_log_field_changes
+  AFTER UPDATE OF field_provenance ON business_projects
+  FOR EACH ROW EXECUTE FUNCTION log_field_changes();
+
+-- --------------------------------------------
+-- 🎉 MIGRATION COMPLETE
+-- --------------------------------------------
@@ -0,0 +1,22 @@
+-- ============================================
+-- 📝 STEP DRAFTS MIGRATION
+-- ============================================
+-- Where an onboarding step's unsaved answers are autosaved while they're
+-- typed, keyed by step:
+--   { "story": { "values": { "coreOffering": "...", ... },
+--                "saved_at": "..." }, ... }
+-- The values are the form's, not project columns - the step's fields
+-- are only written when it's saved (Continue), and its entry is dropped
+-- then.
+--
+-- Nothing stamps step_drafts in field_provenance, so autosaves are never
+-- logged in field_changes (migration 018) and never make analyzers stale.
+-- ============================================
+
+ALTER TABLE business_projects
+ADD COLUMN IF NOT EXISTS step_drafts JSONB DEFAULT '{}';
+COMMENT ON COLUMN business_projects.step_drafts IS '📝 Unsaved onboarding answers, autosaved per step until the step is saved';
+
+-- --------------------------------------------
+-- 🎉 MIGRATION COMPLETE
+-- --------------------------------------------
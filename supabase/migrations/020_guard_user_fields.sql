@@ -0,0 +1,50 @@
+-- ============================================
+-- 🛡️ GUARD USER FIELDS MIGRATION
+-- ============================================
+-- The write policy (analyzers/provenance.ts) keeps analyzer output off
+-- values the user or a client entered, but it checks them in the app -
+-- a user can save a field between that check and the analyzer's write.
+--
+-- The provenance merge (migration 014) now checks too: an update that
+-- stamps a field as an analyzer's, over a filled value stamped 'user'
+-- or 'client', keeps the stored value and stamp for that field. The
+-- rest of the update goes through.
+-- ============================================
+
+-- --------------------------------------------
+-- 1️⃣ MERGE ON UPDATE (GUARDED)
+-- --------------------------------------------
+
+CREATE OR REPLACE FUNCTION merge_field_provenance()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old JSONB := to_jsonb(OLD);
+  v_new JSONB := to_jsonb(NEW);
+  v_incoming JSONB := COALESCE(NEW.field_provenance, '{}'::jsonb);
+  v_field TEXT;
+  v_entry JSONB;
+BEGIN
+  FOR v_field, v_entry IN
+    SELECT key, value FROM jsonb_each(v_incoming)
+  LOOP
+    CONTINUE WHEN v_entry ->> 'source' IN ('user', 'client');
+    CONTINUE WHEN COALESCE(OLD.field_provenance -> v_field ->> 'source', '') NOT IN ('user', 'client');
+    CONTINUE WHEN NOT (v_old ? v_field);
+    CONTINUE WHEN v_old -> v_field IN ('null'::jsonb, '""'::jsonb, '[]'::jsonb);
+    CONTINUE WHEN v_old -> v_field IS NOT DISTINCT FROM v_new -> v_field;
+
+    -- An analyzer writing over a person's value: keep theirs
+    NEW := jsonb_populate_record(NEW, jsonb_build_object(v_field, v_old -> v_field));
+    v_incoming := v_incoming - v_field;
+  END LOOP;
+
+  NEW.field_provenance = COALESCE(OLD.field_provenance, '{}'::jsonb) || v_incoming;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION merge_field_provenance IS '🏷️ Merge new provenance entries into the stored ones, keeping user-entered values from analyzers';
+
+-- --------------------------------------------
+-- 🎉 MIGRATION COMPLETE
+-- --------------------------------------------
@@ -0,0 +1,42 @@
+-- ============================================
+-- 📝 MERGE STEP DRAFTS MIGRATION
+-- ============================================
+-- An autosave used to send the project's whole step_drafts, built from
+-- what that tab had loaded - so two steps autosaving together (another
+-- tab, another editor) dropped each other's drafts.
+--
+-- Writers now send only the steps they touch, like field_provenance
+-- (migration 014), and the trigger below merges them into the stored
+-- ones:
+--   { "story": { "values": { ... }, "saved_at": "..." } }  sets a step
+--   { "story": null }                                      drops it
+-- ============================================
+
+-- --------------------------------------------
+-- 1️⃣ MERGE ON UPDATE
+-- --------------------------------------------
+
+CREATE OR REPLACE FUNCTION merge_step_drafts()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT COALESCE(jsonb_object_agg(key, value), '{}'::jsonb)
+  INTO NEW.step_drafts
+  FROM jsonb_each(
+    COALESCE(OLD.step_drafts, '{}'::jsonb) || COALESCE(NEW.step_drafts, '{}'::jsonb)
+  )
+  WHERE value <> 'null'::jsonb;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION merge_step_drafts IS '📝 Merge the steps an update sets (or drops, with null) into the stored drafts';
+
+DROP TRIGGER IF EXISTS projects_merge_step_drafts ON business_projects;
+CREATE TRIGGER projects_merge_step_drafts
+  BEFORE UPDATE OF step_drafts ON business_projects
+  FOR EACH ROW EXECUTE FUNCTION merge_step_drafts();
+
+-- --------------------------------------------
+-- 🎉 MIGRATION COMPLETE
+-- --------------------------------------------